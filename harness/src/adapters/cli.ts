@@ -1,9 +1,11 @@
 import type { CommunicationProvider, ChannelMessage, PluginManifest, InboundHandler } from '../comms.js';
+import readline from 'node:readline';
 import { logger } from '../logger.js';
+import { getApprovalBroker } from '../approvals.js';
 
-/** Minimal set: lifecycle events + results + warnings/errors + questions. No verbose SDK stream events. */
+/** Minimal set: lifecycle events + results + warnings/errors + questions + approval requests. No verbose SDK stream events. */
 const MINIMAL_TYPES: ReadonlySet<ChannelMessage['type']> = new Set([
-  'lifecycle', 'question', 'result', 'warning', 'error',
+  'lifecycle', 'question', 'result', 'warning', 'error', 'approval_request',
 ]);
 
 export class CliAdapter implements CommunicationProvider {
@@ -19,6 +21,9 @@ export class CliAdapter implements CommunicationProvider {
 
   private handler: InboundHandler | undefined;
 
+  /** `interactive` prompts on stdin for approval requests; otherwise they are only logged. */
+  constructor(private readonly options: { interactive?: boolean } = {}) {}
+
   async start(): Promise<void> { /* no-op — stateless */ }
   async stop(): Promise<void> { /* no-op — stateless */ }
   isReady(): boolean { return true; }
@@ -30,6 +35,24 @@ export class CliAdapter implements CommunicationProvider {
   async send(msg: ChannelMessage): Promise<void> {
     const prefix = msg.type === 'result' ? '' : `[${msg.type}] `;
     logger.info({ from: msg.from, type: msg.type }, `${prefix}${msg.from}: ${msg.content}`);
+
+    const approvalId = msg.metadata?.['approvalId'];
+    if (msg.type === 'approval_request' && this.options.interactive && typeof approvalId === 'string') {
+      void this.promptApproval(approvalId);
+    }
+  }
+
+  private async promptApproval(approvalId: string): Promise<void> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    const answer = await new Promise<string>((resolve) => {
+      rl.question('Approve? [y/N] ', resolve);
+      rl.once('close', () => resolve(''));
+    });
+    rl.close();
+    const approved = /^y(es)?$/i.test(answer.trim());
+    if (!getApprovalBroker().resolve(approvalId, approved, 'cli')) {
+      logger.info({ approvalId }, 'approval already answered or expired');
+    }
   }
 
   async setStatus(channelId: string, status: 'received' | 'working' | 'completed' | 'failed'): Promise<void> {
@@ -3,6 +3,7 @@ import type { CommunicationProvider, ChannelMessage, PluginManifest, InboundHand
 import type { BotMessageQueue } from '../bot-queue.js';
 import type { BotDefinition } from '../types.js';
 import { logger } from '../logger.js';
+import { getApprovalBroker } from '../approvals.js';
 
 // ── Slack Etiquette Skill ────────────────────────────────────
 
@@ -61,11 +62,29 @@ type SlackBotInstance = {
 
 // ── SlackAdapter ─────────────────────────────────────────────────
 
-/** Minimal set: lifecycle events + results + warnings/errors + questions. */
+/** Minimal set: lifecycle events + results + warnings/errors + questions + approval requests. */
 const MINIMAL_TYPES: ReadonlySet<ChannelMessage['type']> = new Set([
-  'lifecycle', 'question', 'result', 'warning', 'error',
+  'lifecycle', 'question', 'result', 'warning', 'error', 'approval_request',
 ]);
 
+const APPROVE_ACTION = 'collabot_approve';
+const DENY_ACTION = 'collabot_deny';
+
+/** Block Kit message with Approve/Deny buttons. Button values carry the approval ID. */
+export function buildApprovalBlocks(text: string, approvalId: string): Record<string, unknown>[] {
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      block_id: `collabot_approval_${approvalId}`,
+      elements: [
+        { type: 'button', action_id: APPROVE_ACTION, style: 'primary', text: { type: 'plain_text', text: 'Approve' }, value: approvalId },
+        { type: 'button', action_id: DENY_ACTION, style: 'danger', text: { type: 'plain_text', text: 'Deny' }, value: approvalId },
+      ],
+    },
+  ];
+}
+
 export class SlackAdapter implements CommunicationProvider {
   readonly name = 'slack';
   readonly manifest: PluginManifest = {
@@ -147,6 +166,25 @@ export class SlackAdapter implements CommunicationProvider {
         });
       });
 
+      // Approval buttons — answer the pending request and replace the buttons with the outcome
+      for (const actionId of [APPROVE_ACTION, DENY_ACTION]) {
+        app.action(actionId, async ({ ack, action, body, respond }) => {
+          await ack();
+          const approvalId = 'value' in action ? action.value : undefined;
+          if (!approvalId) return;
+
+          const approved = actionId === APPROVE_ACTION;
+          const user = body.user.id;
+          const request = getApprovalBroker().resolve(approvalId, approved, `slack:${user}`);
+          logger.info({ botName, user, approvalId, approved, found: request !== undefined }, 'slack approval response');
+
+          const outcome = request
+            ? `${approved ? '\u2705 Approved' : '\u274C Denied'} by <@${user}>: ${request.tool} \`${request.target}\``
+            : 'This approval request has already been answered or has expired.';
+          await respond({ replace_original: true, text: outcome });
+        });
+      }
+
       app.error(async (error) => {
         logger.error({ err: error, botName }, 'Slack bot app error');
       });
@@ -204,9 +242,11 @@ export class SlackAdapter implements CommunicationProvider {
     const { channel } = decodeSlackChannelId(msg.channelId);
 
     try {
+      const approvalId = msg.type === 'approval_request' ? msg.metadata?.['approvalId'] as string | undefined : undefined;
       await instance.app.client.chat.postMessage({
         channel,
         text: msg.content,
+        ...(approvalId ? { blocks: buildApprovalBlocks(msg.content, approvalId) } : {}),
       });
     } catch (err) {
       logger.error({ err, channelId: msg.channelId, botName: instance.botName }, 'SlackAdapter: failed to send message');
@@ -0,0 +1,413 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AbortError } from '@anthropic-ai/claude-agent-sdk';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  ScriptedEngine,
+  ClaudeSdkEngine,
+  loadScript,
+  getAgentEngine,
+  setAgentEngine,
+  configureAgentEngine,
+  type ScriptStep,
+} from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getCostLedger } from './costs.js';
+import { getProjectTasksDir } from './project.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+// ── Fixture builders ────────────────────────────────────────────
+
+const SESSION_ID = 'scripted-session';
+
+function init(): SDKMessage {
+  return { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-scripted' } as unknown as SDKMessage;
+}
+
+function assistant(id: string, content: unknown[], outputTokens = 10): SDKMessage {
+  return {
+    type: 'assistant',
+    session_id: SESSION_ID,
+    parent_tool_use_id: null,
+    message: {
+      id,
+      role: 'assistant',
+      content,
+      usage: { input_tokens: 100, output_tokens: outputTokens, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  } as unknown as SDKMessage;
+}
+
+function toolResult(toolUseId: string, isError = false, content = 'ok'): SDKMessage {
+  return {
+    type: 'user',
+    session_id: SESSION_ID,
+    parent_tool_use_id: null,
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: toolUseId, is_error: isError, content }] },
+  } as unknown as SDKMessage;
+}
+
+function success(result = ''): SDKMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    session_id: SESSION_ID,
+    result,
+    is_error: false,
+    num_turns: 1,
+    duration_ms: 5,
+    duration_api_ms: 5,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 100, output_tokens: 10, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  } as unknown as SDKMessage;
+}
+
+async function drain(iterable: AsyncIterable<SDKMessage>): Promise<SDKMessage[]> {
+  const out: SDKMessage[] = [];
+  for await (const msg of iterable) out.push(msg);
+  return out;
+}
+
+// ── ScriptedEngine ──────────────────────────────────────────────
+
+describe('ScriptedEngine', () => {
+  test('yields scripted messages in order and records the call', async () => {
+    const engine = new ScriptedEngine([init(), success('done')]);
+    const messages = await drain(engine.query({ prompt: 'hi', options: {} }));
+
+    assert.deepEqual(messages.map(m => m.type), ['system', 'result']);
+    assert.equal(engine.calls.length, 1);
+    assert.equal(engine.calls[0]!.prompt, 'hi');
+    assert.equal(engine.manifest.providerType, 'agent-engine');
+  });
+
+  test('replays the full script for every query', async () => {
+    const engine = new ScriptedEngine([init()]);
+    await drain(engine.query({ prompt: 'a', options: {} }));
+    const second = await drain(engine.query({ prompt: 'b', options: {} }));
+
+    assert.equal(second.length, 1);
+    assert.equal(engine.calls.length, 2);
+  });
+
+  test('$error directive throws', async () => {
+    const engine = new ScriptedEngine([init(), { $error: 'subprocess died' }]);
+    await assert.rejects(drain(engine.query({ prompt: 'x', options: {} })), /subprocess died/);
+  });
+
+  test('$delayMs directive is interrupted by abort with AbortError', async () => {
+    const controller = new AbortController();
+    const engine = new ScriptedEngine([init(), { $delayMs: 10_000 }, success()]);
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 20);
+
+    await assert.rejects(
+      drain(engine.query({ prompt: 'x', options: { abortController: controller } })),
+      (err: unknown) => err instanceof AbortError,
+    );
+    assert.ok(Date.now() - started < 5_000);
+  });
+
+  test('throws AbortError on the next message after abort', async () => {
+    const controller = new AbortController();
+    const engine = new ScriptedEngine([init(), success()]);
+    const seen: SDKMessage[] = [];
+
+    await assert.rejects(async () => {
+      for await (const msg of engine.query({ prompt: 'x', options: { abortController: controller } })) {
+        seen.push(msg);
+        controller.abort();
+      }
+    }, (err: unknown) => err instanceof AbortError);
+    assert.equal(seen.length, 1);
+  });
+});
+
+describe('loadScript', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-fixture-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reads JSONL fixtures, skipping blank lines', () => {
+    const file = path.join(tmpDir, 'run.jsonl');
+    fs.writeFileSync(file, `${JSON.stringify(init())}\n\n${JSON.stringify({ $delayMs: 5 })}\n`);
+    const steps = loadScript(file);
+    assert.equal(steps.length, 2);
+    assert.deepEqual(steps[1], { $delayMs: 5 });
+  });
+
+  test('reads JSON array and { messages } fixtures', () => {
+    const arrayFile = path.join(tmpDir, 'array.json');
+    fs.writeFileSync(arrayFile, JSON.stringify([init(), success()]));
+    assert.equal(loadScript(arrayFile).length, 2);
+
+    const objectFile = path.join(tmpDir, 'object.json');
+    fs.writeFileSync(objectFile, JSON.stringify({ messages: [init()] }));
+    assert.equal(loadScript(objectFile).length, 1);
+  });
+
+  test('rejects malformed and missing fixtures', () => {
+    const bad = path.join(tmpDir, 'bad.json');
+    fs.writeFileSync(bad, JSON.stringify({ steps: [] }));
+    assert.throws(() => loadScript(bad), /Invalid engine fixture/);
+    assert.throws(() => loadScript(path.join(tmpDir, 'missing.jsonl')), /Failed to read engine fixture/);
+  });
+});
+
+describe('agent engine registry', () => {
+  afterEach(() => setAgentEngine(undefined));
+
+  test('defaults to the Claude SDK engine', () => {
+    setAgentEngine(undefined);
+    assert.ok(getAgentEngine() instanceof ClaudeSdkEngine);
+  });
+
+  test('configureAgentEngine installs a scripted engine from config', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-config-'));
+    try {
+      const fixture = path.join(tmpDir, 'demo.jsonl');
+      fs.writeFileSync(fixture, `${JSON.stringify(init())}\n`);
+      configureAgentEngine({ engine: { provider: 'scripted', fixture } } as Config);
+      assert.ok(getAgentEngine() instanceof ScriptedEngine);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test('configureAgentEngine requires a fixture for the scripted engine', () => {
+    assert.throws(
+      () => configureAgentEngine({ engine: { provider: 'scripted' } } as Config),
+      /engine\.fixture is required/,
+    );
+  });
+});
+
+// ── collabDispatch with a scripted engine ──────────────────────
+
+describe('collabDispatch — scripted engine', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-repo-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    setAgentEngine(undefined);
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function makeCtx(overrides?: { stallTimeoutSeconds?: number; tokenBudget?: number }): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('researcher', {
+      id: '01TESTROLE00000000000000000',
+      version: '1.0.0',
+      name: 'researcher',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You are a researcher.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', {
+      name: 'demo',
+      description: 'Scripted demo project',
+      paths: [repoDir],
+      roles: ['researcher'],
+    });
+
+    return {
+      config: {
+        models: { default: 'claude-sonnet-4-6', aliases: {} },
+        defaults: {
+          stallTimeoutSeconds: overrides?.stallTimeoutSeconds ?? 300,
+          dispatchTimeoutMs: 0,
+          tokenBudget: overrides?.tokenBudget ?? 0,
+          tokenBudgetWarnPercent: 80,
+          maxBudgetUsd: 0,
+        },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted' },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  async function run(steps: ScriptStep[], ctxOverrides?: Parameters<typeof makeCtx>[0]) {
+    const engine = new ScriptedEngine(steps);
+    setAgentEngine(engine);
+    const result = await collabDispatch({ project: 'demo', role: 'researcher', prompt: 'Investigate.' }, makeCtx(ctxOverrides));
+    const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+    const events = getDispatchStore().getDispatchEvents(taskDir, result.dispatchId);
+    const envelope = getDispatchStore().getDispatchEnvelope(taskDir, result.dispatchId);
+    return { engine, result, events, envelope };
+  }
+
+  test('captures structured output and events from a successful run', async () => {
+    const structured = { status: 'success', summary: 'Found it.', changes: ['src/a.ts'] };
+    const { engine, result, events, envelope } = await run([
+      init(),
+      assistant('msg-1', [{ type: 'text', text: 'Looking around.' }, { type: 'tool_use', id: 'tu-1', name: 'Read', input: { file_path: '/repo/a.ts' } }]),
+      toolResult('tu-1'),
+      assistant('msg-2', [{ type: 'tool_use', id: 'tu-2', name: 'StructuredOutput', input: structured }]),
+      toolResult('tu-2'),
+      success(),
+    ]);
+
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(result.structuredResult, structured);
+    assert.equal(envelope?.status, 'completed');
+
+    const types = events.map(e => e.type);
+    assert.deepEqual(types, [
+      'session:init',
+      'agent:text',
+      'agent:tool_call',
+      'agent:tool_result',
+      'session:complete',
+    ]);
+    assert.equal(engine.calls[0]!.options.cwd, repoDir);
+    assert.ok(engine.calls[0]!.options.outputFormat, 'structured output requested');
+  });
+
+  test('runs in the repo the options select and records it as the envelope cwd', async () => {
+    const otherRepo = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-other-repo-'));
+    try {
+      const engine = new ScriptedEngine([init(), success()]);
+      setAgentEngine(engine);
+      const ctx = makeCtx();
+      ctx.projects.set('demo', { ...ctx.projects.get('demo')!, paths: [repoDir, otherRepo] });
+      const result = await collabDispatch({ project: 'demo', role: 'researcher', prompt: 'Investigate.', repo: otherRepo }, ctx);
+      const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+
+      assert.equal(engine.calls[0]!.options.cwd, otherRepo);
+      assert.equal(getDispatchStore().getDispatchEnvelope(taskDir, result.dispatchId)?.cwd, otherRepo);
+    } finally {
+      fs.rmSync(otherRepo, { recursive: true, force: true });
+    }
+  });
+
+  test('kills a repeating tool loop and reports aborted', async () => {
+    const steps: ScriptStep[] = [init()];
+    for (let i = 0; i < 6; i++) {
+      steps.push(assistant(`msg-${i}`, [{ type: 'tool_use', id: `tu-${i}`, name: 'Bash', input: { command: 'npm test' } }]));
+      steps.push(toolResult(`tu-${i}`));
+    }
+    steps.push(success());
+
+    const { result, events } = await run(steps);
+    const types = events.map(e => e.type);
+
+    assert.equal(result.status, 'aborted');
+    assert.ok(types.includes('harness:loop_warning'));
+    assert.ok(types.includes('harness:loop_kill'));
+    assert.equal(types.at(-1), 'session:complete');
+  });
+
+  test('aborts a stalled agent with a stall event', async () => {
+    const { result, events } = await run(
+      [init(), { $delayMs: 5_000 }, success()],
+      { stallTimeoutSeconds: 0.05 },
+    );
+
+    assert.equal(result.status, 'aborted');
+    assert.ok(events.some(e => e.type === 'harness:stall'));
+  });
+
+  test('stops at the token budget with budget_exceeded', async () => {
+    const { result, events, envelope } = await run(
+      [
+        init(),
+        assistant('msg-1', [{ type: 'text', text: 'Working.' }], 300),
+        assistant('msg-2', [{ type: 'text', text: 'Still working.' }], 300),
+        success(),
+      ],
+      { tokenBudget: 500 },
+    );
+
+    assert.equal(result.status, 'budget_exceeded');
+    assert.equal(envelope?.status, 'budget_exceeded');
+    assert.ok(events.some(e => e.type === 'harness:budget_warning'));
+    assert.ok(events.some(e => e.type === 'harness:budget_exceeded'));
+  });
+
+  test('records an estimated ledger entry for a dispatch aborted before its result', async () => {
+    const { result } = await run(
+      [
+        init(),
+        assistant('msg-1', [{ type: 'text', text: 'Working.' }], 300),
+        assistant('msg-2', [{ type: 'text', text: 'Still working.' }], 300),
+        success(),
+      ],
+      { tokenBudget: 500 },
+    );
+
+    const entry = getCostLedger().list().find(e => e.dispatchId === result.dispatchId);
+    assert.equal(result.status, 'budget_exceeded');
+    assert.equal(entry?.estimated, true);
+    assert.equal(entry?.inputTokens, 200);
+    assert.equal(entry?.outputTokens, 600);
+    assert.equal(entry?.tokens, 700);
+    assert.ok(Math.abs(entry!.usd - 0.0096) < 1e-9, 'an unknown model prices as sonnet');
+  });
+
+  test('counts the context once across a multi-turn stream', async () => {
+    // Five turns re-sending a 100-token context: 100 + 5 × 10 output, not 5 × 110
+    const steps: ScriptStep[] = [init()];
+    for (let i = 0; i < 5; i++) {
+      steps.push(assistant(`msg-${i}`, [{ type: 'text', text: `Turn ${i}.` }]));
+    }
+    steps.push(success());
+
+    const { result, events } = await run(steps, { tokenBudget: 300 });
+
+    assert.equal(result.status, 'completed');
+    assert.ok(!events.some(e => e.type === 'harness:budget_warning' || e.type === 'harness:budget_exceeded'));
+  });
+
+  test('surfaces a scripted crash as crashed', async () => {
+    const { result, events } = await run([init(), { $error: 'boom' }]);
+
+    assert.equal(result.status, 'crashed');
+    assert.match(result.result ?? '', /boom/);
+    assert.ok(events.some(e => e.type === 'harness:error'));
+  });
+});
@@ -0,0 +1,191 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { query, AbortError } from '@anthropic-ai/claude-agent-sdk';
+import type { Options, SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { getInstancePath } from './paths.js';
+import type { Config } from './config.js';
+import type { PluginManifest } from './comms.js';
+
+// ── AgentEngineProvider interface ────────────────────────────────
+
+/** Parameters for a single agent run — the shape the SDK's query() accepts. */
+export type AgentQueryParams = {
+  prompt: string;
+  options: Options;
+};
+
+/**
+ * The engine that runs an agent and streams SDK-shaped messages back.
+ * Dispatch code consumes the stream without knowing whether a live model,
+ * a replay, or a scripted fixture is on the other end.
+ */
+export interface AgentEngineProvider {
+  readonly manifest: PluginManifest;
+  query(params: AgentQueryParams): AsyncIterable<SDKMessage>;
+}
+
+// ── ClaudeSdkEngine ─────────────────────────────────────────────
+
+export class ClaudeSdkEngine implements AgentEngineProvider {
+  readonly manifest: PluginManifest = {
+    id: 'collabot.agent-engine.claude-sdk',
+    name: 'Claude Agent SDK Engine',
+    version: '1.0.0',
+    description: 'Runs agents through the Claude Agent SDK (Claude Code CLI subprocess).',
+    providerType: 'agent-engine',
+  };
+
+  query(params: AgentQueryParams): AsyncIterable<SDKMessage> {
+    return query(params);
+  }
+}
+
+// ── ScriptedEngine ──────────────────────────────────────────────
+
+/**
+ * One step of a script. Either an SDK message to emit verbatim, or a directive:
+ *   { "$delayMs": 500 }          — pause before the next step (abortable)
+ *   { "$error": "message" }      — throw, as if the SDK subprocess crashed
+ */
+export type ScriptStep = SDKMessage | { $delayMs: number } | { $error: string };
+
+/**
+ * Load a script fixture. `.jsonl` files hold one step per line; `.json` files
+ * hold either an array of steps or `{ "messages": [...] }`.
+ */
+export function loadScript(fixturePath: string): ScriptStep[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(fixturePath, 'utf-8');
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to read engine fixture (${fixturePath}): ${msg}`);
+  }
+
+  try {
+    if (fixturePath.endsWith('.jsonl')) {
+      return content.split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => JSON.parse(line) as ScriptStep);
+    }
+    const parsed = JSON.parse(content) as ScriptStep[] | { messages?: ScriptStep[] };
+    const steps = Array.isArray(parsed) ? parsed : parsed.messages;
+    if (!Array.isArray(steps)) {
+      throw new Error('expected an array of steps or { "messages": [...] }');
+    }
+    return steps;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid engine fixture (${fixturePath}): ${msg}`);
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Offline engine — replays a fixed script of SDK messages for every query.
+ * Honors the caller's abortController the same way the SDK does (AbortError
+ * on the next message after abort), so harness interventions behave as in
+ * a live run. Every query is recorded in `calls` for inspection. When the
+ * caller passes `canUseTool`, each scripted tool_use block is run through it
+ * after its assistant message, as the SDK does before executing a tool —
+ * the decision is not applied to the script.
+ */
+export class ScriptedEngine implements AgentEngineProvider {
+  readonly manifest: PluginManifest = {
+    id: 'collabot.agent-engine.scripted',
+    name: 'Scripted Agent Engine',
+    version: '1.0.0',
+    description: 'Replays SDK-shaped messages from a fixture file — no model, no network.',
+    providerType: 'agent-engine',
+  };
+
+  readonly calls: AgentQueryParams[] = [];
+  private readonly steps: ScriptStep[];
+
+  constructor(source: string | ScriptStep[]) {
+    this.steps = typeof source === 'string' ? loadScript(source) : source;
+  }
+
+  async *query(params: AgentQueryParams): AsyncGenerator<SDKMessage, void> {
+    this.calls.push(params);
+    const signal = params.options.abortController?.signal;
+
+    for (const step of this.steps) {
+      if (signal?.aborted) throw new AbortError();
+
+      if ('$delayMs' in step) {
+        await sleep(step.$delayMs, signal);
+      } else if ('$error' in step) {
+        throw new Error(step.$error);
+      } else {
+        yield step;
+        await this.checkPermissions(step, params, signal);
+      }
+    }
+
+    if (signal?.aborted) throw new AbortError();
+  }
+
+  private async checkPermissions(msg: SDKMessage, params: AgentQueryParams, signal: AbortSignal | undefined): Promise<void> {
+    const canUseTool = params.options.canUseTool;
+    if (!canUseTool || msg.type !== 'assistant') return;
+    for (const block of msg.message.content) {
+      if (block.type !== 'tool_use') continue;
+      await canUseTool(block.name, block.input as Record<string, unknown>, {
+        signal: signal ?? new AbortController().signal,
+        toolUseID: block.id,
+      });
+    }
+  }
+}
+
+// ── Singleton ───────────────────────────────────────────────────
+
+let _engine: AgentEngineProvider | undefined;
+
+export function getAgentEngine(): AgentEngineProvider {
+  if (!_engine) {
+    _engine = new ClaudeSdkEngine();
+  }
+  return _engine;
+}
+
+/** Replace the active engine. Pass undefined to fall back to the Claude SDK engine. */
+export function setAgentEngine(engine: AgentEngineProvider | undefined): void {
+  _engine = engine;
+}
+
+/**
+ * Install the engine selected by config.toml `[engine]`.
+ * A relative fixture path resolves against the instance root.
+ */
+export function configureAgentEngine(config: Config): void {
+  if (config.engine.provider === 'scripted') {
+    const fixture = config.engine.fixture;
+    if (!fixture) {
+      throw new Error('engine.fixture is required when engine.provider = "scripted"');
+    }
+    const fixturePath = path.isAbsolute(fixture) ? fixture : getInstancePath(fixture);
+    setAgentEngine(new ScriptedEngine(fixturePath));
+  } else {
+    setAgentEngine(new ClaudeSdkEngine());
+  }
+}
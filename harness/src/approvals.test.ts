@@ -0,0 +1,271 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  parseApprovalRule,
+  ApprovalRuleSchema,
+  matchApprovalRule,
+  ApprovalBroker,
+  createApprovalGate,
+  getApprovalBroker,
+  type ApprovalRequest,
+} from './approvals.js';
+import { ScriptedEngine, setAgentEngine } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getProjectTasksDir } from './project.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { EventType, RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+// ── Rules ───────────────────────────────────────────────────────
+
+describe('approval rules', () => {
+  test('parses Tool and Tool(pattern)', () => {
+    assert.deepEqual(parseApprovalRule('Bash'), { tool: 'Bash' });
+    assert.deepEqual(parseApprovalRule('Bash(git push*)'), { tool: 'Bash', pattern: 'git push*' });
+    assert.deepEqual(parseApprovalRule('mcp__github__*'), { tool: 'mcp__github__*' });
+    assert.throws(() => parseApprovalRule('Bash(git push'), /Invalid approval rule/);
+  });
+
+  test('schema rejects malformed rules and invalid regex patterns', () => {
+    assert.ok(ApprovalRuleSchema.safeParse('Write(*.env)').success);
+    assert.ok(!ApprovalRuleSchema.safeParse('Bash git push').success);
+    assert.ok(!ApprovalRuleSchema.safeParse('Bash(/[unclosed/)').success);
+  });
+
+  test('matches Bash by full command and file tools by path', () => {
+    const rules = ['Bash(git push*)', 'Write(*.env)', 'mcp__github__*'];
+    assert.equal(matchApprovalRule(rules, 'Bash', { command: 'git push origin main' }), 'Bash(git push*)');
+    assert.equal(matchApprovalRule(rules, 'Bash', { command: 'git status' }), undefined);
+    assert.equal(matchApprovalRule(rules, 'Write', { file_path: '/repo/.env' }), 'Write(*.env)');
+    assert.equal(matchApprovalRule(rules, 'Write', { file_path: '/repo/src/app.ts' }), undefined);
+    assert.equal(matchApprovalRule(rules, 'mcp__github__create_pr', {}), 'mcp__github__*');
+    assert.equal(matchApprovalRule(rules, 'Read', { file_path: '/repo/.env' }), undefined);
+  });
+});
+
+// ── Broker ──────────────────────────────────────────────────────
+
+describe('ApprovalBroker', () => {
+  const fields = { role: 'dev', tool: 'Bash', target: 'git push', rule: 'Bash(git push*)', timeoutMs: 60000 };
+
+  test('resolve settles the request once and removes it', async () => {
+    const broker = new ApprovalBroker();
+    const { request, outcome } = broker.open(fields);
+    assert.equal(broker.list().length, 1);
+
+    assert.equal(broker.resolve(request.approvalId, true, 'cli')?.approvalId, request.approvalId);
+    assert.deepEqual(await outcome, { decision: 'approved', by: 'cli', reason: undefined });
+    assert.equal(broker.list().length, 0);
+    assert.equal(broker.resolve(request.approvalId, false), undefined);
+  });
+
+  test('unanswered requests time out', async () => {
+    const broker = new ApprovalBroker();
+    const { outcome } = broker.open({ ...fields, timeoutMs: 10 });
+    assert.deepEqual(await outcome, { decision: 'timed_out' });
+    assert.equal(broker.list().length, 0);
+  });
+
+  test('an aborted dispatch denies its pending request', async () => {
+    const broker = new ApprovalBroker();
+    const controller = new AbortController();
+    const { outcome } = broker.open(fields, controller.signal);
+    controller.abort();
+    assert.deepEqual(await outcome, { decision: 'denied', reason: 'dispatch aborted' });
+  });
+});
+
+// ── Gate ────────────────────────────────────────────────────────
+
+describe('createApprovalGate', () => {
+  function makeGate(onTimeout: 'deny' | 'allow', answer?: (request: ApprovalRequest, broker: ApprovalBroker) => void) {
+    const broker = new ApprovalBroker();
+    const events: Array<{ type: EventType; data: Record<string, unknown> }> = [];
+    const gate = createApprovalGate({
+      rules: ['Bash(git push*)'],
+      timeoutMs: 20,
+      onTimeout,
+      role: 'dev',
+      emitEvent: (type, data) => events.push({ type, data }),
+      notify: answer ? (request) => answer(request, broker) : undefined,
+      broker,
+    });
+    const run = (command: string) => gate('Bash', { command }, { signal: new AbortController().signal, toolUseID: 't1' });
+    return { run, events };
+  }
+
+  test('calls matching no rule pass without a request', async () => {
+    const { run, events } = makeGate('deny');
+    assert.equal((await run('git status')).behavior, 'allow');
+    assert.equal(events.length, 0);
+  });
+
+  test('an approved call is allowed and both events are captured', async () => {
+    const { run, events } = makeGate('deny', (request, broker) => broker.resolve(request.approvalId, true, 'slack:U1'));
+    assert.equal((await run('git push')).behavior, 'allow');
+    assert.deepEqual(events.map(e => e.type), ['harness:approval_request', 'harness:approval_decision']);
+    assert.equal(events[1]?.data['decision'], 'approved');
+    assert.equal(events[1]?.data['by'], 'slack:U1');
+  });
+
+  test('a denied call returns the reason to the agent', async () => {
+    const { run } = makeGate('allow', (request, broker) => broker.resolve(request.approvalId, false, 'ws', 'release freeze'));
+    const result = await run('git push --force');
+    assert.equal(result.behavior, 'deny');
+    assert.match(result.behavior === 'deny' ? result.message : '', /denied by ws: release freeze/);
+  });
+
+  test('a timeout follows onTimeout', async () => {
+    const denied = makeGate('deny');
+    assert.equal((await denied.run('git push')).behavior, 'deny');
+    assert.equal(denied.events[1]?.data['decision'], 'timed_out');
+    assert.equal(denied.events[1]?.data['allowed'], false);
+
+    const allowed = makeGate('allow');
+    assert.equal((await allowed.run('git push')).behavior, 'allow');
+    assert.equal(allowed.events[1]?.data['allowed'], true);
+  });
+});
+
+// ── collabDispatch gate ─────────────────────────────────────────
+
+const SESSION_ID = 'approval-session';
+
+function init(): SDKMessage {
+  return { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-sonnet-4-6' } as unknown as SDKMessage;
+}
+
+function toolUse(command: string): SDKMessage {
+  return {
+    type: 'assistant',
+    session_id: SESSION_ID,
+    message: { content: [{ type: 'tool_use', id: 'tu-1', name: 'Bash', input: { command } }] },
+  } as unknown as SDKMessage;
+}
+
+function success(): SDKMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    session_id: SESSION_ID,
+    result: 'done',
+    is_error: false,
+    num_turns: 1,
+    duration_ms: 5,
+    duration_api_ms: 5,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  } as unknown as SDKMessage;
+}
+
+describe('collabDispatch — approval gate', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-repo-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(requireApproval?: string[]): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('releaser', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'releaser',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You ship releases.',
+      modelHint: 'sonnet-latest',
+      ...(requireApproval ? { requireApproval } : {}),
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', { name: 'demo', description: 'Approval project', paths: [repoDir], roles: ['releaser'] });
+
+    return {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+        approvals: { timeoutSeconds: 60, onTimeout: 'deny' },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  test('holds matching tool calls until answered and records the decision', async () => {
+    const engine = new ScriptedEngine([init(), toolUse('git push origin main'), success()]);
+    setAgentEngine(engine);
+    const requests: ApprovalRequest[] = [];
+
+    const result = await collabDispatch({
+      project: 'demo',
+      role: 'releaser',
+      prompt: 'Ship it.',
+      onApprovalRequest: (request) => {
+        requests.push(request);
+        getApprovalBroker().resolve(request.approvalId, true, 'cli');
+      },
+    }, makeCtx(['Bash(git push*)']));
+
+    assert.equal(result.status, 'completed');
+    assert.equal(engine.calls[0]?.options.permissionMode, 'default');
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0]?.target, 'git push origin main');
+    assert.equal(requests[0]?.dispatchId, result.dispatchId);
+
+    const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+    const events = getDispatchStore().getDispatchEvents(taskDir, result.dispatchId!);
+    const decision = events.find(e => e.type === 'harness:approval_decision');
+    assert.ok(events.some(e => e.type === 'harness:approval_request'));
+    assert.equal(decision?.data?.['decision'], 'approved');
+    assert.equal(decision?.data?.['by'], 'cli');
+  });
+
+  test('roles without rules keep bypassPermissions', async () => {
+    const engine = new ScriptedEngine([init(), toolUse('git push'), success()]);
+    setAgentEngine(engine);
+
+    await collabDispatch({ project: 'demo', role: 'releaser', prompt: 'Ship it.' }, makeCtx());
+
+    assert.equal(engine.calls[0]?.options.permissionMode, 'bypassPermissions');
+    assert.equal(engine.calls[0]?.options.canUseTool, undefined);
+  });
+});
@@ -0,0 +1,223 @@
+import { ulid } from 'ulid';
+import { z } from 'zod';
+import type { CanUseTool, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+import { compilePattern, validatePattern } from './routing.js';
+import { extractToolTarget } from './util.js';
+import type { EventType } from './types.js';
+
+// ── Rules ───────────────────────────────────────────────────────
+
+/**
+ * An approval rule is `Tool` or `Tool(pattern)` — e.g. `Bash(git push*)`,
+ * `Write(*.env)`, `mcp__github__*`. Tool names and patterns use routing glob
+ * syntax (`*`, `?`, case-insensitive) or `/regex/flags` for the pattern.
+ */
+export type ApprovalRule = {
+  tool: string;
+  pattern?: string;
+};
+
+const RULE_SYNTAX = /^([A-Za-z0-9_*?-]+)(?:\((.+)\))?$/s;
+
+export function parseApprovalRule(rule: string): ApprovalRule {
+  const match = RULE_SYNTAX.exec(rule.trim());
+  if (!match) {
+    throw new Error(`Invalid approval rule "${rule}" — expected "Tool" or "Tool(pattern)"`);
+  }
+  return match[2] !== undefined ? { tool: match[1]!, pattern: match[2] } : { tool: match[1]! };
+}
+
+export const ApprovalRuleSchema = z.string().min(1).superRefine((rule, ctx) => {
+  try {
+    const { pattern } = parseApprovalRule(rule);
+    const error = pattern !== undefined ? validatePattern(pattern) : undefined;
+    if (error) ctx.addIssue({ code: 'custom', message: `Invalid pattern in "${rule}": ${error}` });
+  } catch (err) {
+    ctx.addIssue({ code: 'custom', message: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+/** The value a rule pattern is matched against — the full command for Bash, the path for file tools. */
+export function approvalTarget(toolName: string, input: Record<string, unknown>): string {
+  if (toolName === 'Bash' && typeof input['command'] === 'string') return input['command'];
+  for (const key of ['file_path', 'notebook_path', 'path', 'url']) {
+    if (typeof input[key] === 'string') return input[key];
+  }
+  return extractToolTarget(toolName, input);
+}
+
+/** Return the first rule that requires approval for this tool call, or undefined. */
+export function matchApprovalRule(
+  rules: readonly string[],
+  toolName: string,
+  input: Record<string, unknown>,
+): string | undefined {
+  const target = approvalTarget(toolName, input);
+  return rules.find((rule) => {
+    const { tool, pattern } = parseApprovalRule(rule);
+    if (!compilePattern(tool).test(toolName)) return false;
+    return pattern === undefined || compilePattern(pattern).test(target);
+  });
+}
+
+// ── Broker ──────────────────────────────────────────────────────
+
+export type ApprovalRequest = {
+  approvalId: string;
+  role: string;
+  tool: string;
+  target: string;
+  rule: string;
+  dispatchId?: string;
+  taskSlug?: string;
+  botName?: string;
+  requestedAt: string;   // RFC 3339
+  timeoutMs: number;
+};
+
+export type ApprovalOutcome = {
+  decision: 'approved' | 'denied' | 'timed_out';
+  by?: string;           // who answered (e.g. 'ws', 'cli', 'slack:U123')
+  reason?: string;
+};
+
+type PendingApproval = {
+  request: ApprovalRequest;
+  settle: (outcome: ApprovalOutcome) => void;
+};
+
+/**
+ * Holds tool calls waiting on a human. Adapters answer by approval ID via
+ * `resolve()`; unanswered requests time out.
+ */
+export class ApprovalBroker {
+  private pending = new Map<string, PendingApproval>();
+
+  open(
+    fields: Omit<ApprovalRequest, 'approvalId' | 'requestedAt'>,
+    signal?: AbortSignal,
+  ): { request: ApprovalRequest; outcome: Promise<ApprovalOutcome> } {
+    const request: ApprovalRequest = {
+      ...fields,
+      approvalId: ulid(),
+      requestedAt: new Date().toISOString(),
+    };
+
+    const outcome = new Promise<ApprovalOutcome>((resolve) => {
+      const onAbort = () => settle({ decision: 'denied', reason: 'dispatch aborted' });
+      const timer = setTimeout(() => settle({ decision: 'timed_out' }), request.timeoutMs);
+
+      const settle = (result: ApprovalOutcome) => {
+        if (!this.pending.delete(request.approvalId)) return;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+
+      this.pending.set(request.approvalId, { request, settle });
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return { request, outcome };
+  }
+
+  /** Answer a pending request. Returns the request, or undefined if it is unknown or already settled. */
+  resolve(approvalId: string, approved: boolean, by?: string, reason?: string): ApprovalRequest | undefined {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return undefined;
+    entry.settle({ decision: approved ? 'approved' : 'denied', by, reason });
+    return entry.request;
+  }
+
+  list(): ApprovalRequest[] {
+    return [...this.pending.values()].map((p) => p.request);
+  }
+}
+
+let _broker: ApprovalBroker | undefined;
+
+export function getApprovalBroker(): ApprovalBroker {
+  if (!_broker) {
+    _broker = new ApprovalBroker();
+  }
+  return _broker;
+}
+
+// ── Gate ────────────────────────────────────────────────────────
+
+export type ApprovalGateOptions = {
+  rules: readonly string[];
+  timeoutMs: number;
+  onTimeout: 'deny' | 'allow';
+  role: string;
+  dispatchId?: string;
+  taskSlug?: string;
+  botName?: string;
+  emitEvent: (type: EventType, data: Record<string, unknown>) => void;
+  notify?: (request: ApprovalRequest) => void;
+  broker?: ApprovalBroker;
+};
+
+/**
+ * Build the SDK `canUseTool` callback. Tool calls matching a rule are held
+ * until a human answers (or the timeout passes); everything else is allowed.
+ * Requests and decisions are captured as `harness:approval_*` events.
+ */
+export function createApprovalGate(opts: ApprovalGateOptions): CanUseTool {
+  const broker = opts.broker ?? getApprovalBroker();
+
+  return async (toolName, input, { signal }): Promise<PermissionResult> => {
+    const rule = matchApprovalRule(opts.rules, toolName, input);
+    if (!rule) return { behavior: 'allow', updatedInput: input };
+
+    const { request, outcome } = broker.open({
+      role: opts.role,
+      tool: toolName,
+      target: approvalTarget(toolName, input),
+      rule,
+      dispatchId: opts.dispatchId,
+      taskSlug: opts.taskSlug,
+      botName: opts.botName,
+      timeoutMs: opts.timeoutMs,
+    }, signal);
+
+    opts.emitEvent('harness:approval_request', {
+      approvalId: request.approvalId,
+      tool: request.tool,
+      target: request.target,
+      rule,
+      timeoutMs: request.timeoutMs,
+    });
+    opts.notify?.(request);
+
+    const result = await outcome;
+    const allowed = result.decision === 'approved'
+      || (result.decision === 'timed_out' && opts.onTimeout === 'allow');
+
+    opts.emitEvent('harness:approval_decision', {
+      approvalId: request.approvalId,
+      tool: request.tool,
+      target: request.target,
+      rule,
+      decision: result.decision,
+      allowed,
+      ...(result.by ? { by: result.by } : {}),
+      ...(result.reason ? { reason: result.reason } : {}),
+    });
+
+    if (allowed) return { behavior: 'allow', updatedInput: input };
+
+    const message = result.decision === 'timed_out'
+      ? `No approval received within ${Math.round(request.timeoutMs / 1000)}s — ${toolName} call denied (rule ${rule}).`
+      : `${toolName} call denied${result.by ? ` by ${result.by}` : ''}${result.reason ? `: ${result.reason}` : ''} (rule ${rule}).`;
+    return { behavior: 'deny', message };
+  };
+}
+
+/** One-line human prompt for an approval request, shared by adapters. */
+export function formatApprovalRequest(request: ApprovalRequest): string {
+  const seconds = Math.round(request.timeoutMs / 1000);
+  return `Approval needed: ${request.role} wants to run ${request.tool} \`${request.target}\` `
+    + `(rule ${request.rule}). Respond within ${seconds}s. [id ${request.approvalId}]`;
+}
@@ -0,0 +1,163 @@
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import type { HookCallback, HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+import { compilePattern, validatePattern } from './routing.js';
+import type { EventType } from './types.js';
+
+// ── Policies ────────────────────────────────────────────────────
+
+/** A command pattern — routing glob syntax (`*`, `?`, case-insensitive) or `/regex/flags`. */
+export const CommandPatternSchema = z.string().min(1).superRefine((pattern, ctx) => {
+  const error = validatePattern(pattern);
+  if (error) ctx.addIssue({ code: 'custom', message: `Invalid command pattern "${pattern}": ${error}` });
+});
+
+/** `[bashPolicy]` in project.toml. */
+export const BashPolicySchema = z.object({
+  allow: z.array(CommandPatternSchema).optional(),      // set = only matching commands run
+  deny: z.array(CommandPatternSchema).optional(),       // checked first
+  confineToProject: z.boolean().optional(),             // deny paths outside the project's repos
+});
+
+export type BashPolicy = z.infer<typeof BashPolicySchema>;
+
+export type PolicySource = 'role' | 'project';
+
+export type PolicyDenial = {
+  source: PolicySource;
+  command: string;       // the full command
+  segment: string;       // the part of it that was refused
+  rule?: string;         // deny pattern that matched
+  reason: string;
+};
+
+// ── Evaluation ──────────────────────────────────────────────────
+
+/** Paths a command may always touch, even when confined to the project. */
+export const ALWAYS_ALLOWED_PATHS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr']);
+
+/**
+ * Split a command line into the simple commands it runs — on `&&`, `||`,
+ * `;`, `|`, newlines, and `$(...)` / backtick substitutions. Leading
+ * `VAR=value` assignments are dropped so `CI=1 npm test` matches `npm test*`.
+ */
+export function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|\n]|\$\(|\)|`/)
+    .map(part => part.trim().replace(/^(?:[A-Za-z_][A-Za-z0-9_]*=\S*\s+)+/, '').trim())
+    .filter(part => part.length > 0);
+}
+
+/** Resolve a path as a shell would — `~` is the home directory, relative paths start at cwd. */
+export function resolveShellPath(token: string, cwd: string): string {
+  const expanded = token === '~' || token.startsWith('~/') ? path.join(os.homedir(), token.slice(1)) : token;
+  return path.resolve(cwd, expanded);
+}
+
+/** Whether a resolved path is one of the roots or inside one. */
+export function isWithinRoots(target: string, roots: readonly string[]): boolean {
+  return roots.some(root => {
+    const rel = path.relative(path.resolve(root), target);
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+  });
+}
+
+/** The first path in a command that resolves outside every root, or undefined. */
+export function findPathOutside(segment: string, cwd: string, roots: readonly string[]): string | undefined {
+  const tokens = segment.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+  for (const raw of tokens) {
+    // `--out=/tmp/x` and `>/tmp/x` carry a path after the flag or redirect
+    const token = raw.replace(/^["']|["']$/g, '').replace(/^[^=]*=/, '').replace(/^\d?>>?|^</, '');
+    if (!token.startsWith('/') && !token.startsWith('~') && !token.split('/').includes('..')) continue;
+    if (ALWAYS_ALLOWED_PATHS.has(token)) continue;
+    if (!isWithinRoots(resolveShellPath(token, cwd), roots)) return token;
+  }
+  return undefined;
+}
+
+/**
+ * Check a Bash command against one policy. Deny patterns are checked first;
+ * with an allow list, every simple command in the line must match it.
+ */
+export function checkBashPolicy(
+  policy: BashPolicy,
+  source: PolicySource,
+  command: string,
+  ctx: { cwd: string; roots: readonly string[] },
+): PolicyDenial | undefined {
+  for (const segment of splitCommand(command)) {
+    const rule = policy.deny?.find(p => compilePattern(p).test(segment));
+    if (rule) {
+      return { source, command, segment, rule, reason: `\`${segment}\` matches the ${source} deny rule "${rule}"` };
+    }
+    if (policy.allow && !policy.allow.some(p => compilePattern(p).test(segment))) {
+      return { source, command, segment, reason: `\`${segment}\` is not in the ${source}'s allowed commands (${policy.allow.join(', ')})` };
+    }
+    if (policy.confineToProject) {
+      const outside = findPathOutside(segment, ctx.cwd, ctx.roots);
+      if (outside) {
+        return { source, command, segment, reason: `\`${outside}\` is outside the project paths` };
+      }
+    }
+  }
+  return undefined;
+}
+
+// ── Hook ────────────────────────────────────────────────────────
+
+export type BashPolicyHookOptions = {
+  policies: ReadonlyArray<{ source: PolicySource; policy: BashPolicy | undefined }>;
+  cwd: string;
+  roots: readonly string[];       // project repo paths (and the dispatch cwd)
+  emitEvent: (type: EventType, data: Record<string, unknown>) => void;
+};
+
+/** Whether any policy has something to enforce. */
+export function hasBashPolicy(policies: BashPolicyHookOptions['policies']): boolean {
+  return policies.some(({ policy }) => !!policy && (!!policy.allow || !!policy.deny?.length || !!policy.confineToProject));
+}
+
+/** Explanation returned to the agent as the tool error. */
+export function formatPolicyDenial(denial: PolicyDenial): string {
+  return `Command blocked by the ${denial.source} Bash policy: ${denial.reason}. Use an allowed command instead.`;
+}
+
+/**
+ * Build the SDK `PreToolUse` hook that checks Bash calls against role and
+ * project policies. Hooks run in every permission mode, so policies hold even
+ * when the dispatch bypasses permission prompts. Denials are captured as
+ * `harness:policy_denied` events.
+ */
+export function createBashPolicyHook(opts: BashPolicyHookOptions): HookCallbackMatcher {
+  const hook: HookCallback = async (input) => {
+    if (input.hook_event_name !== 'PreToolUse' || input.tool_name !== 'Bash') return {};
+    const command = (input.tool_input as Record<string, unknown> | null)?.['command'];
+    if (typeof command !== 'string') return {};
+
+    for (const { source, policy } of opts.policies) {
+      if (!policy) continue;
+      const denial = checkBashPolicy(policy, source, command, { cwd: input.cwd || opts.cwd, roots: opts.roots });
+      if (!denial) continue;
+
+      opts.emitEvent('harness:policy_denied', {
+        tool: 'Bash',
+        source: denial.source,
+        command: denial.command,
+        segment: denial.segment,
+        ...(denial.rule ? { rule: denial.rule } : {}),
+        reason: denial.reason,
+      });
+      return {
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: formatPolicyDenial(denial),
+        },
+      };
+    }
+    return {};
+  };
+
+  return { matcher: 'Bash', hooks: [hook] };
+}
@@ -7,6 +7,10 @@ import { BotSessionManager } from './bot-session.js';
 import type { BotSession } from './bot-session.js';
 import { assembleBotPrompt } from './prompts.js';
 import { AgentPool } from './pool.js';
+import { ScriptedEngine, setAgentEngine, type AgentEngineProvider, type AgentQueryParams, type ScriptStep } from './agent-engine.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import type { RoleDefinition, BotDefinition } from './types.js';
 
 // BotSession type in tests needs new fields for backward compat
@@ -521,3 +525,135 @@ test('BotSessionManager.loadSessions re-registers sessions in pool', () => {
   const agents = pool.list();
   assert.strictEqual(agents[0]!.role, 'ts-dev');
 });
+
+// --- Model fallback ---
+
+test('BotSessionManager re-runs a failed turn on the next fallback model', async () => {
+  const homeDir = path.join(tmpDir, 'home');
+  fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+  fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+  const prevHome = process.env.COLLABOT_HOME;
+  process.env.COLLABOT_HOME = homeDir;
+  _resetInstanceRoot();
+
+  const init = { type: 'system', subtype: 'init', session_id: 's', model: 'm' } as unknown as SDKMessage;
+  const apiError = {
+    type: 'assistant',
+    session_id: 's',
+    parent_tool_use_id: null,
+    error: 'rate_limit',
+    message: { id: 'a1', role: 'assistant', content: [], usage: { input_tokens: 0, output_tokens: 0 } },
+  } as unknown as SDKMessage;
+  const success = {
+    type: 'result', subtype: 'success', session_id: 's', result: 'ok', is_error: false,
+    num_turns: 1, duration_ms: 1, duration_api_ms: 1, total_cost_usd: 0.01,
+    usage: { input_tokens: 1, output_tokens: 1, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  } as unknown as SDKMessage;
+  const scripts: ScriptStep[][] = [[init, apiError], [init, success]];
+  const calls: AgentQueryParams[] = [];
+  const engine: AgentEngineProvider = {
+    manifest: new ScriptedEngine([]).manifest,
+    query(params) {
+      calls.push(params);
+      return new ScriptedEngine(scripts[calls.length - 1] ?? []).query(params);
+    },
+  };
+  setAgentEngine(engine);
+
+  try {
+    const config = makeConfig();
+    const roles = makeRoles('ts-dev');
+    roles.get('ts-dev')!.modelHint = 'opus-latest';
+    Object.assign(config.models, {
+      aliases: { 'opus-latest': 'claude-opus-4-6', 'sonnet-latest': 'claude-sonnet-4-6' },
+      fallbacks: { 'opus-latest': ['sonnet-latest'] },
+    });
+    const manager = new BotSessionManager(config as any, roles, makeBots('hazel'), new AgentPool());
+    const taskDir = path.join(tmpDir, 'task');
+    const responses: string[] = [];
+
+    await manager.handleBotMessage({
+      botName: 'hazel',
+      roleName: 'ts-dev',
+      message: 'hello',
+      project: 'lobby',
+      taskSlug: 'task',
+      taskDir,
+      cwd: tmpDir,
+      responseSink: async (text) => { responses.push(text); },
+    });
+
+    assert.deepStrictEqual(calls.map(c => c.options.model), ['claude-opus-4-6', 'claude-sonnet-4-6']);
+    assert.ok(!responses.some(r => r.includes('API error')), 'fallback signal is not reported as an error');
+    const session = manager.getSession('hazel');
+    assert.strictEqual(session?.fallbackModel, 'claude-sonnet-4-6');
+
+    const events = getDispatchStore().getDispatchEvents(taskDir, session!.dispatchId);
+    assert.ok(events.some(e => e.type === 'harness:model_fallback' && e.data?.to === 'claude-sonnet-4-6'));
+
+    // Changing the model pin clears the fallback
+    manager.setModelOverride('hazel', 'opus-latest');
+    assert.strictEqual(manager.getSession('hazel')?.fallbackModel, undefined);
+  } finally {
+    setAgentEngine(undefined);
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+  }
+});
+
+test('BotSessionManager holds tool calls matching the project requireApproval rules', async () => {
+  const homeDir = path.join(tmpDir, 'home');
+  fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+  fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+  const prevHome = process.env.COLLABOT_HOME;
+  process.env.COLLABOT_HOME = homeDir;
+  _resetInstanceRoot();
+
+  const engine = new ScriptedEngine([
+    { type: 'system', subtype: 'init', session_id: 's', model: 'm' },
+    {
+      type: 'assistant', session_id: 's', parent_tool_use_id: null,
+      message: {
+        id: 'a1', role: 'assistant',
+        content: [{ type: 'tool_use', id: 'tu-1', name: 'Bash', input: { command: 'git push origin main' } }],
+        usage: { input_tokens: 1, output_tokens: 1 },
+      },
+    },
+    {
+      type: 'result', subtype: 'success', session_id: 's', result: 'ok', is_error: false,
+      num_turns: 1, duration_ms: 1, duration_api_ms: 1, total_cost_usd: 0.01,
+      usage: { input_tokens: 1, output_tokens: 1, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  ] as unknown as ScriptStep[]);
+  setAgentEngine(engine);
+
+  try {
+    const config = { ...makeConfig(), approvals: { timeoutSeconds: 0.05, onTimeout: 'deny' as const } };
+    const manager = new BotSessionManager(config as any, makeRoles('ts-dev'), makeBots('hazel'), new AgentPool());
+    const taskDir = path.join(tmpDir, 'task');
+
+    await manager.handleBotMessage({
+      botName: 'hazel',
+      roleName: 'ts-dev',
+      message: 'ship it',
+      project: 'lobby',
+      taskSlug: 'task',
+      taskDir,
+      cwd: tmpDir,
+      responseSink: async () => {},
+      requireApproval: ['Bash(git push*)'],
+    });
+
+    assert.strictEqual(engine.calls[0]!.options.permissionMode, 'default');
+    const events = getDispatchStore().getDispatchEvents(taskDir, manager.getSession('hazel')!.dispatchId);
+    const request = events.find(e => e.type === 'harness:approval_request');
+    assert.strictEqual(request?.data?.rule, 'Bash(git push*)');
+    assert.ok(events.some(e => e.type === 'harness:approval_decision' && e.data?.decision === 'timed_out'));
+  } finally {
+    setAgentEngine(undefined);
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+  }
+});
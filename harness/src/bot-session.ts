@@ -1,17 +1,25 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { randomUUID } from 'node:crypto';
-import { query, AbortError } from '@anthropic-ai/claude-agent-sdk';
+import { AbortError } from '@anthropic-ai/claude-agent-sdk';
 import type { SDKResultMessage, McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
 import { ulid } from 'ulid';
 import { logger } from './logger.js';
+import { getAgentEngine } from './agent-engine.js';
 import { buildChildEnv, extractUsageMetrics } from './dispatch.js';
 import { extractToolTarget } from './util.js';
 import { getDispatchStore, makeCapturedEvent } from './dispatch-store.js';
-import { buildTaskContext } from './context.js';
-import { detectErrorLoop, detectNonRetryable } from './monitor.js';
+import { reconstructTaskContext, contextReconstructedEvent } from './context.js';
+import { detectErrorLoop, detectNonRetryable, detectBudgetOverrun, countStreamTokens, type MessageUsage } from './monitor.js';
 import { resolveModelId, type Config } from './config.js';
+import { resolveModelChain, fallbackSignals, classifyModelError } from './model-fallback.js';
 import { assembleBotPrompt } from './prompts.js';
+import { buildTemplateVars } from './prompt-templates.js';
+import { createApprovalGate, formatApprovalRequest } from './approvals.js';
+import { getCostLedger, formatCapExceeded, formatCostWarning, type CapStatus } from './costs.js';
+import { getTaskBudgetStatus, markBudgetExhausted, settleTaskBudget, formatTaskBudgetExhausted, type TaskBudgetStatus } from './task-budget.js';
+import { mergeToolAccess, toolAccessOptions } from './tool-access.js';
+import { createBashPolicyHook, hasBashPolicy, type BashPolicy } from './bash-policy.js';
 import { makeChannelMessage } from './core.js';
 import type { CommunicationRegistry } from './registry.js';
 import type { AgentPool } from './pool.js';
@@ -52,6 +60,7 @@ export type BotSession = {
   lastNumTurns: number;   // API round-trips in the last SDK turn (for context % averaging)
   staleRole?: boolean;    // true if recovered session references a role that no longer exists
   modelOverride?: string; // per-session model pin (config alias, e.g. 'opus-latest')
+  fallbackModel?: string; // model switched to by [models.fallbacks] — cleared when the pin changes
   filterLevel: 'minimal' | 'feedback' | 'verbose';
 };
 
@@ -96,10 +105,14 @@ export class BotSessionManager {
     registry?: CommunicationRegistry;
     mcpServers?: Record<string, McpSdkServerConfigWithInstance>;
     onCompaction?: (event: { trigger: string; preTokens: number }) => void;
+    allowedTools?: string[];     // project-level lists (project.toml + virtual project meta)
     disallowedTools?: string[];
+    bashPolicy?: BashPolicy;     // project.toml [bashPolicy]
+    requireApproval?: string[];  // project.toml requireApproval — merged with the role's rules
+    projectPaths?: string[];     // repos a confined Bash policy may touch
     projectSkills?: VirtualProjectSkill[];
   }): Promise<void> {
-    const { botName, roleName, message, project, taskSlug, taskDir, cwd, responseSink, disallowedTools, projectSkills } = opts;
+    const { botName, roleName, message, project, taskSlug, taskDir, cwd, responseSink, allowedTools, disallowedTools, projectSkills } = opts;
     const channelId = opts.channelId ?? `bot-${botName}-${Date.now()}`;
     const registry = opts.registry;
 
@@ -113,13 +126,44 @@ export class BotSessionManager {
       throw new Error(`Role "${roleName}" not found`);
     }
 
+    // Spending caps ([costs]) — refuse the turn once a cap is spent
+    let capReached: CapStatus | undefined;
+    try {
+      capReached = getCostLedger().exceeded({ project, role: roleName, bot: botName }, this.config);
+    } catch { /* non-fatal — ledger unavailable */ }
+    if (capReached) {
+      throw new Error(formatCapExceeded(capReached));
+    }
+
+    // Task budget — refuse the turn once the task has spent it
+    let taskBudget: TaskBudgetStatus | undefined;
+    try {
+      taskBudget = getTaskBudgetStatus(taskDir);
+    } catch { /* non-fatal — ledger unavailable */ }
+    if (taskBudget?.exhausted) {
+      try {
+        markBudgetExhausted(taskDir);
+      } catch { /* non-fatal */ }
+      throw new Error(formatTaskBudgetExhausted(taskSlug, taskBudget));
+    }
+
     // Get or create session — close old session on task change
     let session = this.sessions.get(botName);
     if (!session || session.taskSlug !== taskSlug) {
       if (session) {
         this.closeSession(botName);
       }
-      session = this.createSession(botName, roleName, project, taskSlug, taskDir, channelId);
+      // At pool capacity the new session waits in the admission queue
+      const onQueued = (position: number) => {
+        const text = `Queued #${position} \u2014 waiting for a free agent slot...`;
+        const post = registry
+          ? registry.broadcast(makeChannelMessage(channelId, 'Collabot', 'lifecycle', text, { botName }))
+          : responseSink(text);
+        post.catch((err: unknown) => {
+          logger.error({ err }, 'failed to post queue position');
+        });
+      };
+      session = await this.createSession(botName, roleName, project, taskSlug, taskDir, channelId, onQueued);
     }
 
     const isFirstTurn = !session.sessionInitialized;
@@ -128,10 +172,23 @@ export class BotSessionManager {
 
     // Resolve model: per-session override > role model-hint > config default
     const modelHint = session.modelOverride ?? role.modelHint;
-    const resolvedModel = resolveModelId(modelHint, this.config);
+    const resolvedModel = session.fallbackModel ?? resolveModelId(modelHint, this.config);
+
+    // Model fallback — a failed turn is re-run on the next model in the chain
+    const modelChain = resolveModelChain(modelHint, this.config);
+    const chainIndex = modelChain.indexOf(resolvedModel);
+    const nextModel = chainIndex >= 0 ? modelChain[chainIndex + 1] : undefined;
+    const signals = fallbackSignals(this.config);
+    let fallbackSignal: string | undefined;
 
     // Build prompt
-    const systemPromptText = assembleBotPrompt({ bot, role, project, projectSkills });
+    const systemPromptText = assembleBotPrompt({
+      bot,
+      role,
+      project,
+      projectSkills,
+      vars: buildTemplateVars({ project: { name: project, paths: opts.projectPaths }, task: { slug: taskSlug } }),
+    });
 
     // Build session options for SDK
     const sessionOpts: Record<string, unknown> = isFirstTurn
@@ -149,6 +206,14 @@ export class BotSessionManager {
     const pendingToolCalls = new Map<string, { tool: string; target: string; startedAt: number }>();
     let loopWarningPosted = false;
 
+    // Token budget applies per turn — the session itself stays open. A task budget caps it at what remains.
+    const configTokenBudget = this.config.defaults.tokenBudget;
+    const remainingTokens = taskBudget?.remainingTokens;
+    const tokenBudget = remainingTokens === undefined ? configTokenBudget
+      : configTokenBudget > 0 ? Math.min(configTokenBudget, remainingTokens) : remainingTokens;
+    const usageByMessage = new Map<string, MessageUsage | undefined>();
+    let budgetWarningPosted = false;
+
     // Use the session's pool-registered controller
     const controller = this.getSessionController(botName);
     if (!controller) {
@@ -212,10 +277,10 @@ export class BotSessionManager {
       try {
         const taskManifestPath = path.join(taskDir, 'task.json');
         if (fs.existsSync(taskManifestPath)) {
-          const taskContext = buildTaskContext(taskDir);
-          if (taskContext.includes('### Previous Work')) {
-            effectiveMessage = `${taskContext}\n\n---\n\n${message}`;
-            emitEvent('session:context_reconstructed', { priorDispatches: true });
+          const taskContext = reconstructTaskContext(taskDir, { tokenBudget: this.config.context?.tokenBudget });
+          if (taskContext.items.length > 0) {
+            effectiveMessage = `${taskContext.text}\n\n---\n\n${message}`;
+            emitEvent('session:context_reconstructed', contextReconstructedEvent(taskContext));
           }
         }
       } catch {
@@ -223,6 +288,68 @@ export class BotSessionManager {
       }
     }
 
+    // Tool approval — role and project rules hold matching calls until answered via the registry
+    const approvalRules = [...(role.requireApproval ?? []), ...(opts.requireApproval ?? [])];
+    const permissionOpts = approvalRules.length > 0
+      ? {
+        permissionMode: 'default' as const,
+        canUseTool: createApprovalGate({
+          rules: approvalRules,
+          timeoutMs: this.config.approvals.timeoutSeconds * 1000,
+          onTimeout: this.config.approvals.onTimeout,
+          role: roleName,
+          dispatchId,
+          taskSlug,
+          botName,
+          emitEvent: (type, data) => {
+            if (type === 'harness:approval_request' && stallTimer !== undefined) clearTimeout(stallTimer);
+            if (type === 'harness:approval_decision') resetStallTimer();
+            emitEvent(type, data);
+          },
+          notify: (request) => {
+            if (!registry) {
+              responseSink(formatApprovalRequest(request)).catch((err: unknown) => {
+                logger.error({ err }, 'failed to post approval request');
+              });
+              return;
+            }
+            registry.broadcast(makeChannelMessage(
+              channelId, 'Collabot', 'approval_request', formatApprovalRequest(request),
+              {
+                botName,
+                approvalId: request.approvalId,
+                tool: request.tool,
+                target: request.target,
+                rule: request.rule,
+                timeoutMs: request.timeoutMs,
+                dispatchId,
+              },
+            )).catch((err: unknown) => {
+              logger.error({ err }, 'failed to post approval request');
+            });
+          },
+        }),
+      }
+      : { permissionMode: 'bypassPermissions' as const, allowDangerouslySkipPermissions: true };
+
+    // Bash policies — role frontmatter and project.toml, checked before each Bash call
+    const bashPolicies = [
+      { source: 'role' as const, policy: role.bashPolicy },
+      { source: 'project' as const, policy: opts.bashPolicy },
+    ];
+    const hookOpts = hasBashPolicy(bashPolicies)
+      ? {
+        hooks: {
+          PreToolUse: [createBashPolicyHook({
+            policies: bashPolicies,
+            cwd: absoluteCwd,
+            roots: [absoluteCwd, ...(opts.projectPaths ?? []).map(p => path.resolve(p))],
+            emitEvent: (type, data) => emitEvent(type, data),
+          })],
+        },
+      }
+      : {};
+
     logger.info({
       botName,
       sessionId: session.sessionId,
@@ -234,7 +361,7 @@ export class BotSessionManager {
     try {
       resetStallTimer();
 
-      for await (const msg of query({
+      for await (const msg of getAgentEngine().query({
         prompt: effectiveMessage,
         options: {
           cwd: absoluteCwd,
@@ -245,14 +372,14 @@ export class BotSessionManager {
           },
           settingSources: ['project'],
           model: resolvedModel,
-          permissionMode: 'bypassPermissions',
-          allowDangerouslySkipPermissions: true,
+          ...permissionOpts,
           maxTurns: this.config.agent.maxTurns,
           abortController: controller,
           pathToClaudeCodeExecutable: process.env.CLAUDE_EXECUTABLE_PATH,
           env: buildChildEnv(this.config.mcp.streamTimeout),
           ...(opts.mcpServers ? { mcpServers: opts.mcpServers } : {}),
-          ...(disallowedTools && disallowedTools.length > 0 ? { disallowedTools } : {}),
+          ...toolAccessOptions(mergeToolAccess(role, { allowedTools, disallowedTools })),
+          ...hookOpts,
           ...sessionOpts,
           stderr: (data: string) => {
             const line = data.trim();
@@ -286,9 +413,14 @@ export class BotSessionManager {
               : `API error: ${msg.error}. Check Claude Code CLI status.`;
             logger.error({ botName, error: msg.error }, 'assistant message error');
             emitEvent('harness:error', { message: `assistant error: ${msg.error}` });
-            await responseSink(errorLabel);
-            if (registry) {
-              await registry.broadcast(makeChannelMessage(channelId, 'system', 'error', errorLabel));
+            if (nextModel && signals.includes(msg.error)) {
+              // Reported when the turn is re-run on the fallback model
+              fallbackSignal ??= msg.error;
+            } else {
+              await responseSink(errorLabel);
+              if (registry) {
+                await registry.broadcast(makeChannelMessage(channelId, 'system', 'error', errorLabel));
+              }
             }
             if (msg.error === 'authentication_failed') {
               this.sessions.delete(botName);
@@ -297,6 +429,30 @@ export class BotSessionManager {
               break;
             }
           }
+
+          // Token budget enforcement — usage is kept regardless, for the ledger
+          usageByMessage.set(msg.message.id, msg.message.usage);
+          if (tokenBudget > 0 && abortReason === undefined) {
+            const usedTokens = countStreamTokens(usageByMessage.values());
+
+            const budget = detectBudgetOverrun(usedTokens, tokenBudget, this.config.defaults.tokenBudgetWarnPercent);
+            if (budget?.severity === 'exceeded') {
+              abortReason = 'budget_exceeded';
+              logger.warn({ botName, usedTokens, tokenBudget }, 'bot session: token budget exceeded');
+              emitEvent('harness:budget_exceeded', { usedTokens, tokenBudget, percent: budget.percent });
+              controller.abort();
+            } else if (budget?.severity === 'warning' && !budgetWarningPosted) {
+              budgetWarningPosted = true;
+              emitEvent('harness:budget_warning', { usedTokens, tokenBudget, percent: budget.percent });
+              if (registry) {
+                await registry.broadcast(makeChannelMessage(
+                  channelId, 'system', 'warning',
+                  `Agent has used ${usedTokens} of its ${tokenBudget} token budget for this turn. Still running.`,
+                ));
+              }
+            }
+          }
+
           for (const block of msg.message.content) {
             // Text → responseSink + registry broadcast
             if (block.type === 'text' && typeof (block as Record<string, unknown>).text === 'string') {
@@ -461,6 +617,7 @@ export class BotSessionManager {
               break;
             case 'rate_limit':
               emitEvent('session:rate_limit', { retryAfterMs: (msg as any).retry_after_ms });
+              if (nextModel && signals.includes('rate_limit')) fallbackSignal ??= 'rate_limit';
               break;
           }
         } else if (msg.type === 'result') {
@@ -488,6 +645,13 @@ export class BotSessionManager {
             usage: extractUsageMetrics(resultMsg),
           });
         } catch { /* non-fatal */ }
+        await this.recordTurnCost(session, resultMsg, countStreamTokens(usageByMessage.values()), resolvedModel, emitEvent, responseSink, registry);
+        if (taskBudget) {
+          try {
+            const exhausted = settleTaskBudget(taskDir);
+            if (exhausted) emitEvent('harness:task_budget_exhausted', { ...exhausted });
+          } catch { /* non-fatal */ }
+        }
       }
     } catch (err) {
       if (err instanceof AbortError) {
@@ -501,6 +665,13 @@ export class BotSessionManager {
         } else if (abortReason === 'error_loop' || abortReason === 'non_retryable_error') {
           // Already emitted above
           await responseSink('I got stuck and had to stop. Send another message to try again.');
+        } else if (abortReason === 'budget_exceeded') {
+          // Event already emitted above
+          const budgetMsg = `Agent turn stopped: token budget exceeded (${tokenBudget} tokens). Session is still active — send another message to continue.`;
+          await responseSink(budgetMsg);
+          if (registry) {
+            await registry.broadcast(makeChannelMessage(channelId, 'system', 'warning', budgetMsg));
+          }
         } else {
           emitEvent('harness:abort', { reason: abortReason ?? 'unknown' });
           const abortMsg = 'Agent turn was aborted. Session is still active.';
@@ -520,9 +691,12 @@ export class BotSessionManager {
       const errMessage = err instanceof Error ? err.message : String(err);
       logger.error({ err, botName, sessionId: session.sessionId }, 'bot session error');
       emitEvent('harness:error', { message: errMessage.slice(0, 500) });
+      const errorSignal = fallbackSignal ?? classifyModelError(errMessage);
 
-      // Check for auth-related errors in thrown exceptions
-      if (/auth|unauthorized|not.logged.in|login.*required/i.test(errMessage)) {
+      if (nextModel && errorSignal && signals.includes(errorSignal)) {
+        // Handled below — the session stays open and the turn is re-run on the next model
+        fallbackSignal = errorSignal;
+      } else if (/auth|unauthorized|not.logged.in|login.*required/i.test(errMessage)) {
         await responseSink(AUTH_FAILURE_MSG);
         if (registry) {
           await registry.broadcast(makeChannelMessage(channelId, 'system', 'error', AUTH_FAILURE_MSG));
@@ -564,6 +738,18 @@ export class BotSessionManager {
         clearTimeout(stallTimer);
       }
     }
+
+    if (fallbackSignal && nextModel && resultMsg?.subtype !== 'success' && this.sessions.get(botName) === session) {
+      logger.warn({ botName, from: resolvedModel, to: nextModel, reason: fallbackSignal }, 'bot session: falling back to next model');
+      emitEvent('harness:model_fallback', { from: resolvedModel, to: nextModel, reason: fallbackSignal });
+      session.fallbackModel = nextModel;
+      this.persistSession(session);
+      const notice = `${resolvedModel} failed (${fallbackSignal}) — retrying on ${nextModel}.`;
+      if (registry) {
+        await registry.broadcast(makeChannelMessage(channelId, 'system', 'warning', notice));
+      }
+      await this.handleBotMessage(opts);
+    }
   }
 
   // ── Public API ────────────────────────────────────────────────
@@ -672,6 +858,7 @@ export class BotSessionManager {
               this.pool.register({
                 id: data.agentId,
                 role: data.role,
+                project: data.project,
                 botId: recoveredBot?.id,
                 botName: data.botName,
                 taskSlug: data.taskSlug,
@@ -698,6 +885,7 @@ export class BotSessionManager {
     const session = this.sessions.get(botName);
     if (session) {
       session.modelOverride = modelAlias;
+      session.fallbackModel = undefined;
       this.persistSession(session);
     }
     // Also store in pending map (for draft → first submit flow)
@@ -724,14 +912,15 @@ export class BotSessionManager {
 
   // ── Private ──────────────────────────────────────────────────
 
-  private createSession(
+  private async createSession(
     botName: string,
     roleName: string,
     project: string,
     taskSlug: string,
     taskDir: string,
     channelId: string,
-  ): BotSession {
+    onQueued?: (position: number) => void,
+  ): Promise<BotSession> {
     const now = new Date().toISOString();
     const agentId = `bot-${botName}-${Date.now()}`;
     const session: BotSession = {
@@ -761,15 +950,16 @@ export class BotSessionManager {
     // Register in pool
     const controller = new AbortController();
     const botDef = this.bots.get(botName);
-    this.pool.register({
+    await this.pool.acquire({
       id: agentId,
       role: roleName,
+      project,
       botId: botDef?.id,
       botName,
       taskSlug,
       startedAt: new Date(),
       controller,
-    });
+    }, { priority: 'interactive', onQueued });
 
     // Apply pending model override (set during draft before session exists)
     const pendingModel = this.pendingModelOverrides.get(botName);
@@ -791,6 +981,53 @@ export class BotSessionManager {
     return agent?.controller;
   }
 
+  /** Add a turn's spend to the cost ledger and post any cap warnings it triggers. */
+  private async recordTurnCost(
+    session: BotSession,
+    resultMsg: SDKResultMessage,
+    tokens: number,
+    model: string,
+    emitEvent: (type: EventType, data?: Record<string, unknown>) => void,
+    responseSink: (text: string) => Promise<void>,
+    registry?: CommunicationRegistry,
+  ): Promise<void> {
+    let warnings: CapStatus[];
+    try {
+      const usage = extractUsageMetrics(resultMsg);
+      warnings = getCostLedger().record({
+        at: new Date().toISOString(),
+        usd: resultMsg.total_cost_usd ?? 0,
+        project: session.project,
+        role: session.role,
+        bot: session.botName,
+        model,
+        source: 'bot_session',
+        dispatchId: session.dispatchId,
+        taskSlug: session.taskSlug,
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        tokens,
+      }, this.config);
+    } catch (err) {
+      logger.error({ err, botName: session.botName }, 'bot session: failed to record cost');
+      return;
+    }
+
+    for (const warning of warnings) {
+      emitEvent('harness:cost_warning', { ...warning });
+      const text = formatCostWarning(warning);
+      try {
+        if (registry) {
+          await registry.broadcast(makeChannelMessage(session.channelId, 'system', 'warning', text, { botName: session.botName }));
+        } else {
+          await responseSink(text);
+        }
+      } catch (err) {
+        logger.error({ err }, 'failed to post cost warning');
+      }
+    }
+  }
+
   private updateSessionMetrics(session: BotSession, resultMsg: SDKResultMessage): void {
     session.turnCount++;
     session.lastActivityAt = new Date().toISOString();
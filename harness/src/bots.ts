@@ -2,6 +2,7 @@ import { readdirSync, readFileSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { z } from 'zod';
 import { parseFrontmatter, EntityNameSchema } from './roles.js';
+import { assertValidPromptTemplate } from './prompt-templates.js';
 import type { BotDefinition } from './types.js';
 
 export const BotFrontmatterSchema = z.object({
@@ -48,6 +49,7 @@ export function loadBots(botsDir: string): Map<string, BotDefinition> {
         .join('\n');
       throw new Error(`${file}: invalid frontmatter:\n${issues}`);
     }
+    assertValidPromptTemplate(body, file);
 
     const fm = result.data;
     bots.set(fm.name, {
@@ -1,23 +1,38 @@
 import 'dotenv/config';
 import fs from 'node:fs';
 import path from 'node:path';
+import readline from 'node:readline/promises';
 import { parseArgs } from 'node:util';
 import { logger, applyConfigLogLevel } from './logger.js';
 import { loadConfig } from './config.js';
+import { configureAgentEngine } from './agent-engine.js';
 import { loadRoles } from './roles.js';
-import { loadProjects, getProject, getProjectTasksDir } from './project.js';
+import { loadProjects, getProject, getProjectTasksDir, resolveProjectPath } from './project.js';
 import { handleTask, draftAgent } from './core.js';
 import { buildTaskContext } from './context.js';
 import { listTasks } from './task.js';
+import { getPendingQuestions } from './questions.js';
 import { CliAdapter } from './adapters/cli.js';
 import { CommunicationRegistry } from './registry.js';
-import { AgentPool } from './pool.js';
-import { createHarnessServer, DispatchTracker, selectMcpServersForRole } from './mcp.js';
-import { scaffoldEntity, validateEntityFrontmatter, validateLinks } from './entity-tools.js';
+import { AgentPool, resolvePoolLimits } from './pool.js';
+import { createHarnessServerForRole, DispatchTracker, selectMcpServersForRole } from './mcp.js';
+import { scaffoldEntity, validateEntityFrontmatter, validateEntityTemplate, validateLinks } from './entity-tools.js';
 import { getInstancePath } from './paths.js';
+import { listDispatchWorktrees, pruneDispatchWorktrees } from './worktree.js';
+import { replayDispatch } from './replay.js';
+import { explainRoute } from './routing.js';
+import { getCostLedger, filterCosts, summarizeCosts, costsToCsv, listCapStatus, describeCap, COST_DIMENSIONS, type CostDimension } from './costs.js';
+import { collabDispatch } from './collab-dispatch.js';
+import { formatDispatchPreview } from './dispatch-preview.js';
+import { loadCronJob } from './cron-loader.js';
+import { previewCronJob } from './cron-bridge.js';
+import { loadBots } from './bots.js';
+import { loadWorkflow, loadWorkflows } from './workflows.js';
+import { beginWorkflowRun, runWorkflow, createPoolStepDispatcher, formatWorkflowRun, type WorkflowTask } from './workflow-run.js';
 import type { EntityType } from './entity-tools.js';
 import type { DraftAgentFn, McpServers } from './mcp.js';
 import type { InboundMessage } from './comms.js';
+import type { CollabDispatchResult } from './types.js';
 
 const PROJECTS_DIR = getInstancePath('.projects');
 
@@ -26,9 +41,22 @@ const { values, positionals } = parseArgs({
     role: { type: 'string', short: 'r' },
     project: { type: 'string', short: 'p' },
     cwd: { type: 'string' },
+    repo: { type: 'string' },
     task: { type: 'string', short: 't' },
     'list-tasks': { type: 'boolean' },
     'list-projects': { type: 'boolean' },
+    worktree: { type: 'boolean' },
+    force: { type: 'boolean' },
+    record: { type: 'boolean' },
+    explain: { type: 'boolean' },
+    source: { type: 'string' },
+    channel: { type: 'string' },
+    by: { type: 'string' },
+    since: { type: 'string' },
+    until: { type: 'string' },
+    csv: { type: 'boolean' },
+    'dry-run': { type: 'boolean' },
+    cron: { type: 'string' },
   },
   allowPositionals: true,
   strict: false,
@@ -37,9 +65,22 @@ const { values, positionals } = parseArgs({
 const role = values['role'] as string | undefined;
 const projectName = values['project'] as string | undefined;
 const cwdOverride = values['cwd'] as string | undefined;
+const repo = values['repo'] as string | undefined;
 const taskSlug = values['task'] as string | undefined;
 const showListTasks = values['list-tasks'] as boolean | undefined;
 const showListProjects = values['list-projects'] as boolean | undefined;
+const useWorktree = values['worktree'] as boolean | undefined;
+const force = values['force'] as boolean | undefined;
+const record = values['record'] as boolean | undefined;
+const explain = values['explain'] as boolean | undefined;
+const routeSource = values['source'] as string | undefined;
+const routeChannel = values['channel'] as string | undefined;
+const costsBy = values['by'] as string | undefined;
+const costsSince = values['since'] as string | undefined;
+const costsUntil = values['until'] as string | undefined;
+const csv = values['csv'] as boolean | undefined;
+const dryRun = values['dry-run'] as boolean | undefined;
+const cronJobName = values['cron'] as string | undefined;
 
 // --- Entity subcommands (no config/roles/projects needed) ---
 if (positionals[0] === 'entity') {
@@ -105,6 +146,14 @@ if (positionals[0] === 'entity') {
       }
     }
 
+    const templateResult = validateEntityTemplate(content);
+    if (!templateResult.valid) {
+      console.error('Template errors:');
+      for (const err of templateResult.errors ?? []) {
+        console.error(`  - ${err}`);
+      }
+    }
+
     const linkResult = validateLinks(content, path.dirname(resolved));
     if (!linkResult.valid) {
       console.error('Broken links:');
@@ -113,7 +162,7 @@ if (positionals[0] === 'entity') {
       }
     }
 
-    if (fmResult.valid && linkResult.valid) {
+    if (fmResult.valid && templateResult.valid && linkResult.valid) {
       console.log('Valid.');
     } else {
       process.exit(1);
@@ -138,6 +187,63 @@ try {
 
 applyConfigLogLevel(config.logging.level);
 
+try {
+  configureAgentEngine(config);
+} catch (err) {
+  const msg = err instanceof Error ? err.message : String(err);
+  logger.error({ msg }, 'agent engine setup failed');
+  process.exit(1);
+}
+
+// --- Costs: spending report from the cost ledger ---
+if (positionals[0] === 'costs') {
+  const dimensions = costsBy
+    ? costsBy.split(',').map(d => d.trim()).filter(Boolean)
+    : [...COST_DIMENSIONS];
+  const unknown = dimensions.filter(d => !(COST_DIMENSIONS as readonly string[]).includes(d));
+  if (unknown.length > 0) {
+    console.error(`Error: Unknown --by dimension(s): ${unknown.join(', ')}. Available: ${COST_DIMENSIONS.join(', ')}`);
+    process.exit(1);
+  }
+  for (const [flag, value] of [['--since', costsSince], ['--until', costsUntil]] as const) {
+    if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      console.error(`Error: ${flag} must be a date (YYYY-MM-DD)`);
+      process.exit(1);
+    }
+  }
+
+  const ledger = getCostLedger();
+  const entries = filterCosts(ledger.list(), { since: costsSince, until: costsUntil, project: projectName });
+  const rows = dimensions.flatMap(d => summarizeCosts(entries, d as CostDimension));
+
+  if (csv) {
+    process.stdout.write(costsToCsv(rows));
+    process.exit(0);
+  }
+
+  const total = entries.reduce((sum, e) => sum + e.usd, 0);
+  const range = costsSince || costsUntil ? `${costsSince ?? 'start'} to ${costsUntil ?? 'today'}` : 'all time';
+  console.log(`Spending (${range}${projectName ? `, project ${projectName}` : ''}): $${total.toFixed(2)} across ${entries.length} dispatch(es) and turn(s)\n`);
+  for (const dimension of dimensions) {
+    const group = rows.filter(r => r.dimension === dimension);
+    if (group.length === 0) continue;
+    console.log(`By ${dimension}:`);
+    for (const r of group) {
+      console.log(`  ${r.key.padEnd(28)} ${`$${r.usd.toFixed(2)}`.padStart(10)}  ${String(r.entries).padStart(5)}  ${r.inputTokens} in / ${r.outputTokens} out`);
+    }
+    console.log('');
+  }
+
+  const caps = listCapStatus(ledger.list(), config);
+  if (caps.length > 0) {
+    console.log('Caps (current period):');
+    for (const cap of caps) {
+      console.log(`  ${describeCap(cap).padEnd(36)} $${cap.spentUsd.toFixed(2)} / $${cap.cap.toFixed(2)} (${cap.percent}%)${cap.percent >= 100 ? '  REACHED' : ''}`);
+    }
+  }
+  process.exit(0);
+}
+
 // Load roles
 const rolesDir = getInstancePath('roles');
 let roles;
@@ -214,15 +320,323 @@ if (showListTasks) {
   process.exit(0);
 }
 
+// --- Worktree subcommands: list / prune dispatch worktrees ---
+if (positionals[0] === 'worktree') {
+  const sub = positionals[1];
+
+  if (projectName && !projects.has(projectName.toLowerCase())) {
+    console.error(`Error: Project "${projectName}" not found.`);
+    process.exit(1);
+  }
+
+  if (sub === 'list') {
+    const worktrees = listDispatchWorktrees(projects, PROJECTS_DIR, projectName);
+    if (worktrees.length === 0) {
+      console.log('No dispatch worktrees found.');
+      process.exit(0);
+    }
+    console.log('Dispatch worktrees:\n');
+    for (const wt of worktrees) {
+      console.log(`  ${wt.project}/${wt.taskSlug} ${wt.dispatchId} [${wt.dispatchStatus}]${wt.exists ? '' : ' (missing)'}`);
+      console.log(`    Branch: ${wt.branch ?? '(detached)'}`);
+      console.log(`    Path: ${wt.path}`);
+      console.log('');
+    }
+    process.exit(0);
+  }
+
+  if (sub === 'prune') {
+    const result = pruneDispatchWorktrees(projects, PROJECTS_DIR, { project: projectName, force });
+    for (const wt of result.removed) {
+      console.log(`Removed: ${wt.path}`);
+    }
+    for (const { worktree, reason } of result.skipped) {
+      console.log(`Skipped: ${worktree.path} — ${reason}`);
+    }
+    console.log(`${result.removed.length} removed, ${result.skipped.length} skipped.`);
+    process.exit(0);
+  }
+
+  console.error(`Unknown worktree command: ${sub}`);
+  console.error('Available: list, prune');
+  process.exit(1);
+}
+
+// --- Route: show how config.routing resolves a message ---
+if (positionals[0] === 'route') {
+  const content = positionals.slice(1).join(' ').trim();
+  if (!content) {
+    console.error('Usage: npm run cli -- route [--explain] [--source <name>] [--channel <id>] [--project <name>] "<message>"');
+    process.exit(1);
+  }
+
+  const routed: InboundMessage = {
+    id: `route-${Date.now()}`,
+    content,
+    threadId: routeChannel ?? 'cli-route',
+    source: routeSource ?? 'cli',
+    project: projectName,
+    ...(routeChannel ? { metadata: { channel: routeChannel } } : {}),
+  };
+  const { decision, trace } = explainRoute(routed, config.routing);
+
+  if (explain) {
+    console.log(`Message: "${content.length > 80 ? content.slice(0, 80) + '...' : content}"`);
+    console.log(`  source: ${routed.source}  channel: ${routeChannel ?? '(none)'}  project: ${projectName ?? '(none)'}\n`);
+    if (config.routing.rules.length === 0) {
+      console.log('No routing rules configured.\n');
+    }
+    for (const rule of trace) {
+      console.log(`Rule ${rule.index}: ${rule.matched ? 'MATCH' : 'no match'}`);
+      if (rule.checks.length === 0) {
+        console.log('  (no conditions — matches everything)');
+      }
+      for (const check of rule.checks) {
+        console.log(`  ${check.matched ? '✓' : '✗'} ${check.field.padEnd(8)} ${check.pattern}${check.value === undefined ? '  (no value)' : ''}`);
+      }
+    }
+    const skipped = config.routing.rules.length - trace.length;
+    if (skipped > 0) console.log(`(${skipped} later rule(s) not evaluated)`);
+    console.log('');
+  }
+
+  const resolvedProject = decision.project ?? projectName;
+  console.log(`Decision: ${decision.ruleIndex !== undefined ? `rule ${decision.ruleIndex}` : 'default (no rule matched)'}`);
+  console.log(`  role:    ${decision.role}${roles.has(decision.role) ? '' : '  (unknown role)'}`);
+  console.log(`  project: ${resolvedProject ?? '(none)'}${resolvedProject && !projects.has(resolvedProject.toLowerCase()) ? '  (unknown project)' : ''}`);
+  if (decision.bot) console.log(`  bot:     ${decision.bot}`);
+  if (decision.cwd) console.log(`  cwd:     ${decision.cwd}`);
+  process.exit(0);
+}
+
+// --- Replay: feed a recorded SDK stream back through the dispatch loop ---
+if (positionals[0] === 'replay') {
+  const replayTask = positionals[1];
+  const replayDispatchId = positionals[2];
+
+  if (!replayTask || !replayDispatchId) {
+    console.error('Usage: npm run cli -- replay <task> <dispatchId> [--project <name>]');
+    process.exit(1);
+  }
+
+  // Locate the task — scoped to --project, or searched across all projects
+  const candidates = [...projects.values()].filter(
+    (p) => !projectName || p.name.toLowerCase() === projectName.toLowerCase(),
+  );
+  const matches = candidates.filter((p) =>
+    fs.existsSync(path.join(getProjectTasksDir(PROJECTS_DIR, p.name), replayTask, 'task.json')),
+  );
+
+  if (matches.length === 0) {
+    console.error(`Error: Task "${replayTask}" not found${projectName ? ` in project "${projectName}"` : ''}.`);
+    process.exit(1);
+  }
+  if (matches.length > 1) {
+    console.error(`Error: Task "${replayTask}" exists in several projects (${matches.map((p) => p.name).join(', ')}). Use --project.`);
+    process.exit(1);
+  }
+
+  const replayProject = matches[0]!;
+  const replayTaskDir = path.join(getProjectTasksDir(PROJECTS_DIR, replayProject.name), replayTask);
+
+  try {
+    const replay = await replayDispatch(
+      { config, roles, bots: new Map(), projects, projectsDir: PROJECTS_DIR, pool: new AgentPool() },
+      replayProject.name,
+      replayTaskDir,
+      replayDispatchId,
+    );
+
+    const harnessEvents = (events: typeof replay.events) => events.filter((e) => e.type.startsWith('harness:'));
+
+    console.log(`Replayed ${replay.messageCount} recorded messages for ${replayProject.name}/${replayTask} ${replayDispatchId} (role: ${replay.original.role})\n`);
+    console.log(`  Original status: ${replay.original.status}`);
+    console.log(`  Replay status:   ${replay.result.status}`);
+    console.log('');
+    console.log('  Original monitor events:');
+    for (const e of harnessEvents(replay.originalEvents)) {
+      console.log(`    ${e.type} ${e.data ? JSON.stringify(e.data) : ''}`);
+    }
+    console.log('  Replay monitor events:');
+    for (const e of harnessEvents(replay.events)) {
+      console.log(`    ${e.type} ${e.data ? JSON.stringify(e.data) : ''}`);
+    }
+
+    process.exit(replay.result.status === replay.original.status ? 0 : 1);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+// Agent pool sized from config [pool]
+const createPool = (): AgentPool => new AgentPool(config.pool.maxConcurrent, {
+  queueTimeoutMs: config.pool.queueTimeoutSeconds * 1000,
+  agingMs: config.pool.agingSeconds * 1000,
+  limits: resolvePoolLimits(config.pool, projects.values()),
+});
+
+// Harness MCP servers — lifecycle tools draft child agents into the same pool
+const createMcpServers = (registry: CommunicationRegistry, pool: AgentPool): McpServers => {
+  const tracker = new DispatchTracker();
+  const draftFn: DraftAgentFn = async (roleName, taskContext, opts) => {
+    // Resolve MCP servers for the child agent based on role permissions
+    const childRole = roles.get(roleName);
+    let childMcpServers: Record<string, import('@anthropic-ai/claude-agent-sdk').McpSdkServerConfigWithInstance> | undefined;
+    if (childRole && opts?.taskSlug && opts?.taskDir) {
+      childMcpServers = selectMcpServersForRole(childRole, mcpServers, {
+        taskSlug: opts.taskSlug, taskDir: opts.taskDir,
+        parentProject: opts.project,
+        parentDispatchId: opts.parentDispatchId,
+      });
+    }
+
+    return draftAgent(roleName, taskContext, registry, roles, config, {
+      project: opts?.project,
+      taskSlug: opts?.taskSlug,
+      taskDir: opts?.taskDir,
+      cwd: opts?.cwd,
+      repo: opts?.repo,
+      model: opts?.model,
+      parentDispatchId: opts?.parentDispatchId,
+      pool,
+      projects,
+      projectsDir: PROJECTS_DIR,
+      mcpServers: childMcpServers,
+    });
+  };
+
+  const mcpServers: McpServers = {
+    createForRole: (role, context) => createHarnessServerForRole(
+      { pool, projects, projectsDir: PROJECTS_DIR, roles, tracker, draftFn },
+      role,
+      context,
+    ),
+  };
+  return mcpServers;
+};
+
+// --- Workflows: list, or run one on a project task ---
+if (positionals[0] === 'workflow') {
+  const sub = positionals[1];
+
+  if (sub === 'list') {
+    const workflows = loadWorkflows();
+    if (workflows.length === 0) {
+      console.log(`No workflows found in ${getInstancePath('workflows')}.`);
+      process.exit(0);
+    }
+    console.log('Workflows:\n');
+    for (const wf of workflows) {
+      console.log(`  ${wf.name}${wf.project ? ` (project: ${wf.project})` : ''}`);
+      if (wf.description) console.log(`    ${wf.description}`);
+      console.log(`    Steps: ${wf.steps.map((s) => `${s.name} (${s.role})`).join(' → ')}`);
+      console.log('');
+    }
+    process.exit(0);
+  }
+
+  if (sub === 'run') {
+    const workflowName = positionals[2];
+    const input = positionals.slice(3).join(' ').trim();
+    if (!workflowName) {
+      console.error('Usage: npm run cli -- workflow run <name> [--project <name>] [--task <slug>] [--force] "<input>"');
+      process.exit(1);
+    }
+
+    let workflowTask: WorkflowTask;
+    let def;
+    try {
+      def = loadWorkflow(workflowName);
+      const wfProjectName = projectName ?? def.project;
+      if (!wfProjectName) {
+        throw new Error(`Workflow "${def.name}" has no default project — pass --project`);
+      }
+      const wfProject = getProject(projects, wfProjectName);
+      workflowTask = beginWorkflowRun(def, { project: wfProject.name, projectsDir: PROJECTS_DIR, input, taskSlug, force });
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+
+    const registry = new CommunicationRegistry();
+    registry.register(new CliAdapter({ interactive: false }));
+    const pool = createPool();
+    const mcpServers = createMcpServers(registry, pool);
+    const dispatchStep = createPoolStepDispatcher(
+      { config, roles, bots: new Map(), projects, projectsDir: PROJECTS_DIR, pool },
+      {
+        priority: 'interactive',
+        mcpServersFor: (stepRole, t) => selectMcpServersForRole(stepRole, mcpServers, {
+          taskSlug: t.taskSlug, taskDir: t.taskDir, parentProject: t.project,
+        }),
+      },
+    );
+
+    console.error(`Running workflow ${def.name} on ${workflowTask.project}/${workflowTask.taskSlug}`);
+    await registry.startAll();
+    const run = await runWorkflow(def, workflowTask, dispatchStep, (progress) => {
+      if (progress.currentStep) console.error(`  → ${progress.currentStep}`);
+    });
+    for (const line of formatWorkflowRun(run)) console.log(line);
+    process.exit(run.status === 'completed' ? 0 : 1);
+  }
+
+  console.error(`Unknown workflow command: ${sub}`);
+  console.error('Available: list, run');
+  process.exit(1);
+}
+
+// Print a dry-run preview and exit — non-zero when the dispatch would be refused
+function printPreview(result: CollabDispatchResult): never {
+  if (!result.preview) {
+    console.error(`Error: ${result.result ?? result.status}`);
+    process.exit(1);
+  }
+  console.log('Dry run — nothing dispatched.\n');
+  for (const line of formatDispatchPreview(result.preview)) {
+    console.log(line ? `  ${line}` : '');
+  }
+  process.exit(0);
+}
+
+// --- Cron preview: what a cron job would dispatch on its next firing ---
+if (cronJobName) {
+  if (!dryRun) {
+    console.error('Error: --cron is only supported with --dry-run.');
+    process.exit(1);
+  }
+  try {
+    const job = loadCronJob(config, cronJobName);
+    const result = await previewCronJob(job, {
+      config, roles, bots: loadBots(getInstancePath('bots')), projects, projectsDir: PROJECTS_DIR, pool: new AgentPool(),
+    });
+    printPreview(result);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
 if (!role || !projectName) {
   console.error('Usage: npm run cli -- --project <name> --role <role> [--cwd <path>] [--task <slug>] "prompt"');
   console.error('       npm run cli -- --list-projects');
   console.error('       npm run cli -- --project <name> --list-tasks');
+  console.error('       npm run cli -- --dry-run --cron <job>');
+  console.error('       npm run cli -- worktree list|prune [--project <name>] [--force]');
+  console.error('       npm run cli -- replay <task> <dispatchId> [--project <name>]');
+  console.error('       npm run cli -- route [--explain] [--source <name>] [--channel <id>] "<message>"');
+  console.error('       npm run cli -- workflow list | run <name> [--project <name>] [--task <slug>] [--force] "<input>"');
   console.error('');
   console.error('  --project, -p    Project name (required)');
   console.error('  --role, -r       Role name (required for dispatch)');
-  console.error('  --cwd            Working directory override (optional, falls back to project path)');
+  console.error('  --cwd            Working directory — one of the project paths (optional, overrides --repo)');
+  console.error('  --repo           Repo to work in — directory name or path from project paths (default: first)');
   console.error('  --task, -t       Attach to existing task by slug (context reconstruction)');
+  console.error('  --worktree       Run in an isolated git worktree (overrides project isolation)');
+  console.error('  --record         Record the raw SDK message stream for `replay`');
+  console.error('  --dry-run        Show the assembled dispatch (prompts, tools, budgets) without running it');
+  console.error('  --cron <job>     With --dry-run: preview a cron job\'s dispatch');
   console.error('  --list-tasks     List existing tasks for the project');
   console.error('  --list-projects  List all projects');
   process.exit(1);
@@ -252,6 +666,15 @@ if (!roles.has(role)) {
   process.exit(1);
 }
 
+if (cwdOverride || repo) {
+  try {
+    resolveProjectPath(project, cwdOverride ?? repo);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
 // If --task provided, validate it exists and prepend context
 let finalPrompt = prompt;
 const tasksDir = getProjectTasksDir(PROJECTS_DIR, project.name);
@@ -265,15 +688,21 @@ if (taskSlug) {
     process.exit(1);
   }
 
-  const taskContext = buildTaskContext(taskDir);
-  finalPrompt = taskContext + '\n---\n\n' + prompt;
-  logger.info({ taskSlug }, 'attached to existing task with context reconstruction');
+  // A task awaiting answers takes the prompt as the answers — the session resumes with its own context
+  if (!getPendingQuestions(taskDir)) {
+    const taskContext = buildTaskContext(taskDir, { tokenBudget: config.context?.tokenBudget });
+    finalPrompt = taskContext + '\n---\n\n' + prompt;
+    logger.info({ taskSlug }, 'attached to existing task with context reconstruction');
+  }
 }
 
 // Build InboundMessage
 const metadata: Record<string, unknown> = {};
 if (cwdOverride) metadata['cwdOverride'] = cwdOverride;
+if (repo) metadata['repo'] = repo;
 if (taskSlug) metadata['taskSlug'] = taskSlug;
+if (useWorktree) metadata['isolation'] = 'worktree';
+if (record) metadata['record'] = true;
 
 const message: InboundMessage = {
   id: `cli-${Date.now()}`,
@@ -286,52 +715,58 @@ const message: InboundMessage = {
 };
 
 const registry = new CommunicationRegistry();
-registry.register(new CliAdapter());
-const pool = new AgentPool(config.pool.maxConcurrent);
-
-// Create MCP servers
-const tracker = new DispatchTracker();
-const draftFn: DraftAgentFn = async (roleName, taskContext, opts) => {
-  // Resolve MCP servers for the child agent based on role permissions
-  const childRole = roles.get(roleName);
-  let childMcpServers: Record<string, import('@anthropic-ai/claude-agent-sdk').McpSdkServerConfigWithInstance> | undefined;
-  if (childRole && opts?.taskSlug && opts?.taskDir) {
-    childMcpServers = selectMcpServersForRole(childRole, mcpServers, {
-      taskSlug: opts.taskSlug, taskDir: opts.taskDir,
-      parentProject: opts.project,
-      parentDispatchId: opts.parentDispatchId,
-    });
-  }
-
-  return draftAgent(roleName, taskContext, registry, roles, config, {
-    project: opts?.project,
-    taskSlug: opts?.taskSlug,
-    taskDir: opts?.taskDir,
-    cwd: opts?.cwd,
-    parentDispatchId: opts?.parentDispatchId,
-    pool,
-    projects,
-    projectsDir: PROJECTS_DIR,
-    mcpServers: childMcpServers,
+const interactive = process.stdin.isTTY === true;
+registry.register(new CliAdapter({ interactive }));
+const pool = createPool();
+
+const mcpServers = createMcpServers(registry, pool);
+
+// --dry-run: show the fully assembled dispatch without calling the model
+if (dryRun) {
+  const roleDef = roles.get(role)!;
+  const previewTaskDir = taskSlug ? path.join(tasksDir, taskSlug) : undefined;
+  // MCP servers are only listed in the preview — never connected
+  const previewMcpServers = selectMcpServersForRole(roleDef, mcpServers, {
+    taskSlug: taskSlug ?? '', taskDir: previewTaskDir ?? tasksDir, parentProject: project.name,
   });
-};
-
-const mcpServers: McpServers = {
-  createFull: (parentTaskSlug: string, parentTaskDir: string, parentProject?: string, parentDispatchId?: string) => createHarnessServer({
-    pool, projects, projectsDir: PROJECTS_DIR, roles, tools: 'full',
-    tracker, draftFn,
-    parentTaskSlug, parentTaskDir, parentProject, parentDispatchId,
-  }),
-  readonly: createHarnessServer({
-    pool, projects, projectsDir: PROJECTS_DIR, roles, tools: 'readonly',
-  }),
-};
+  const result = await collabDispatch({
+    project: project.name,
+    role,
+    prompt: finalPrompt,
+    ...(taskSlug ? { taskSlug, taskDir: previewTaskDir } : {}),
+    ...(repo ? { repo } : {}),
+    ...(useWorktree ? { isolation: 'worktree' as const } : {}),
+    mcpServers: previewMcpServers,
+    dryRun: true,
+  }, { config, roles, bots: new Map(), projects, projectsDir: PROJECTS_DIR, pool });
+  printPreview(result);
+}
 
 logger.info({ role, project: project.name, taskSlug, prompt: prompt.slice(0, 80) }, 'CLI dispatch starting');
 
 try {
   await registry.startAll();
-  const result = await handleTask(message, registry, roles, config, pool, mcpServers, projects, PROJECTS_DIR);
+  let result = await handleTask(message, registry, roles, config, pool, mcpServers, projects, PROJECTS_DIR);
+
+  // Questions — answer on the terminal and resume until the agent stops asking
+  while (interactive && result.status === 'completed' && (result.structuredResult?.questions?.length ?? 0) > 0) {
+    const questions = result.structuredResult!.questions!;
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    const answers: string[] = [];
+    for (const [i, question] of questions.entries()) {
+      answers.push(await rl.question(`${i + 1}. ${question}\n> `));
+    }
+    rl.close();
+    if (answers.every((a) => a.trim() === '')) break;
+
+    result = await handleTask({
+      ...message,
+      id: `cli-${Date.now()}`,
+      content: answers.join('\n'),
+      metadata: { ...metadata, taskSlug: result.taskSlug, answers },
+    }, registry, roles, config, pool, mcpServers, projects, PROJECTS_DIR);
+  }
+
   console.log(JSON.stringify(result, null, 2));
   process.exit(result.status === 'completed' || result.status === 'aborted' ? 0 : 1);
 } catch (err) {
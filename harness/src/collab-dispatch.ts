@@ -1,18 +1,32 @@
 import path from 'node:path';
-import { query, AbortError } from '@anthropic-ai/claude-agent-sdk';
-import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { AbortError } from '@anthropic-ai/claude-agent-sdk';
+import type { HookCallbackMatcher, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
 import { ulid } from 'ulid';
 import { logger } from './logger.js';
+import { getAgentEngine } from './agent-engine.js';
 import { resolveModelId, type Config } from './config.js';
-import { assemblePrompt, assembleBotPrompt } from './prompts.js';
+import { promptLayers, botPromptLayers, joinPromptLayers } from './prompts.js';
+import { buildTemplateVars } from './prompt-templates.js';
 import { buildChildEnv, extractUsageMetrics } from './dispatch.js';
 import { extractToolTarget } from './util.js';
-import { detectErrorLoop, detectNonRetryable } from './monitor.js';
+import { detectErrorLoop, detectNonRetryable, detectBudgetOverrun, countStreamTokens, type MessageUsage } from './monitor.js';
 import { getDispatchStore, makeCapturedEvent } from './dispatch-store.js';
-import { getProject, getProjectTasksDir, projectHasPaths, isVirtualProject } from './project.js';
+import { getProject, getProjectTasksDir, projectHasPaths, isVirtualProject, resolveProjectPath } from './project.js';
 import type { Project } from './project.js';
-import { createTask, getTask } from './task.js';
-import { buildTaskContext } from './context.js';
+import { createTask, getTask, generateSlug, deduplicateSlug } from './task.js';
+import { reconstructTaskContext, contextReconstructedEvent, type ReconstructedContext } from './context.js';
+import { createDispatchWorktree, reuseDispatchWorktree, cleanupDispatchWorktree, DEFAULT_WORKTREE_CLEANUP } from './worktree.js';
+import { startGitCapture, finishGitCapture } from './git-state.js';
+import { resolveRetryPolicy, isRetryable, retryDelayMs } from './retry.js';
+import { resolveModelChain, fallbackSignals, classifyModelError } from './model-fallback.js';
+import { createApprovalGate } from './approvals.js';
+import { getCostLedger, formatCapExceeded, estimateStreamCost, type CapStatus, type CostEstimate } from './costs.js';
+import { getTaskBudgetStatus, markBudgetExhausted, settleTaskBudget, formatTaskBudgetExhausted, type TaskBudgetStatus } from './task-budget.js';
+import { mergeToolAccess, toolAccessOptions } from './tool-access.js';
+import { createBashPolicyHook, hasBashPolicy, resolveShellPath } from './bash-policy.js';
+import { createWriteFenceHook } from './write-fence.js';
+import { runVerify, buildVerifyFixPrompt, applyVerifyFailure, type VerifyOutcome } from './verify.js';
+import { estimateTokens } from './dispatch-preview.js';
 import { AgentResultSchema } from './types.js';
 import type {
   CollabDispatchOptions,
@@ -25,6 +39,7 @@ import type {
   EventType,
   UsageMetrics,
   AgentResult,
+  DispatchWorktree,
 } from './types.js';
 import type { AgentPool } from './pool.js';
 
@@ -163,13 +178,110 @@ function buildCostFromResult(
  * Enforces the full entity model: Project + Task + Role + Bot.
  * Handles entity resolution, task lifecycle, prompt assembly,
  * constraint enforcement (timeout, budget), SDK call, event capture,
- * and cost tracking.
+ * cost tracking, and automatic retries per the resolved retry policy and
+ * the role's model fallback chain.
  *
  * All adapters (Slack, TUI, CLI, Cron, MCP) call this function.
  */
 export async function collabDispatch(
   options: CollabDispatchOptions,
   ctx: CollabDispatchContext,
+): Promise<CollabDispatchResult> {
+  const role = ctx.roles.get(options.role);
+  const policy = resolveRetryPolicy(ctx.config.retry, role?.retry, options.retry);
+  const chain = role ? resolveModelChain(options.model ?? role.modelHint, ctx.config) : [];
+  if (options.dryRun || options.replay || (policy.maxAttempts <= 1 && chain.length <= 1)) {
+    return withGitState(await dispatchAttempt(options, ctx), options, ctx);
+  }
+
+  // Each attempt gets its own controller so a harness abort (stall, timeout)
+  // doesn't poison the next attempt; a caller abort still reaches every attempt.
+  const parent = options.abortController;
+  const signals = fallbackSignals(ctx.config);
+  let modelIndex = 0;
+  const attemptOptions = (): CollabDispatchOptions => ({
+    ...options,
+    abortController: linkedController(parent),
+    ...(chain.length > 1 ? {
+      model: chain[modelIndex],
+      fallbackOn: modelIndex < chain.length - 1 ? signals : undefined,
+    } : {}),
+  });
+
+  const first = withGitState(await dispatchAttempt(attemptOptions(), ctx), options, ctx);
+  let result = first;
+  let dispatches = 1;
+  let retries = 0;
+
+  while (first.dispatchId !== 'none' && !parent?.signal.aborted && result.status !== 'completed') {
+    const taskDir = options.taskDir
+      ?? path.join(getProjectTasksDir(ctx.projectsDir, getProject(ctx.projects, options.project).name), result.taskSlug);
+    const emit = (type: EventType, data: Record<string, unknown>) => {
+      try {
+        getDispatchStore().appendEvent(taskDir, result.dispatchId, makeCapturedEvent(type, data));
+      } catch { /* non-fatal */ }
+    };
+    let fallbackFrom: string | undefined;
+
+    if (modelIndex < chain.length - 1 && result.reason !== undefined && signals.includes(result.reason)) {
+      // Model fallback — switch immediately, doesn't consume retry attempts
+      fallbackFrom = chain[modelIndex]!;
+      modelIndex++;
+      const to = chain[modelIndex]!;
+      logger.warn({
+        taskSlug: result.taskSlug,
+        dispatchId: result.dispatchId,
+        reason: result.reason,
+        from: fallbackFrom,
+        to,
+      }, 'collabDispatch: falling back to next model');
+      emit('harness:model_fallback', { from: fallbackFrom, to, reason: result.reason });
+      options.onModelFallback?.(fallbackFrom, to, result);
+    } else if (retries + 1 < policy.maxAttempts && isRetryable(result, policy)) {
+      retries++;
+      const attempt = retries + 1;
+      const delayMs = retryDelayMs(policy, retries);
+      logger.warn({
+        taskSlug: result.taskSlug,
+        dispatchId: result.dispatchId,
+        status: result.status,
+        reason: result.reason,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+      }, 'collabDispatch: retrying dispatch');
+      emit('harness:retry', {
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        status: result.status,
+        reason: result.reason,
+        delayMs,
+      });
+      options.onRetry?.(attempt, policy.maxAttempts, result, delayMs);
+
+      if (!(await backoff(delayMs, parent?.signal))) break;
+    } else {
+      break;
+    }
+
+    dispatches++;
+    result = withGitState(await dispatchAttempt({
+      ...attemptOptions(),
+      taskSlug: result.taskSlug,
+      taskDir,
+      sessionId: undefined,
+      retryOf: first.dispatchId,
+      attempt: dispatches,
+      ...(fallbackFrom ? { fallbackFrom } : {}),
+    }, ctx), { ...options, taskDir }, ctx);
+  }
+
+  return dispatches > 1 ? { ...result, attempts: dispatches } : result;
+}
+
+async function dispatchAttempt(
+  options: CollabDispatchOptions,
+  ctx: CollabDispatchContext,
 ): Promise<CollabDispatchResult> {
   const startTime = Date.now();
 
@@ -189,7 +301,17 @@ export async function collabDispatch(
       options,
     );
   }
-  const cwd = path.resolve(project.paths[0]!);
+  let repoPath: string;
+  try {
+    repoPath = resolveProjectPath(project, options.repo);
+  } catch (err) {
+    return crashResult(err instanceof Error ? err.message : String(err), startTime, options);
+  }
+  let cwd = repoPath;
+  // Sibling repos stay readable so an agent in one repo can consult the others
+  const additionalDirectories = project.paths
+    .map(p => path.resolve(p))
+    .filter(p => p !== repoPath);
   const projectsDir = ctx.projectsDir;
 
   // ── 2. Resolve role ────────────────────────────────────────
@@ -223,8 +345,21 @@ export async function collabDispatch(
     bot = drafted.bot;
   }
 
+  // Spending caps ([costs]) — refuse new work once a cap is spent (replays spend nothing)
+  let capReached: CapStatus | undefined;
+  if (!options.replay) {
+    try {
+      capReached = getCostLedger().exceeded({ project: project.name, role: role.name, bot: bot?.name }, ctx.config);
+    } catch { /* non-fatal — ledger unavailable */ }
+  }
+  if (capReached) {
+    return { ...crashResult(formatCapExceeded(capReached), startTime, options), reason: 'cost_cap' };
+  }
+
   // ── 4. Resolve model ───────────────────────────────────────
-  const resolvedModel = resolveModelId(role.modelHint, ctx.config);
+  const resolvedModel = options.model
+    ? ctx.config.models.aliases[options.model] ?? options.model
+    : resolveModelId(role.modelHint, ctx.config);
 
   // ── 5. Create or resolve task ──────────────────────────────
   let taskSlug: string;
@@ -240,6 +375,11 @@ export async function collabDispatch(
     const task = getTask(tasksDir, options.taskSlug);
     taskSlug = task.slug;
     taskDir = task.taskDir;
+  } else if (options.dryRun) {
+    // Dry run — name the task it would create without creating it
+    const tasksDir = getProjectTasksDir(projectsDir, project.name);
+    taskSlug = deduplicateSlug(tasksDir, generateSlug(options.prompt.slice(0, 80)).slug).slug;
+    taskDir = path.join(tasksDir, taskSlug);
   } else {
     // Create new task
     const tasksDir = getProjectTasksDir(projectsDir, project.name);
@@ -253,41 +393,107 @@ export async function collabDispatch(
   }
 
   // ── 6. Assemble prompt ─────────────────────────────────────
-  let systemPromptText: string;
-  if (bot) {
-    systemPromptText = assembleBotPrompt({
+  const templateVars = buildTemplateVars({ project, task: { slug: taskSlug }, bot, role });
+  const systemPromptLayers = bot
+    ? botPromptLayers({
       bot,
       role,
       project: project.name,
       projectSkills: options.projectSkills,
-    });
-  } else {
-    systemPromptText = assemblePrompt(role.prompt, role.permissions);
-  }
+      vars: templateVars,
+    })
+    : promptLayers(role.prompt, role.permissions, templateVars);
+  const systemPromptText = joinPromptLayers(systemPromptLayers);
 
   // ── 7. Context reconstruction ──────────────────────────────
   let effectivePrompt = options.prompt;
+  let taskContext: ReconstructedContext | undefined;
   if (!options.resume) {
     try {
-      const store = getDispatchStore();
-      const envelopes = store.getDispatchEnvelopes(taskDir);
-      const withResults = envelopes.filter(d => d.structuredResult != null);
-      if (withResults.length > 0) {
-        const taskContext = buildTaskContext(taskDir);
-        if (taskContext.includes('### Previous Work')) {
-          effectivePrompt = `${taskContext}\n\n---\n\n${options.prompt}`;
-        }
+      const context = reconstructTaskContext(taskDir, {
+        tokenBudget: ctx.config.context?.tokenBudget,
+        parentDispatchId: options.parentDispatchId,
+      });
+      if (context.items.length > 0) {
+        effectivePrompt = `${context.text}\n\n---\n\n${options.prompt}`;
+        taskContext = context;
       }
     } catch { /* non-fatal — proceed without context reconstruction */ }
   }
 
   // ── 8. Resolve constraints ─────────────────────────────────
+  // Task budget — refuse once spent, otherwise cap this dispatch at what remains.
+  // A dry run reports exhaustion in its preview instead and leaves the task as is.
+  let taskBudget: TaskBudgetStatus | undefined;
+  try {
+    taskBudget = getTaskBudgetStatus(taskDir);
+  } catch { /* non-fatal — ledger unavailable */ }
+  if (taskBudget?.exhausted && !options.dryRun) {
+    try {
+      markBudgetExhausted(taskDir);
+    } catch { /* non-fatal */ }
+    return {
+      ...crashResult(formatTaskBudgetExhausted(taskSlug, taskBudget), startTime, options),
+      status: 'budget_exceeded',
+      reason: 'task_budget',
+      taskSlug,
+    };
+  }
+
   const maxTurns = options.maxTurns ?? ctx.config.agent.maxTurns;
-  const maxBudgetUsd = options.maxBudgetUsd ?? ctx.config.defaults.maxBudgetUsd ?? ctx.config.agent.maxBudgetUsd;
-  const tokenBudget = options.tokenBudget ?? ctx.config.defaults.tokenBudget;
+  const maxBudgetUsd = withinRemaining(
+    options.maxBudgetUsd ?? ctx.config.defaults.maxBudgetUsd ?? ctx.config.agent.maxBudgetUsd,
+    taskBudget?.remainingUsd,
+  );
+  const tokenBudget = withinRemaining(options.tokenBudget ?? ctx.config.defaults.tokenBudget, taskBudget?.remainingTokens);
+  const tokenBudgetWarnPercent = ctx.config.defaults.tokenBudgetWarnPercent;
   const timeoutMs = options.timeoutMs ?? ctx.config.defaults.dispatchTimeoutMs;
   const stallTimeoutMs = ctx.config.defaults.stallTimeoutSeconds * 1000;
   const useStructuredOutput = options.useStructuredOutput ?? !options.resume;
+  const recordStream = !options.replay && (options.recordStream ?? ctx.config.engine.record);
+
+  // Dry run — report what would be sent and stop before any side effects
+  if (options.dryRun) {
+    const systemPrompt = systemPromptLayers.map(layer => ({ ...layer, tokens: estimateTokens(layer.text) }));
+    const promptTokens = estimateTokens(effectivePrompt);
+    const approvalRules = [...(role.requireApproval ?? []), ...(project.requireApproval ?? [])];
+    return {
+      status: 'completed',
+      reason: 'dry_run',
+      taskSlug,
+      dispatchId: 'none',
+      cost: buildCostFromResult(undefined, tokenBudget || null),
+      duration_ms: Date.now() - startTime,
+      model: resolvedModel,
+      preview: {
+        project: project.name,
+        role: role.name,
+        ...(bot ? { bot: bot.name } : {}),
+        model: resolvedModel,
+        cwd,
+        additionalDirectories,
+        isolation: options.isolation ?? project.isolation ?? 'none',
+        task: { slug: taskSlug, exists: options.taskSlug !== undefined },
+        systemPrompt,
+        prompt: { text: effectivePrompt, tokens: promptTokens, reconstructedContext: taskContext !== undefined },
+        estimatedInputTokens: systemPrompt.reduce((sum, l) => sum + l.tokens, 0) + promptTokens,
+        mcpServers: Object.keys(options.mcpServers ?? {}),
+        tools: mergeToolAccess(role, project),
+        bashPolicies: { role: role.bashPolicy, project: project.bashPolicy },
+        permissionMode: approvalRules.length > 0 ? 'default' : 'bypassPermissions',
+        requireApproval: approvalRules,
+        structuredOutput: useStructuredOutput,
+        budgets: {
+          maxTurns,
+          maxBudgetUsd,
+          tokenBudget,
+          timeoutMs,
+          stallTimeoutMs,
+          ...(taskBudget ? { task: taskBudget } : {}),
+        },
+      },
+    };
+  }
 
   // ── 9. Set up abort / timeout ──────────────────────────────
   const controller = options.abortController ?? new AbortController();
@@ -309,12 +515,18 @@ export async function collabDispatch(
   const dispatchStore = getDispatchStore();
   let sessionId: string | undefined;
   let model: string | undefined;
-  let resultMsg: SDKResultMessage | undefined;
+  let resultMsg: SDKResultMessage | undefined;    // every turn's result summed — one turn unless verify re-prompts
+  let turnResult: SDKResultMessage | undefined;   // the current turn's result
   let capturedStructuredOutput: unknown = undefined;
   const toolCallWindow: ToolCall[] = [];
   const errorWindow: ErrorTriplet[] = [];
   const pendingToolCalls = new Map<string, { tool: string; target: string; startedAt: number }>();
   let loopWarningPosted = false;
+  // Streaming usage per API message — the SDK repeats a message's usage on each of its content blocks
+  const usageByMessage = new Map<string, MessageUsage | undefined>();
+  let budgetWarningPosted = false;
+  // Last failure signal from the SDK (assistant error kind, rate limit) — reported as the crash reason
+  let failureReason: string | undefined;
 
   function emitEvent(type: EventType, data?: Record<string, unknown>) {
     try {
@@ -322,6 +534,15 @@ export async function collabDispatch(
     } catch { /* non-fatal */ }
   }
 
+  // Record a failure signal; stop early if it should move the dispatch to a fallback model
+  function noteFailure(signal: string) {
+    failureReason = signal;
+    if (abortReason === undefined && options.fallbackOn?.includes(signal)) {
+      abortReason = signal;
+      controller.abort();
+    }
+  }
+
   function resetStallTimer() {
     if (stallTimer !== undefined) clearTimeout(stallTimer);
     stallTimer = setTimeout(() => {
@@ -331,8 +552,28 @@ export async function collabDispatch(
     stallTimer.unref();
   }
 
+  // Worktree isolation — agent works on its own branch in a task-local worktree,
+  // or carries on in an earlier dispatch's worktree
+  const isolation = options.replay ? 'none' : options.worktree ? 'worktree' : options.isolation ?? project.isolation ?? 'none';
+  let worktree: DispatchWorktree | undefined;
+  if (isolation === 'worktree') {
+    try {
+      worktree = options.worktree
+        ? reuseDispatchWorktree(options.worktree, taskDir, dispatchId)
+        : createDispatchWorktree(cwd, taskDir, taskSlug, dispatchId);
+      cwd = worktree.path;
+    } catch (err) {
+      if (dispatchTimer !== undefined) clearTimeout(dispatchTimer);
+      const msg = err instanceof Error ? err.message : String(err);
+      return crashResult(`Failed to create worktree for project "${project.name}": ${msg}`, startTime, options);
+    }
+  }
+
+  // Git snapshot — what the agent changes is measured against it when the dispatch ends
+  const gitCapture = options.replay ? undefined : startGitCapture(cwd);
+
   // Build SDK session options
-  const sessionOpts: Record<string, unknown> = {};
+  let sessionOpts: Record<string, unknown> = {};
   if (options.resume) {
     sessionOpts.resume = options.resume;
   } else if (options.sessionId) {
@@ -347,6 +588,7 @@ export async function collabDispatch(
     cwd,
     taskSlug,
     dispatchId,
+    worktreeBranch: worktree?.branch,
     timeoutMs: timeoutMs || 'none',
     tokenBudget: tokenBudget || 'none',
     isResume: !!options.resume,
@@ -364,230 +606,353 @@ export async function collabDispatch(
       status: 'running',
       parentDispatchId: options.parentDispatchId,
       botId: bot?.id,
+      ...(worktree ? { worktree } : {}),
+      ...(options.retryOf ? { retryOf: options.retryOf, attempt: options.attempt } : {}),
+      ...(options.fallbackFrom ? { fallbackFrom: options.fallbackFrom } : {}),
+      ...(gitCapture ? { git: { before: gitCapture.before } } : {}),
     });
   } catch { /* non-fatal */ }
+  if (taskContext) emitEvent('session:context_reconstructed', contextReconstructedEvent(taskContext));
+
+  // Tool approval — matching calls are held via canUseTool, which the SDK
+  // only consults outside bypassPermissions mode. Replays hold nothing: the
+  // recorded calls already happened and no one is there to answer.
+  const approvalRules = options.replay ? [] : [...(role.requireApproval ?? []), ...(project.requireApproval ?? [])];
+  const permissionOpts = approvalRules.length > 0
+    ? {
+      permissionMode: 'default' as const,
+      canUseTool: createApprovalGate({
+        rules: approvalRules,
+        timeoutMs: ctx.config.approvals.timeoutSeconds * 1000,
+        onTimeout: ctx.config.approvals.onTimeout,
+        role: role.name,
+        dispatchId,
+        taskSlug,
+        emitEvent: (type, data) => {
+          // A held tool call is not a stall
+          if (type === 'harness:approval_request' && stallTimer !== undefined) clearTimeout(stallTimer);
+          if (type === 'harness:approval_decision') resetStallTimer();
+          emitEvent(type, data);
+        },
+        notify: options.onApprovalRequest,
+      }),
+    }
+    : { permissionMode: 'bypassPermissions' as const, allowDangerouslySkipPermissions: true };
+
+  // Tool allow/deny lists — role frontmatter merged with project.toml
+  const toolOpts = toolAccessOptions(mergeToolAccess(role, project));
+
+  // Bash policies and the write fence — PreToolUse hooks run in every permission mode
+  const bashPolicies = [
+    { source: 'role' as const, policy: role.bashPolicy },
+    { source: 'project' as const, policy: project.bashPolicy },
+  ];
+  const preToolUse: HookCallbackMatcher[] = [];
+  if (hasBashPolicy(bashPolicies)) {
+    preToolUse.push(createBashPolicyHook({
+      policies: bashPolicies,
+      cwd,
+      roots: [cwd, repoPath, ...additionalDirectories],
+      emitEvent: (type, data) => emitEvent(type, data),
+    }));
+  }
+  preToolUse.push(createWriteFenceHook({
+    roots: [
+      ...project.paths.map(p => path.resolve(p)),
+      taskDir,
+      ...(worktree ? [worktree.path] : []),
+      ...(project.writableDirs ?? []).map(dir => resolveShellPath(dir, repoPath)),
+    ],
+    cwd,
+    emitEvent: (type, data) => emitEvent(type, data),
+  }));
+
+  // Verify fix turns resume the session with the failure output as the prompt
+  let turnPrompt = effectivePrompt;
+  let fixAttempts = 0;
+  let verifyOutcome: VerifyOutcome | undefined;
 
   // ── 11. Run SDK event loop ─────────────────────────────────
   try {
-    resetStallTimer();
+    for (;;) {
+      resetStallTimer();
 
-    for await (const msg of query({
-      prompt: effectivePrompt,
-      options: {
-        cwd,
-        systemPrompt: {
-          type: 'preset',
-          preset: 'claude_code',
-          append: systemPromptText,
-        },
-        settingSources: ['project'],
-        model: resolvedModel,
-        permissionMode: 'bypassPermissions',
-        allowDangerouslySkipPermissions: true,
-        maxTurns,
-        maxBudgetUsd: maxBudgetUsd || undefined,
-        ...(useStructuredOutput ? {
-          outputFormat: {
-            type: 'json_schema' as const,
-            schema: AGENT_RESULT_JSON_SCHEMA,
+      for await (const msg of getAgentEngine().query({
+        prompt: turnPrompt,
+        options: {
+          cwd,
+          systemPrompt: {
+            type: 'preset',
+            preset: 'claude_code',
+            append: systemPromptText,
+          },
+          settingSources: ['project'],
+          model: resolvedModel,
+          ...permissionOpts,
+          ...toolOpts,
+          hooks: { PreToolUse: preToolUse },
+          maxTurns,
+          maxBudgetUsd: maxBudgetUsd || undefined,
+          ...(useStructuredOutput ? {
+            outputFormat: {
+              type: 'json_schema' as const,
+              schema: AGENT_RESULT_JSON_SCHEMA,
+            },
+          } : {}),
+          abortController: controller,
+          pathToClaudeCodeExecutable: process.env.CLAUDE_EXECUTABLE_PATH,
+          env: buildChildEnv(ctx.config.mcp.streamTimeout),
+          ...(additionalDirectories.length > 0 ? { additionalDirectories } : {}),
+          ...(options.mcpServers ? { mcpServers: options.mcpServers } : {}),
+          ...sessionOpts,
+          stderr: (data: string) => {
+            const line = data.trim();
+            if (line) logger.warn({ stderr: line }, 'agent subprocess stderr');
           },
-        } : {}),
-        abortController: controller,
-        pathToClaudeCodeExecutable: process.env.CLAUDE_EXECUTABLE_PATH,
-        env: buildChildEnv(ctx.config.mcp.streamTimeout),
-        ...(options.mcpServers ? { mcpServers: options.mcpServers } : {}),
-        ...sessionOpts,
-        stderr: (data: string) => {
-          const line = data.trim();
-          if (line) logger.warn({ stderr: line }, 'agent subprocess stderr');
         },
-      },
-    })) {
-      resetStallTimer();
+      })) {
+        resetStallTimer();
 
-      if (msg.type === 'auth_status' && msg.error) {
-        logger.error({ error: msg.error }, 'authentication failed during dispatch');
-        emitEvent('harness:error', { message: `auth_status error: ${msg.error}` });
-        emitEvent('session:complete', { status: 'crashed', error: 'authentication_failed' });
-        updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'crashed');
-        controller.abort();
-        return buildResult('crashed', AUTH_FAILURE_MSG, startTime, taskSlug, dispatchId, resolvedModel, resultMsg, tokenBudget);
-      } else if (msg.type === 'system' && msg.subtype === 'init') {
-        sessionId = msg.session_id;
-        model = msg.model;
-        emitEvent('session:init', { sessionId: msg.session_id, model: msg.model });
-      } else if (msg.type === 'assistant') {
-        if (msg.error) {
-          logger.error({ error: msg.error, sessionId }, 'assistant message error');
-          emitEvent('harness:error', { message: `assistant error: ${msg.error}` });
-          if (msg.error === 'authentication_failed') {
-            updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'crashed');
-            controller.abort();
-            return buildResult('crashed', AUTH_FAILURE_MSG, startTime, taskSlug, dispatchId, resolvedModel, resultMsg, tokenBudget);
-          }
+        if (recordStream) {
+          try {
+            dispatchStore.appendStreamMessage(taskDir, dispatchId, msg);
+          } catch { /* non-fatal */ }
         }
 
-        for (const block of msg.message.content) {
-          // Text blocks
-          if (block.type === 'text' && typeof (block as Record<string, unknown>).text === 'string') {
-            const text = (block as Record<string, unknown>).text as string;
-            if (text.trim()) {
-              emitEvent('agent:text', { text: text.slice(0, 2000) });
-              options.onEvent?.({ type: 'chat', content: text });
+        if (msg.type === 'auth_status' && msg.error) {
+          logger.error({ error: msg.error }, 'authentication failed during dispatch');
+          emitEvent('harness:error', { message: `auth_status error: ${msg.error}` });
+          emitEvent('session:complete', { status: 'crashed', error: 'authentication_failed' });
+          updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'crashed');
+          controller.abort();
+          return buildResult('crashed', AUTH_FAILURE_MSG, startTime, taskSlug, dispatchId, model ?? resolvedModel, resultMsg, tokenBudget, 'authentication_failed');
+        } else if (msg.type === 'system' && msg.subtype === 'init') {
+          sessionId = msg.session_id;
+          model = msg.model;
+          emitEvent('session:init', { sessionId: msg.session_id, model: msg.model });
+          if (msg.model && msg.model !== resolvedModel) {
+            try {
+              dispatchStore.updateDispatch(taskDir, dispatchId, { model: msg.model });
+            } catch { /* non-fatal */ }
+          }
+        } else if (msg.type === 'assistant') {
+          if (msg.error) {
+            logger.error({ error: msg.error, sessionId }, 'assistant message error');
+            emitEvent('harness:error', { message: `assistant error: ${msg.error}` });
+            if (msg.error === 'authentication_failed') {
+              updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'crashed');
+              controller.abort();
+              return buildResult('crashed', AUTH_FAILURE_MSG, startTime, taskSlug, dispatchId, model ?? resolvedModel, resultMsg, tokenBudget, 'authentication_failed');
             }
+            noteFailure(msg.error);
           }
 
-          // Thinking blocks
-          if (block.type === 'thinking' && typeof (block as Record<string, unknown>).thinking === 'string') {
-            const thinking = (block as Record<string, unknown>).thinking as string;
-            if (thinking.trim()) {
-              emitEvent('agent:thinking', { text: thinking.slice(0, 2000) });
-              options.onEvent?.({ type: 'thinking', content: thinking });
+          // Token budget enforcement — usage is kept regardless, for the ledger
+          usageByMessage.set(msg.message.id, msg.message.usage);
+          if (tokenBudget > 0 && abortReason === undefined) {
+            const usedTokens = countStreamTokens(usageByMessage.values());
+
+            const budget = detectBudgetOverrun(usedTokens, tokenBudget, tokenBudgetWarnPercent);
+            if (budget?.severity === 'exceeded') {
+              abortReason = 'budget_exceeded';
+              logger.warn({ taskSlug, usedTokens, tokenBudget }, 'collabDispatch: token budget exceeded');
+              emitEvent('harness:budget_exceeded', { usedTokens, tokenBudget, percent: budget.percent });
+              controller.abort();
+            } else if (budget?.severity === 'warning' && !budgetWarningPosted) {
+              budgetWarningPosted = true;
+              emitEvent('harness:budget_warning', { usedTokens, tokenBudget, percent: budget.percent });
+              options.onBudgetWarning?.(usedTokens, tokenBudget);
             }
           }
 
-          // Tool use blocks
-          if (block.type === 'tool_use') {
-            const target = extractToolTarget(block.name, block.input);
-
-            // Capture structured output
-            if (block.name === 'StructuredOutput') {
-              capturedStructuredOutput = block.input;
+          for (const block of msg.message.content) {
+            // Text blocks
+            if (block.type === 'text' && typeof (block as Record<string, unknown>).text === 'string') {
+              const text = (block as Record<string, unknown>).text as string;
+              if (text.trim()) {
+                emitEvent('agent:text', { text: text.slice(0, 2000) });
+                options.onEvent?.({ type: 'chat', content: text });
+              }
             }
 
-            if (block.name !== 'StructuredOutput') {
-              emitEvent('agent:tool_call', { toolCallId: block.id, tool: block.name, target });
-              const summary = target ? `${block.name} ${target}` : block.name;
-              options.onEvent?.({ type: 'tool_use', content: summary, metadata: { tool: block.name, target } });
+            // Thinking blocks
+            if (block.type === 'thinking' && typeof (block as Record<string, unknown>).thinking === 'string') {
+              const thinking = (block as Record<string, unknown>).thinking as string;
+              if (thinking.trim()) {
+                emitEvent('agent:thinking', { text: thinking.slice(0, 2000) });
+                options.onEvent?.({ type: 'thinking', content: thinking });
+              }
             }
 
-            if (block.id) {
-              pendingToolCalls.set(block.id, { tool: block.name, target, startedAt: Date.now() });
-            }
+            // Tool use blocks
+            if (block.type === 'tool_use') {
+              const target = extractToolTarget(block.name, block.input);
+
+              // Capture structured output
+              if (block.name === 'StructuredOutput') {
+                capturedStructuredOutput = block.input;
+              }
+
+              if (block.name !== 'StructuredOutput') {
+                emitEvent('agent:tool_call', { toolCallId: block.id, tool: block.name, target });
+                const summary = target ? `${block.name} ${target}` : block.name;
+                options.onEvent?.({ type: 'tool_use', content: summary, metadata: { tool: block.name, target } });
+              }
 
-            // Error loop detection
-            toolCallWindow.push({ tool: block.name, target, timestamp: Date.now() });
-            if (toolCallWindow.length > 10) toolCallWindow.shift();
-
-            const loopDetection = detectErrorLoop(toolCallWindow, options.loopDetectionThresholds);
-            if (loopDetection) {
-              if (loopDetection.severity === 'kill') {
-                abortReason = 'error_loop';
-                emitEvent('harness:loop_kill', { pattern: loopDetection.pattern, count: loopDetection.count });
-                controller.abort();
-                break;
-              } else if (loopDetection.severity === 'warning' && !loopWarningPosted) {
-                loopWarningPosted = true;
-                emitEvent('harness:loop_warning', { pattern: loopDetection.pattern, count: loopDetection.count });
-                options.onLoopWarning?.(loopDetection.pattern, loopDetection.count);
+              if (block.id) {
+                pendingToolCalls.set(block.id, { tool: block.name, target, startedAt: Date.now() });
+              }
+
+              // Error loop detection
+              toolCallWindow.push({ tool: block.name, target, timestamp: Date.now() });
+              if (toolCallWindow.length > 10) toolCallWindow.shift();
+
+              const loopDetection = detectErrorLoop(toolCallWindow, options.loopDetectionThresholds);
+              if (loopDetection) {
+                if (loopDetection.severity === 'kill') {
+                  abortReason = 'error_loop';
+                  emitEvent('harness:loop_kill', { pattern: loopDetection.pattern, count: loopDetection.count });
+                  controller.abort();
+                  break;
+                } else if (loopDetection.severity === 'warning' && !loopWarningPosted) {
+                  loopWarningPosted = true;
+                  emitEvent('harness:loop_warning', { pattern: loopDetection.pattern, count: loopDetection.count });
+                  options.onLoopWarning?.(loopDetection.pattern, loopDetection.count);
+                }
               }
             }
           }
-        }
-      } else if (msg.type === 'user') {
-        // Tool results — error detection
-        const content = msg.message?.content;
-        if (Array.isArray(content)) {
-          for (const block of content) {
-            if (
-              typeof block === 'object' &&
-              block !== null &&
-              'type' in block &&
-              (block as Record<string, unknown>).type === 'tool_result'
-            ) {
-              const toolResultBlock = block as Record<string, unknown>;
-              const toolUseId = typeof toolResultBlock.tool_use_id === 'string' ? toolResultBlock.tool_use_id : '';
-              const isError = toolResultBlock.is_error === true;
-              const pending = pendingToolCalls.get(toolUseId);
-              const tool = pending?.tool ?? 'unknown';
-              const target = pending?.target ?? '';
-              const durationMs = pending?.startedAt ? Date.now() - pending.startedAt : undefined;
-              if (pending) pendingToolCalls.delete(toolUseId);
-
-              if (tool === 'StructuredOutput') continue;
-
-              emitEvent('agent:tool_result', {
-                toolCallId: toolUseId,
-                tool,
-                target,
-                status: isError ? 'error' : 'completed',
-                ...(durationMs !== undefined ? { durationMs } : {}),
-              });
-
-              if (isError) {
-                let errorSnippet = '';
-                if (typeof toolResultBlock.content === 'string') {
-                  errorSnippet = toolResultBlock.content;
-                } else if (Array.isArray(toolResultBlock.content)) {
-                  errorSnippet = (toolResultBlock.content as Array<Record<string, unknown>>)
-                    .filter(b => b.type === 'text' && typeof b.text === 'string')
-                    .map(b => b.text as string)
-                    .join(' ');
-                }
-                errorSnippet = errorSnippet.replace(/\s+/g, ' ').trim().slice(0, 200);
-
-                errorWindow.push({ tool, target, errorSnippet, timestamp: Date.now() });
-                if (errorWindow.length > 20) errorWindow.shift();
-
-                const nonRetryable = detectNonRetryable(errorWindow);
-                if (nonRetryable) {
-                  abortReason = 'non_retryable_error';
-                  emitEvent('harness:error', {
-                    message: `Non-retryable error: ${nonRetryable.tool}::${nonRetryable.target} (${nonRetryable.count}x)`,
-                    snippet: nonRetryable.errorSnippet,
-                  });
-                  controller.abort();
+        } else if (msg.type === 'user') {
+          // Tool results — error detection
+          const content = msg.message?.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (
+                typeof block === 'object' &&
+                block !== null &&
+                'type' in block &&
+                (block as Record<string, unknown>).type === 'tool_result'
+              ) {
+                const toolResultBlock = block as Record<string, unknown>;
+                const toolUseId = typeof toolResultBlock.tool_use_id === 'string' ? toolResultBlock.tool_use_id : '';
+                const isError = toolResultBlock.is_error === true;
+                const pending = pendingToolCalls.get(toolUseId);
+                const tool = pending?.tool ?? 'unknown';
+                const target = pending?.target ?? '';
+                const durationMs = pending?.startedAt ? Date.now() - pending.startedAt : undefined;
+                if (pending) pendingToolCalls.delete(toolUseId);
+
+                if (tool === 'StructuredOutput') continue;
+
+                emitEvent('agent:tool_result', {
+                  toolCallId: toolUseId,
+                  tool,
+                  target,
+                  status: isError ? 'error' : 'completed',
+                  ...(durationMs !== undefined ? { durationMs } : {}),
+                });
+
+                if (isError) {
+                  let errorSnippet = '';
+                  if (typeof toolResultBlock.content === 'string') {
+                    errorSnippet = toolResultBlock.content;
+                  } else if (Array.isArray(toolResultBlock.content)) {
+                    errorSnippet = (toolResultBlock.content as Array<Record<string, unknown>>)
+                      .filter(b => b.type === 'text' && typeof b.text === 'string')
+                      .map(b => b.text as string)
+                      .join(' ');
+                  }
+                  errorSnippet = errorSnippet.replace(/\s+/g, ' ').trim().slice(0, 200);
+
+                  errorWindow.push({ tool, target, errorSnippet, timestamp: Date.now() });
+                  if (errorWindow.length > 20) errorWindow.shift();
+
+                  const nonRetryable = detectNonRetryable(errorWindow);
+                  if (nonRetryable) {
+                    abortReason = 'non_retryable_error';
+                    emitEvent('harness:error', {
+                      message: `Non-retryable error: ${nonRetryable.tool}::${nonRetryable.target} (${nonRetryable.count}x)`,
+                      snippet: nonRetryable.errorSnippet,
+                    });
+                    controller.abort();
+                  }
                 }
               }
             }
           }
+        } else if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
+          const extras = getSystemExtras(msg as Record<string, unknown>);
+          emitEvent('session:compaction', {
+            trigger: extras.compact_metadata?.trigger ?? 'auto',
+            preTokens: extras.compact_metadata?.pre_tokens ?? 0,
+          });
+          options.onCompaction?.({
+            trigger: extras.compact_metadata?.trigger ?? 'auto',
+            preTokens: extras.compact_metadata?.pre_tokens ?? 0,
+          });
+        } else if (msg.type === 'system') {
+          const extras = getSystemExtras(msg as Record<string, unknown>);
+          switch (extras.subtype) {
+            case 'status':
+              emitEvent('session:status', { status: extras.status });
+              break;
+            case 'files_persisted':
+              emitEvent('system:files_persisted', { files: extras.files });
+              break;
+            case 'hook_started':
+              emitEvent('system:hook_started', { hookName: extras.hook_name });
+              break;
+            case 'hook_progress':
+              emitEvent('system:hook_progress', { output: typeof extras.output === 'string' ? extras.output.slice(0, 500) : undefined });
+              break;
+            case 'hook_response':
+              emitEvent('system:hook_response', {});
+              break;
+            case 'rate_limit':
+              noteFailure('rate_limit');
+              emitEvent('session:rate_limit', { retryAfterMs: extras.retry_after_ms });
+              break;
+          }
+        } else if (msg.type === 'result') {
+          turnResult = msg;
+          resultMsg = resultMsg ? addTurnResult(resultMsg, msg) : msg;
+          logger.info({
+            sessionId,
+            status: msg.subtype,
+            cost: msg.total_cost_usd,
+            model,
+            duration_ms: Date.now() - startTime,
+          }, 'collabDispatch: agent completed');
         }
-      } else if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
-        const extras = getSystemExtras(msg as Record<string, unknown>);
-        emitEvent('session:compaction', {
-          trigger: extras.compact_metadata?.trigger ?? 'auto',
-          preTokens: extras.compact_metadata?.pre_tokens ?? 0,
-        });
-        options.onCompaction?.({
-          trigger: extras.compact_metadata?.trigger ?? 'auto',
-          preTokens: extras.compact_metadata?.pre_tokens ?? 0,
-        });
-      } else if (msg.type === 'system') {
-        const extras = getSystemExtras(msg as Record<string, unknown>);
-        switch (extras.subtype) {
-          case 'status':
-            emitEvent('session:status', { status: extras.status });
-            break;
-          case 'files_persisted':
-            emitEvent('system:files_persisted', { files: extras.files });
-            break;
-          case 'hook_started':
-            emitEvent('system:hook_started', { hookName: extras.hook_name });
-            break;
-          case 'hook_progress':
-            emitEvent('system:hook_progress', { output: typeof extras.output === 'string' ? extras.output.slice(0, 500) : undefined });
-            break;
-          case 'hook_response':
-            emitEvent('system:hook_response', {});
-            break;
-          case 'rate_limit':
-            emitEvent('session:rate_limit', { retryAfterMs: extras.retry_after_ms });
-            break;
-        }
-      } else if (msg.type === 'result') {
-        resultMsg = msg;
-        logger.info({
-          sessionId,
-          status: msg.subtype,
-          cost: msg.total_cost_usd,
-          model,
-          duration_ms: Date.now() - startTime,
-        }, 'collabDispatch: agent completed');
       }
+
+      // Verification ([verify]) — failed checks re-prompt the same session, up to fixAttempts times.
+      // Replays skip it: the recorded run was already verified, and the repo is not the replay's to test
+      if (!project.verify || options.replay || turnResult?.subtype !== 'success' || controller.signal.aborted) break;
+      if (stallTimer !== undefined) clearTimeout(stallTimer);
+      const verification = await runVerify(project.verify, cwd, {
+        signal: controller.signal,
+        onResult: (r) => emitEvent('harness:verify', {
+          command: r.command,
+          exitCode: r.exitCode,
+          durationMs: r.durationMs,
+          timedOut: r.timedOut,
+          output: r.output,
+          ...(fixAttempts > 0 ? { fixAttempt: fixAttempts } : {}),
+        }),
+      });
+      verifyOutcome = verification;
+      if (verification.passed || fixAttempts >= project.verify.fixAttempts || !sessionId || controller.signal.aborted) break;
+
+      fixAttempts++;
+      logger.info({ taskSlug, dispatchId, attempt: fixAttempts, maxAttempts: project.verify.fixAttempts }, 'collabDispatch: verification failed — re-prompting session');
+      turnPrompt = buildVerifyFixPrompt(verification, fixAttempts, project.verify.fixAttempts);
+      sessionOpts = { resume: sessionId };
+      turnResult = undefined;
     }
 
     // ── 12. Process result ─────────────────────────────────────
-    if (resultMsg && resultMsg.subtype === 'success') {
+    if (turnResult && resultMsg?.subtype === 'success') {
       const usage = extractUsageMetrics(resultMsg);
       let structuredResult: AgentResult | undefined;
       let rawResult: string | undefined;
@@ -613,7 +978,18 @@ export async function collabDispatch(
         }
       }
 
-      emitEvent('session:complete', { status: 'completed', cost: resultMsg.total_cost_usd });
+      if (verifyOutcome && !verifyOutcome.passed) {
+        structuredResult = applyVerifyFailure(
+          structuredResult ?? { status: 'success', summary: rawResult ?? 'No summary reported.' },
+          verifyOutcome,
+        );
+      }
+
+      emitEvent('session:complete', {
+        status: 'completed',
+        cost: resultMsg.total_cost_usd,
+        ...(verifyOutcome ? { verified: verifyOutcome.passed, fixAttempts } : {}),
+      });
       updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'completed', resultMsg, structuredResult);
 
       return {
@@ -622,14 +998,15 @@ export async function collabDispatch(
         ...(rawResult ? { result: rawResult } : {}),
         taskSlug,
         dispatchId,
+        ...(sessionId ? { sessionId } : {}),
         cost: buildCostFromResult(resultMsg, tokenBudget || null),
         duration_ms: Date.now() - startTime,
-        model: resolvedModel,
+        model: model ?? resolvedModel,
         usage,
       };
     }
 
-    if (resultMsg) {
+    if (turnResult && resultMsg) {
       const subtype = resultMsg.subtype;
       const isHardLimit = subtype === 'error_max_turns' || subtype === 'error_max_budget_usd';
       const finalStatus = isHardLimit ? 'aborted' as const : 'crashed' as const;
@@ -638,11 +1015,12 @@ export async function collabDispatch(
 
       return {
         status: finalStatus,
+        reason: isHardLimit ? subtype : failureReason ?? subtype,
         taskSlug,
         dispatchId,
         cost: buildCostFromResult(resultMsg, tokenBudget || null),
         duration_ms: Date.now() - startTime,
-        model: resolvedModel,
+        model: model ?? resolvedModel,
         usage: extractUsageMetrics(resultMsg),
       };
     }
@@ -655,20 +1033,22 @@ export async function collabDispatch(
       status: 'completed',
       taskSlug,
       dispatchId,
-      cost: buildCostFromResult(undefined, tokenBudget || null),
+      cost: buildCostFromResult(resultMsg, tokenBudget || null),
       duration_ms: Date.now() - startTime,
-      model: resolvedModel,
+      model: model ?? resolvedModel,
     };
   } catch (err) {
     if (err instanceof AbortError) {
-      const status = abortReason === 'timeout' ? 'timed_out' as const : 'aborted' as const;
+      const status = abortReason === 'timeout' ? 'timed_out' as const
+        : abortReason === 'budget_exceeded' ? 'budget_exceeded' as const
+        : 'aborted' as const;
 
       if (abortReason === 'timeout') {
         logger.warn({ taskSlug, timeoutMs }, 'collabDispatch: dispatch timed out');
         emitEvent('harness:timeout', { timeoutMs, duration_ms: Date.now() - startTime });
       } else if (abortReason === 'stall') {
         emitEvent('harness:stall', { timeoutMs: stallTimeoutMs });
-      } else if (abortReason === 'error_loop' || abortReason === 'non_retryable_error') {
+      } else if (abortReason === 'error_loop' || abortReason === 'non_retryable_error' || abortReason === 'budget_exceeded') {
         // Events already emitted above
       } else {
         emitEvent('harness:abort', { reason: abortReason ?? 'external' });
@@ -679,11 +1059,12 @@ export async function collabDispatch(
 
       return {
         status,
+        reason: abortReason ?? 'external',
         taskSlug,
         dispatchId,
         cost: buildCostFromResult(resultMsg, tokenBudget || null),
         duration_ms: Date.now() - startTime,
-        model: resolvedModel,
+        model: model ?? resolvedModel,
         usage: resultMsg ? extractUsageMetrics(resultMsg) : undefined,
       };
     }
@@ -695,27 +1076,149 @@ export async function collabDispatch(
       emitEvent('harness:error', { message: AUTH_FAILURE_MSG });
       emitEvent('session:complete', { status: 'crashed', error: 'authentication_failed' });
       updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'crashed');
-      return buildResult('crashed', AUTH_FAILURE_MSG, startTime, taskSlug, dispatchId, resolvedModel, resultMsg, tokenBudget);
+      return buildResult('crashed', AUTH_FAILURE_MSG, startTime, taskSlug, dispatchId, model ?? resolvedModel, resultMsg, tokenBudget, 'authentication_failed');
     }
 
     logger.error({ err, message }, 'collabDispatch: agent crashed');
     emitEvent('harness:error', { message });
     emitEvent('session:complete', { status: 'crashed', error: message });
     updateDispatchEnvelope(dispatchStore, taskDir, dispatchId, 'crashed');
-    return buildResult('crashed', message, startTime, taskSlug, dispatchId, resolvedModel, resultMsg, tokenBudget);
+    return buildResult('crashed', message, startTime, taskSlug, dispatchId, model ?? resolvedModel, resultMsg, tokenBudget, failureReason ?? classifyModelError(message) ?? 'error');
   } finally {
     if (stallTimer !== undefined) clearTimeout(stallTimer);
     if (dispatchTimer !== undefined) clearTimeout(dispatchTimer);
+    // A run killed before its result (budget, timeout, stall, loop) still spent —
+    // its ledger entry is estimated from the streamed usage
+    if ((resultMsg || usageByMessage.size > 0) && !options.replay) {
+      try {
+        const cost = resultMsg ? buildCostFromResult(resultMsg, null) : undefined;
+        const usage: CostEstimate = cost
+          ? { usd: cost.totalUsd, inputTokens: cost.inputTokens, outputTokens: cost.outputTokens }
+          : estimateStreamCost(model ?? resolvedModel, usageByMessage.values());
+        const warnings = getCostLedger().record({
+          at: new Date().toISOString(),
+          usd: usage.usd,
+          project: project.name,
+          role: role.name,
+          ...(bot ? { bot: bot.name } : {}),
+          model: model ?? resolvedModel,
+          source: 'dispatch',
+          dispatchId,
+          taskSlug,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          tokens: countStreamTokens(usageByMessage.values()),
+          ...(cost ? {} : { estimated: true as const }),
+        }, ctx.config);
+        for (const warning of warnings) {
+          emitEvent('harness:cost_warning', { ...warning });
+          options.onCostWarning?.(warning);
+        }
+      } catch (err) {
+        logger.error({ err, dispatchId }, 'collabDispatch: failed to record cost');
+      }
+      if (taskBudget) {
+        try {
+          const exhausted = settleTaskBudget(taskDir);
+          if (exhausted) emitEvent('harness:task_budget_exhausted', { ...exhausted });
+        } catch { /* non-fatal */ }
+      }
+    }
+    if (gitCapture) {
+      // Before worktree cleanup — the worktree is the cwd being measured
+      try {
+        const { state, patch } = finishGitCapture(gitCapture);
+        if (patch) dispatchStore.writeDispatchDiff(taskDir, dispatchId, patch);
+        dispatchStore.updateDispatch(taskDir, dispatchId, { git: { ...state, ...(patch ? { diff: true } : {}) } });
+      } catch (err) {
+        logger.error({ err, dispatchId }, 'collabDispatch: failed to record git changes');
+      }
+    }
+    if (worktree) {
+      const finalStatus = dispatchStore.getDispatchEnvelope(taskDir, dispatchId)?.status ?? 'crashed';
+      cleanupDispatchWorktree(worktree, project.worktreeCleanup ?? DEFAULT_WORKTREE_CLEANUP, finalStatus);
+    }
   }
 }
 
 // ── Helpers ────────────────────────────────────────────────────
 
+/** Tighten a per-dispatch limit (0 = unlimited) to what remains of the task budget. */
+function withinRemaining(limit: number, remaining: number | undefined): number {
+  if (remaining === undefined) return limit;
+  return limit > 0 ? Math.min(limit, remaining) : remaining;
+}
+
+/** Fold a verify fix turn's result into the dispatch's: cost, turns, duration and usage add up, the rest is the latest turn's. */
+function addTurnResult(total: SDKResultMessage, turn: SDKResultMessage): SDKResultMessage {
+  return {
+    ...turn,
+    total_cost_usd: total.total_cost_usd + turn.total_cost_usd,
+    num_turns: total.num_turns + turn.num_turns,
+    duration_ms: total.duration_ms + turn.duration_ms,
+    duration_api_ms: total.duration_api_ms + turn.duration_api_ms,
+    usage: {
+      ...turn.usage,
+      input_tokens: total.usage.input_tokens + turn.usage.input_tokens,
+      output_tokens: total.usage.output_tokens + turn.usage.output_tokens,
+      cache_read_input_tokens: total.usage.cache_read_input_tokens + turn.usage.cache_read_input_tokens,
+      cache_creation_input_tokens: total.usage.cache_creation_input_tokens + turn.usage.cache_creation_input_tokens,
+    },
+  };
+}
+
+/** Copy the git changes recorded on a finished dispatch's envelope onto its result. */
+function withGitState(
+  result: CollabDispatchResult,
+  options: CollabDispatchOptions,
+  ctx: CollabDispatchContext,
+): CollabDispatchResult {
+  if (options.dryRun || result.dispatchId === 'none') return result;
+  try {
+    const taskDir = options.taskDir
+      ?? path.join(getProjectTasksDir(ctx.projectsDir, getProject(ctx.projects, options.project).name), result.taskSlug);
+    const git = getDispatchStore().getDispatchEnvelope(taskDir, result.dispatchId)?.git;
+    return git ? { ...result, git } : result;
+  } catch {
+    return result;
+  }
+}
+
+function linkedController(parent: AbortController | undefined): AbortController | undefined {
+  if (!parent) return undefined;
+  const child = new AbortController();
+  if (parent.signal.aborted) {
+    child.abort();
+  } else {
+    parent.signal.addEventListener('abort', () => child.abort(), { once: true });
+  }
+  return child;
+}
+
+/** Wait out a retry backoff. Resolves false if the caller aborted meanwhile. */
+function backoff(ms: number, signal: AbortSignal | undefined): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 function updateDispatchEnvelope(
   store: ReturnType<typeof getDispatchStore>,
   taskDir: string,
   dispatchId: string,
-  status: 'completed' | 'aborted' | 'timed_out' | 'crashed',
+  status: 'completed' | 'aborted' | 'timed_out' | 'budget_exceeded' | 'crashed',
   resultMsg?: SDKResultMessage,
   structuredResult?: AgentResult,
 ): void {
@@ -756,9 +1259,11 @@ function buildResult(
   model: string,
   resultMsg: SDKResultMessage | undefined,
   tokenBudget: number | undefined,
+  reason?: string,
 ): CollabDispatchResult {
   return {
     status,
+    ...(reason ? { reason } : {}),
     result: error,
     taskSlug,
     dispatchId,
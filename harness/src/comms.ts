@@ -15,7 +15,7 @@ export interface ChannelMessage {
   channelId: string;
   from: string;            // participant identifier (role name, 'harness', 'human')
   timestamp: Date;
-  type: 'lifecycle' | 'chat' | 'question' | 'result' | 'warning' | 'error' | 'tool_use' | 'thinking';
+  type: 'lifecycle' | 'chat' | 'question' | 'result' | 'warning' | 'error' | 'tool_use' | 'thinking' | 'approval_request';
   content: string;
   metadata?: Record<string, unknown>;
 }
@@ -32,7 +32,7 @@ export interface PluginManifest {
   /** Short description of what this provider does. */
   description: string;
   /** Which provider type this plugin contributes. */
-  providerType: 'communication' | 'dispatch-store';
+  providerType: 'communication' | 'dispatch-store' | 'agent-engine';
 }
 
 // ── Inbound ─────────────────────────────────────────────────────
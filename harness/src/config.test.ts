@@ -60,6 +60,32 @@ test('explicit routing section still parses', () => {
   assert.strictEqual(result.data.routing.rules.length, 1);
 });
 
+test('routing rule with match conditions and targets parses', () => {
+  const raw = validConfig({
+    routing: {
+      default: 'ts-dev',
+      rules: [{ match: { source: 'slack', content: '/\\bbug\\b/i' }, role: 'triage', project: 'support', bot: 'hazel', cwd: '/repo' }],
+    },
+  });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(result.success);
+  assert.strictEqual(result.data.routing.rules[0]?.match?.source, 'slack');
+  assert.strictEqual(result.data.routing.rules[0]?.bot, 'hazel');
+});
+
+test('routing rule must set role, project, bot or cwd', () => {
+  const raw = validConfig({ routing: { default: 'ts-dev', rules: [{ pattern: '*deploy*' }] } });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(!result.success);
+});
+
+test('routing rule rejects invalid regex patterns', () => {
+  const raw = validConfig({ routing: { default: 'ts-dev', rules: [{ match: { content: '/([a-z/' }, role: 'qa' }] } });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(!result.success);
+  assert.match(result.error.issues[0]?.message ?? '', /Invalid routing pattern/);
+});
+
 test('slack section parses with bots', () => {
   const raw = validConfig();
   const result = ConfigSchema.safeParse(raw);
@@ -88,6 +114,30 @@ test('config with pool.maxConcurrent: 3 parses correctly', () => {
   assert.strictEqual(result.data.pool.maxConcurrent, 3);
 });
 
+test('pool limits parse per project, role, and priority', () => {
+  const raw = validConfig({
+    pool: { maxConcurrent: 6, projectLimits: { acme: 2 }, roleLimits: { 'dotnet-dev': 1 }, priorityLimits: { cron: 3 } },
+  });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(result.success);
+  assert.deepStrictEqual(result.data.pool.projectLimits, { acme: 2 });
+  assert.deepStrictEqual(result.data.pool.roleLimits, { 'dotnet-dev': 1 });
+  assert.strictEqual(result.data.pool.priorityLimits?.cron, 3);
+  assert.ok(!ConfigSchema.safeParse(validConfig({ pool: { roleLimits: { 'dotnet-dev': 0 } } })).success);
+});
+
+test('costs section parses caps per level and defaults warnPercent to 80', () => {
+  const raw = validConfig({
+    costs: { instance: { daily: 50, monthly: 500 }, projects: { acme: { daily: 10 } }, roles: { 'dotnet-dev': { monthly: 100 } } },
+  });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(result.success);
+  assert.strictEqual(result.data.costs.warnPercent, 80);
+  assert.strictEqual(result.data.costs.instance?.monthly, 500);
+  assert.strictEqual(result.data.costs.projects?.['acme']?.daily, 10);
+  assert.ok(!ConfigSchema.safeParse(validConfig({ costs: { bots: { hazel: { daily: -1 } } } })).success);
+});
+
 test('slack section with empty object gets default bots', () => {
   const raw = validConfig({ slack: {} });
   const result = ConfigSchema.safeParse(raw);
@@ -375,6 +425,85 @@ test('resolveModelId resolves default through aliases when default is alias name
   assert.strictEqual(resolveModelId('unknown-hint', config), 'claude-sonnet-4-6');
 });
 
+// ============================================================
+// Engine config tests
+// ============================================================
+
+test('config without engine section defaults to the claude-sdk engine', () => {
+  const result = ConfigSchema.safeParse(validConfig());
+  assert.ok(result.success);
+  assert.strictEqual(result.data.engine.provider, 'claude-sdk');
+  assert.strictEqual(result.data.engine.fixture, undefined);
+});
+
+test('config with scripted engine parses fixture path', () => {
+  const raw = validConfig({ engine: { provider: 'scripted', fixture: 'fixtures/demo.jsonl' } });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(result.success);
+  assert.strictEqual(result.data.engine.provider, 'scripted');
+  assert.strictEqual(result.data.engine.fixture, 'fixtures/demo.jsonl');
+});
+
+test('engine section rejects unknown providers', () => {
+  const result = ConfigSchema.safeParse(validConfig({ engine: { provider: 'openai' } }));
+  assert.ok(!result.success);
+});
+
+// ============================================================
+// Model fallback config tests
+// ============================================================
+
+test('models.fallbacks accepts a single model or a list', () => {
+  const raw = validConfig({
+    models: { default: 'sonnet-latest', fallbacks: { 'opus-latest': 'sonnet-latest', 'sonnet-latest': ['haiku-latest', 'claude-3-5-haiku'] } },
+  });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(result.success);
+  assert.deepStrictEqual(result.data.models.fallbacks, {
+    'opus-latest': ['sonnet-latest'],
+    'sonnet-latest': ['haiku-latest', 'claude-3-5-haiku'],
+  });
+  assert.strictEqual(result.data.models.fallbackOn, undefined);
+});
+
+// ============================================================
+// Retry config tests
+// ============================================================
+
+test('config without retry section leaves retry undefined', () => {
+  const result = ConfigSchema.safeParse(validConfig());
+  assert.ok(result.success);
+  assert.strictEqual(result.data.retry, undefined);
+});
+
+test('config with retry section parses policy', () => {
+  const raw = validConfig({ retry: { maxAttempts: 3, backoffMs: 2000, statuses: ['crashed', 'timed_out'], reasons: ['stall'] } });
+  const result = ConfigSchema.safeParse(raw);
+  assert.ok(result.success);
+  assert.strictEqual(result.data.retry?.maxAttempts, 3);
+  assert.deepStrictEqual(result.data.retry?.statuses, ['crashed', 'timed_out']);
+});
+
+test('retry section rejects non-retryable statuses', () => {
+  const result = ConfigSchema.safeParse(validConfig({ retry: { statuses: ['completed'] } }));
+  assert.ok(!result.success);
+});
+
+// ============================================================
+// Approval config tests
+// ============================================================
+
+test('approvals section defaults to a 300s deny-on-timeout', () => {
+  const result = ConfigSchema.safeParse(validConfig());
+  assert.ok(result.success);
+  assert.deepStrictEqual(result.data.approvals, { timeoutSeconds: 300, onTimeout: 'deny' });
+});
+
+test('approvals section rejects unknown onTimeout', () => {
+  const result = ConfigSchema.safeParse(validConfig({ approvals: { onTimeout: 'ask' } }));
+  assert.ok(!result.success);
+});
+
 // ============================================================
 // Cron config tests
 // ============================================================
@@ -2,12 +2,32 @@ import { readFileSync, existsSync } from 'node:fs';
 import { parse as parseToml } from 'smol-toml';
 import { z } from 'zod';
 import { getInstancePath, getPackagePath } from './paths.js';
+import { validatePattern } from './routing.js';
+import { RetryPolicyOverrideSchema } from './retry.js';
+import { CostCapSchema } from './costs.js';
+
+// Pattern: glob (`*`, `?` — case-insensitive, whole value) or `/regex/flags`
+const RoutePatternSchema = z.string().min(1).superRefine((pattern, ctx) => {
+  const error = validatePattern(pattern);
+  if (error) ctx.addIssue({ code: 'custom', message: `Invalid routing pattern "${pattern}": ${error}` });
+});
 
 const RoutingRuleSchema = z.object({
-  pattern: z.string(),
-  role: z.string(),
+  pattern: RoutePatternSchema.optional(),   // shorthand for match.content
+  match: z.object({
+    content: RoutePatternSchema.optional(),
+    source: RoutePatternSchema.optional(),
+    channel: RoutePatternSchema.optional(),
+    project: RoutePatternSchema.optional(),
+  }).optional(),
+  role: z.string().optional(),
+  project: z.string().optional(),
+  bot: z.string().optional(),
   cwd: z.string().optional(),
-});
+}).refine(
+  (rule) => rule.role !== undefined || rule.project !== undefined || rule.bot !== undefined || rule.cwd !== undefined,
+  { message: 'Routing rule must set at least one of role, project, bot, cwd' },
+);
 
 const LogLevelSchema = z.enum(['minimal', 'debug', 'verbose']).default('debug');
 
@@ -15,13 +35,20 @@ export const ConfigSchema = z.object({
   models: z.object({
     default: z.string(),
     aliases: z.record(z.string(), z.string()).default({}),
+    // Hint or model ID → next models to try (aliases or IDs), e.g. opus-latest = ["sonnet-latest"]
+    fallbacks: z.record(
+      z.string(),
+      z.union([z.string(), z.array(z.string())]).transform((v) => (Array.isArray(v) ? v : [v])),
+    ).optional(),
+    fallbackOn: z.array(z.string().min(1)).optional(), // failure signals that trigger a fallback (see model-fallback.ts)
   }),
   defaults: z.object({
     stallTimeoutSeconds: z.number().positive().default(300),
     dispatchTimeoutMs: z.number().int().nonnegative().default(0), // 0 = no timeout
     tokenBudget: z.number().int().nonnegative().default(0),       // 0 = no limit
+    tokenBudgetWarnPercent: z.number().min(0).max(100).default(80), // 0 = no warning
     maxBudgetUsd: z.number().nonnegative().default(0),            // 0 = no limit
-  }).default({ stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, maxBudgetUsd: 0 }),
+  }).default({ stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 }),
   agent: z.object({
     maxTurns: z.number().int().nonnegative().default(0),
     maxBudgetUsd: z.number().nonnegative().default(0),
@@ -47,7 +74,16 @@ export const ConfigSchema = z.object({
   }).optional(),
   pool: z.object({
     maxConcurrent: z.number().int().min(0).default(0), // 0 = unlimited
-  }).default({ maxConcurrent: 0 }),
+    queueTimeoutSeconds: z.number().int().min(0).default(600), // max wait for a slot at capacity, 0 = no limit
+    agingSeconds: z.number().int().min(0).default(60),         // queued entries gain a priority level per interval, 0 = off
+    projectLimits: z.record(z.string(), z.number().int().positive()).optional(),  // max agents per project
+    roleLimits: z.record(z.string(), z.number().int().positive()).optional(),     // max agents per role
+    priorityLimits: z.object({                                                    // max agents per priority class
+      interactive: z.number().int().positive().optional(),
+      draft: z.number().int().positive().optional(),
+      cron: z.number().int().positive().optional(),
+    }).optional(),
+  }).default({ maxConcurrent: 0, queueTimeoutSeconds: 600, agingSeconds: 60 }),
   mcp: z.object({
     streamTimeout: z.number().int().positive().default(600000), // CLAUDE_CODE_STREAM_CLOSE_TIMEOUT (ms)
   }).default({ streamTimeout: 600000 }),
@@ -60,6 +96,26 @@ export const ConfigSchema = z.object({
     jobsDirectory: z.string().default('cron'),
     maxConsecutiveFailures: z.number().int().positive().default(5),
   }).optional().default({ enabled: true, jobsDirectory: 'cron', maxConsecutiveFailures: 5 }),
+  approvals: z.object({
+    timeoutSeconds: z.number().positive().default(300),
+    onTimeout: z.enum(['deny', 'allow']).default('deny'),
+  }).default({ timeoutSeconds: 300, onTimeout: 'deny' }),
+  retry: RetryPolicyOverrideSchema.optional(), // unset keys fall back to DEFAULT_RETRY_POLICY (no retries)
+  context: z.object({
+    tokenBudget: z.number().int().nonnegative().optional(), // reconstructed task history; unset = DEFAULT_CONTEXT_TOKEN_BUDGET, 0 = unlimited
+  }).optional(),
+  costs: z.object({
+    warnPercent: z.number().int().min(1).max(100).default(80), // broadcast a warning when a cap is this full
+    instance: CostCapSchema.optional(),
+    projects: z.record(z.string(), CostCapSchema).optional(),
+    roles: z.record(z.string(), CostCapSchema).optional(),
+    bots: z.record(z.string(), CostCapSchema).optional(),
+  }).default({ warnPercent: 80 }),
+  engine: z.object({
+    provider: z.enum(['claude-sdk', 'scripted']).default('claude-sdk'),
+    fixture: z.string().optional(), // scripted engine fixture (.json / .jsonl), relative to COLLABOT_HOME
+    record: z.boolean().default(false), // write raw SDK messages to dispatches/{id}.stream.jsonl
+  }).optional().default({ provider: 'claude-sdk', record: false }),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -3,8 +3,8 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { buildTaskContext } from './context.js';
-import { JsonFileDispatchStore } from './dispatch-store.js';
+import { buildTaskContext, reconstructTaskContext } from './context.js';
+import { JsonFileDispatchStore, makeCapturedEvent } from './dispatch-store.js';
 import type { DispatchEnvelope } from './types.js';
 
 const store = new JsonFileDispatchStore();
@@ -90,6 +90,29 @@ test('one completed dispatch with full result — properly formatted', () => {
   assert.ok(context.includes('- Should we use JWT or session cookies?'));
 });
 
+test('dispatch with recorded git changes — git summary and files listed', () => {
+  const taskDir = makeTempDir();
+  writeManifest(taskDir, { slug: 'test-task', description: 'Build the login feature', dispatches: [] });
+
+  store.createDispatch(taskDir, makeEnvelope({
+    status: 'completed',
+    structuredResult: { status: 'success', summary: 'Added login endpoint', changes: ['auth'] },
+    git: {
+      before: { head: 'a1b2c3d4e5f6', branch: 'main', dirty: false },
+      after: { head: 'f6e5d4c3b2a1', branch: 'main', dirty: true },
+      commits: [{ sha: 'f6e5d4c3b2a1', subject: 'Add login endpoint' }],
+      files: [{ path: 'src/auth.ts', insertions: 12, deletions: 3 }],
+      insertions: 12,
+      deletions: 3,
+      diff: true,
+    },
+  }));
+
+  const context = buildTaskContext(taskDir);
+  assert.ok(context.includes('Git: 1 commit, 1 file changed (+12 −3)'));
+  assert.ok(context.includes('- src/auth.ts (+12 −3)'));
+});
+
 test('multiple dispatches in chronological order — all included', () => {
   const taskDir = makeTempDir();
   writeManifest(taskDir, {
@@ -245,3 +268,58 @@ test('falls back to task name when description is absent', () => {
   const context = buildTaskContext(taskDir);
   assert.ok(context.includes('My Task Name'));
 });
+
+test('raw result, task notes and journals — included alongside structured results', () => {
+  const taskDir = makeTempDir();
+  writeManifest(taskDir, { slug: 'test-task', description: 'Build the login feature', dispatches: [] });
+  fs.writeFileSync(path.join(taskDir, 'notes.md'), 'Use the existing auth middleware.\n');
+  fs.writeFileSync(path.join(taskDir, 'api-dev.md'), '# Journal\nTried bcrypt first.\n');
+
+  store.createDispatch(taskDir, makeEnvelope({ dispatchId: '01JCTX0001', role: 'api-dev', status: 'completed' }));
+  store.appendEvent(taskDir, '01JCTX0001', makeCapturedEvent('agent:text', { text: 'Working on it' }));
+  store.appendEvent(taskDir, '01JCTX0001', makeCapturedEvent('agent:text', { text: 'Endpoint is done, tests pass.' }));
+
+  const context = reconstructTaskContext(taskDir);
+  assert.ok(context.text.includes('### Task Notes\nUse the existing auth middleware.'));
+  assert.ok(context.text.includes('**api-dev** (completed)\nResult:\nEndpoint is done, tests pass.'));
+  assert.ok(!context.text.includes('Working on it'));
+  assert.ok(context.text.includes('### Journals'));
+  assert.ok(context.text.includes('Tried bcrypt first.'));
+  assert.deepEqual(context.items.map(i => [i.kind, i.source, i.detail]), [
+    ['notes', 'notes.md', 'full'],
+    ['dispatch', '01JCTX0001', 'full'],
+    ['journal', 'api-dev.md', 'full'],
+  ]);
+  assert.deepEqual(context.omitted, []);
+});
+
+test('over budget — parent and recent dispatches kept in full, older ones summarized or omitted', () => {
+  const taskDir = makeTempDir();
+  writeManifest(taskDir, { slug: 'test-task', description: 'Build the login feature', dispatches: [] });
+
+  const long = 'x'.repeat(400);   // ~100 tokens per full result
+  const ids = ['01JCTX0001', '01JCTX0002', '01JCTX0003', '01JCTX0004'];
+  ids.forEach((dispatchId, i) => {
+    store.createDispatch(taskDir, makeEnvelope({
+      dispatchId,
+      role: `dev-${i + 1}`,
+      status: 'completed',
+      startedAt: `2026-02-19T1${i}:00:00.000Z`,
+      structuredResult: { status: 'success', summary: `Step ${i + 1} ${long}` },
+    }));
+  });
+
+  const context = reconstructTaskContext(taskDir, { tokenBudget: 300, parentDispatchId: '01JCTX0001' });
+  const detail = Object.fromEntries(context.items.map(i => [i.source, i.detail]));
+  assert.equal(detail['01JCTX0001'], 'full', 'parent dispatch comes first');
+  assert.equal(detail['01JCTX0004'], 'full', 'then the most recent');
+  assert.equal(detail['01JCTX0003'], 'summary');
+  assert.ok(context.items.length + context.omitted.length === 4);
+  assert.ok(context.text.includes('### Earlier Work (summarized)\n- **dev-3** (completed): Step 3'));
+  assert.ok(context.text.indexOf('**dev-1**') < context.text.indexOf('**dev-4**'), 'previous work stays chronological');
+  assert.ok(context.tokens <= 300 + 20);
+  assert.equal(context.tokenBudget, 300);
+
+  const unlimited = reconstructTaskContext(taskDir, { tokenBudget: 0 });
+  assert.ok(unlimited.items.every(i => i.detail === 'full'));
+});
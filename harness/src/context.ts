@@ -1,73 +1,232 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { getDispatchStore } from './dispatch-store.js';
+import { estimateTokens } from './dispatch-preview.js';
+import { formatGitSummary, formatGitFiles } from './git-state.js';
 import type { DispatchEnvelope } from './types.js';
 
+/** Token budget for reconstructed task history when config `[context] tokenBudget` is unset. */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 8000;
+
+/** Task notes file — free-form markdown kept in the task directory. Other `.md` files there are journals. */
+const NOTES_FILE = 'notes.md';
+
+const SUMMARY_CHARS = 160;
+
+export type TaskContextOptions = {
+  tokenBudget?: number;        // 0 = unlimited; default DEFAULT_CONTEXT_TOKEN_BUDGET
+  parentDispatchId?: string;   // dispatch drafting this one — it and its ancestors come first
+};
+
+/** One piece of task history that made it into the context. */
+export type ContextItem = {
+  kind: 'dispatch' | 'notes' | 'journal';
+  source: string;              // dispatchId or file name
+  detail: 'full' | 'summary';  // summary = one line, used once the full text no longer fits
+  tokens: number;
+};
+
+export type ReconstructedContext = {
+  text: string;
+  items: ContextItem[];        // in the order they were chosen (highest priority first)
+  omitted: string[];           // sources that did not fit even as a summary
+  tokens: number;
+  tokenBudget: number;
+};
+
+type Candidate = {
+  kind: ContextItem['kind'];
+  source: string;
+  at: string;                  // RFC 3339 — output is chronological
+  full: string;
+  summary: string;
+};
+
+// ── Sources ─────────────────────────────────────────────────────
+
+function oneLine(text: string): string {
+  const line = text.split('\n').map(l => l.trim()).find(l => l.length > 0) ?? '';
+  return line.length > SUMMARY_CHARS ? `${line.slice(0, SUMMARY_CHARS - 1)}…` : line;
+}
+
+/** Raw text result of a dispatch that finished without structured output — its last agent message. */
+function rawResult(taskDir: string, dispatchId: string): string | undefined {
+  const events = getDispatchStore().getDispatchEvents(taskDir, dispatchId);
+  for (let i = events.length - 1; i >= 0; i--) {
+    const text = events[i]!.type === 'agent:text' ? events[i]!.data?.['text'] : undefined;
+    if (typeof text === 'string' && text.trim().length > 0) return text.trim();
+  }
+  return undefined;
+}
+
+/** Changes git recorded for the dispatch — what it actually did, next to what it reported. */
+function gitLines(d: DispatchEnvelope): string[] {
+  const summary = d.git ? formatGitSummary(d.git) : undefined;
+  if (!d.git || !summary) return [];
+  return [`Git: ${summary}`, ...formatGitFiles(d.git).map(file => `- ${file}`)];
+}
+
+function dispatchCandidate(taskDir: string, d: DispatchEnvelope): Candidate | undefined {
+  const heading = `**${d.role}** (${d.status})`;
+  const result = d.structuredResult;
+  if (result) {
+    const lines = [heading, `Summary: ${result.summary}`];
+    for (const [label, list] of [['Changes', result.changes], ['Issues', result.issues], ['Questions', result.questions]] as const) {
+      if (list && list.length > 0) lines.push(`${label}:`, ...list.map(item => `- ${item}`));
+    }
+    lines.push(...gitLines(d));
+    return { kind: 'dispatch', source: d.dispatchId, at: d.startedAt, full: lines.join('\n'), summary: `- ${heading}: ${oneLine(result.summary)}` };
+  }
+
+  const raw = rawResult(taskDir, d.dispatchId);
+  if (!raw) return undefined;
+  return {
+    kind: 'dispatch',
+    source: d.dispatchId,
+    at: d.startedAt,
+    full: [heading, ...gitLines(d), 'Result:', raw].join('\n'),
+    summary: `- ${heading}: ${oneLine(raw)}`,
+  };
+}
+
+function fileCandidate(taskDir: string, file: string): Candidate | undefined {
+  const filePath = path.join(taskDir, file);
+  const text = fs.readFileSync(filePath, 'utf-8').trim();
+  if (text.length === 0) return undefined;
+  const kind = file === NOTES_FILE ? 'notes' : 'journal';
+  return {
+    kind,
+    source: file,
+    at: fs.statSync(filePath).mtime.toISOString(),
+    full: kind === 'notes' ? text : `**${file}**\n${text}`,
+    summary: `- ${file}: ${oneLine(text)}`,
+  };
+}
+
+/** The parent dispatch and its ancestors, nearest first. */
+function ancestry(envelopes: DispatchEnvelope[], parentDispatchId: string | undefined): string[] {
+  const byId = new Map(envelopes.map(d => [d.dispatchId, d]));
+  const chain: string[] = [];
+  for (let id = parentDispatchId; id && !chain.includes(id); id = byId.get(id)?.parentDispatchId) {
+    chain.push(id);
+  }
+  return chain;
+}
+
+// ── Assembly ────────────────────────────────────────────────────
+
 /**
- * Build a context prompt from task history.
- * Used when drafting a follow-up agent on an existing task.
+ * Reconstruct task history for a follow-up dispatch, within a token budget.
  *
- * Returns a markdown section that can be prepended to the agent's prompt.
- * Includes the original request and results from all prior dispatches
- * that produced a structured result.
+ * Draws on dispatch results (structured, or the last agent message when there
+ * is none), task notes (`notes.md`) and journals (other `.md` files in the
+ * task dir). Items are chosen in priority order — the parent dispatch chain,
+ * task notes, remaining dispatches newest first, journals newest first — at
+ * full length while they fit, then as one-line summaries, then not at all.
+ * The original request is always included. Output is chronological.
  */
-export function buildTaskContext(taskDir: string): string {
+export function reconstructTaskContext(taskDir: string, opts: TaskContextOptions = {}): ReconstructedContext {
   // Read task-level metadata (name, description) from task.json
   const manifestPath = path.join(taskDir, 'task.json');
   const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as {
     name: string;
     description?: string;
   };
+  const tokenBudget = opts.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+
+  const header = ['## Task History', '', '### Original Request', manifest.description ?? manifest.name, ''];
+
+  const envelopes = getDispatchStore().getDispatchEnvelopes(taskDir).filter(d => d.status !== 'running');
+  const dispatches = envelopes
+    .map(d => dispatchCandidate(taskDir, d))
+    .filter((c): c is Candidate => c !== undefined);
+  const files = fs.readdirSync(taskDir)
+    .filter(f => f.endsWith('.md'))
+    .map(f => fileCandidate(taskDir, f))
+    .filter((c): c is Candidate => c !== undefined);
+
+  const newestFirst = (a: Candidate, b: Candidate) => b.at.localeCompare(a.at);
+  const parents = ancestry(envelopes, opts.parentDispatchId);
+  const candidates = [
+    ...parents.flatMap(id => dispatches.filter(c => c.source === id)),
+    ...files.filter(c => c.kind === 'notes'),
+    ...dispatches.filter(c => !parents.includes(c.source)).sort(newestFirst),
+    ...files.filter(c => c.kind === 'journal').sort(newestFirst),
+  ];
 
-  const lines: string[] = [];
-  lines.push('## Task History');
-  lines.push('');
-  lines.push('### Original Request');
-  lines.push(manifest.description ?? manifest.name);
-  lines.push('');
-
-  // Read dispatch envelopes from the dispatch store
-  const store = getDispatchStore();
-  const envelopes = store.getDispatchEnvelopes(taskDir);
-
-  // Filter to dispatches with structured results, ordered by startedAt
-  const withResults = envelopes
-    .filter((d: DispatchEnvelope) => d.structuredResult != null)
-    .sort((a: DispatchEnvelope, b: DispatchEnvelope) => a.startedAt.localeCompare(b.startedAt));
-
-  if (withResults.length > 0) {
-    lines.push('### Previous Work');
-    lines.push('');
-
-    for (const d of withResults) {
-      const result = d.structuredResult!;
-      lines.push(`**${d.role}** (${d.status})`);
-      lines.push(`Summary: ${result.summary}`);
-
-      if (result.changes && result.changes.length > 0) {
-        lines.push('Changes:');
-        for (const change of result.changes) {
-          lines.push(`- ${change}`);
-        }
-      }
-
-      if (result.issues && result.issues.length > 0) {
-        lines.push('Issues:');
-        for (const issue of result.issues) {
-          lines.push(`- ${issue}`);
-        }
-      }
-
-      if (result.questions && result.questions.length > 0) {
-        lines.push('Questions:');
-        for (const q of result.questions) {
-          lines.push(`- ${q}`);
-        }
-      }
-
-      lines.push('');
+  // Choose — full text while it fits, then a one-line summary
+  let remaining = tokenBudget > 0 ? tokenBudget - estimateTokens(header.join('\n')) : Infinity;
+  const chosen: Array<Candidate & { detail: ContextItem['detail']; tokens: number }> = [];
+  const omitted: string[] = [];
+  for (const c of candidates) {
+    const fullTokens = estimateTokens(c.full);
+    const summaryTokens = estimateTokens(c.summary);
+    if (fullTokens <= remaining) {
+      chosen.push({ ...c, detail: 'full', tokens: fullTokens });
+      remaining -= fullTokens;
+    } else if (summaryTokens <= remaining) {
+      chosen.push({ ...c, detail: 'summary', tokens: summaryTokens });
+      remaining -= summaryTokens;
+    } else {
+      omitted.push(c.source);
     }
   }
 
-  return lines.join('\n');
+  // Render — chronological within each section
+  const chronological = [...chosen].sort((a, b) => a.at.localeCompare(b.at));
+  const pick = (kind: ContextItem['kind'], detail: ContextItem['detail']) =>
+    chronological.filter(c => c.kind === kind && c.detail === detail);
+
+  const lines = [...header];
+  const notes = [...pick('notes', 'full'), ...pick('notes', 'summary')];
+  if (notes.length > 0) {
+    lines.push('### Task Notes', ...notes.map(c => c.detail === 'full' ? c.full : c.summary), '');
+  }
+  const earlier = pick('dispatch', 'summary');
+  if (earlier.length > 0) {
+    lines.push('### Earlier Work (summarized)', ...earlier.map(c => c.summary), '');
+  }
+  const previous = pick('dispatch', 'full');
+  if (previous.length > 0) {
+    lines.push('### Previous Work', '');
+    for (const c of previous) lines.push(c.full, '');
+  }
+  const journals = chronological.filter(c => c.kind === 'journal');
+  if (journals.length > 0) {
+    lines.push('### Journals', '');
+    for (const c of journals) lines.push(c.detail === 'full' ? c.full : c.summary, '');
+  }
+  if (omitted.length > 0) {
+    lines.push(`_${omitted.length} older item(s) omitted to fit the context budget._`, '');
+  }
+
+  const text = lines.join('\n');
+  return {
+    text,
+    items: chosen.map(({ kind, source, detail, tokens }) => ({ kind, source, detail, tokens })),
+    omitted,
+    tokens: estimateTokens(text),
+    tokenBudget,
+  };
+}
+
+/**
+ * Build a context prompt from task history.
+ * Used when drafting a follow-up agent on an existing task.
+ *
+ * Returns a markdown section that can be prepended to the agent's prompt.
+ * See reconstructTaskContext for what is included.
+ */
+export function buildTaskContext(taskDir: string, opts?: TaskContextOptions): string {
+  return reconstructTaskContext(taskDir, opts).text;
+}
+
+/** `session:context_reconstructed` event data — what was chosen, at what size. */
+export function contextReconstructedEvent(context: ReconstructedContext): Record<string, unknown> {
+  return {
+    tokens: context.tokens,
+    tokenBudget: context.tokenBudget,
+    items: context.items,
+    omitted: context.omitted,
+  };
 }
@@ -6,7 +6,7 @@ import os from 'node:os';
 import type { Project } from './project.js';
 import { JsonFileDispatchStore } from './dispatch-store.js';
 import { CommunicationRegistry } from './registry.js';
-import type { CommunicationProvider } from './comms.js';
+import type { CommunicationProvider, ChannelMessage } from './comms.js';
 import { AgentPool } from './pool.js';
 
 // --- Test helpers ---
@@ -22,7 +22,11 @@ function makeTempTaskDir(slug: string, manifest: Record<string, unknown>): strin
   return taskDir;
 }
 
-function makeRegistry(): CommunicationRegistry {
+function readManifest(taskDir: string): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(path.join(taskDir, 'task.json'), 'utf-8')) as Record<string, unknown>;
+}
+
+function makeRegistry(sent: ChannelMessage[] = []): CommunicationRegistry {
   const registry = new CommunicationRegistry();
   const provider: CommunicationProvider = {
     name: 'test',
@@ -30,7 +34,7 @@ function makeRegistry(): CommunicationRegistry {
     async start() {},
     async stop() {},
     isReady() { return true; },
-    async send() {},
+    async send(msg) { sent.push(msg); },
     async setStatus() {},
     onInbound() {},
   };
@@ -69,7 +73,7 @@ function makeProjects(): Map<string, Project> {
     ['acme', {
       name: 'Acme',
       description: 'Test project',
-      paths: ['../backend-api'],
+      paths: ['../backend-api', '../web-portal'],
       roles: ['api-dev', 'product-analyst'],
     }],
   ]);
@@ -77,6 +81,10 @@ function makeProjects(): Map<string, Project> {
 
 // --- Mock collabDispatch to capture the prompt ---
 let capturedPrompt: string | undefined;
+let capturedOptions: Record<string, unknown> | undefined;
+let mockResultOverrides: Record<string, unknown> = {};
+let mockResultQueue: Array<Record<string, unknown>> = [];   // per-call overrides, used before mockResultOverrides
+const capturedCalls: Array<Record<string, unknown>> = [];
 
 function getCaptured(): string {
   assert.ok(capturedPrompt !== undefined, 'collabDispatch should have been called');
@@ -87,6 +95,8 @@ mock.module('./collab-dispatch.js', {
   namedExports: {
     collabDispatch: mock.fn(async (options: { prompt: string }) => {
       capturedPrompt = options.prompt;
+      capturedOptions = options;
+      capturedCalls.push(options);
       return {
         status: 'completed',
         result: 'mocked',
@@ -95,6 +105,7 @@ mock.module('./collab-dispatch.js', {
         cost: { totalUsd: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, turns: 0, tokenBudget: null, tokenBudgetPercent: null },
         duration_ms: 100,
         model: 'claude-sonnet-4-6',
+        ...(mockResultQueue.shift() ?? mockResultOverrides),
       };
     }),
   },
@@ -128,6 +139,13 @@ mock.module('./task.js', {
     listTasks: mock.fn(() => []),
     closeTask: mock.fn(() => {}),
     getOpenTasks: mock.fn(() => []),
+    readTaskManifest: mock.fn((taskDir: string) => readManifest(taskDir)),
+    updateTaskManifest: mock.fn((taskDir: string, update: (manifest: Record<string, unknown>) => void) => {
+      const manifest = readManifest(taskDir);
+      update(manifest);
+      fs.writeFileSync(path.join(taskDir, 'task.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+      return manifest;
+    }),
   },
 });
 
@@ -213,3 +231,237 @@ test('handleTask passes project and role correctly', async () => {
   const prompt = getCaptured();
   assert.equal(prompt, 'Do something new', 'prompt should be the raw message content');
 });
+
+test('handleTask routes messages without a role through config.routing', async () => {
+  const taskDir = makeTempTaskDir('test-task-routed', {
+    slug: 'test-task-routed',
+    name: 'Routed task',
+    project: 'Acme',
+    status: 'open',
+    created: '2026-02-19T12:00:00.000Z',
+    description: 'Routed task',
+    dispatches: [],
+  });
+  mockTaskDir = taskDir;
+  capturedOptions = undefined;
+
+  const config = {
+    ...makeConfig(),
+    routing: {
+      default: 'product-analyst',
+      rules: [{ match: { content: '*endpoint*', source: 'ws' }, role: 'api-dev', cwd: '../web-portal' }],
+    },
+  };
+
+  const message = {
+    id: 'msg-3',
+    content: 'Add an endpoint for invoices',
+    threadId: 'thread-789',
+    source: 'ws',
+    project: 'Acme',
+    metadata: { taskSlug: 'test-task-routed' },
+  };
+
+  await handleTask(message, makeRegistry(), makeRoles(), config as any, new AgentPool(), undefined, makeProjects(), '/tmp');
+
+  assert.ok(capturedOptions, 'collabDispatch should have been called');
+  assert.equal(capturedOptions['role'], 'api-dev');
+  assert.equal(capturedOptions['repo'], '../web-portal', "the rule's cwd selects the repo the dispatch runs in");
+});
+
+test("handleTask rejects a routing rule's cwd that is not one of the project's paths", async () => {
+  mockTaskDir = makeTempTaskDir('test-task-stray-cwd', {
+    slug: 'test-task-stray-cwd',
+    name: 'Stray cwd',
+    project: 'Acme',
+    status: 'open',
+    created: '2026-02-19T12:00:00.000Z',
+    description: 'Stray cwd',
+    dispatches: [],
+  });
+
+  const config = {
+    ...makeConfig(),
+    routing: { default: 'api-dev', rules: [{ match: { content: '*endpoint*' }, cwd: '/somewhere/else' }] },
+  };
+  const message = {
+    id: 'msg-3b',
+    content: 'Add an endpoint for refunds',
+    threadId: 'thread-789b',
+    source: 'ws',
+    project: 'Acme',
+    metadata: { taskSlug: 'test-task-stray-cwd' },
+  };
+
+  await assert.rejects(
+    handleTask(message, makeRegistry(), makeRoles(), config as any, new AgentPool(), undefined, makeProjects(), '/tmp'),
+    /Repo "\/somewhere\/else" not found in project "Acme"/,
+  );
+});
+
+test('handleTask falls back to routing.default when no rule matches', async () => {
+  mockTaskDir = makeTempTaskDir('test-task-default', {
+    slug: 'test-task-default',
+    name: 'Default task',
+    project: 'Acme',
+    status: 'open',
+    created: '2026-02-19T12:00:00.000Z',
+    description: 'Default task',
+    dispatches: [],
+  });
+
+  const config = { ...makeConfig(), routing: { default: 'product-analyst', rules: [] } };
+  const message = {
+    id: 'msg-4',
+    content: 'Hello',
+    threadId: 'thread-790',
+    source: 'ws',
+    project: 'Acme',
+    metadata: { taskSlug: 'test-task-default' },
+  };
+
+  await assert.rejects(
+    handleTask(message, makeRegistry(), makeRoles(), config as any, new AgentPool(), undefined, makeProjects(), '/tmp'),
+    /Role "product-analyst" not found/,
+  );
+});
+
+test('questions park the task and the next message resumes the asking session', async () => {
+  const taskDir = makeTempTaskDir('test-task-questions', {
+    slug: 'test-task-questions',
+    name: 'Clarify the schema',
+    project: 'Acme',
+    status: 'open',
+    created: '2026-02-19T13:00:00.000Z',
+    dispatches: [],
+  });
+  mockTaskDir = taskDir;
+  const sent: ChannelMessage[] = [];
+  const message = {
+    id: 'msg-5',
+    content: 'Design the schema',
+    threadId: 'thread-q',
+    source: 'ws',
+    project: 'Acme',
+    role: 'api-dev',
+  };
+
+  mockResultOverrides = {
+    sessionId: 'sess-q',
+    structuredResult: { status: 'blocked', summary: 'Need input', questions: ['Which database?', 'Soft deletes?'] },
+  };
+  try {
+    await handleTask(message, makeRegistry(sent), makeRoles(), makeConfig() as any, new AgentPool(), undefined, makeProjects(), '/tmp');
+  } finally {
+    mockResultOverrides = {};
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(path.join(taskDir, 'task.json'), 'utf-8'));
+  assert.equal(manifest.status, 'awaiting_answers');
+  assert.equal(manifest.pendingQuestions.sessionId, 'sess-q');
+  const question = sent.find(m => m.type === 'question');
+  assert.ok(question, 'questions should be posted to the adapter');
+  assert.deepEqual(question.metadata?.['questions'], ['Which database?', 'Soft deletes?']);
+
+  await handleTask(
+    { ...message, id: 'msg-6', content: 'Postgres\nYes', metadata: { answers: ['Postgres', 'Yes'] } },
+    makeRegistry(), makeRoles(), makeConfig() as any, new AgentPool(), undefined, makeProjects(), '/tmp',
+  );
+
+  assert.equal(capturedOptions?.['resume'], 'sess-q');
+  assert.match(getCaptured(), /1\. Which database\?\n {3}Answer: Postgres/);
+  const reopened = JSON.parse(fs.readFileSync(path.join(taskDir, 'task.json'), 'utf-8'));
+  assert.equal(reopened.status, 'open');
+  assert.equal(reopened.pendingQuestions, undefined);
+});
+
+test("answers continue in the asking dispatch's worktree and stay pending when the answer is refused", async () => {
+  const worktree = { repo: '../backend-api', path: '/tmp/wt/01JASK', branch: 'collabot/test-task-answers', baseRef: 'abc123' };
+  const taskDir = makeTempTaskDir('test-task-answers', {
+    slug: 'test-task-answers',
+    name: 'Pick a queue',
+    project: 'Acme',
+    status: 'awaiting_answers',
+    created: '2026-02-19T13:30:00.000Z',
+    dispatches: [],
+    pendingQuestions: { dispatchId: '01JASK', role: 'api-dev', questions: ['Which queue?'], askedAt: '2026-02-19T13:35:00.000Z', sessionId: 'sess-a' },
+  });
+  new JsonFileDispatchStore().createDispatch(taskDir, {
+    dispatchId: '01JASK',
+    taskSlug: 'test-task-answers',
+    role: 'api-dev',
+    model: 'claude-sonnet-4-6',
+    cwd: worktree.path,
+    startedAt: '2026-02-19T13:30:00.000Z',
+    status: 'completed',
+    worktree,
+  });
+  mockTaskDir = taskDir;
+  const answer = {
+    id: 'msg-6b',
+    content: 'SQS',
+    threadId: 'thread-a',
+    source: 'ws',
+    project: 'Acme',
+    role: 'api-dev',
+  };
+
+  mockResultOverrides = { status: 'crashed', dispatchId: 'none', result: 'Cost cap reached' };
+  try {
+    await handleTask(answer, makeRegistry(), makeRoles(), makeConfig() as any, new AgentPool(), undefined, makeProjects(), '/tmp');
+  } finally {
+    mockResultOverrides = {};
+  }
+  assert.equal(readManifest(taskDir)['status'], 'awaiting_answers', 'a refused answer leaves the questions open');
+
+  await handleTask(answer, makeRegistry(), makeRoles(), makeConfig() as any, new AgentPool(), undefined, makeProjects(), '/tmp');
+
+  assert.equal(capturedOptions?.['resume'], 'sess-a');
+  assert.deepEqual(capturedOptions?.['worktree'], worktree);
+  assert.equal(readManifest(taskDir)['status'], 'open');
+});
+
+test('review policy sends changes to the reviewer and loops issues back until approved', async () => {
+  const taskDir = makeTempTaskDir('test-task-review', {
+    slug: 'test-task-review',
+    name: 'Add retries',
+    project: 'Acme',
+    status: 'open',
+    created: '2026-02-19T14:00:00.000Z',
+    dispatches: [],
+  });
+  mockTaskDir = taskDir;
+  const sent: ChannelMessage[] = [];
+  const projects = makeProjects();
+  projects.get('acme')!.review = { roles: ['api-dev'], reviewer: 'product-analyst', maxIterations: 3 };
+
+  mockResultQueue = [
+    { dispatchId: 'impl-1', structuredResult: { status: 'success', summary: 'Added retries', changes: ['retry.ts'] } },
+    { dispatchId: 'review-1', structuredResult: { status: 'partial', summary: 'Needs tests', issues: ['no tests'] } },
+    { dispatchId: 'impl-2', structuredResult: { status: 'success', summary: 'Added tests', changes: ['retry.test.ts'] } },
+    { dispatchId: 'review-2', structuredResult: { status: 'success', summary: 'Approved' } },
+  ];
+  capturedCalls.length = 0;
+  let result;
+  try {
+    result = await handleTask(
+      { id: 'msg-7', content: 'Add retries', threadId: 'thread-r', source: 'ws', project: 'Acme', role: 'api-dev' },
+      makeRegistry(sent), makeRoles(), makeConfig() as any, new AgentPool(), undefined, projects, '/tmp',
+    );
+  } finally {
+    mockResultQueue = [];
+  }
+
+  assert.deepEqual(capturedCalls.map(c => [c['role'], c['parentDispatchId']]), [
+    ['api-dev', undefined],
+    ['product-analyst', 'impl-1'],
+    ['api-dev', 'review-1'],
+    ['product-analyst', 'impl-2'],
+  ]);
+  assert.equal(result.dispatchId, 'impl-2');
+  const posted = sent.filter(m => m.type === 'result');
+  assert.equal(posted.length, 1, 'one consolidated result is posted');
+  assert.match(posted[0]!.content, /Added tests/);
+  assert.match(posted[0]!.content, /\*Review:\* approved by product-analyst after 2 round\(s\)/);
+  assert.equal((posted[0]!.metadata?.['review'] as { approved: boolean }).approved, true);
+});
@@ -3,8 +3,9 @@ import path from 'node:path';
 import { logger } from './logger.js';
 import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
 import { findTaskByThread, createTask } from './task.js';
-import { getProject, getProjectTasksDir, projectHasPaths } from './project.js';
-import type { DispatchResult, RoleDefinition, CollabDispatchResult, AgentEvent } from './types.js';
+import { getProject, getProjectTasksDir, projectHasPaths, resolveProjectPath } from './project.js';
+import { explainRoute, applyRoute } from './routing.js';
+import type { DispatchResult, RoleDefinition, BotDefinition, CollabDispatchOptions, CollabDispatchResult, AgentEvent, DispatchWorktree } from './types.js';
 import type { InboundMessage, ChannelMessage } from './comms.js';
 import type { CommunicationRegistry } from './registry.js';
 import type { Config } from './config.js';
@@ -12,9 +13,31 @@ import type { AgentPool } from './pool.js';
 import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
 import type { Project } from './project.js';
 import { selectMcpServersForRole } from './mcp.js';
+import { formatApprovalRequest, type ApprovalRequest } from './approvals.js';
+import { formatCostWarning, type CapStatus } from './costs.js';
+import { getPendingQuestions, markAwaitingAnswers, clearAwaitingAnswers, formatQuestions, buildAnswerPrompt } from './questions.js';
+import { formatReviewOutcome } from './review.js';
+import { reviewDispatch } from './review-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { formatGitSummary, formatGitFiles } from './git-state.js';
 import type { McpServers } from './mcp.js';
 
+/** What git says the dispatch changed — shown next to the agent's own `changes` list. */
+function formatGitLines(result: CollabDispatchResult): string[] {
+  const summary = result.git ? formatGitSummary(result.git) : undefined;
+  if (!result.git || !summary) return [];
+  return [
+    '',
+    `*Git:* ${summary}`,
+    ...formatGitFiles(result.git).map(file => `\u2022 ${file}`),
+  ];
+}
+
 function formatResult(result: CollabDispatchResult): string {
+  return [formatOutcome(result), ...formatGitLines(result)].join('\n');
+}
+
+function formatOutcome(result: CollabDispatchResult): string {
   if (result.status === 'completed') {
     if (result.structuredResult) {
       const sr = result.structuredResult;
@@ -39,14 +62,6 @@ function formatResult(result: CollabDispatchResult): string {
         }
       }
 
-      if (sr.questions && sr.questions.length > 0) {
-        lines.push('');
-        lines.push('*Agent has questions:*');
-        sr.questions.forEach((q, i) => {
-          lines.push(`${i + 1}. ${q}`);
-        });
-      }
-
       if (sr.pr_url) {
         lines.push('');
         lines.push(`*PR:* ${sr.pr_url}`);
@@ -64,11 +79,16 @@ function formatResult(result: CollabDispatchResult): string {
       return body;
     }
     return '*Agent completed* \u2705';
+  } else if (result.status === 'budget_exceeded') {
+    const tokens = result.cost.tokenBudget ? ` (${result.cost.tokenBudget} tokens)` : '';
+    return `*Agent stopped \u2014 token budget exceeded${tokens}* \u26D4`;
   } else if (result.status === 'aborted' || result.status === 'timed_out') {
-    return `*Agent timed out* \u23F1\uFE0F`;
+    const attemptsStr = result.attempts ? ` after ${result.attempts} attempts` : '';
+    return `*Agent timed out${attemptsStr}* \u23F1\uFE0F`;
   } else {
+    const attemptsStr = result.attempts ? ` after ${result.attempts} attempts` : '';
     const errorStr = result.result ? `\nError: ${result.result}` : '';
-    return `*Agent crashed* \u274C${errorStr}`;
+    return `*Agent crashed${attemptsStr}* \u274C${errorStr}`;
   }
 }
 
@@ -93,7 +113,7 @@ export function makeChannelMessage(
 /**
  * handleTask — adapter-facing entry point.
  *
- * Handles adapter-specific concerns (thread-based task resolution,
+ * Handles adapter-specific concerns (routing, thread-based task resolution,
  * preflight checks, status broadcasting, result posting) and delegates
  * the actual dispatch to collabDispatch().
  */
@@ -106,7 +126,21 @@ export async function handleTask(
   mcpServers: McpServers | undefined,
   projects: Map<string, Project>,
   projectsDir: string,
+  bots?: Map<string, BotDefinition>,
 ): Promise<CollabDispatchResult> {
+  // Routing — messages without a pre-resolved role go through config.routing
+  if (!message.role) {
+    const { decision } = explainRoute(message, config.routing);
+    logger.info({
+      source: message.source,
+      rule: decision.ruleIndex ?? 'default',
+      role: decision.role,
+      project: decision.project,
+      bot: decision.bot,
+    }, 'message routed');
+    message = applyRoute(message, decision);
+  }
+
   // Project is required
   const projectName = message.project;
   if (!projectName) {
@@ -120,18 +154,10 @@ export async function handleTask(
 
   const tasksDir = getProjectTasksDir(projectsDir, project.name);
 
-  // Role is required
-  const roleName = message.role ?? 'product-analyst';
-  const role = roles.get(roleName);
-  if (!role) {
-    throw new Error(`Role "${roleName}" not found`);
-  }
-  if (!project.roles.includes(roleName)) {
-    throw new Error(`Role "${roleName}" is not available for project "${project.name}". Available: ${project.roles.join(', ')}`);
-  }
-
-  // CWD override
-  const cwd = (message.metadata?.['cwdOverride'] as string | undefined) ?? project.paths[0]!;
+  // Repo selection — a cwd override (--cwd, a routing rule's cwd) names one of
+  // the project's paths and takes precedence over the repo selector
+  const repo = (message.metadata?.['cwdOverride'] as string | undefined) ?? message.metadata?.['repo'] as string | undefined;
+  const cwd = resolveProjectPath(project, repo);
 
   // Task resolution: taskSlug from metadata → lookup, OR threadId → thread inheritance
   const existingTaskSlug = message.metadata?.['taskSlug'] as string | undefined;
@@ -160,6 +186,20 @@ export async function handleTask(
     throw new Error('Task slug or thread ID is required for dispatch');
   }
 
+  // Answers — a task parked on questions treats this message as the answers
+  // and goes back to the role that asked
+  const pending = getPendingQuestions(taskDir);
+
+  // Role is required (always set once routed)
+  const roleName = pending?.role ?? message.role ?? config.routing.default;
+  const role = roles.get(roleName);
+  if (!role) {
+    throw new Error(`Role "${roleName}" not found`);
+  }
+  if (!project.roles.includes(roleName)) {
+    throw new Error(`Role "${roleName}" is not available for project "${project.name}". Available: ${project.roles.join(', ')}`);
+  }
+
   // Preflight checks (warn-only)
   if (!fs.existsSync(path.join(cwd, 'CLAUDE.md'))) {
     logger.warn({ cwd }, `No CLAUDE.md found in ${cwd}`);
@@ -193,16 +233,35 @@ export async function handleTask(
     ? selectMcpServersForRole(role, mcpServers, { taskSlug, taskDir, parentProject: project.name })
     : undefined;
 
-  // Pool management
+  // Pool management — waits in the admission queue when the pool is at capacity
   const agentController = new AbortController();
   const agentId = `${roleName}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
-  pool.register({
-    id: agentId,
-    role: roleName,
-    taskSlug,
-    startedAt: new Date(),
-    controller: agentController,
-  });
+  try {
+    await pool.acquire({
+      id: agentId,
+      role: roleName,
+      project: project.name,
+      taskSlug,
+      startedAt: new Date(),
+      controller: agentController,
+    }, {
+      priority: 'interactive',
+      onQueued: (position) => {
+        registry.broadcast(makeChannelMessage(
+          channelId, 'Collabot', 'lifecycle',
+          `Queued #${position} \u2014 waiting for a free agent slot...`,
+        )).catch((err: unknown) => {
+          logger.error({ err }, 'failed to post queue position');
+        });
+      },
+    });
+  } catch (err) {
+    await registry.broadcastStatus(channelId, 'failed');
+    await registry.broadcast(makeChannelMessage(
+      channelId, 'Collabot', 'error', err instanceof Error ? err.message : String(err),
+    ));
+    throw err;
+  }
 
   // Wire callbacks for adapter broadcasting
   const onLoopWarning = (pattern: string, count: number) => {
@@ -214,6 +273,58 @@ export async function handleTask(
     });
   };
 
+  const onBudgetWarning = (usedTokens: number, tokenBudget: number) => {
+    registry.broadcast(makeChannelMessage(
+      channelId, 'Collabot', 'warning',
+      `\u26A0 Agent has used ${usedTokens} of its ${tokenBudget} token budget. Still running.`,
+    )).catch((err: unknown) => {
+      logger.error({ err }, 'failed to post budget warning');
+    });
+  };
+
+  const onRetry = (attempt: number, maxAttempts: number, previous: CollabDispatchResult, delayMs: number) => {
+    const why = previous.reason ? `${previous.status}: ${previous.reason}` : previous.status;
+    registry.broadcast(makeChannelMessage(
+      channelId, 'Collabot', 'warning',
+      `\u21BB Dispatch failed (${why}) — retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt}/${maxAttempts}).`,
+    )).catch((err: unknown) => {
+      logger.error({ err }, 'failed to post retry notice');
+    });
+  };
+
+  const onModelFallback = (from: string, to: string, previous: CollabDispatchResult) => {
+    registry.broadcast(makeChannelMessage(
+      channelId, 'Collabot', 'warning',
+      `\u21BB ${from} failed (${previous.reason ?? previous.status}) — switching to ${to}.`,
+    )).catch((err: unknown) => {
+      logger.error({ err }, 'failed to post model fallback notice');
+    });
+  };
+
+  const onCostWarning = (warning: CapStatus) => {
+    registry.broadcast(makeChannelMessage(
+      channelId, 'Collabot', 'warning', formatCostWarning(warning),
+    )).catch((err: unknown) => {
+      logger.error({ err }, 'failed to post cost warning');
+    });
+  };
+
+  const onApprovalRequest = (request: ApprovalRequest) => {
+    registry.broadcast(makeChannelMessage(
+      channelId, 'Collabot', 'approval_request', formatApprovalRequest(request),
+      {
+        approvalId: request.approvalId,
+        tool: request.tool,
+        target: request.target,
+        rule: request.rule,
+        timeoutMs: request.timeoutMs,
+        ...(request.dispatchId ? { dispatchId: request.dispatchId } : {}),
+      },
+    )).catch((err: unknown) => {
+      logger.error({ err }, 'failed to post approval request');
+    });
+  };
+
   const onEvent = (event: AgentEvent) => {
     registry.broadcast(makeChannelMessage(
       channelId, roleName, event.type, event.content, event.metadata,
@@ -222,50 +333,132 @@ export async function handleTask(
     });
   };
 
+  const isolation = message.metadata?.['isolation'] as 'none' | 'worktree' | undefined;
+  const recordStream = message.metadata?.['record'] === true;
+  const botName = message.metadata?.['bot'] as string | undefined;
+
+  const ctx: CollabDispatchContext = {
+    config,
+    roles,
+    bots: bots ?? new Map(), // only consulted when routing assigns a bot
+    projects,
+    projectsDir,
+    pool,
+  };
+  let dispatchOptions: CollabDispatchOptions;
+  let result: CollabDispatchResult;
+
   try {
-    const ctx: CollabDispatchContext = {
-      config,
-      roles,
-      bots: new Map(), // handleTask doesn't use bots — that's BSM territory
-      projects,
-      projectsDir,
-      pool,
-    };
+    let prompt = message.content;
+    let worktree: DispatchWorktree | undefined;
+    if (pending) {
+      const answers = message.metadata?.['answers'];
+      prompt = buildAnswerPrompt(pending.questions, Array.isArray(answers) ? answers.map(String) : message.content);
+      // The asking dispatch's worktree holds its work so far — answer there
+      worktree = getDispatchStore().getDispatchEnvelope(taskDir, pending.dispatchId)?.worktree;
+      logger.info({ taskSlug, role: roleName, resume: pending.sessionId !== undefined }, 'answers received — resuming task');
+    }
 
-    const result = await collabDispatch({
+    dispatchOptions = {
       project: projectName,
       role: roleName,
-      prompt: message.content,
+      prompt,
       taskSlug,
       taskDir,
       abortController: agentController,
+      ...(repo ? { repo } : {}),
+      ...(isolation ? { isolation } : {}),
+      ...(worktree ? { worktree } : {}),
+      ...(recordStream ? { recordStream } : {}),
+      ...(botName ? { bot: botName } : {}),
       onLoopWarning,
+      onBudgetWarning,
+      onRetry,
+      onModelFallback,
+      onApprovalRequest,
+      onCostWarning,
       onEvent,
       ...(agentMcpServers ? { mcpServers: agentMcpServers } : {}),
-    }, ctx);
+    };
 
-    // Adapter status
-    if (result.status === 'completed') {
-      await registry.broadcastStatus(channelId, 'completed');
-    } else {
-      await registry.broadcastStatus(channelId, 'failed');
+    // Answers resume the asking session; if it can't be resumed, redispatch
+    // fresh — context reconstruction carries the earlier questions
+    result = pending?.sessionId
+      ? await collabDispatch({ ...dispatchOptions, resume: pending.sessionId, useStructuredOutput: true }, ctx)
+      : await collabDispatch(dispatchOptions, ctx);
+    if (pending?.sessionId && result.status === 'crashed' && !agentController.signal.aborted) {
+      logger.warn({ taskSlug, sessionId: pending.sessionId }, 'session resume failed — redispatching with context');
+      result = await collabDispatch(dispatchOptions, ctx);
     }
-
-    // Post result
-    const responseText = formatResult(result);
-    await registry.broadcast(makeChannelMessage(channelId, persona, 'result', responseText));
-
-    return result;
+    // The questions stay open if the answers never reached a dispatch (refused by a cap or budget)
+    if (pending && result.dispatchId !== 'none') clearAwaitingAnswers(taskDir);
   } finally {
     pool.release(agentId);
   }
+
+  // Review — the project's review policy sends the changes to its reviewer
+  // and loops the issues back until approved. Each round takes its own slot.
+  const review = await reviewDispatch(result, dispatchOptions, ctx, {
+    priority: 'interactive',
+    request: message.content,
+    mcpServersFor: mcpServers
+      ? (roundRole, roundTaskDir) => selectMcpServersForRole(roundRole, mcpServers, { taskSlug, taskDir: roundTaskDir, parentProject: project.name })
+      : undefined,
+    onDispatch: async (roundRole) => {
+      await registry.broadcast(makeChannelMessage(
+        channelId, 'Collabot', 'lifecycle',
+        `Dispatching to *${roles.get(roundRole)?.displayName ?? roundRole}* (review loop)...`,
+      ));
+    },
+  });
+  if (review) result = review.result;
+
+  // Adapter status
+  if (result.status === 'completed') {
+    await registry.broadcastStatus(channelId, 'completed');
+  } else {
+    await registry.broadcastStatus(channelId, 'failed');
+  }
+
+  // Post result
+  const responseText = review
+    ? `${formatResult(result)}\n\n${formatReviewOutcome(review, project.review!.reviewer)}`
+    : formatResult(result);
+  await registry.broadcast(makeChannelMessage(
+    channelId, persona, 'result', responseText,
+    review ? { review: { approved: review.approved, rounds: review.rounds } } : undefined,
+  ));
+
+  // Questions — park the task until a human answers
+  const questions = result.status === 'completed' ? result.structuredResult?.questions ?? [] : [];
+  if (questions.length > 0) {
+    try {
+      markAwaitingAnswers(taskDir, {
+        dispatchId: result.dispatchId,
+        role: roleName,
+        questions,
+        askedAt: new Date().toISOString(),
+        ...(result.sessionId ? { sessionId: result.sessionId } : {}),
+        channelId,
+      });
+    } catch (err) {
+      logger.error({ err, taskSlug }, 'failed to mark task awaiting answers');
+    }
+    await registry.broadcast(makeChannelMessage(
+      channelId, persona, 'question', formatQuestions(questions),
+      { project: project.name, taskSlug, dispatchId: result.dispatchId, questions, awaitingAnswers: true },
+    ));
+  }
+
+  return result;
 }
 
 /**
  * draftAgent — pool-managed dispatch primitive.
  *
  * Used by the MCP draft_agent tool for non-blocking agent dispatch.
- * Thin wrapper around collabDispatch() with pool registration.
+ * Thin wrapper around collabDispatch() with pool registration, followed by
+ * the project's review policy (reviewDispatch).
  */
 export async function draftAgent(
   roleName: string,
@@ -279,6 +472,8 @@ export async function draftAgent(
     taskDir?: string;
     channelId?: string;
     cwd?: string;
+    repo?: string;
+    model?: string;
     parentDispatchId?: string;
     pool: AgentPool;
     mcpServers?: Record<string, McpSdkServerConfigWithInstance>;
@@ -293,16 +488,17 @@ export async function draftAgent(
     throw new Error(`No project or cwd provided for draftAgent (role: ${roleName}).`);
   }
 
-  // Pool management
+  // Pool management — child drafts queue behind interactive work at capacity
   const agentController = new AbortController();
   const agentId = `${roleName}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
-  pool.register({
+  await pool.acquire({
     id: agentId,
     role: roleName,
+    project: options?.project,
     taskSlug,
     startedAt: new Date(),
     controller: agentController,
-  });
+  }, { priority: 'draft' });
 
   // Wire callbacks for registry broadcasting
   const onLoopWarning = options?.channelId
@@ -314,6 +510,15 @@ export async function draftAgent(
       }
     : undefined;
 
+  const onBudgetWarning = options?.channelId
+    ? (usedTokens: number, tokenBudget: number) => {
+        registry.broadcast(makeChannelMessage(
+          options.channelId!, 'Collabot', 'warning',
+          `\u26A0 Agent at ${usedTokens}/${tokenBudget} tokens`,
+        )).catch(() => { /* fire-and-forget */ });
+      }
+    : undefined;
+
   const onEvent = options?.channelId
     ? (event: AgentEvent) => {
         registry.broadcast(makeChannelMessage(
@@ -322,31 +527,40 @@ export async function draftAgent(
       }
     : undefined;
 
-  try {
-    const ctx: CollabDispatchContext = {
-      config,
-      roles,
-      bots: new Map(),
-      projects: options?.projects ?? new Map(),
-      projectsDir: options?.projectsDir ?? '',
-      pool,
-    };
+  const ctx: CollabDispatchContext = {
+    config,
+    roles,
+    bots: new Map(),
+    projects: options?.projects ?? new Map(),
+    projectsDir: options?.projectsDir ?? '',
+    pool,
+  };
+  const dispatchOptions: CollabDispatchOptions = {
+    project: options?.project ?? 'unknown',
+    role: roleName,
+    prompt: taskContext,
+    taskSlug,
+    taskDir: options?.taskDir,
+    parentDispatchId: options?.parentDispatchId,
+    abortController: agentController,
+    ...(options?.repo ? { repo: options.repo } : {}),
+    ...(options?.model ? { model: options.model } : {}),
+    onLoopWarning,
+    onBudgetWarning,
+    onEvent,
+    ...(options?.mcpServers ? { mcpServers: options.mcpServers } : {}),
+  };
 
-    return await collabDispatch({
-      project: options?.project ?? 'unknown',
-      role: roleName,
-      prompt: taskContext,
-      taskSlug,
-      taskDir: options?.taskDir,
-      parentDispatchId: options?.parentDispatchId,
-      abortController: agentController,
-      onLoopWarning,
-      onEvent,
-      ...(options?.mcpServers ? { mcpServers: options.mcpServers } : {}),
-    }, ctx);
+  let result: CollabDispatchResult;
+  try {
+    result = await collabDispatch(dispatchOptions, ctx);
   } finally {
     pool.release(agentId);
   }
+
+  // Review rounds queue as drafts, like the dispatch they review
+  const review = await reviewDispatch(result, dispatchOptions, ctx, { priority: 'draft' });
+  return review?.result ?? result;
 }
 
 /**
@@ -354,7 +568,7 @@ export async function draftAgent(
  */
 export function toDispatchResult(result: CollabDispatchResult): DispatchResult {
   return {
-    status: result.status === 'timed_out' ? 'aborted' : result.status,
+    status: result.status === 'timed_out' || result.status === 'budget_exceeded' ? 'aborted' : result.status,
     result: result.result,
     structuredResult: result.structuredResult,
     cost: result.cost.totalUsd,
@@ -0,0 +1,273 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  CostLedger,
+  getCostLedger,
+  listCapStatus,
+  summarizeCosts,
+  filterCosts,
+  costsToCsv,
+  formatCapExceeded,
+  estimateStreamCost,
+  type CapStatus,
+  type CostEntry,
+} from './costs.js';
+import { ScriptedEngine, setAgentEngine } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+function makeEntry(overrides: Partial<CostEntry> = {}): CostEntry {
+  return {
+    at: '2026-03-10T12:00:00.000Z',
+    usd: 1,
+    project: 'acme',
+    role: 'api-dev',
+    model: 'claude-sonnet-4-6',
+    source: 'dispatch',
+    dispatchId: 'd1',
+    inputTokens: 100,
+    outputTokens: 50,
+    ...overrides,
+  };
+}
+
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'costs-test-'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── Ledger ──────────────────────────────────────────────────────
+
+describe('CostLedger', () => {
+  test('appends entries and reloads them from disk', () => {
+    const file = path.join(tmpDir, 'reload', 'ledger.jsonl');
+    new CostLedger(file).record(makeEntry({ usd: 0.5 }), {} as Config);
+    new CostLedger(file).record(makeEntry({ usd: 0.25, dispatchId: 'd2' }), {} as Config);
+
+    const entries = new CostLedger(file).list();
+    assert.deepEqual(entries.map(e => e.usd), [0.5, 0.25]);
+  });
+
+  test('warns once when a cap crosses warnPercent and again when it is reached', () => {
+    const ledger = new CostLedger(path.join(tmpDir, 'warn.jsonl'));
+    const config = { costs: { warnPercent: 80, projects: { ACME: { daily: 10 } } } } as unknown as Config;
+    const fired: CapStatus[] = [];
+    ledger.setOnWarning((warning) => fired.push(warning));
+
+    assert.deepEqual(ledger.record(makeEntry({ usd: 5 }), config), []);
+    const warned = ledger.record(makeEntry({ usd: 3.5 }), config);
+    assert.equal(warned.length, 1);
+    assert.equal(warned[0]?.level, 'project');
+    assert.equal(warned[0]?.percent, 85);
+    assert.deepEqual(ledger.record(makeEntry({ usd: 0.5 }), config), []);
+    assert.equal(ledger.record(makeEntry({ usd: 1 }), config)[0]?.percent, 100);
+    assert.equal(fired.length, 2);
+  });
+
+  test('exceeded checks every applicable level and period', () => {
+    const ledger = new CostLedger(path.join(tmpDir, 'exceeded.jsonl'));
+    const config = {
+      costs: { warnPercent: 80, instance: { monthly: 100 }, roles: { 'api-dev': { daily: 2 } }, bots: { hazel: { daily: 1 } } },
+    } as unknown as Config;
+    ledger.record(makeEntry({ usd: 1, bot: 'hazel' }), config);
+    const now = new Date('2026-03-10T18:00:00Z');
+
+    assert.equal(ledger.exceeded({ project: 'acme', role: 'api-dev' }, config, now), undefined);
+    const bot = ledger.exceeded({ project: 'acme', role: 'api-dev', bot: 'hazel' }, config, now);
+    assert.equal(bot?.level, 'bot');
+    assert.match(formatCapExceeded(bot!), /bot hazel daily cap of \$1\.00/);
+
+    ledger.record(makeEntry({ usd: 1 }), config);
+    assert.equal(ledger.exceeded({ project: 'acme', role: 'api-dev' }, config, now)?.level, 'role');
+    // A new day resets daily caps; the monthly instance cap still has room
+    assert.equal(ledger.exceeded({ project: 'acme', role: 'api-dev' }, config, new Date('2026-03-11T00:00:00Z')), undefined);
+  });
+
+  test('listCapStatus reports every configured cap', () => {
+    const config = { costs: { warnPercent: 80, instance: { daily: 4, monthly: 40 }, projects: { acme: { monthly: 20 } } } } as unknown as Config;
+    const statuses = listCapStatus([makeEntry({ usd: 2 })], config, new Date('2026-03-10T20:00:00Z'));
+    assert.deepEqual(statuses.map(s => [s.level, s.period, s.percent]), [
+      ['instance', 'daily', 50],
+      ['instance', 'monthly', 5],
+      ['project', 'monthly', 10],
+    ]);
+  });
+});
+
+// ── Estimates ───────────────────────────────────────────────────
+
+describe('estimateStreamCost', () => {
+  test('prices every API message at its model family list price, cache included', () => {
+    const usages = [
+      { input_tokens: 1_000, output_tokens: 1_000, cache_creation_input_tokens: 1_000 },
+      { input_tokens: 1_000, output_tokens: 1_000, cache_read_input_tokens: 1_000 },
+      undefined,
+    ];
+    const estimate = estimateStreamCost('claude-opus-4-6', usages);
+
+    assert.equal(estimate.inputTokens, 4_000);
+    assert.equal(estimate.outputTokens, 2_000);
+    assert.ok(Math.abs(estimate.usd - (2 * 15 + 2 * 75 + 18.75 + 1.5) / 1_000) < 1e-9);
+    assert.ok(estimateStreamCost('claude-haiku-4-5', usages).usd < estimate.usd);
+  });
+});
+
+// ── Reports ─────────────────────────────────────────────────────
+
+describe('cost reports', () => {
+  const entries = [
+    makeEntry({ usd: 1, at: '2026-03-09T10:00:00Z' }),
+    makeEntry({ usd: 3, role: 'architect', bot: 'hazel', source: 'bot_session' }),
+    makeEntry({ usd: 2, project: 'Beta', at: '2026-03-11T10:00:00Z', model: 'claude-opus-4-6' }),
+  ];
+
+  test('summarizes by dimension, highest spend first and days in order', () => {
+    assert.deepEqual(summarizeCosts(entries, 'project').map(r => [r.key, r.usd]), [['acme', 4], ['Beta', 2]]);
+    assert.deepEqual(summarizeCosts(entries, 'bot').map(r => [r.key, r.usd]), [['(none)', 3], ['hazel', 3]]);
+    assert.deepEqual(summarizeCosts(entries, 'day').map(r => r.key), ['2026-03-09', '2026-03-10', '2026-03-11']);
+  });
+
+  test('filters by date range and project', () => {
+    assert.equal(filterCosts(entries, { since: '2026-03-10' }).length, 2);
+    assert.equal(filterCosts(entries, { until: '2026-03-10', project: 'ACME' }).length, 2);
+  });
+
+  test('CSV output has a header and one line per row', () => {
+    const csv = costsToCsv(summarizeCosts(entries, 'model'));
+    assert.deepEqual(csv.trim().split('\n'), [
+      'dimension,key,usd,entries,input_tokens,output_tokens',
+      'model,claude-sonnet-4-6,4.0000,2,200,100',
+      'model,claude-opus-4-6,2.0000,1,100,50',
+    ]);
+  });
+});
+
+// ── collabDispatch ──────────────────────────────────────────────
+
+const SESSION_ID = 'costs-session';
+
+function success(cost: number): SDKMessage[] {
+  return [
+    { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-sonnet-4-6' },
+    {
+      type: 'result',
+      subtype: 'success',
+      session_id: SESSION_ID,
+      result: 'done',
+      is_error: false,
+      num_turns: 1,
+      duration_ms: 5,
+      duration_api_ms: 5,
+      total_cost_usd: cost,
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  ] as unknown as SDKMessage[];
+}
+
+describe('collabDispatch — spending caps', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'costs-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'costs-repo-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'costs-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('api-dev', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'api-dev',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You write APIs.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', { name: 'demo', description: 'Costs project', paths: [repoDir], roles: ['api-dev'] });
+
+    return {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+        costs: { warnPercent: 80, projects: { demo: { daily: 1 } } },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  test('records completed dispatches, warns, and refuses new work once the cap is spent', async () => {
+    const ctx = makeCtx();
+    const warnings: CapStatus[] = [];
+
+    setAgentEngine(new ScriptedEngine(success(0.9)));
+    const first = await collabDispatch(
+      { project: 'demo', role: 'api-dev', prompt: 'Build it.', onCostWarning: (w) => warnings.push(w) },
+      ctx,
+    );
+    assert.equal(first.status, 'completed');
+    assert.equal(warnings[0]?.percent, 90);
+
+    const [entry] = getCostLedger().list();
+    assert.equal(entry?.dispatchId, first.dispatchId);
+    assert.equal(entry?.usd, 0.9);
+    assert.equal(entry?.model, 'claude-sonnet-4-6');
+    assert.ok(fs.existsSync(path.join(homeDir, 'costs', 'ledger.jsonl')));
+
+    setAgentEngine(new ScriptedEngine(success(0.2)));
+    await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Build more.' }, ctx);
+
+    const engine = new ScriptedEngine(success(0.1));
+    setAgentEngine(engine);
+    const refused = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'And more.' }, ctx);
+    assert.equal(refused.status, 'crashed');
+    assert.equal(refused.reason, 'cost_cap');
+    assert.match(refused.result ?? '', /project demo daily cap/);
+    assert.equal(engine.calls.length, 0);
+  });
+});
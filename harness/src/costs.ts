@@ -0,0 +1,304 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { getInstancePath } from './paths.js';
+import type { Config } from './config.js';
+import type { MessageUsage } from './monitor.js';
+
+// ── Caps ────────────────────────────────────────────────────────
+
+export const CostCapSchema = z.object({
+  daily: z.number().positive().optional(),    // USD per UTC day
+  monthly: z.number().positive().optional(),  // USD per UTC calendar month
+});
+
+export type CostCap = z.infer<typeof CostCapSchema>;
+
+export type CostPeriod = 'daily' | 'monthly';
+
+/** Who a dispatch or bot turn is billed to — each key can carry its own cap. */
+export type CostScope = {
+  project: string;
+  role: string;
+  bot?: string;
+};
+
+/** A cap that applies to a scope, with what has been spent against it so far. */
+export type CapStatus = {
+  level: 'instance' | 'project' | 'role' | 'bot';
+  name?: string;          // project/role/bot name; absent for instance
+  period: CostPeriod;
+  cap: number;
+  spentUsd: number;
+  percent: number;
+};
+
+// ── Ledger ──────────────────────────────────────────────────────
+
+export type CostEntry = {
+  at: string;             // RFC 3339
+  usd: number;
+  project: string;
+  role: string;
+  bot?: string;
+  model: string;
+  source: 'dispatch' | 'bot_session';
+  dispatchId: string;
+  taskSlug?: string;
+  inputTokens: number;
+  outputTokens: number;
+  tokens?: number;        // context once + output, as token budgets count them (older entries lack it)
+  estimated?: true;       // no SDK result (aborted, killed) — usd and tokens estimated from streamed usage
+};
+
+/**
+ * Append-only spending record at `COLLABOT_HOME/costs/ledger.jsonl`. One
+ * entry per completed dispatch and per bot session turn.
+ */
+export class CostLedger {
+  private entries?: CostEntry[];
+  private onWarning?: (warning: CapStatus, entry: CostEntry) => void;
+
+  constructor(readonly filePath: string) {}
+
+  /** Register a callback fired when a record pushes spend past the warn threshold or a cap. */
+  setOnWarning(cb: (warning: CapStatus, entry: CostEntry) => void): void {
+    this.onWarning = cb;
+  }
+
+  list(): CostEntry[] {
+    if (!this.entries) {
+      this.entries = [];
+      if (fs.existsSync(this.filePath)) {
+        for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            this.entries.push(JSON.parse(line) as CostEntry);
+          } catch { /* skip corrupt line */ }
+        }
+      }
+    }
+    return this.entries;
+  }
+
+  /**
+   * Record spend and return the caps it crossed — the warn threshold
+   * (`[costs] warnPercent`) or the cap itself.
+   */
+  record(entry: CostEntry, config: Pick<Config, 'costs'>): CapStatus[] {
+    const before = capStatus(this.list(), config, entry, new Date(entry.at));
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    this.list().push(entry);
+    const after = capStatus(this.list(), config, entry, new Date(entry.at));
+
+    const warnPercent = config.costs?.warnPercent ?? 80;
+    const crossed = after.filter((status, i) => {
+      const prev = before[i]!.percent;
+      return (prev < warnPercent && status.percent >= warnPercent) || (prev < 100 && status.percent >= 100);
+    });
+    for (const warning of crossed) {
+      this.onWarning?.(warning, entry);
+    }
+    return crossed;
+  }
+
+  /** The first cap this scope has already reached, or undefined if it may spend. */
+  exceeded(scope: CostScope, config: Pick<Config, 'costs'>, now = new Date()): CapStatus | undefined {
+    if (!hasCaps(config)) return undefined;
+    return capStatus(this.list(), config, scope, now).find(s => s.spentUsd >= s.cap);
+  }
+}
+
+let _ledger: CostLedger | undefined;
+
+/** The instance ledger. Re-opened if the instance root changes (tests switch COLLABOT_HOME). */
+export function getCostLedger(): CostLedger {
+  const filePath = getInstancePath('costs', 'ledger.jsonl');
+  if (!_ledger || _ledger.filePath !== filePath) {
+    _ledger = new CostLedger(filePath);
+  }
+  return _ledger;
+}
+
+// ── Estimates ───────────────────────────────────────────────────
+
+/** List prices in USD per million tokens, by model family. Unknown models price as sonnet. */
+const ESTIMATE_RATES: Record<string, { input: number; output: number; cacheRead: number; cacheWrite: number }> = {
+  opus: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  sonnet: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  haiku: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+};
+
+export type CostEstimate = { usd: number; inputTokens: number; outputTokens: number };
+
+/**
+ * Estimate what a run cost from each API message's streamed usage, for runs
+ * that end without the SDK's result (and its `total_cost_usd`). Every API
+ * call is billed for its whole context, so all of them are summed.
+ */
+export function estimateStreamCost(model: string, usages: Iterable<MessageUsage | undefined>): CostEstimate {
+  const family = Object.keys(ESTIMATE_RATES).find(name => model.toLowerCase().includes(name)) ?? 'sonnet';
+  const rates = ESTIMATE_RATES[family]!;
+  let usd = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (const usage of usages) {
+    if (!usage) continue;
+    const input = usage.input_tokens ?? 0;
+    const cacheRead = usage.cache_read_input_tokens ?? 0;
+    const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+    const output = usage.output_tokens ?? 0;
+    usd += (input * rates.input + cacheRead * rates.cacheRead + cacheWrite * rates.cacheWrite + output * rates.output) / 1_000_000;
+    inputTokens += input + cacheRead + cacheWrite;
+    outputTokens += output;
+  }
+  return { usd, inputTokens, outputTokens };
+}
+
+// ── Enforcement ─────────────────────────────────────────────────
+
+function hasCaps(config: Pick<Config, 'costs'>): boolean {
+  const costs = config.costs;
+  return !!costs && (!!costs.instance || !!costs.projects || !!costs.roles || !!costs.bots);
+}
+
+/** Lookup for case-insensitive project keys; roles and bots match exactly. */
+function findCap(caps: Record<string, CostCap> | undefined, name: string, ignoreCase = false): CostCap | undefined {
+  if (!caps) return undefined;
+  if (!ignoreCase) return caps[name];
+  const key = Object.keys(caps).find(k => k.toLowerCase() === name.toLowerCase());
+  return key !== undefined ? caps[key] : undefined;
+}
+
+type CapLevel = { level: CapStatus['level']; name?: string; cap?: CostCap; match: (e: CostEntry) => boolean };
+
+function statusFor(entries: readonly CostEntry[], levels: readonly CapLevel[], now: Date): CapStatus[] {
+  const day = now.toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  const statuses: CapStatus[] = [];
+  for (const { level, name, cap, match } of levels) {
+    if (!cap) continue;
+    for (const period of ['daily', 'monthly'] as const) {
+      const limit = cap[period];
+      if (limit === undefined) continue;
+      const prefix = period === 'daily' ? day : month;
+      const spentUsd = entries
+        .filter(e => e.at.startsWith(prefix) && match(e))
+        .reduce((sum, e) => sum + e.usd, 0);
+      statuses.push({
+        level,
+        ...(name !== undefined ? { name } : {}),
+        period,
+        cap: limit,
+        spentUsd,
+        percent: Math.round((spentUsd / limit) * 10000) / 100,
+      });
+    }
+  }
+  return statuses;
+}
+
+const matchProject = (name: string) => (e: CostEntry) => e.project.toLowerCase() === name.toLowerCase();
+
+/** Caps that apply to one scope: instance, its project, its role, and its bot. */
+function capStatus(entries: readonly CostEntry[], config: Pick<Config, 'costs'>, scope: CostScope, now: Date): CapStatus[] {
+  const costs = config.costs;
+  if (!costs) return [];
+  return statusFor(entries, [
+    { level: 'instance', cap: costs.instance, match: () => true },
+    { level: 'project', name: scope.project, cap: findCap(costs.projects, scope.project, true), match: matchProject(scope.project) },
+    { level: 'role', name: scope.role, cap: findCap(costs.roles, scope.role), match: (e) => e.role === scope.role },
+    ...(scope.bot ? [{ level: 'bot' as const, name: scope.bot, cap: findCap(costs.bots, scope.bot), match: (e: CostEntry) => e.bot === scope.bot }] : []),
+  ], now);
+}
+
+/** Every configured cap with its current spend — for the `collabot costs` report. */
+export function listCapStatus(entries: readonly CostEntry[], config: Pick<Config, 'costs'>, now = new Date()): CapStatus[] {
+  const costs = config.costs;
+  if (!costs) return [];
+  return statusFor(entries, [
+    { level: 'instance', cap: costs.instance, match: () => true },
+    ...Object.entries(costs.projects ?? {}).map(([name, cap]) => ({ level: 'project' as const, name, cap, match: matchProject(name) })),
+    ...Object.entries(costs.roles ?? {}).map(([name, cap]) => ({ level: 'role' as const, name, cap, match: (e: CostEntry) => e.role === name })),
+    ...Object.entries(costs.bots ?? {}).map(([name, cap]) => ({ level: 'bot' as const, name, cap, match: (e: CostEntry) => e.bot === name })),
+  ], now);
+}
+
+/** `project acme daily cap` / `instance monthly cap` */
+export function describeCap(status: CapStatus): string {
+  return `${status.level}${status.name !== undefined ? ` ${status.name}` : ''} ${status.period} cap`;
+}
+
+/** Error shown when a dispatch or bot turn is refused because a cap is spent. */
+export function formatCapExceeded(status: CapStatus): string {
+  return `Spending cap reached — ${describeCap(status)} of $${status.cap.toFixed(2)} `
+    + `($${status.spentUsd.toFixed(2)} spent). New dispatches are refused until the period resets or [costs] is raised.`;
+}
+
+export function formatCostWarning(status: CapStatus): string {
+  return `⚠ ${status.percent >= 100 ? 'Reached' : `${Math.floor(status.percent)}% of`} the ${describeCap(status)}: `
+    + `$${status.spentUsd.toFixed(2)} of $${status.cap.toFixed(2)}.`;
+}
+
+// ── Reports ─────────────────────────────────────────────────────
+
+export type CostDimension = 'project' | 'role' | 'bot' | 'model' | 'day';
+
+export const COST_DIMENSIONS: readonly CostDimension[] = ['project', 'role', 'bot', 'model', 'day'];
+
+export type CostRow = {
+  dimension: CostDimension;
+  key: string;
+  usd: number;
+  entries: number;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type CostFilter = {
+  since?: string;         // YYYY-MM-DD, inclusive
+  until?: string;         // YYYY-MM-DD, inclusive
+  project?: string;
+};
+
+export function filterCosts(entries: readonly CostEntry[], filter: CostFilter): CostEntry[] {
+  return entries.filter((e) => {
+    const day = e.at.slice(0, 10);
+    if (filter.since && day < filter.since) return false;
+    if (filter.until && day > filter.until) return false;
+    if (filter.project && e.project.toLowerCase() !== filter.project.toLowerCase()) return false;
+    return true;
+  });
+}
+
+/** Group spend by one dimension, highest first (days are listed in date order). */
+export function summarizeCosts(entries: readonly CostEntry[], dimension: CostDimension): CostRow[] {
+  const rows = new Map<string, CostRow>();
+  for (const e of entries) {
+    const key = dimension === 'day' ? e.at.slice(0, 10)
+      : dimension === 'bot' ? e.bot ?? '(none)'
+      : e[dimension];
+    const row = rows.get(key) ?? { dimension, key, usd: 0, entries: 0, inputTokens: 0, outputTokens: 0 };
+    row.usd += e.usd;
+    row.entries++;
+    row.inputTokens += e.inputTokens;
+    row.outputTokens += e.outputTokens;
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) =>
+    dimension === 'day' ? a.key.localeCompare(b.key) : b.usd - a.usd || a.key.localeCompare(b.key));
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function costsToCsv(rows: readonly CostRow[]): string {
+  const lines = ['dimension,key,usd,entries,input_tokens,output_tokens'];
+  for (const r of rows) {
+    lines.push([r.dimension, r.key, r.usd.toFixed(4), r.entries, r.inputTokens, r.outputTokens].map(csvField).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -678,3 +678,35 @@ describe('Handler with fan-out dispatches', () => {
     assert.equal(entry.error, 'handler crashed mid-execution');
   });
 });
+
+describe('Token budget in run log', () => {
+  test('budget_exceeded dispatch is recorded as budget_exceeded run status', async () => {
+    const result1 = makeDispatchResult({ taskSlug: 'budget-1' });
+    const result2 = makeDispatchResult({ taskSlug: 'budget-2', status: 'budget_exceeded' });
+
+    let callCount = 0;
+    mockCollabDispatchImpl = async () => {
+      callCount++;
+      return callCount === 1 ? result1 : result2;
+    };
+
+    const def = makeHandlerDef();
+    const options = makeBridgeOptions();
+
+    mockLoadHandlerImpl = async () => {
+      return async (ctx: unknown) => {
+        const hCtx = ctx as CronHandlerContext;
+        await hCtx.dispatch({ project: 'proj', role: 'dev', prompt: 'First task' });
+        await hCtx.dispatch({ project: 'proj', role: 'dev', prompt: 'Second task' });
+      };
+    };
+
+    const handler = buildJobHandler(def, options);
+    await handler();
+
+    const entries = readRunLog(options.runsDir, def.name, 10);
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0]!.status, 'budget_exceeded');
+    assert.equal(entries[0]!.dispatchCount, 2);
+  });
+});
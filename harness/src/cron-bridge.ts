@@ -2,8 +2,12 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { logger } from './logger.js';
 import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
-import { loadHandler, type CronJobDefinition, type AgentJobDefinition, type HandlerJobDefinition } from './cron-loader.js';
-import type { CollabDispatchResult } from './types.js';
+import { loadHandler, type CronJobDefinition, type AgentJobDefinition, type HandlerJobDefinition, type WorkflowJobDefinition } from './cron-loader.js';
+import { getProject } from './project.js';
+import { loadWorkflow } from './workflows.js';
+import { beginWorkflowRun, runWorkflow, createPoolStepDispatcher } from './workflow-run.js';
+import { reviewDispatch } from './review-dispatch.js';
+import type { CollabDispatchOptions, CollabDispatchResult } from './types.js';
 import type { Config } from './config.js';
 
 // ── CronHandlerContext ──────────────────────────────────────
@@ -20,7 +24,7 @@ export type ConfigResolver = {
 export type RunLogEntry = {
   runAt: string;          // ISO 8601
   duration_ms: number;
-  status: 'completed' | 'failed';
+  status: 'completed' | 'failed' | 'budget_exceeded';
   dispatchCount: number;
   totalCostUsd: number;
   taskSlugs: string[];
@@ -63,11 +67,75 @@ export function buildJobHandler(
   if (def.type === 'agent') {
     return buildAgentJobHandler(def, options);
   }
+  if (def.type === 'workflow') {
+    return buildWorkflowJobHandler(def, options);
+  }
   return buildHandlerJobHandler(def, options);
 }
 
+/**
+ * Run a cron dispatch in a pool slot, then through the project's review
+ * policy. At capacity, cron waits behind interactive work and child drafts
+ * in the admission queue.
+ */
+async function dispatchInPool(
+  jobName: string,
+  options: CollabDispatchOptions,
+  ctx: CollabDispatchContext,
+): Promise<CollabDispatchResult> {
+  const controller = options.abortController ?? new AbortController();
+  const agentId = `cron-${jobName}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  await ctx.pool.acquire({
+    id: agentId,
+    role: options.role,
+    project: options.project,
+    startedAt: new Date(),
+    controller,
+  }, { priority: 'cron' });
+
+  const dispatchOptions: CollabDispatchOptions = { ...options, abortController: controller };
+  let result: CollabDispatchResult;
+  try {
+    result = await collabDispatch(dispatchOptions, ctx);
+  } finally {
+    ctx.pool.release(agentId);
+  }
+
+  const review = await reviewDispatch(result, dispatchOptions, ctx, { priority: 'cron' });
+  return review?.result ?? result;
+}
+
 // ── Agent Job Path ──────────────────────────────────────────
 
+function agentJobDispatchOptions(def: AgentJobDefinition): CollabDispatchOptions {
+  return {
+    project: def.project,
+    role: def.role,
+    bot: def.bot,
+    prompt: def.prompt,
+    tokenBudget: def.tokenBudget,
+    maxTurns: def.maxTurns,
+    maxBudgetUsd: def.maxBudgetUsd,
+    retry: def.retry,
+  };
+}
+
+/**
+ * Dry-run a cron job's dispatch — what it would send on its next firing.
+ * Handler and workflow jobs choose their dispatches at run time, so only
+ * agent jobs can be previewed.
+ */
+export async function previewCronJob(
+  def: CronJobDefinition,
+  ctx: CollabDispatchContext,
+): Promise<CollabDispatchResult> {
+  if (def.type !== 'agent') {
+    const kind = def.type === 'workflow' ? `runs workflow "${def.workflow}"` : 'is a handler job';
+    throw new Error(`Cron job "${def.name}" ${kind} — its dispatches are decided when it runs and cannot be previewed`);
+  }
+  return collabDispatch({ ...agentJobDispatchOptions(def), dryRun: true }, ctx);
+}
+
 function buildAgentJobHandler(
   def: AgentJobDefinition,
   { ctx, runsDir }: CronBridgeOptions,
@@ -77,20 +145,12 @@ function buildAgentJobHandler(
     logger.info({ jobName: def.name, role: def.role, project: def.project }, 'cron agent job firing');
 
     try {
-      const result = await collabDispatch({
-        project: def.project,
-        role: def.role,
-        bot: def.bot,
-        prompt: def.prompt,
-        tokenBudget: def.tokenBudget,
-        maxTurns: def.maxTurns,
-        maxBudgetUsd: def.maxBudgetUsd,
-      }, ctx);
+      const result = await dispatchInPool(def.name, agentJobDispatchOptions(def), ctx);
 
       appendRunLog(runsDir, def.name, {
         runAt: new Date(startTime).toISOString(),
         duration_ms: Date.now() - startTime,
-        status: result.status === 'completed' ? 'completed' : 'failed',
+        status: result.status === 'completed' || result.status === 'budget_exceeded' ? result.status : 'failed',
         dispatchCount: 1,
         totalCostUsd: result.cost.totalUsd,
         taskSlugs: [result.taskSlug],
@@ -119,6 +179,71 @@ function buildAgentJobHandler(
   };
 }
 
+// ── Workflow Job Path ───────────────────────────────────────
+
+function buildWorkflowJobHandler(
+  def: WorkflowJobDefinition,
+  { ctx, runsDir, projectsDir }: CronBridgeOptions,
+): () => Promise<void> {
+  return async () => {
+    const startTime = Date.now();
+    logger.info({ jobName: def.name, workflow: def.workflow }, 'cron workflow job firing');
+
+    try {
+      // Loaded per firing — edits to the workflow apply to the next run
+      const workflow = loadWorkflow(def.workflow);
+      const projectName = def.project ?? workflow.project;
+      if (!projectName) {
+        throw new Error(`Cron job "${def.name}": workflow "${workflow.name}" has no project — set project in job.md`);
+      }
+      const task = beginWorkflowRun(workflow, {
+        project: getProject(ctx.projects, projectName).name,
+        projectsDir,
+        input: def.input,
+      });
+      const run = await runWorkflow(workflow, task, createPoolStepDispatcher(ctx, {
+        priority: 'cron',
+        base: {
+          tokenBudget: def.tokenBudget,
+          maxTurns: def.maxTurns,
+          maxBudgetUsd: def.maxBudgetUsd,
+          retry: def.retry,
+        },
+      }));
+
+      appendRunLog(runsDir, def.name, {
+        runAt: new Date(startTime).toISOString(),
+        duration_ms: Date.now() - startTime,
+        status: run.status === 'completed' ? 'completed' : 'failed',
+        dispatchCount: run.steps.length,
+        totalCostUsd: run.steps.reduce((sum, s) => sum + s.costUsd, 0),
+        taskSlugs: [task.taskSlug],
+        ...(run.error ? { error: run.error } : {}),
+      });
+
+      logger.info({
+        jobName: def.name,
+        workflow: workflow.name,
+        status: run.status,
+        steps: run.steps.length,
+        duration_ms: Date.now() - startTime,
+      }, 'cron workflow job completed');
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      appendRunLog(runsDir, def.name, {
+        runAt: new Date(startTime).toISOString(),
+        duration_ms: Date.now() - startTime,
+        status: 'failed',
+        dispatchCount: 0,
+        totalCostUsd: 0,
+        taskSlugs: [],
+        error: msg,
+      });
+      throw err;
+    }
+  };
+}
+
 // ── Handler Job Path ────────────────────────────────────────
 
 function buildHandlerJobHandler(
@@ -166,7 +291,7 @@ function buildHandlerJobHandler(
       job: def,
       lastRunAt,
       async dispatch(opts) {
-        const result = await collabDispatch({
+        const result = await dispatchInPool(def.name, {
           project: opts.project,
           role: opts.role,
           prompt: opts.prompt,
@@ -174,6 +299,7 @@ function buildHandlerJobHandler(
           tokenBudget: def.tokenBudget,
           maxTurns: def.maxTurns,
           maxBudgetUsd: def.maxBudgetUsd,
+          retry: def.retry,
           abortController,
         }, ctx);
         dispatchResults.push(result);
@@ -196,7 +322,7 @@ function buildHandlerJobHandler(
       appendRunLog(runsDir, def.name, {
         runAt: new Date(startTime).toISOString(),
         duration_ms: Date.now() - startTime,
-        status: 'completed',
+        status: dispatchResults.some(r => r.status === 'budget_exceeded') ? 'budget_exceeded' : 'completed',
         dispatchCount: dispatchResults.length,
         totalCostUsd: totalCost,
         taskSlugs,
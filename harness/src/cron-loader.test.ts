@@ -255,6 +255,28 @@ describe('parseJobFolder', () => {
     assert.equal(job.maxConsecutiveFailures, 3);
   });
 
+  test('parses job with retry policy', () => {
+    const jobDir = makeTempJobDir('retry-job', {
+      'job.md': [
+        '---',
+        'name: retry-job',
+        'schedule: "0 9 * * MON-FRI"',
+        'role: researcher',
+        'project: lobby',
+        'retry:',
+        '  maxAttempts: 3',
+        '  reasons: [stall, rate_limit]',
+        '---',
+        '',
+        'Retry on stalls.',
+      ].join('\n'),
+    });
+
+    const job = parseJobFolder(jobDir, 'retry-job');
+
+    assert.deepEqual(job.retry, { maxAttempts: 3, reasons: ['stall', 'rate_limit'] });
+  });
+
   test('timezone and maxConsecutiveFailures default to undefined', () => {
     const jobDir = makeTempJobDir('no-extras', {
       'job.md': [
@@ -314,4 +336,30 @@ describe('parseJobFolder', () => {
       /failed to parse/,
     );
   });
+
+  test('parses a workflow job', () => {
+    const jobDir = makeTempJobDir('nightly-review', {
+      'job.md': [
+        '---',
+        'name: nightly-review',
+        'schedule: "0 2 * * *"',
+        'workflow: plan-implement-review',
+        'project: research-lab',
+        'maxBudgetUsd: 5',
+        '---',
+        '',
+        'Review the day\'s open PRs.',
+      ].join('\n'),
+    });
+
+    const job = parseJobFolder(jobDir, 'nightly-review');
+
+    assert.equal(job.type, 'workflow');
+    if (job.type === 'workflow') {
+      assert.equal(job.workflow, 'plan-implement-review');
+      assert.equal(job.project, 'research-lab');
+      assert.equal(job.input, 'Review the day\'s open PRs.');
+      assert.equal(job.maxBudgetUsd, 5);
+    }
+  });
 });
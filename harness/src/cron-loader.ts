@@ -6,6 +6,8 @@ import { ulid } from 'ulid';
 import { logger } from './logger.js';
 import { parseFrontmatter } from './roles.js';
 import { getInstancePath } from './paths.js';
+import { RetryPolicyOverrideSchema } from './retry.js';
+import type { RetryPolicyOverride } from './retry.js';
 import type { Config } from './config.js';
 
 // ── Job Frontmatter Schema ──────────────────────────────────
@@ -29,6 +31,7 @@ const BaseJobFrontmatterSchema = z.object({
   tokenBudget: z.number().int().nonnegative().optional(),
   maxTurns: z.number().int().nonnegative().optional(),
   maxBudgetUsd: z.number().nonnegative().optional(),
+  retry: RetryPolicyOverrideSchema.optional(), // overrides config/role retry for this job's dispatches
 });
 
 const AgentJobFrontmatterSchema = BaseJobFrontmatterSchema.extend({
@@ -37,6 +40,11 @@ const AgentJobFrontmatterSchema = BaseJobFrontmatterSchema.extend({
   project: z.string().min(1), // required for agent jobs
 });
 
+const WorkflowJobFrontmatterSchema = BaseJobFrontmatterSchema.extend({
+  handler: z.literal(undefined).optional(),
+  workflow: z.string().min(1), // workflows/<name>.md — project falls back to the workflow's own
+});
+
 const HandlerJobFrontmatterSchema = BaseJobFrontmatterSchema.extend({
   handler: z.literal(true),
   // role + project optional for handlers (may vary per ctx.dispatch() call)
@@ -61,6 +69,7 @@ export type AgentJobDefinition = {
   tokenBudget?: number;
   maxTurns?: number;
   maxBudgetUsd?: number;
+  retry?: RetryPolicyOverride;
   jobDir: string;           // absolute path to job folder
 };
 
@@ -80,12 +89,33 @@ export type HandlerJobDefinition = {
   tokenBudget?: number;
   maxTurns?: number;
   maxBudgetUsd?: number;
+  retry?: RetryPolicyOverride;
   jobDir: string;
   handlerPath: string;      // absolute path to handler.ts
   settings: Record<string, unknown>; // parsed settings.toml
 };
 
-export type CronJobDefinition = AgentJobDefinition | HandlerJobDefinition;
+export type WorkflowJobDefinition = {
+  type: 'workflow';
+  id: string;
+  name: string;
+  slug: string;
+  schedule: string;
+  enabled: boolean;
+  singleton: boolean;
+  timezone?: string;        // IANA timezone for cron expressions
+  maxConsecutiveFailures?: number; // auto-disable threshold (overrides global)
+  workflow: string;
+  project?: string;
+  input: string;            // markdown body — the workflow's {{input}}
+  tokenBudget?: number;     // per step dispatch
+  maxTurns?: number;
+  maxBudgetUsd?: number;
+  retry?: RetryPolicyOverride;
+  jobDir: string;
+};
+
+export type CronJobDefinition = AgentJobDefinition | HandlerJobDefinition | WorkflowJobDefinition;
 
 // ── Loader ──────────────────────────────────────────────────
 
@@ -134,6 +164,18 @@ export function loadCronJobs(config: Config): CronJobDefinition[] {
   return jobs;
 }
 
+/**
+ * Load one job by folder name, whether or not cron is enabled. Throws when
+ * the folder or its job.md is missing, or the job is invalid.
+ */
+export function loadCronJob(config: Config, slug: string): CronJobDefinition {
+  const jobDir = path.join(getInstancePath(config.cron.jobsDirectory), slug);
+  if (!fs.existsSync(path.join(jobDir, 'job.md'))) {
+    throw new Error(`Cron job "${slug}" not found (expected ${path.join(jobDir, 'job.md')})`);
+  }
+  return parseJobFolder(jobDir, slug);
+}
+
 /**
  * Parse a single job folder into a CronJobDefinition.
  */
@@ -149,6 +191,13 @@ export function parseJobFolder(jobDir: string, slug: string): CronJobDefinition
     return parseHandlerJob(frontmatter, body, jobDir, slug);
   }
 
+  const isWorkflow = typeof frontmatter === 'object' && frontmatter !== null
+    && 'workflow' in frontmatter;
+
+  if (isWorkflow) {
+    return parseWorkflowJob(frontmatter, body, jobDir, slug);
+  }
+
   return parseAgentJob(frontmatter, body, jobDir, slug);
 }
 
@@ -189,6 +238,43 @@ function parseAgentJob(
     tokenBudget: fm.tokenBudget,
     maxTurns: fm.maxTurns,
     maxBudgetUsd: fm.maxBudgetUsd,
+    retry: fm.retry,
+    jobDir,
+  };
+}
+
+function parseWorkflowJob(
+  frontmatter: unknown,
+  body: string,
+  jobDir: string,
+  slug: string,
+): WorkflowJobDefinition {
+  const result = WorkflowJobFrontmatterSchema.safeParse(frontmatter);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(i => `  - ${i.path.join('.')}: ${i.message}`)
+      .join('\n');
+    throw new Error(`${slug}/job.md: invalid workflow job frontmatter:\n${issues}`);
+  }
+
+  const fm = result.data;
+  return {
+    type: 'workflow',
+    id: fm.id ?? ulid(),
+    name: fm.name,
+    slug,
+    schedule: fm.schedule,
+    enabled: fm.enabled,
+    singleton: fm.singleton,
+    timezone: fm.timezone,
+    maxConsecutiveFailures: fm.maxConsecutiveFailures,
+    workflow: fm.workflow,
+    project: fm.project,
+    input: body.trim(),
+    tokenBudget: fm.tokenBudget,
+    maxTurns: fm.maxTurns,
+    maxBudgetUsd: fm.maxBudgetUsd,
+    retry: fm.retry,
     jobDir,
   };
 }
@@ -244,6 +330,7 @@ function parseHandlerJob(
     tokenBudget: fm.tokenBudget,
     maxTurns: fm.maxTurns,
     maxBudgetUsd: fm.maxBudgetUsd,
+    retry: fm.retry,
     jobDir,
     handlerPath,
     settings,
@@ -0,0 +1,155 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { estimateTokens, formatDispatchPreview } from './dispatch-preview.js';
+import { ScriptedEngine, setAgentEngine } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { previewCronJob } from './cron-bridge.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import { getProjectTasksDir } from './project.js';
+import type { BotDefinition, RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+import type { AgentJobDefinition, HandlerJobDefinition } from './cron-loader.js';
+
+let homeDir: string;
+let repoDir: string;
+let projectsDir: string;
+let prevHome: string | undefined;
+
+before(() => {
+  homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-home-'));
+  fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+  fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt. '.repeat(20));
+  repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-repo-'));
+  projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-projects-'));
+  prevHome = process.env.COLLABOT_HOME;
+  process.env.COLLABOT_HOME = homeDir;
+  _resetInstanceRoot();
+});
+
+after(() => {
+  if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+  else process.env.COLLABOT_HOME = prevHome;
+  _resetInstanceRoot();
+  for (const dir of [homeDir, repoDir, projectsDir]) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+afterEach(() => setAgentEngine(undefined));
+
+function makeCtx(): CollabDispatchContext {
+  const roles = new Map<string, RoleDefinition>();
+  roles.set('api-dev', {
+    id: '01TESTROLE000000000000000000',
+    version: '1.0.0',
+    name: 'api-dev',
+    description: 'Test role',
+    createdOn: '2026-01-01T00:00:00Z',
+    createdBy: 'test',
+    prompt: 'You write APIs.',
+    modelHint: 'sonnet-latest',
+    disallowedTools: ['WebFetch'],
+  } as RoleDefinition);
+
+  const bots = new Map<string, BotDefinition>();
+  bots.set('greg', {
+    id: '01TESTBOT0000000000000000000',
+    version: '1.0.0',
+    name: 'greg',
+    description: 'Test bot',
+    createdOn: '2026-01-01T00:00:00Z',
+    createdBy: 'test',
+    soulPrompt: 'Dry humor, careful with migrations.',
+  } as BotDefinition);
+
+  const projects = new Map<string, Project>();
+  projects.set('demo', { name: 'demo', description: 'Preview project', paths: [repoDir], roles: ['api-dev'] });
+
+  return {
+    config: {
+      models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+      defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 50000, tokenBudgetWarnPercent: 80, maxBudgetUsd: 2 },
+      agent: { maxTurns: 30, maxBudgetUsd: 0 },
+      logging: { level: 'error' },
+      pool: { maxConcurrent: 0 },
+      mcp: { streamTimeout: 600000 },
+      cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+      engine: { provider: 'scripted', record: false },
+    } as Config,
+    roles,
+    bots,
+    projects,
+    projectsDir,
+    pool: new AgentPool(),
+  };
+}
+
+// ── collabDispatch({ dryRun }) ──────────────────────────────────
+
+describe('collabDispatch — dry run', () => {
+  test('returns the assembled dispatch without calling the model or creating a task', async () => {
+    const engine = new ScriptedEngine([]);
+    setAgentEngine(engine);
+
+    const result = await collabDispatch({
+      project: 'demo', role: 'api-dev', bot: 'greg', prompt: 'Add a health endpoint.', dryRun: true,
+    }, makeCtx());
+
+    assert.equal(engine.calls.length, 0);
+    assert.equal(result.reason, 'dry_run');
+    assert.equal(result.dispatchId, 'none');
+    const preview = result.preview!;
+    assert.equal(preview.model, 'claude-sonnet-4-6');
+    assert.equal(preview.cwd, repoDir);
+    assert.equal(preview.bot, 'greg');
+    assert.deepEqual(preview.systemPrompt.map(l => l.name), ['system', 'role', 'identity', 'personality']);
+    assert.equal(preview.systemPrompt[0]?.tokens, estimateTokens('System prompt. '.repeat(20)));
+    assert.equal(preview.prompt.text, 'Add a health endpoint.');
+    assert.equal(preview.estimatedInputTokens, preview.systemPrompt.reduce((sum, l) => sum + l.tokens, 0) + preview.prompt.tokens);
+    assert.deepEqual(preview.tools, { disallowedTools: ['WebFetch'] });
+    assert.equal(preview.permissionMode, 'bypassPermissions');
+    assert.deepEqual(
+      { maxTurns: preview.budgets.maxTurns, maxBudgetUsd: preview.budgets.maxBudgetUsd, tokenBudget: preview.budgets.tokenBudget },
+      { maxTurns: 30, maxBudgetUsd: 2, tokenBudget: 50000 },
+    );
+
+    assert.equal(preview.task.exists, false);
+    assert.ok(!fs.existsSync(path.join(getProjectTasksDir(projectsDir, 'demo'), preview.task.slug)));
+
+    const text = formatDispatchPreview(preview).join('\n');
+    assert.match(text, /Task:    .* \(new\)/);
+    assert.match(text, /Estimated input: ~\d+ tokens/);
+    assert.match(text, /── System prompt: personality ──\n## Personality\n\nDry humor/);
+  });
+});
+
+// ── Cron ────────────────────────────────────────────────────────
+
+describe('previewCronJob', () => {
+  const base = {
+    id: '01TESTJOB0000000000000000000',
+    slug: 'nightly',
+    name: 'nightly',
+    schedule: '0 3 * * *',
+    enabled: true,
+    singleton: true,
+    jobDir: '/tmp/nightly',
+  };
+
+  test('previews an agent job with its constraints', async () => {
+    const job: AgentJobDefinition = { ...base, type: 'agent', role: 'api-dev', project: 'demo', prompt: 'Check dependencies.', maxTurns: 5 };
+    const result = await previewCronJob(job, makeCtx());
+    assert.equal(result.preview?.prompt.text, 'Check dependencies.');
+    assert.equal(result.preview?.budgets.maxTurns, 5);
+  });
+
+  test('refuses handler jobs', async () => {
+    const job: HandlerJobDefinition = { ...base, type: 'handler', handlerPath: '/tmp/nightly/handler.ts', settings: {} };
+    await assert.rejects(previewCronJob(job, makeCtx()), /handler job/);
+  });
+});
@@ -0,0 +1,98 @@
+import type { PromptLayer } from './prompts.js';
+import type { ToolAccess } from './tool-access.js';
+import type { BashPolicy } from './bash-policy.js';
+import type { TaskBudgetStatus } from './task-budget.js';
+import { formatToolAccess } from './tool-access.js';
+import { formatTaskBudget } from './task-budget.js';
+
+/**
+ * Everything a dispatch would send to the agent, resolved by
+ * `collabDispatch({ dryRun: true })` without creating a task, worktree or
+ * session. Token counts are estimates (see estimateTokens).
+ */
+export type DispatchPreview = {
+  project: string;
+  role: string;
+  bot?: string;
+  model: string;
+  cwd: string;
+  additionalDirectories: string[];
+  isolation: 'none' | 'worktree';        // worktree: cwd is replaced by a fresh worktree at dispatch
+  task: { slug: string; exists: boolean };
+  systemPrompt: Array<PromptLayer & { tokens: number }>;
+  prompt: { text: string; tokens: number; reconstructedContext: boolean };
+  estimatedInputTokens: number;          // system prompt layers + prompt
+  mcpServers: string[];
+  tools: ToolAccess;
+  bashPolicies: { role?: BashPolicy; project?: BashPolicy };
+  permissionMode: 'default' | 'bypassPermissions';
+  requireApproval: string[];
+  structuredOutput: boolean;
+  budgets: {
+    maxTurns: number;                    // 0 = unlimited
+    maxBudgetUsd: number;                // 0 = unlimited
+    tokenBudget: number;                 // 0 = unlimited
+    timeoutMs: number;                   // 0 = none
+    stallTimeoutMs: number;
+    task?: TaskBudgetStatus;
+  };
+};
+
+/**
+ * Rough token count for text — about four characters per token for English
+ * prose and code. Good enough to compare layers, not to bill by.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function limit(value: number, format: (v: number) => string = String): string {
+  return value > 0 ? format(value) : 'none';
+}
+
+/** Human-readable preview for `collabot dispatch --dry-run` — summary, then the full prompt text. */
+export function formatDispatchPreview(preview: DispatchPreview): string[] {
+  const lines = [
+    `Project: ${preview.project}`,
+    `Role:    ${preview.role}${preview.bot ? ` (bot ${preview.bot})` : ''}`,
+    `Model:   ${preview.model}`,
+    `Cwd:     ${preview.cwd}${preview.isolation === 'worktree' ? ' (worktree created at dispatch)' : ''}`,
+    ...(preview.additionalDirectories.length > 0 ? [`Dirs:    ${preview.additionalDirectories.join(', ')}`] : []),
+    `Task:    ${preview.task.slug}${preview.task.exists ? '' : ' (new)'}`,
+    '',
+    `System prompt (~${preview.systemPrompt.reduce((sum, l) => sum + l.tokens, 0)} tokens):`,
+    ...preview.systemPrompt.map(l => `  ${l.name.padEnd(20)} ~${l.tokens} tokens`),
+    `Prompt: ~${preview.prompt.tokens} tokens${preview.prompt.reconstructedContext ? ' (includes reconstructed task context)' : ''}`,
+    `Estimated input: ~${preview.estimatedInputTokens} tokens`,
+    '',
+    `MCP servers:      ${preview.mcpServers.length > 0 ? preview.mcpServers.join(', ') : '(none)'}`,
+    ...formatToolAccess(preview.tools),
+    `Permission mode:  ${preview.permissionMode}${preview.requireApproval.length > 0 ? ` (approval: ${preview.requireApproval.join(', ')})` : ''}`,
+  ];
+
+  for (const [source, policy] of Object.entries(preview.bashPolicies)) {
+    if (!policy) continue;
+    const parts = [
+      ...(policy.allow ? [`allow ${policy.allow.join(', ')}`] : []),
+      ...(policy.deny?.length ? [`deny ${policy.deny.join(', ')}`] : []),
+      ...(policy.confineToProject ? ['confined to project'] : []),
+    ];
+    if (parts.length > 0) lines.push(`Bash policy (${source}): ${parts.join('; ')}`);
+  }
+
+  const { budgets } = preview;
+  lines.push(
+    '',
+    `Max turns:    ${limit(budgets.maxTurns)}`,
+    `Max budget:   ${limit(budgets.maxBudgetUsd, v => `$${v.toFixed(2)}`)}`,
+    `Token budget: ${limit(budgets.tokenBudget)}`,
+    `Timeout:      ${limit(budgets.timeoutMs, v => `${Math.round(v / 1000)}s`)}, stall ${Math.round(budgets.stallTimeoutMs / 1000)}s`,
+    ...(budgets.task ? [`Task budget:  ${formatTaskBudget(budgets.task)}${budgets.task.exhausted ? ' — exhausted, the dispatch would be refused' : ''}`] : []),
+  );
+
+  for (const layer of preview.systemPrompt) {
+    lines.push('', `── System prompt: ${layer.name} ──`, layer.text);
+  }
+  lines.push('', '── Prompt ──', preview.prompt.text);
+  return lines;
+}
@@ -4,6 +4,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { JsonFileDispatchStore } from './dispatch-store.js';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import type { DispatchEnvelope, CapturedEvent } from './types.js';
 
 let tmpDir: string;
@@ -386,3 +387,52 @@ test('updateDispatch stores structuredResult on envelope', () => {
   assert.strictEqual(envelope.structuredResult.status, 'success');
   assert.strictEqual(envelope.structuredResult.summary, 'All done');
 });
+
+// ── Stream recording ────────────────────────────────────────────
+
+test('getStreamRecording returns null when nothing was recorded', () => {
+  store.createDispatch(taskDir, makeEnvelope());
+  assert.strictEqual(store.getStreamRecording(taskDir, '01JTEST0001'), null);
+});
+
+test('appendStreamMessage writes JSONL beside the dispatch file, in order', () => {
+  store.createDispatch(taskDir, makeEnvelope());
+  const first = { type: 'system', subtype: 'init', session_id: 's1' } as unknown as SDKMessage;
+  const second = { type: 'result', subtype: 'success', session_id: 's1' } as unknown as SDKMessage;
+
+  store.appendStreamMessage(taskDir, '01JTEST0001', first);
+  store.appendStreamMessage(taskDir, '01JTEST0001', second);
+
+  const filePath = path.join(taskDir, 'dispatches', '01JTEST0001.stream.jsonl');
+  assert.strictEqual(fs.readFileSync(filePath, 'utf8').trim().split('\n').length, 2);
+  assert.deepStrictEqual(store.getStreamRecording(taskDir, '01JTEST0001'), [first, second]);
+});
+
+test('stream recording does not appear as a dispatch envelope', () => {
+  store.createDispatch(taskDir, makeEnvelope());
+  store.appendStreamMessage(taskDir, '01JTEST0001', { type: 'system' } as unknown as SDKMessage);
+  assert.strictEqual(store.getDispatchEnvelopes(taskDir).length, 1);
+});
+
+test('getStreamRecording skips a torn trailing line', () => {
+  store.createDispatch(taskDir, makeEnvelope());
+  store.appendStreamMessage(taskDir, '01JTEST0001', { type: 'system' } as unknown as SDKMessage);
+  fs.appendFileSync(path.join(taskDir, 'dispatches', '01JTEST0001.stream.jsonl'), '{"type":"assis');
+
+  const recording = store.getStreamRecording(taskDir, '01JTEST0001');
+  assert.ok(recording);
+  assert.strictEqual(recording.length, 1);
+});
+
+// ── Git diff ────────────────────────────────────────────────────
+
+test('writeDispatchDiff saves the patch beside the dispatch file, not as an envelope', () => {
+  store.createDispatch(taskDir, makeEnvelope());
+  assert.strictEqual(store.getDispatchDiff(taskDir, '01JTEST0001'), null);
+
+  store.writeDispatchDiff(taskDir, '01JTEST0001', 'diff --git a/x b/x\n');
+
+  assert.ok(fs.existsSync(path.join(taskDir, 'dispatches', '01JTEST0001.diff')));
+  assert.strictEqual(store.getDispatchDiff(taskDir, '01JTEST0001'), 'diff --git a/x b/x\n');
+  assert.strictEqual(store.getDispatchEnvelopes(taskDir).length, 1);
+});
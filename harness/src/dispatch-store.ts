@@ -1,6 +1,7 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { ulid } from 'ulid';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import type {
   CapturedEvent,
   DispatchEnvelope,
@@ -9,6 +10,7 @@ import type {
   EventType,
 } from './types.js';
 import type { PluginManifest } from './comms.js';
+import { updateTaskManifest } from './task.js';
 
 /**
  * Create a CapturedEvent with ULID id and RFC 3339 timestamp.
@@ -41,6 +43,14 @@ export interface DispatchStoreProvider {
   // Event reads (full stream)
   getDispatchEvents(taskDir: string, dispatchId: string): CapturedEvent[];
   getRecentEvents(taskDir: string, dispatchId: string, count: number): CapturedEvent[];
+
+  // Raw SDK stream recording (opt-in — for replay/debugging)
+  appendStreamMessage(taskDir: string, dispatchId: string, message: SDKMessage): void;
+  getStreamRecording(taskDir: string, dispatchId: string): SDKMessage[] | null;
+
+  // Git patch of what the dispatch changed
+  writeDispatchDiff(taskDir: string, dispatchId: string, patch: string): void;
+  getDispatchDiff(taskDir: string, dispatchId: string): string | null;
 }
 
 // ── JsonFileDispatchStore ───────────────────────────────────────
@@ -53,6 +63,14 @@ function dispatchFilePath(taskDir: string, dispatchId: string): string {
   return path.join(dispatchesDir(taskDir), `${dispatchId}.json`);
 }
 
+function streamFilePath(taskDir: string, dispatchId: string): string {
+  return path.join(dispatchesDir(taskDir), `${dispatchId}.stream.jsonl`);
+}
+
+function diffFilePath(taskDir: string, dispatchId: string): string {
+  return path.join(dispatchesDir(taskDir), `${dispatchId}.diff`);
+}
+
 function taskManifestPath(taskDir: string): string {
   return path.join(taskDir, 'task.json');
 }
@@ -65,6 +83,7 @@ function toIndexEntry(envelope: DispatchEnvelope): DispatchIndexEntry {
     cost: envelope.cost,
     startedAt: envelope.startedAt,
     parentDispatchId: envelope.parentDispatchId,
+    ...(envelope.retryOf ? { retryOf: envelope.retryOf, attempt: envelope.attempt } : {}),
   };
 }
 
@@ -88,48 +107,24 @@ function writeDispatchFile(taskDir: string, file: DispatchFile): void {
   );
 }
 
-type TaskManifestRaw = {
-  dispatches?: DispatchIndexEntry[];
-  [key: string]: unknown;
-};
-
-function readTaskManifest(taskDir: string): TaskManifestRaw | null {
-  const filePath = taskManifestPath(taskDir);
-  try {
-    const content = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(content) as TaskManifestRaw;
-  } catch {
-    return null;
-  }
-}
-
-function writeTaskManifest(taskDir: string, manifest: TaskManifestRaw): void {
-  fs.writeFileSync(
-    taskManifestPath(taskDir),
-    JSON.stringify(manifest, null, 2) + '\n',
-    'utf8',
-  );
-}
-
 /**
  * Updates the dispatch index in task.json. Upserts the entry by dispatchId.
  */
 function upsertDispatchIndex(taskDir: string, entry: DispatchIndexEntry): void {
-  const manifest = readTaskManifest(taskDir);
-  if (!manifest) return;
+  if (!fs.existsSync(taskManifestPath(taskDir))) return;
 
-  if (!Array.isArray(manifest.dispatches)) {
-    manifest.dispatches = [];
-  }
-
-  const idx = manifest.dispatches.findIndex((d) => d.dispatchId === entry.dispatchId);
-  if (idx >= 0) {
-    manifest.dispatches[idx] = entry;
-  } else {
-    manifest.dispatches.push(entry);
-  }
+  updateTaskManifest(taskDir, (manifest) => {
+    if (!Array.isArray(manifest.dispatches)) {
+      manifest.dispatches = [];
+    }
 
-  writeTaskManifest(taskDir, manifest);
+    const idx = manifest.dispatches.findIndex((d) => d.dispatchId === entry.dispatchId);
+    if (idx >= 0) {
+      manifest.dispatches[idx] = entry;
+    } else {
+      manifest.dispatches.push(entry);
+    }
+  });
 }
 
 export class JsonFileDispatchStore implements DispatchStoreProvider {
@@ -206,6 +201,44 @@ export class JsonFileDispatchStore implements DispatchStoreProvider {
     if (count >= events.length) return events;
     return events.slice(-count);
   }
+
+  appendStreamMessage(taskDir: string, dispatchId: string, message: SDKMessage): void {
+    fs.mkdirSync(dispatchesDir(taskDir), { recursive: true });
+    fs.appendFileSync(streamFilePath(taskDir, dispatchId), JSON.stringify(message) + '\n', 'utf8');
+  }
+
+  getStreamRecording(taskDir: string, dispatchId: string): SDKMessage[] | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(streamFilePath(taskDir, dispatchId), 'utf8');
+    } catch {
+      return null;
+    }
+
+    const messages: SDKMessage[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        messages.push(JSON.parse(line) as SDKMessage);
+      } catch {
+        // Skip a torn trailing line (process died mid-write)
+      }
+    }
+    return messages;
+  }
+
+  writeDispatchDiff(taskDir: string, dispatchId: string, patch: string): void {
+    fs.mkdirSync(dispatchesDir(taskDir), { recursive: true });
+    fs.writeFileSync(diffFilePath(taskDir, dispatchId), patch, 'utf8');
+  }
+
+  getDispatchDiff(taskDir: string, dispatchId: string): string | null {
+    try {
+      return fs.readFileSync(diffFilePath(taskDir, dispatchId), 'utf8');
+    } catch {
+      return null;
+    }
+  }
 }
 
 // ── Singleton ───────────────────────────────────────────────────
@@ -1,5 +1,5 @@
 import path from "node:path";
-import { query, AbortError } from "@anthropic-ai/claude-agent-sdk";
+import { AbortError } from "@anthropic-ai/claude-agent-sdk";
 import type { SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
 import { ulid } from "ulid";
 import { logger } from "./logger.js";
@@ -7,9 +7,11 @@ import type { DispatchResult, DispatchOptions, RoleDefinition, ToolCall, ErrorTr
 import { AgentResultSchema } from "./types.js";
 import { resolveModelId, type Config } from "./config.js";
 import { assemblePrompt } from "./prompts.js";
+import { buildTemplateVars } from "./prompt-templates.js";
 import { extractToolTarget } from "./util.js";
 import { detectErrorLoop, detectNonRetryable } from "./monitor.js";
 import { getDispatchStore, makeCapturedEvent } from "./dispatch-store.js";
+import { getAgentEngine } from "./agent-engine.js";
 
 const AUTH_FAILURE_MSG = 'Authentication failed — Claude Code CLI is not logged in. Run `claude` in a terminal to authenticate. See https://code.claude.com/docs/en/authentication';
 
@@ -115,7 +117,7 @@ export async function dispatch(
   const stallTimeoutMs = config.defaults.stallTimeoutSeconds * 1000;
 
   // Layered prompt assembly: system prompt + role prompt + conditional tool docs
-  const assembledPrompt = assemblePrompt(role.prompt, role.permissions);
+  const assembledPrompt = assemblePrompt(role.prompt, role.permissions, buildTemplateVars({ role }));
 
   // Project paths are absolute (from project manifests)
   const absoluteCwd = path.resolve(resolvedCwd);
@@ -191,7 +193,7 @@ export async function dispatch(
   try {
     resetStallTimer();
 
-    for await (const msg of query({
+    for await (const msg of getAgentEngine().query({
       prompt,
       options: {
         cwd: absoluteCwd,
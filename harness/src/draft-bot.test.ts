@@ -148,6 +148,7 @@ describe('collabDispatch — virtual project guard', () => {
         pool: { maxConcurrent: 0 },
         mcp: { streamTimeout: 600000 },
         cron: { enabled: false, jobsDirectory: 'cron' },
+        engine: { provider: 'claude-sdk', record: false },
       } as Config,
       roles,
       bots: new Map(),
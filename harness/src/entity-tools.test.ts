@@ -3,7 +3,7 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { scaffoldEntity, validateEntityFrontmatter, validateLinks } from './entity-tools.js';
+import { scaffoldEntity, validateEntityFrontmatter, validateEntityTemplate, validateLinks } from './entity-tools.js';
 
 function tmpDir(): string {
   return fs.mkdtempSync(path.join(os.tmpdir(), 'entity-tools-test-'));
@@ -184,6 +184,29 @@ Body.
   assert.ok(result.errors!.some(e => e.includes('permissions')));
 });
 
+// --- validateEntityTemplate ---
+
+test('validateEntityTemplate reports unknown variables and missing includes', () => {
+  const dir = tmpDir();
+  fs.writeFileSync(path.join(dir, 'style.md'), 'Be brief on {{project.name}}.');
+
+  const content = `---
+name: ts-dev
+---
+You work on {{project.name}} as {{role.displayName}}.
+{{> style}}
+`;
+  assert.strictEqual(validateEntityTemplate(content, dir).valid, true);
+
+  const broken = validateEntityTemplate(content.replace('{{> style}}', '{{> missing}} {{projct.name}}'), dir);
+  assert.strictEqual(broken.valid, false);
+  assert.strictEqual(broken.errors?.length, 2);
+  assert.match(broken.errors![0]!, /include "missing" not found/);
+  assert.match(broken.errors![1]!, /unknown variable \{\{projct\.name\}\}/);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
 // --- validateLinks ---
 
 test('validateLinks passes when all links resolve', () => {
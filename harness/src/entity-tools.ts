@@ -3,6 +3,7 @@ import path from 'node:path';
 import { ulid } from 'ulid';
 import { parseFrontmatter, RoleFrontmatterSchema } from './roles.js';
 import { BotFrontmatterSchema } from './bots.js';
+import { validatePromptTemplate } from './prompt-templates.js';
 
 export type EntityType = 'role' | 'bot';
 
@@ -150,6 +151,20 @@ export function validateEntityFrontmatter(content: string, type: EntityType): Va
   return { valid: true };
 }
 
+/** Check the body's template variables and `{{> include}}` partials against the instance prompts/ directory. */
+export function validateEntityTemplate(content: string, promptsDir?: string): ValidationResult {
+  let body: string;
+  try {
+    ({ body } = parseFrontmatter(content, '<validate>'));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { valid: false, errors: [msg] };
+  }
+
+  const errors = validatePromptTemplate(body, promptsDir);
+  return errors.length > 0 ? { valid: false, errors } : { valid: true };
+}
+
 const MARKDOWN_LINK_RE = /\[([^\]]*)\]\(([^)]+)\)/g;
 
 export function validateLinks(content: string, basePath: string): LinkValidationResult {
@@ -25,7 +25,7 @@ if (command === 'init') {
 } else if (command === 'setup') {
   const { runSetup } = await import('./setup.js');
   await runSetup();
-} else if (command === 'start' || command === 'dispatch') {
+} else if (command === 'start' || command === 'dispatch' || command === 'worktree' || command === 'replay' || command === 'route' || command === 'costs' || command === 'workflow') {
   // Load .env from instance root before delegating
   const instanceRoot = process.env.COLLABOT_HOME
     ? path.resolve(process.env.COLLABOT_HOME)
@@ -34,7 +34,10 @@ if (command === 'init') {
   dotenv.config({ path: path.join(instanceRoot, '.env'), quiet: true });
 
   // Strip subcommand from argv so delegated modules parse correctly
-  process.argv = [process.argv[0]!, process.argv[1]!, ...process.argv.slice(3)];
+  // (worktree/replay/route/costs/workflow are kept — cli.ts dispatches on them as positional subcommands)
+  if (command !== 'worktree' && command !== 'replay' && command !== 'route' && command !== 'costs' && command !== 'workflow') {
+    process.argv = [process.argv[0]!, process.argv[1]!, ...process.argv.slice(3)];
+  }
 
   if (command === 'start') {
     await import('./index.js');
@@ -57,14 +60,50 @@ function printHelp(): void {
     collabot init                 Scaffold a new instance (~/.collabot/)
     collabot setup                Interactive setup wizard (roles, bots, environment)
     collabot dispatch [options]   One-shot CLI dispatch
+    collabot worktree list|prune  List or prune dispatch worktrees
+    collabot replay <task> <id>   Replay a recorded dispatch stream through the monitors
+    collabot route "<message>"    Show which routing rule a message matches
+    collabot costs [options]      Report spending by project, role, bot, model and day
+    collabot workflow list        List workflows (workflows/*.md)
+    collabot workflow run <name> "<input>"
+                                  Run a workflow's steps on a new or existing task
     collabot --version            Print version
 
   Dispatch options:
     --project, -p <name>          Project name (required)
     --role, -r <role>             Role name (required)
     --cwd <path>                  Working directory override
+    --repo <name>                 Repo within the project (default: first path)
     --task, -t <slug>             Attach to existing task
+    --worktree                    Run in an isolated git worktree
+    --record                      Record the raw SDK stream (dispatches/{id}.stream.jsonl)
+    --dry-run                     Show the assembled prompts, model, tools, budgets and token estimates without dispatching
+    --cron <job>                  With --dry-run: preview what a cron job would dispatch
     --list-projects               List all projects
     --list-tasks                  List tasks for a project
+
+  Worktree options:
+    --project, -p <name>          Limit to one project
+    --force                       Prune worktrees with uncommitted changes
+
+  Replay options:
+    --project, -p <name>          Project containing the task (default: search all)
+
+  Route options:
+    --explain                     Show every rule evaluated and its checks
+    --source <name>               Message source to match (default: cli)
+    --channel <id>                Channel to match
+    --project, -p <name>          Project context to match
+
+  Workflow run options:
+    --project, -p <name>          Project (default: the workflow's project)
+    --task, -t <slug>             Run on an existing task
+
+  Costs options:
+    --by <dims>                   Comma-separated: project,role,bot,model,day (default: all)
+    --since <YYYY-MM-DD>          First day to include (UTC)
+    --until <YYYY-MM-DD>          Last day to include (UTC)
+    --project, -p <name>          Limit to one project
+    --csv                         Print CSV instead of tables
 `);
 }
@@ -0,0 +1,218 @@
+import { test, describe, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { startGitCapture, finishGitCapture, formatGitSummary, formatGitFiles } from './git-state.js';
+import { ScriptedEngine, setAgentEngine, type AgentQueryParams } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+import type { RoleDefinition } from './types.js';
+
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'git-state-test-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'Test');
+  fs.writeFileSync(path.join(repo, 'README.md'), '# repo\n');
+  git('add', '.');
+  git('commit', '-q', '-m', 'init');
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+test('startGitCapture snapshots HEAD, branch and dirty state', () => {
+  fs.writeFileSync(path.join(repo, 'scratch.txt'), 'left over\n');
+
+  const capture = startGitCapture(repo)!;
+
+  assert.equal(capture.before.head, git('rev-parse', 'HEAD'));
+  assert.equal(capture.before.branch, 'main');
+  assert.equal(capture.before.dirty, true);
+  assert.deepEqual(capture.untracked, ['scratch.txt']);
+});
+
+test('startGitCapture returns undefined outside a git repository', () => {
+  const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'git-state-plain-'));
+  try {
+    assert.equal(startGitCapture(plain), undefined);
+  } finally {
+    fs.rmSync(plain, { recursive: true, force: true });
+  }
+});
+
+test('finishGitCapture records commits, uncommitted edits and new files, but not untracked leftovers', () => {
+  fs.writeFileSync(path.join(repo, 'scratch.txt'), 'left over\n');
+  const capture = startGitCapture(repo)!;
+
+  // The "agent": one commit, one uncommitted edit, one new file
+  fs.writeFileSync(path.join(repo, 'app.ts'), 'export const a = 1;\n');
+  git('add', 'app.ts');
+  git('commit', '-q', '-m', 'Add app');
+  fs.writeFileSync(path.join(repo, 'README.md'), '# repo\n\nUsage.\n');
+  fs.writeFileSync(path.join(repo, 'new.ts'), 'one\ntwo\n');
+
+  const { state, patch } = finishGitCapture(capture);
+
+  assert.deepEqual(state.commits?.map(c => c.subject), ['Add app']);
+  assert.equal(state.after?.head, git('rev-parse', 'HEAD'));
+  assert.deepEqual(state.files?.map(f => f.path).sort(), ['README.md', 'app.ts', 'new.ts']);
+  assert.equal(state.insertions, 5);
+  assert.equal(state.deletions, 0);
+  assert.match(patch, /\+export const a = 1;/);
+  assert.match(patch, /\+Usage\./);
+  assert.match(patch, /new\.ts/);
+  assert.doesNotMatch(patch, /scratch\.txt/);
+  assert.equal(formatGitSummary(state), '1 commit, 3 files changed (+5 −0)');
+});
+
+test('finishGitCapture leaves out tracked edits made before the dispatch', () => {
+  fs.writeFileSync(path.join(repo, 'README.md'), '# repo\n\nSomeone else\'s edit.\n');
+  fs.writeFileSync(path.join(repo, 'notes.md'), 'committed\n');
+  git('add', 'notes.md');
+  fs.writeFileSync(path.join(repo, 'notes.md'), 'committed\nstaged and edited\n');
+  const capture = startGitCapture(repo)!;
+  assert.notEqual(capture.baseline, capture.before.head);
+  assert.equal(git('stash', 'list'), '', 'the stash list is left alone');
+
+  // The "agent" edits the pre-dirty README further and adds a file
+  fs.appendFileSync(path.join(repo, 'README.md'), 'Agent line.\n');
+  fs.writeFileSync(path.join(repo, 'agent.ts'), 'x\n');
+
+  const { state, patch } = finishGitCapture(capture);
+
+  assert.equal(state.baseline, capture.baseline);
+  assert.deepEqual(state.files?.map(f => [f.path, f.insertions, f.deletions]).sort(), [['README.md', 1, 0], ['agent.ts', 1, 0]]);
+  assert.match(patch, /\+Agent line\./);
+  assert.doesNotMatch(patch, /\+Someone else's edit\./);
+  assert.doesNotMatch(patch, /notes\.md/);
+});
+
+test('finishGitCapture with no changes', () => {
+  const { state, patch } = finishGitCapture(startGitCapture(repo)!);
+
+  assert.equal(patch, '');
+  assert.deepEqual(state.files, []);
+  assert.equal(formatGitSummary(state), '0 commits, no file changes');
+  assert.equal(formatGitSummary({ before: state.before }), undefined);
+});
+
+test('formatGitFiles caps the list', () => {
+  const files = Array.from({ length: 4 }, (_, i) => ({ path: `f${i}.ts`, insertions: i, deletions: 0 }));
+  assert.deepEqual(formatGitFiles({ before: { head: 'x', branch: null, dirty: false }, files }, 2), [
+    'f0.ts (+0 −0)',
+    'f1.ts (+1 −0)',
+    '… and 2 more',
+  ]);
+});
+
+// ── collabDispatch ──────────────────────────────────────────────
+
+/** Scripted engine that edits the repo while "running", like an agent would. */
+class EditingEngine extends ScriptedEngine {
+  constructor(private readonly edit: (cwd: string) => void, steps: SDKMessage[]) {
+    super(steps);
+  }
+
+  override async *query(params: AgentQueryParams): AsyncGenerator<SDKMessage, void> {
+    this.edit(String(params.options?.cwd));
+    yield* super.query(params);
+  }
+}
+
+describe('collabDispatch — git changes', () => {
+  let homeDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-state-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-state-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  test('records git state on the envelope and result, and saves the patch', async () => {
+    const roles = new Map<string, RoleDefinition>([['api-dev', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'api-dev',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You write APIs.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition]]);
+    const projects = new Map<string, Project>([['demo', {
+      name: 'demo', description: 'Git project', paths: [repo], roles: ['api-dev'],
+    } as Project]]);
+    const ctx: CollabDispatchContext = {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+
+    setAgentEngine(new EditingEngine((cwd) => {
+      fs.writeFileSync(path.join(cwd, 'README.md'), '# repo\n\nEdited.\n');
+    }, [
+      { type: 'system', subtype: 'init', session_id: 'git-session', model: 'claude-sonnet-4-6' },
+      {
+        type: 'result', subtype: 'success', session_id: 'git-session', result: 'done', is_error: false,
+        num_turns: 1, duration_ms: 5, duration_api_ms: 5, total_cost_usd: 0.01,
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+      },
+    ] as unknown as SDKMessage[]));
+
+    const result = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Edit the README.' }, ctx);
+
+    assert.equal(result.status, 'completed');
+    assert.equal(result.git?.before.branch, 'main');
+    assert.equal(result.git?.after?.dirty, true);
+    assert.deepEqual(result.git?.files, [{ path: 'README.md', insertions: 2, deletions: 0 }]);
+    assert.equal(result.git?.diff, true);
+
+    const taskDir = path.join(projectsDir, 'demo', 'tasks', result.taskSlug);
+    assert.deepEqual(getDispatchStore().getDispatchEnvelope(taskDir, result.dispatchId)?.git, result.git);
+    assert.match(getDispatchStore().getDispatchDiff(taskDir, result.dispatchId) ?? '', /\+Edited\./);
+  });
+});
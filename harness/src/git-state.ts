@@ -0,0 +1,146 @@
+import { execFileSync } from 'node:child_process';
+import { logger } from './logger.js';
+import type { DispatchGitState, GitFileChange, GitSnapshot } from './types.js';
+
+/**
+ * Git state around a dispatch: HEAD, branch and dirty state before the run;
+ * commits, changed files, diffstat and the full patch after. Changes are
+ * measured against the starting working tree (HEAD when it was clean), so
+ * they include commits, uncommitted edits and new (untracked) files — but
+ * not edits or untracked files that were already there when the dispatch
+ * started.
+ */
+
+// ── Git helpers ──────────────────────────────────────────────
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/** `git diff --no-index` exits 1 when the files differ — that is its output, not a failure. */
+function gitNoIndex(cwd: string, args: string[]): string {
+  try {
+    return git(cwd, ['diff', '--no-index', ...args]);
+  } catch (err) {
+    const stdout = (err as { status?: number; stdout?: string }).stdout;
+    if ((err as { status?: number }).status === 1 && typeof stdout === 'string') return stdout;
+    throw err;
+  }
+}
+
+function lines(output: string): string[] {
+  return output.split('\n').filter(l => l.length > 0);
+}
+
+function untrackedFiles(cwd: string): string[] {
+  return lines(git(cwd, ['ls-files', '--others', '--exclude-standard']));
+}
+
+function snapshot(cwd: string): GitSnapshot {
+  const branch = git(cwd, ['branch', '--show-current']).trim();
+  return {
+    head: git(cwd, ['rev-parse', 'HEAD']).trim(),
+    branch: branch || null,
+    dirty: git(cwd, ['status', '--porcelain']).trim() !== '',
+  };
+}
+
+function parseNumstat(output: string): GitFileChange[] {
+  return lines(output).map((line) => {
+    const [added = '-', removed = '-', ...rest] = line.split('\t');
+    return {
+      path: rest.join('\t'),
+      insertions: added === '-' ? 0 : Number(added),
+      deletions: removed === '-' ? 0 : Number(removed),
+    };
+  });
+}
+
+// ── Capture ──────────────────────────────────────────────────
+
+export type GitCapture = {
+  cwd: string;
+  before: GitSnapshot;
+  baseline: string;         // commit the changes are diffed against — HEAD, or a stash commit of a dirty tree
+  untracked: string[];      // untracked before the run — left out of the changes
+};
+
+/**
+ * Snapshot a dispatch's cwd before the agent runs. Undefined when the cwd
+ * is not a git repository or has no commits yet.
+ */
+export function startGitCapture(cwd: string): GitCapture | undefined {
+  try {
+    const before = snapshot(cwd);
+    // `git stash create` commits the tracked working tree without touching it — empty when clean
+    const baseline = before.dirty ? git(cwd, ['stash', 'create']).trim() || before.head : before.head;
+    return { cwd, before, baseline, untracked: untrackedFiles(cwd) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Measure what changed since startGitCapture. Returns the state for the
+ * dispatch envelope and the full patch (empty when nothing changed). Git
+ * failures are logged and leave only the `before` snapshot.
+ */
+export function finishGitCapture(capture: GitCapture): { state: DispatchGitState; patch: string } {
+  const { cwd, before, baseline } = capture;
+  try {
+    const after = snapshot(cwd);
+    const commits = lines(git(cwd, ['log', '--reverse', '--format=%H%x09%s', `${before.head}..HEAD`]))
+      .map((line) => {
+        const [sha = '', ...subject] = line.split('\t');
+        return { sha, subject: subject.join('\t') };
+      });
+
+    const files = parseNumstat(git(cwd, ['diff', '--numstat', baseline]));
+    let patch = git(cwd, ['diff', '--binary', baseline]);
+
+    const existing = new Set(capture.untracked);
+    for (const file of untrackedFiles(cwd).filter(f => !existing.has(f))) {
+      files.push(...parseNumstat(gitNoIndex(cwd, ['--numstat', '--', '/dev/null', file])).map(f => ({ ...f, path: file })));
+      patch += gitNoIndex(cwd, ['--binary', '--', '/dev/null', file]);
+    }
+
+    return {
+      state: {
+        before,
+        ...(baseline !== before.head ? { baseline } : {}),
+        after,
+        commits,
+        files,
+        insertions: files.reduce((sum, f) => sum + f.insertions, 0),
+        deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+      },
+      patch,
+    };
+  } catch (err) {
+    logger.warn({ err, cwd }, 'failed to capture dispatch git changes');
+    return { state: { before }, patch: '' };
+  }
+}
+
+// ── Formatting ───────────────────────────────────────────────
+
+/** One line, e.g. `2 commits, 3 files changed (+40 −12)`. Undefined before the dispatch ends. */
+export function formatGitSummary(state: DispatchGitState): string | undefined {
+  if (!state.files || !state.commits) return undefined;
+  const commits = `${state.commits.length} commit${state.commits.length === 1 ? '' : 's'}`;
+  if (state.files.length === 0) return `${commits}, no file changes`;
+  const files = `${state.files.length} file${state.files.length === 1 ? '' : 's'} changed`;
+  return `${commits}, ${files} (+${state.insertions ?? 0} −${state.deletions ?? 0})`;
+}
+
+/** Changed files as `path (+a −d)`, capped at `limit` with a remainder line. */
+export function formatGitFiles(state: DispatchGitState, limit = 10): string[] {
+  const files = state.files ?? [];
+  const shown = files.slice(0, limit).map(f => `${f.path} (+${f.insertions} −${f.deletions})`);
+  return files.length > limit ? [...shown, `… and ${files.length - limit} more`] : shown;
+}
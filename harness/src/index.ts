@@ -1,13 +1,15 @@
 import { readFileSync } from 'node:fs';
 import { logger, logTier, applyConfigLogLevel } from './logger.js';
 import { loadConfig, resolveModelId } from './config.js';
+import { configureAgentEngine } from './agent-engine.js';
 import { loadRoles, ModelHintEnum, PermissionsEnum } from './roles.js';
 import { loadProjects, ensureVirtualProject, getProjectTasksDir } from './project.js';
 import { loadBots } from './bots.js';
-import { AgentPool } from './pool.js';
+import { AgentPool, resolvePoolLimits } from './pool.js';
+import { getCostLedger, formatCostWarning } from './costs.js';
 import { draftAgent, handleTask } from './core.js';
 import type { McpServers } from './mcp.js';
-import { createHarnessServer, DispatchTracker, selectMcpServersForRole } from './mcp.js';
+import { createHarnessServerForRole, DispatchTracker, selectMcpServersForRole } from './mcp.js';
 import { CommunicationRegistry } from './registry.js';
 import { CliAdapter } from './adapters/cli.js';
 import { WsAdapter } from './adapters/ws.js';
@@ -20,6 +22,7 @@ import { buildJobHandler } from './cron-bridge.js';
 import { createCronMcpServer } from './cron-mcp.js';
 import type { CollabDispatchContext } from './collab-dispatch.js';
 import { placeBots, BotPlacementStore } from './bot-placement.js';
+import { mergeToolAccess } from './tool-access.js';
 import { createTask, getOpenTasks, closeTask } from './task.js';
 import { registerWsMethods } from './ws-methods.js';
 import { getInstancePath, getInstanceRoot, getPackagePath } from './paths.js';
@@ -48,6 +51,19 @@ try {
 // Apply config-driven log level (env var override wins if set)
 applyConfigLogLevel(config.logging.level);
 
+// Install the configured agent engine (claude-sdk or scripted)
+try {
+  configureAgentEngine(config);
+} catch (err) {
+  const msg = err instanceof Error ? err.message : String(err);
+  console.log('\n  Collabot — agent engine setup failed\n');
+  logger.error({ msg }, 'agent engine setup failed');
+  process.exit(1);
+}
+if (config.engine.provider !== 'claude-sdk') {
+  logger.warn({ provider: config.engine.provider, fixture: config.engine.fixture }, 'using offline agent engine — dispatches replay a fixture');
+}
+
 const defaultModel = config.models.default;
 const aliasCount = Object.keys(config.models.aliases).length;
 
@@ -122,7 +138,11 @@ const projectCount = projects.size;
 const projectNames = [...projects.values()].map((p) => p.name).join(', ');
 
 // Initialize agent pool
-const pool = new AgentPool(config.pool.maxConcurrent);
+const pool = new AgentPool(config.pool.maxConcurrent, {
+  queueTimeoutMs: config.pool.queueTimeoutSeconds * 1000,
+  agingMs: config.pool.agingSeconds * 1000,
+  limits: resolvePoolLimits(config.pool, projects.values()),
+});
 
 // ── Communication Registry ──────────────────────────────────────
 
@@ -153,6 +173,8 @@ const draftFn: DraftAgentFn = async (roleName, taskContext, opts) => {
     taskSlug: opts?.taskSlug,
     taskDir: opts?.taskDir,
     cwd: opts?.cwd,
+    repo: opts?.repo,
+    model: opts?.model,
     parentDispatchId: opts?.parentDispatchId,
     pool,
     projects,
@@ -161,14 +183,11 @@ const draftFn: DraftAgentFn = async (roleName, taskContext, opts) => {
   });
 };
 const mcpServers: McpServers = {
-  createFull: (parentTaskSlug: string, parentTaskDir: string, parentProject?: string, parentDispatchId?: string) => createHarnessServer({
-    pool, projects, projectsDir: PROJECTS_DIR, roles, tools: 'full',
-    tracker, draftFn,
-    parentTaskSlug, parentTaskDir, parentProject, parentDispatchId,
-  }),
-  readonly: createHarnessServer({
-    pool, projects, projectsDir: PROJECTS_DIR, roles, tools: 'readonly',
-  }),
+  createForRole: (role, context) => createHarnessServerForRole(
+    { pool, projects, projectsDir: PROJECTS_DIR, roles, tracker, draftFn },
+    role,
+    context,
+  ),
 };
 
 // ── 4. Ensure lobby virtual project ──────────────────────────────
@@ -233,12 +252,22 @@ if (wsEnabled) {
   const ws = new WsAdapter({ port: config.ws!.port, host: config.ws!.host });
   wsDeps = { wsAdapter: ws, registry, handleTask, roles, config, pool, projects, projectsDir: PROJECTS_DIR, mcpServers, botSessionManager };
   registerWsMethods(wsDeps);
-  pool.setOnChange((agents) => {
-    ws.broadcastNotification('pool_status', { agents });
+  pool.setOnChange((agents, queued) => {
+    ws.broadcastNotification('pool_status', { agents, queued });
   });
   registry.register(ws);
 }
 
+// Spending cap warnings — always logged, pushed to WS clients when enabled
+getCostLedger().setOnWarning((warning, entry) => {
+  logger.warn({ ...warning, dispatchId: entry.dispatchId }, 'spending cap warning');
+  wsDeps?.wsAdapter.broadcastNotification('cost_warning', {
+    ...warning,
+    message: formatCostWarning(warning),
+    dispatchId: entry.dispatchId,
+  });
+});
+
 // ── 7. Provider interrogation ───────────────────────────────────
 
 const virtualProjectMeta = new Map<string, VirtualProjectMeta>();
@@ -385,7 +414,10 @@ botQueue.setHandler(async (msg) => {
       cwd,
       responseSink,
       mcpServers: mcpServersForRole,
-      disallowedTools: placement.disallowedTools,
+      ...mergeToolAccess(proj, placement),
+      bashPolicy: proj?.bashPolicy,
+      requireApproval: proj?.requireApproval,
+      projectPaths: proj?.paths,
       projectSkills: placement.skills,
     });
   } catch (err) {
@@ -562,10 +594,10 @@ mcpServers.cron = cronMcpServer;
 // ── 16. Register inbound handler ────────────────────────────────
 
 const inboundHandler: InboundHandler = async (msg) => {
-  const result = await handleTask(msg, registry, roles, config, pool, mcpServers, projects, PROJECTS_DIR);
+  const result = await handleTask(msg, registry, roles, config, pool, mcpServers, projects, PROJECTS_DIR, bots);
   return {
     status: result.status === 'completed' ? 'completed' as const
-      : (result.status === 'aborted' || result.status === 'timed_out') ? 'aborted' as const
+      : (result.status === 'aborted' || result.status === 'timed_out' || result.status === 'budget_exceeded') ? 'aborted' as const
       : 'crashed' as const,
     summary: result.structuredResult?.summary ?? result.result?.slice(0, 200),
   };
@@ -4,6 +4,7 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { runInit } from './init.js';
+import { loadWorkflows } from './workflows.js';
 
 // runInit reads COLLABOT_HOME to resolve target
 function runInitInDir(targetDir: string): void {
@@ -42,6 +43,7 @@ test('runInit creates expected directories', () => {
     assert.ok(fs.existsSync(path.join(targetDir, 'prompts')), 'prompts/ should exist');
     assert.ok(fs.existsSync(path.join(targetDir, 'roles')), 'roles/ should exist');
     assert.ok(fs.existsSync(path.join(targetDir, 'bots')), 'bots/ should exist');
+    assert.ok(fs.existsSync(path.join(targetDir, 'workflows')), 'workflows/ should exist');
     assert.ok(fs.existsSync(path.join(targetDir, '.projects')), '.projects/ should exist');
 
     // Directories that should NOT exist
@@ -61,6 +63,7 @@ test('runInit creates expected files', () => {
     assert.ok(fs.existsSync(path.join(targetDir, 'config.toml')), 'config.toml should exist');
     assert.ok(fs.existsSync(path.join(targetDir, '.env')), '.env should exist');
     assert.ok(fs.existsSync(path.join(targetDir, 'prompts', 'system.md')), 'prompts/system.md should exist');
+    assert.ok(fs.existsSync(path.join(targetDir, 'workflows', 'plan-implement-review.md')), 'workflows/plan-implement-review.md should exist');
 
     // Files that should NOT exist (no starter role/bot/tools.md)
     assert.ok(!fs.existsSync(path.join(targetDir, 'prompts', 'tools.md')), 'prompts/tools.md should not exist');
@@ -112,3 +115,16 @@ test('runInit system.md mentions Collabot', () => {
     fs.rmSync(targetDir, { recursive: true, force: true });
   }
 });
+
+test('runInit installs an example workflow that loads', () => {
+  const targetDir = path.join(os.tmpdir(), `collabot-init-test-${Date.now()}`);
+  try {
+    runInitInDir(targetDir);
+
+    const workflows = loadWorkflows(path.join(targetDir, 'workflows'));
+    assert.deepStrictEqual(workflows.map(w => w.name), ['plan-implement-review']);
+    assert.deepStrictEqual(workflows[0]!.steps.map(s => s.role), ['researcher', 'ts-dev', 'researcher', 'ts-dev']);
+  } finally {
+    fs.rmSync(targetDir, { recursive: true, force: true });
+  }
+});
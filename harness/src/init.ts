@@ -19,7 +19,7 @@ export function runInit(): void {
   }
 
   // Create directory structure — no skills/, no docs/
-  const dirs = ['', 'prompts', 'roles', 'bots', '.projects'];
+  const dirs = ['', 'prompts', 'roles', 'bots', 'workflows', '.projects'];
   for (const dir of dirs) {
     fs.mkdirSync(path.join(target, dir), { recursive: true });
   }
@@ -28,6 +28,7 @@ export function runInit(): void {
   fs.copyFileSync(templatePath('config.defaults.toml'), path.join(target, 'config.toml'));
   fs.copyFileSync(templatePath('env.template'), path.join(target, '.env'));
   fs.copyFileSync(templatePath('prompts', 'system.md'), path.join(target, 'prompts', 'system.md'));
+  fs.copyFileSync(templatePath('workflows', 'plan-implement-review.md'), path.join(target, 'workflows', 'plan-implement-review.md'));
 
   // Output summary
   console.log(`\nCollabot instance created at ${target}\n`);
@@ -36,6 +37,7 @@ export function runInit(): void {
   console.log('  prompts/system.md  agent system prompt');
   console.log('  roles/             role definitions (empty — use `collabot setup` to add)');
   console.log('  bots/              bot definitions (empty — use `collabot setup` to add)');
+  console.log('  workflows/         example plan → implement → review workflow');
   console.log('  .projects/         project manifests and task data');
   console.log('\nNext steps:');
   console.log('  1. Run `collabot setup` to configure roles, bots, and environment');
@@ -191,15 +191,14 @@ test('McpServer tool returning isError with plain text', () => {
 // ============================================================
 
 function makeMockMcpServers(): McpServers {
-  const readonlyServer = new McpServer({ name: 'harness-ro', version: '1.0.0' }, { capabilities: { tools: {} } });
   const cronServer = new McpServer({ name: 'cron', version: '1.0.0' }, { capabilities: { tools: {} } });
 
   return {
-    createFull: (_taskSlug: string, _taskDir: string, _parentProject?: string, _parentDispatchId?: string) => {
-      const fullServer = new McpServer({ name: 'harness-full', version: '1.0.0' }, { capabilities: { tools: {} } });
-      return { type: 'sdk' as const, name: 'harness', instance: fullServer };
+    createForRole: (role) => {
+      const full = role.permissions?.includes('agent-draft') ?? false;
+      const server = new McpServer({ name: full ? 'harness-full' : 'harness-ro', version: '1.0.0' }, { capabilities: { tools: {} } });
+      return { type: 'sdk' as const, name: 'harness', instance: server };
     },
-    readonly: { type: 'sdk' as const, name: 'harness', instance: readonlyServer },
     cron: { type: 'sdk' as const, name: 'cron', instance: cronServer },
   };
 }
@@ -226,7 +225,6 @@ test('selectMcpServersForRole — readonly role gets readonly server, no cron',
   const selected = selectMcpServersForRole(role, servers, { taskSlug: 'test', taskDir: '/tmp/test' });
 
   assert.equal(selected.harness.name, 'harness');
-  assert.equal(selected.harness, servers.readonly);
   assert.equal(selected.cron, undefined);
 });
 
@@ -236,7 +234,6 @@ test('selectMcpServersForRole — agent-draft role gets full server + cron', ()
 
   const selected = selectMcpServersForRole(role, servers, { taskSlug: 'test', taskDir: '/tmp/test' });
 
-  assert.notEqual(selected.harness, servers.readonly);
   assert.equal(selected.harness.type, 'sdk');
   assert.ok(selected.cron);
   assert.equal(selected.cron.name, 'cron');
@@ -253,22 +250,24 @@ test('selectMcpServersForRole — agent-draft role without cron server gets no c
   assert.equal(selected.cron, undefined);
 });
 
-test('selectMcpServersForRole — role with no permissions gets readonly', () => {
+test('selectMcpServersForRole — role with no permissions gets no cron', () => {
   const servers = makeMockMcpServers();
   const role = makeRole(); // no permissions field
 
   const selected = selectMcpServersForRole(role, servers, { taskSlug: 'test', taskDir: '/tmp/test' });
 
-  assert.equal(selected.harness, servers.readonly);
+  assert.equal(selected.harness.type, 'sdk');
   assert.equal(selected.cron, undefined);
 });
 
-test('selectMcpServersForRole — passes parentDispatchId to createFull', () => {
+test('selectMcpServersForRole — passes role and parentDispatchId to createForRole', () => {
   let receivedDispatchId: string | undefined;
+  let receivedRole: string | undefined;
   const servers: McpServers = {
     ...makeMockMcpServers(),
-    createFull: (_ts: string, _td: string, _pp?: string, parentDispatchId?: string) => {
-      receivedDispatchId = parentDispatchId;
+    createForRole: (role, context) => {
+      receivedRole = role.name;
+      receivedDispatchId = context.parentDispatchId;
       const s = new McpServer({ name: 'harness', version: '1.0.0' }, { capabilities: { tools: {} } });
       return { type: 'sdk' as const, name: 'harness', instance: s };
     },
@@ -276,4 +275,5 @@ test('selectMcpServersForRole — passes parentDispatchId to createFull', () =>
   const role = makeRole({ permissions: ['agent-draft'] });
   selectMcpServersForRole(role, servers, { taskSlug: 'test', taskDir: '/tmp', parentDispatchId: 'dispatch-123' });
   assert.equal(receivedDispatchId, 'dispatch-123');
+  assert.equal(receivedRole, 'test-role');
 });
@@ -3,9 +3,13 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { createHarnessServer, DispatchTracker } from './mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
+import { createHarnessServer, createHarnessServerForRole, DispatchTracker } from './mcp.js';
 import type { DraftAgentFn } from './mcp.js';
 import { AgentPool } from './pool.js';
+import { JsonFileDispatchStore } from './dispatch-store.js';
 import { buildTaskContext } from './context.js';
 import type { RoleDefinition, DispatchResult, Project } from './types.js';
 
@@ -218,3 +222,78 @@ test('kill_agent — calls pool.kill()', () => {
   assert.equal(controller.signal.aborted, true);
   assert.equal(pool.size, 0);
 });
+
+// ============================================================
+// Project tool permissions
+// ============================================================
+
+async function connect(server: McpSdkServerConfigWithInstance): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.instance.connect(serverTransport);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const [first] = result.content as Array<{ type: string; text: string }>;
+  return first?.text ?? '';
+}
+
+test('list_projects — denied without projects-list and recorded on the running dispatch', async () => {
+  const projectsDir = makeTempTasksDir();
+  const taskDir = createTask(projectsDir, 'gated-task', { slug: 'gated-task', name: 'Gated', project: 'Acme', status: 'open', dispatches: [] });
+  const store = new JsonFileDispatchStore();
+  store.createDispatch(taskDir, {
+    dispatchId: '01JPERMDENIED01',
+    taskSlug: 'gated-task',
+    role: 'api-dev',
+    model: 'claude-sonnet-4-6',
+    cwd: '.',
+    startedAt: '2026-03-01T10:00:00Z',
+    status: 'running',
+  });
+
+  const roles = makeRoles();
+  const server = createHarnessServerForRole(
+    { pool: new AgentPool(), projects: makeProjects(), projectsDir, roles },
+    roles.get('api-dev')!,
+    { taskSlug: 'gated-task', taskDir, parentProject: 'Acme' },
+  );
+  const client = await connect(server);
+
+  const result = await client.callTool({ name: 'list_projects', arguments: {} });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /needs the "projects-list" permission/);
+
+  const denied = store.getDispatchEvents(taskDir, '01JPERMDENIED01').find(e => e.type === 'harness:permission_denied');
+  assert.deepEqual(denied?.data, { role: 'api-dev', tool: 'list_projects', permission: 'projects-list' });
+  await client.close();
+});
+
+test('create_project — creates a project for roles with projects-create', async () => {
+  const projectsDir = makeTempTasksDir();
+  const projects = makeProjects();
+  const roles = makeRoles();
+  const tracker = new DispatchTracker();
+  const draftFn: DraftAgentFn = async () => ({ status: 'completed', duration_ms: 0 });
+  const server = createHarnessServerForRole(
+    { pool: new AgentPool(), projects, projectsDir, roles, tracker, draftFn },
+    roles.get('product-analyst')!,
+    { taskSlug: 'pm-task', taskDir: path.join(projectsDir, 'pm-task'), parentProject: 'Acme' },
+  );
+  const client = await connect(server);
+
+  const listed = await client.callTool({ name: 'list_projects', arguments: {} });
+  assert.notEqual(listed.isError, true);
+
+  const created = await client.callTool({ name: 'create_project', arguments: { name: 'Beacon', roles: ['api-dev'] } });
+  assert.notEqual(created.isError, true);
+  assert.deepEqual(created.structuredContent, { name: 'Beacon', paths: [], roles: ['api-dev'] });
+  assert.ok(projects.has('beacon'));
+  assert.ok(fs.existsSync(path.join(projectsDir, 'beacon', 'project.toml')));
+
+  const duplicate = await client.callTool({ name: 'create_project', arguments: { name: 'beacon' } });
+  assert.equal(duplicate.isError, true);
+  await client.close();
+});
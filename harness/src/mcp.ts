@@ -5,10 +5,14 @@ import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-
 import { z } from 'zod';
 import type { LoggingLevel, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
 import { buildTaskContext } from './context.js';
-import { getProjectTasksDir } from './project.js';
 import type { Project } from './project.js';
 import type { AgentPool } from './pool.js';
+import { getProjectTasksDir, resolveProjectPath, createProject } from './project.js';
+import { getDispatchStore, makeCapturedEvent } from './dispatch-store.js';
 import { listTasks } from './task.js';
+import { loadWorkflow } from './workflows.js';
+import { beginWorkflowRun, runWorkflow, formatWorkflowRun, type WorkflowTask } from './workflow-run.js';
+import { setTaskBudget, formatTaskBudget } from './task-budget.js';
 import { logger } from './logger.js';
 import type { CollabDispatchResult, RoleDefinition } from './types.js';
 
@@ -24,6 +28,38 @@ export function assistantContent(data: unknown) {
   return { type: 'text' as const, text: JSON.stringify(data), annotations: { audience: ['assistant' as const], priority: 1.0 } };
 }
 
+// ============================================================
+// Permission checks — role permissions gate project tools
+// ============================================================
+
+/**
+ * Refuse a tool call the role lacks a permission for. The denial is logged
+ * and recorded as a `harness:permission_denied` event on the running dispatch.
+ */
+function denyPermission(options: HarnessServerOptions, tool: string, permission: string) {
+  const role = options.role ?? 'unknown';
+  logger.warn({ role, tool, permission }, 'harness tool permission denied');
+
+  const taskDir = options.parentTaskDir;
+  if (taskDir) {
+    try {
+      const store = getDispatchStore();
+      const running = store.getDispatchEnvelopes(taskDir)
+        .filter(d => d.status === 'running' && d.role === role)
+        .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+        .at(-1);
+      if (running) {
+        store.appendEvent(taskDir, running.dispatchId, makeCapturedEvent('harness:permission_denied', { role, tool, permission }));
+      }
+    } catch { /* non-fatal */ }
+  }
+
+  return {
+    content: [{ type: 'text' as const, text: `Permission denied: role "${role}" needs the "${permission}" permission to use ${tool}` }],
+    isError: true,
+  };
+}
+
 // ============================================================
 // DispatchTracker — maps agent IDs to in-flight dispatch promises
 // ============================================================
@@ -71,7 +107,7 @@ export class DispatchTracker {
 export type DraftAgentFn = (
   roleName: string,
   taskContext: string,
-  options?: { taskSlug?: string; taskDir?: string; cwd?: string; parentDispatchId?: string; project?: string },
+  options?: { taskSlug?: string; taskDir?: string; cwd?: string; repo?: string; parentDispatchId?: string; project?: string; model?: string },
 ) => Promise<CollabDispatchResult>;
 
 // ============================================================
@@ -84,6 +120,9 @@ export type HarnessServerOptions = {
   projectsDir: string;
   roles: Map<string, RoleDefinition>;
   tools: 'full' | 'readonly';
+  // Role the server is built for — project tools check its permissions
+  role?: string;
+  permissions?: readonly string[];
   // Required for lifecycle tools (full mode):
   tracker?: DispatchTracker;
   draftFn?: DraftAgentFn;
@@ -107,6 +146,8 @@ Workflow:
 4. Use await_agent with the agentId to block until the agent completes and get its result
 5. Use kill_agent to abort agents that are stuck or no longer needed
 6. Use list_tasks / get_task_context for prior work history and context reconstruction
+7. Use create_project to set up a new project (requires the projects-create permission)
+8. Use run_workflow to run a declared multi-step workflow (e.g. plan → implement → review) on a task
 
 Agents are scoped to projects. Each project declares which roles are available. Cross-project dispatch is supported via the project parameter on draft_agent.`;
 
@@ -120,6 +161,7 @@ export function createHarnessServer(options: HarnessServerOptions): McpSdkServer
   );
 
   registerReadonlyTools(server, options);
+  registerProjectTools(server, options);
 
   if (options.tools === 'full') {
     registerLifecycleTools(server, options);
@@ -132,23 +174,50 @@ export function createHarnessServer(options: HarnessServerOptions): McpSdkServer
 // MCP server container + selection
 // ============================================================
 
+export type HarnessServerContext = {
+  taskSlug: string;
+  taskDir: string;
+  parentProject?: string;
+  parentDispatchId?: string;
+};
+
 export type McpServers = {
-  createFull: (parentTaskSlug: string, parentTaskDir: string, parentProject?: string, parentDispatchId?: string) => McpSdkServerConfigWithInstance;
-  readonly: McpSdkServerConfigWithInstance;
+  /** Harness server for one dispatch, built from the role's permissions. */
+  createForRole: (role: RoleDefinition, context: HarnessServerContext) => McpSdkServerConfigWithInstance;
   cron?: McpSdkServerConfigWithInstance;
 };
 
+/**
+ * Create the harness server for a role: lifecycle tools with `agent-draft`,
+ * and project tools gated on `projects-list` / `projects-create`.
+ */
+export function createHarnessServerForRole(
+  base: Pick<HarnessServerOptions, 'pool' | 'projects' | 'projectsDir' | 'roles' | 'tracker' | 'draftFn'>,
+  role: RoleDefinition,
+  context: HarnessServerContext,
+): McpSdkServerConfigWithInstance {
+  const permissions = role.permissions ?? [];
+  return createHarnessServer({
+    ...base,
+    tools: permissions.includes('agent-draft') ? 'full' : 'readonly',
+    role: role.name,
+    permissions,
+    parentTaskSlug: context.taskSlug,
+    parentTaskDir: context.taskDir,
+    parentProject: context.parentProject,
+    parentDispatchId: context.parentDispatchId,
+  });
+}
+
 export function selectMcpServersForRole(
   role: RoleDefinition,
   mcpServers: McpServers,
-  context: { taskSlug: string; taskDir: string; parentProject?: string; parentDispatchId?: string },
+  context: HarnessServerContext,
 ): Record<string, McpSdkServerConfigWithInstance> {
   const isFullAccess = role.permissions?.includes('agent-draft') ?? false;
 
   const selected: Record<string, McpSdkServerConfigWithInstance> = {
-    harness: isFullAccess
-      ? mcpServers.createFull(context.taskSlug, context.taskDir, context.parentProject, context.parentDispatchId)
-      : mcpServers.readonly,
+    harness: mcpServers.createForRole(role, context),
   };
 
   if (isFullAccess && mcpServers.cron) {
@@ -167,26 +236,42 @@ function registerReadonlyTools(server: McpServer, options: HarnessServerOptions)
 
   server.registerTool('list_agents', {
     title: 'List Active Agents',
-    description: 'List currently active agents in the pool. Returns agent objects with id, role, bot identity, taskSlug, and startedAt. Use this to check what agents are running before drafting new ones or to monitor in-flight work.',
+    description: 'List currently active agents in the pool. Returns agent objects with id, role, bot identity, taskSlug, and startedAt, plus agents queued for a slot (with priority, 1-based position, and the limit blocking them) when the pool is at capacity or a per-project/role/priority limit is reached. Use this to check what agents are running before drafting new ones or to monitor in-flight work.',
     inputSchema: {},
     outputSchema: {
       agents: z.array(z.unknown()).describe('Array of active agent objects'),
+      queued: z.array(z.unknown()).describe('Agents waiting for a pool slot, in admission order'),
     },
     annotations: { readOnlyHint: true, openWorldHint: false },
   }, async () => {
     const agents = pool.list().map((a) => ({
       id: a.id,
       role: a.role,
+      project: a.project ?? null,
       botId: a.botId ?? null,
       botName: a.botName ?? null,
       taskSlug: a.taskSlug ?? null,
       startedAt: a.startedAt.toISOString(),
     }));
-    const data = { agents };
+    const queued = pool.queued().map((q) => ({
+      id: q.id,
+      role: q.role,
+      project: q.project ?? null,
+      botName: q.botName ?? null,
+      taskSlug: q.taskSlug ?? null,
+      priority: q.priority,
+      position: q.position,
+      enqueuedAt: q.enqueuedAt.toISOString(),
+      blockedBy: q.blockedBy ?? null,
+    }));
+    const data = { agents, queued };
     const count = agents.length;
-    const userText = count === 0
+    let userText = count === 0
       ? 'No agents currently running.'
       : `${count} active agent${count > 1 ? 's' : ''}:\n${agents.map(a => `  ${a.id} (${a.role})`).join('\n')}`;
+    if (queued.length > 0) {
+      userText += `\n${queued.length} queued:\n${queued.map(q => `  #${q.position} ${q.id} (${q.role}, ${q.priority})${q.blockedBy ? ` \u2014 blocked by ${q.blockedBy}` : ''}`).join('\n')}`;
+    }
     return {
       content: [userContent(userText), assistantContent(data)],
       structuredContent: data,
@@ -270,13 +355,16 @@ function registerReadonlyTools(server: McpServer, options: HarnessServerOptions)
 
   server.registerTool('list_projects', {
     title: 'List Projects',
-    description: 'List projects visible to the current agent. Currently returns the parent project\'s info (name, description, repository paths, available roles). Scoped to your parent project context.',
+    description: 'List projects visible to the current agent. Currently returns the parent project\'s info (name, description, repository paths, available roles). Scoped to your parent project context. Requires the projects-list permission.',
     inputSchema: {},
     outputSchema: {
       projects: z.array(z.unknown()).describe('Array of project info objects'),
     },
     annotations: { readOnlyHint: true, openWorldHint: false },
   }, async () => {
+    if (!options.permissions?.includes('projects-list')) {
+      return denyPermission(options, 'list_projects', 'projects-list');
+    }
     const resolvedName = options.parentProject;
     if (!resolvedName) {
       const data = { projects: [] };
@@ -308,7 +396,60 @@ function registerReadonlyTools(server: McpServer, options: HarnessServerOptions)
 }
 
 // ============================================================
-// Lifecycle tools (draft, await, kill)
+// Project tools (create_project)
+// ============================================================
+
+function registerProjectTools(server: McpServer, options: HarnessServerOptions): void {
+  const { projects, projectsDir, roles } = options;
+
+  server.registerTool('create_project', {
+    title: 'Create Project',
+    description: 'Create a new project with a name, description, and the roles available in it. Repository paths are added to project.toml afterwards. Requires the projects-create permission.',
+    inputSchema: {
+      name: z.string().min(1).describe('Project name (unique, case-insensitive)'),
+      description: z.string().optional().describe('What the project is for (defaults to the name)'),
+      roles: z.array(z.string()).optional().describe('Role names available in the project (defaults to every loaded role)'),
+    },
+    outputSchema: {
+      name: z.string(),
+      paths: z.array(z.string()),
+      roles: z.array(z.string()),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  }, async ({ name, description, roles: roleNames }) => {
+    if (!options.permissions?.includes('projects-create')) {
+      return denyPermission(options, 'create_project', 'projects-create');
+    }
+    if (projects.has(name.toLowerCase())) {
+      return {
+        content: [{ type: 'text' as const, text: `Project "${name}" already exists` }],
+        isError: true,
+      };
+    }
+
+    try {
+      const project = createProject(
+        projectsDir,
+        { name, description: description ?? name, roles: roleNames ?? [...roles.keys()] },
+        roles,
+      );
+      projects.set(project.name.toLowerCase(), project);
+      const data = { name: project.name, paths: project.paths, roles: project.roles };
+      return {
+        content: [userContent(`Created project "${project.name}" (roles: ${project.roles.join(', ')})`), assistantContent(data)],
+        structuredContent: data,
+      };
+    } catch (err) {
+      return {
+        content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }],
+        isError: true,
+      };
+    }
+  });
+}
+
+// ============================================================
+// Lifecycle tools (draft, await, kill, budget)
 // ============================================================
 
 // MCP-level logging helper — sends a log notification to the calling agent.
@@ -333,15 +474,17 @@ function registerLifecycleTools(server: McpServer, options: HarnessServerOptions
       prompt: z.string().describe('Task prompt — the instructions for the dispatched agent'),
       taskSlug: z.string().optional().describe('Task slug to associate the dispatch with (inherits parent task if omitted)'),
       project: z.string().optional().describe('Target project name for cross-project dispatch (defaults to parent project)'),
+      repo: z.string().optional().describe('Repo to work in — directory name or path from the project\'s paths (defaults to the first). Other repos stay readable.'),
     },
     outputSchema: {
       agentId: z.string().describe('Unique agent identifier'),
       role: z.string(),
       taskSlug: z.string(),
       project: z.string(),
+      repo: z.string().describe('Resolved repo path the agent works in'),
     },
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
-  }, async ({ role, prompt, taskSlug, project: targetProject }, extra) => {
+  }, async ({ role, prompt, taskSlug, project: targetProject, repo }, extra) => {
     const roleDefn = roles.get(role);
     if (!roleDefn) {
       const available = [...roles.keys()].join(', ');
@@ -374,6 +517,16 @@ function registerLifecycleTools(server: McpServer, options: HarnessServerOptions
       };
     }
 
+    let cwd: string;
+    try {
+      cwd = resolveProjectPath(proj, repo);
+    } catch (err) {
+      return {
+        content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }],
+        isError: true,
+      };
+    }
+
     const agentId = `${role}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
 
     const isCrossProject = targetProject && targetProject.toLowerCase() !== (options.parentProject ?? '').toLowerCase();
@@ -401,12 +554,11 @@ function registerLifecycleTools(server: McpServer, options: HarnessServerOptions
       }
     }
 
-    const cwd = proj.paths[0]!;
-
     const promise = draftFn(role, prompt, {
       taskSlug: resolvedSlug,
       taskDir,
       cwd,
+      ...(repo ? { repo: cwd } : {}),
       parentDispatchId: options.parentDispatchId,
       project: proj.name,
     });
@@ -419,7 +571,7 @@ function registerLifecycleTools(server: McpServer, options: HarnessServerOptions
       cwd,
     });
 
-    const data = { agentId, role, taskSlug: resolvedSlug, project: proj.name };
+    const data = { agentId, role, taskSlug: resolvedSlug, project: proj.name, repo: cwd };
     mcpLog(extra, 'info', `Agent dispatched: ${role} on ${proj.name} (${agentId})`);
     return {
       content: [userContent(`Dispatched ${role} agent: ${agentId} (project: ${proj.name})`), assistantContent(data)],
@@ -543,4 +695,104 @@ function registerLifecycleTools(server: McpServer, options: HarnessServerOptions
       isError: true,
     };
   });
+
+  server.registerTool('run_workflow', {
+    title: 'Run Workflow',
+    description: 'Run a workflow from the instance workflows/ directory — a declared sequence of role dispatches (e.g. plan → implement → review → fix) where each step\'s result status picks the next step. Blocks until the workflow ends and returns every step\'s outcome. Runs on the parent task unless taskSlug or another project is given. Progress is recorded on the task manifest.',
+    inputSchema: {
+      workflow: z.string().describe('Workflow name (workflows/<name>.md)'),
+      input: z.string().optional().describe('Text the workflow starts from — available to step prompts as {{input}}'),
+      taskSlug: z.string().optional().describe('Task to run on (defaults to the parent task; a new task when omitted for another project)'),
+      project: z.string().optional().describe('Project to run in (defaults to the parent project, then the workflow\'s project)'),
+      force: z.boolean().optional().describe('Replace a run the task still shows as running — only for a run cut short by a restart'),
+    },
+    outputSchema: {
+      taskSlug: z.string(),
+      project: z.string(),
+      run: z.unknown().describe('Workflow run — status, steps with role, outcome, next step, cost and summary'),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  }, async ({ workflow, input, taskSlug, project: targetProject, force }, extra) => {
+    let def;
+    let task: WorkflowTask;
+    let proj: Project | undefined;
+    try {
+      def = loadWorkflow(workflow);
+      const resolvedProject = targetProject ?? options.parentProject ?? def.project;
+      proj = resolvedProject ? projects.get(resolvedProject.toLowerCase()) : undefined;
+      if (!proj) throw new Error(resolvedProject ? `Project "${resolvedProject}" not found` : 'No project — pass project');
+
+      const sameProject = proj.name.toLowerCase() === (options.parentProject ?? '').toLowerCase();
+      const slug = taskSlug ?? (sameProject ? options.parentTaskSlug : undefined);
+      task = beginWorkflowRun(def, { project: proj.name, projectsDir, input: input ?? '', taskSlug: slug, force });
+    } catch (err) {
+      return {
+        content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }],
+        isError: true,
+      };
+    }
+
+    const project = proj;
+    const run = await runWorkflow(def, task, (step, t) => {
+      const cwd = resolveProjectPath(project, step.repo);
+      return draftFn(step.role, step.prompt, {
+        taskSlug: t.taskSlug,
+        taskDir: t.taskDir,
+        cwd,
+        ...(step.repo ? { repo: cwd } : {}),
+        parentDispatchId: options.parentDispatchId,
+        project: t.project,
+        ...(step.model ? { model: step.model } : {}),
+      });
+    }, (progress) => {
+      if (progress.currentStep) mcpLog(extra, 'info', `Workflow ${def.name}: running ${progress.currentStep}`);
+    });
+
+    const data = { taskSlug: task.taskSlug, project: task.project, run };
+    return {
+      content: [userContent(formatWorkflowRun(run).join('\n')), assistantContent(data)],
+      structuredContent: data,
+      ...(run.status === 'failed' ? { isError: true } : {}),
+    };
+  });
+
+  server.registerTool('set_task_budget', {
+    title: 'Set Task Budget',
+    description: 'Set or clear the cumulative budget for a task in the current project. The budget caps total spend across every dispatch on the task; once spent, the task moves to budget_exhausted and further dispatches are refused. Pass null to clear a limit. Raising an exhausted budget reopens the task.',
+    inputSchema: {
+      taskSlug: z.string().optional().describe('Task slug (defaults to the parent task)'),
+      budgetUsd: z.number().positive().nullable().optional().describe('Total USD the task may spend; null clears it'),
+      tokenBudget: z.number().int().positive().nullable().optional().describe('Total input + output tokens the task may use; null clears it'),
+    },
+    outputSchema: {
+      taskSlug: z.string(),
+      budget: z.unknown().describe('Budget status (limits, spend, remaining, exhausted), or null when the task has no budget'),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  }, async ({ taskSlug, budgetUsd, tokenBudget }) => {
+    const resolvedName = options.parentProject;
+    const proj = resolvedName ? projects.get(resolvedName.toLowerCase()) : undefined;
+    if (!proj) {
+      return {
+        content: [{ type: 'text' as const, text: resolvedName ? `Project "${resolvedName}" not found` : 'No parent project context' }],
+        isError: true,
+      };
+    }
+
+    const slug = taskSlug ?? options.parentTaskSlug;
+    const taskDir = slug ? path.join(getProjectTasksDir(projectsDir, proj.name), slug) : undefined;
+    if (!slug || !taskDir || !fs.existsSync(path.join(taskDir, 'task.json'))) {
+      return {
+        content: [{ type: 'text' as const, text: `Task "${slug ?? ''}" not found` }],
+        isError: true,
+      };
+    }
+
+    const budget = setTaskBudget(taskDir, { budgetUsd, tokenBudget }) ?? null;
+    const data = { taskSlug: slug, budget };
+    return {
+      content: [userContent(budget ? `Task "${slug}" budget: ${formatTaskBudget(budget)}` : `Task "${slug}" has no budget`), assistantContent(data)],
+      structuredContent: data,
+    };
+  });
 }
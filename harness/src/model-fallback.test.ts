@@ -0,0 +1,244 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { resolveModelChain, fallbackSignals, classifyModelError, DEFAULT_FALLBACK_SIGNALS } from './model-fallback.js';
+import { ScriptedEngine, setAgentEngine, type AgentEngineProvider, type AgentQueryParams, type ScriptStep } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getProjectTasksDir } from './project.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+const MODELS = {
+  default: 'sonnet-latest',
+  aliases: {
+    'opus-latest': 'claude-opus-4-6',
+    'sonnet-latest': 'claude-sonnet-4-6',
+    'haiku-latest': 'claude-haiku-4-5',
+  },
+};
+
+function makeConfig(models?: Partial<Config['models']>): Config {
+  return { models: { ...MODELS, ...models } } as Config;
+}
+
+// ── Chain resolution ────────────────────────────────────────────
+
+describe('resolveModelChain', () => {
+  test('no fallbacks resolves to the single model', () => {
+    assert.deepEqual(resolveModelChain('opus-latest', makeConfig()), ['claude-opus-4-6']);
+  });
+
+  test('follows fallbacks transitively', () => {
+    const config = makeConfig({ fallbacks: { 'opus-latest': ['sonnet-latest'], 'sonnet-latest': ['haiku-latest'] } });
+    assert.deepEqual(resolveModelChain('opus-latest', config), ['claude-opus-4-6', 'claude-sonnet-4-6', 'claude-haiku-4-5']);
+    assert.deepEqual(resolveModelChain('sonnet-latest', config), ['claude-sonnet-4-6', 'claude-haiku-4-5']);
+  });
+
+  test('accepts literal model IDs as keys and entries, and drops cycles', () => {
+    const config = makeConfig({
+      fallbacks: { 'claude-opus-4-6': ['claude-sonnet-4-5'], 'claude-sonnet-4-5': ['opus-latest'] },
+    });
+    assert.deepEqual(resolveModelChain('opus-latest', config), ['claude-opus-4-6', 'claude-sonnet-4-5']);
+  });
+});
+
+describe('fallback signals', () => {
+  test('defaults apply when fallbackOn is unset', () => {
+    assert.deepEqual(fallbackSignals(makeConfig()), DEFAULT_FALLBACK_SIGNALS);
+    assert.deepEqual(fallbackSignals(makeConfig({ fallbackOn: ['rate_limit'] })), ['rate_limit']);
+  });
+
+  test('classifies thrown API errors', () => {
+    assert.equal(classifyModelError('API Error: 529 {"type":"overloaded_error"}'), 'overloaded');
+    assert.equal(classifyModelError('429 Too Many Requests: rate limit reached'), 'rate_limit');
+    assert.equal(classifyModelError('model: claude-opus-9 not found'), 'model_error');
+    assert.equal(classifyModelError('socket hang up'), undefined);
+  });
+});
+
+// ── collabDispatch fallback ─────────────────────────────────────
+
+const SESSION_ID = 'fallback-session';
+
+function init(model: string): SDKMessage {
+  return { type: 'system', subtype: 'init', session_id: SESSION_ID, model } as unknown as SDKMessage;
+}
+
+function rateLimited(): SDKMessage {
+  return { type: 'system', subtype: 'rate_limit', session_id: SESSION_ID, retry_after_ms: 30000 } as unknown as SDKMessage;
+}
+
+function success(): SDKMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    session_id: SESSION_ID,
+    result: 'done',
+    is_error: false,
+    num_turns: 1,
+    duration_ms: 5,
+    duration_api_ms: 5,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  } as unknown as SDKMessage;
+}
+
+/** Plays a different script on each query. */
+class SequenceEngine implements AgentEngineProvider {
+  readonly manifest = new ScriptedEngine([]).manifest;
+  readonly calls: AgentQueryParams[] = [];
+
+  constructor(private readonly scripts: ScriptStep[][]) {}
+
+  query(params: AgentQueryParams): AsyncIterable<SDKMessage> {
+    this.calls.push(params);
+    const script = this.scripts[Math.min(this.calls.length, this.scripts.length) - 1] ?? [];
+    return new ScriptedEngine(script).query(params);
+  }
+}
+
+describe('collabDispatch — model fallback', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fallback-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fallback-repo-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fallback-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(models?: Partial<Config['models']>): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('architect', {
+      id: '01TESTROLE00000000000000000',
+      version: '1.0.0',
+      name: 'architect',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You are an architect.',
+      modelHint: 'opus-latest',
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', { name: 'demo', description: 'Fallback project', paths: [repoDir], roles: ['architect'] });
+
+    return {
+      config: {
+        models: { ...MODELS, ...models },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  test('switches to the next model on a rate limit and records the model used', async () => {
+    const engine = new SequenceEngine([
+      [init('claude-opus-4-6'), rateLimited(), { $delayMs: 50 }, success()],
+      [init('claude-sonnet-4-6'), success()],
+    ]);
+    setAgentEngine(engine);
+    const switches: Array<[string, string]> = [];
+
+    const result = await collabDispatch({
+      project: 'demo',
+      role: 'architect',
+      prompt: 'Design it.',
+      onModelFallback: (from, to) => switches.push([from, to]),
+    }, makeCtx({ fallbacks: { 'opus-latest': ['sonnet-latest'] } }));
+
+    assert.equal(result.status, 'completed');
+    assert.equal(result.model, 'claude-sonnet-4-6');
+    assert.equal(result.attempts, 2);
+    assert.deepEqual(engine.calls.map(c => c.options.model), ['claude-opus-4-6', 'claude-sonnet-4-6']);
+    assert.deepEqual(switches, [['claude-opus-4-6', 'claude-sonnet-4-6']]);
+
+    const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+    const store = getDispatchStore();
+    const [failed, fallback] = store.getDispatchEnvelopes(taskDir);
+    assert.equal(failed?.model, 'claude-opus-4-6');
+    assert.equal(failed?.status, 'aborted');
+    assert.equal(fallback?.model, 'claude-sonnet-4-6');
+    assert.equal(fallback?.fallbackFrom, 'claude-opus-4-6');
+    assert.equal(fallback?.retryOf, failed?.dispatchId);
+
+    const event = store.getDispatchEvents(taskDir, failed!.dispatchId).find(e => e.type === 'harness:model_fallback');
+    assert.deepEqual(event?.data, { from: 'claude-opus-4-6', to: 'claude-sonnet-4-6', reason: 'rate_limit' });
+  });
+
+  test('falls back on classified crashes and stops at the end of the chain', async () => {
+    const engine = new SequenceEngine([[init('x'), { $error: 'API Error: 529 overloaded_error' }]]);
+    setAgentEngine(engine);
+
+    const result = await collabDispatch(
+      { project: 'demo', role: 'architect', prompt: 'Design it.' },
+      makeCtx({ fallbacks: { 'opus-latest': ['sonnet-latest'], 'sonnet-latest': ['haiku-latest'] } }),
+    );
+
+    assert.equal(result.status, 'crashed');
+    assert.equal(result.reason, 'overloaded');
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(engine.calls.map(c => c.options.model), ['claude-opus-4-6', 'claude-sonnet-4-6', 'claude-haiku-4-5']);
+  });
+
+  test('ignores signals not listed in fallbackOn', async () => {
+    const engine = new SequenceEngine([[init('x'), { $error: 'API Error: 529 overloaded_error' }], [init('y'), success()]]);
+    setAgentEngine(engine);
+
+    const result = await collabDispatch(
+      { project: 'demo', role: 'architect', prompt: 'Design it.' },
+      makeCtx({ fallbacks: { 'opus-latest': ['sonnet-latest'] }, fallbackOn: ['rate_limit'] }),
+    );
+
+    assert.equal(result.status, 'crashed');
+    assert.equal(engine.calls.length, 1);
+  });
+
+  test('an explicit model option starts the chain from that model', async () => {
+    const engine = new SequenceEngine([[init('claude-sonnet-4-6'), success()]]);
+    setAgentEngine(engine);
+
+    const result = await collabDispatch(
+      { project: 'demo', role: 'architect', prompt: 'Design it.', model: 'sonnet-latest' },
+      makeCtx({ fallbacks: { 'opus-latest': ['sonnet-latest'] } }),
+    );
+
+    assert.equal(result.status, 'completed');
+    assert.equal(engine.calls[0]?.options.model, 'claude-sonnet-4-6');
+  });
+});
@@ -0,0 +1,43 @@
+import { resolveModelId, type Config } from './config.js';
+
+/**
+ * Failure signals that move a dispatch to the next model in its fallback chain
+ * when `[models] fallbackOn` is unset. Assistant error kinds (`rate_limit`,
+ * `server_error`, ...) are used as-is; thrown errors are classified by
+ * `classifyModelError()`.
+ */
+export const DEFAULT_FALLBACK_SIGNALS: readonly string[] = ['rate_limit', 'overloaded', 'server_error', 'model_error'];
+
+/**
+ * Resolve a model hint to its ordered chain of concrete model IDs: the hint's
+ * own model first, then each `[models.fallbacks]` entry, followed transitively
+ * (opus → sonnet, sonnet → haiku gives opus → sonnet → haiku). Entries may be
+ * aliases or literal model IDs. Duplicates and cycles are dropped.
+ */
+export function resolveModelChain(modelHint: string, config: Config): string[] {
+  const fallbacks = config.models.fallbacks ?? {};
+  const chain: string[] = [];
+
+  const visit = (hint: string, modelId: string) => {
+    if (chain.includes(modelId)) return;
+    chain.push(modelId);
+    for (const next of fallbacks[hint] ?? fallbacks[modelId] ?? []) {
+      visit(next, config.models.aliases[next] ?? next);
+    }
+  };
+
+  visit(modelHint, resolveModelId(modelHint, config));
+  return chain;
+}
+
+export function fallbackSignals(config: Config): readonly string[] {
+  return config.models.fallbackOn ?? DEFAULT_FALLBACK_SIGNALS;
+}
+
+/** Map a thrown SDK/API error message to a fallback signal, if it is one. */
+export function classifyModelError(message: string): string | undefined {
+  if (/overloaded|\b529\b/i.test(message)) return 'overloaded';
+  if (/rate.?limit|\b429\b/i.test(message)) return 'rate_limit';
+  if (/model/i.test(message) && /not.?found|not available|does not exist|invalid|unsupported/i.test(message)) return 'model_error';
+  return undefined;
+}
@@ -1,6 +1,6 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { detectErrorLoop, detectNonRetryable } from './monitor.js';
+import { detectErrorLoop, detectNonRetryable, detectBudgetOverrun, countStreamTokens } from './monitor.js';
 import type { ToolCall, ErrorTriplet } from './types.js';
 
 function call(tool: string, target: string): ToolCall {
@@ -220,3 +220,48 @@ test('nonRetryable: same error, different tools → null', () => {
   ];
   assert.strictEqual(detectNonRetryable(errors), null);
 });
+
+// ── Token budget ───────────────────────────────────────────────
+
+test('countStreamTokens: latest context plus cumulative output across turns', () => {
+  // Each turn re-sends the whole context — input and cache grow, output is new
+  assert.strictEqual(countStreamTokens([
+    { input_tokens: 100, cache_read_input_tokens: 0, cache_creation_input_tokens: 2000, output_tokens: 50 },
+    { input_tokens: 80, cache_read_input_tokens: 2000, cache_creation_input_tokens: 150, output_tokens: 40 },
+    { input_tokens: 60, cache_read_input_tokens: 2150, cache_creation_input_tokens: 120, output_tokens: 30 },
+  ]), 60 + 2150 + 120 + 50 + 40 + 30);
+});
+
+test('countStreamTokens: missing usage → 0', () => {
+  assert.strictEqual(countStreamTokens([]), 0);
+  assert.strictEqual(countStreamTokens([undefined]), 0);
+  assert.strictEqual(countStreamTokens([{ input_tokens: 10, cache_read_input_tokens: null }, undefined]), 10);
+});
+
+test('budget: zero budget → null (unlimited)', () => {
+  assert.strictEqual(detectBudgetOverrun(1_000_000, 0, 80), null);
+});
+
+test('budget: below warn threshold → null', () => {
+  assert.strictEqual(detectBudgetOverrun(7_999, 10_000, 80), null);
+});
+
+test('budget: at warn threshold → warning', () => {
+  const result = detectBudgetOverrun(8_000, 10_000, 80);
+  assert.ok(result);
+  assert.strictEqual(result.severity, 'warning');
+  assert.strictEqual(result.percent, 80);
+});
+
+test('budget: warnPercent 0 → no warning before exceeded', () => {
+  assert.strictEqual(detectBudgetOverrun(9_999, 10_000, 0), null);
+});
+
+test('budget: reaching budget → exceeded', () => {
+  const result = detectBudgetOverrun(10_500, 10_000, 80);
+  assert.ok(result);
+  assert.strictEqual(result.severity, 'exceeded');
+  assert.strictEqual(result.usedTokens, 10_500);
+  assert.strictEqual(result.tokenBudget, 10_000);
+  assert.strictEqual(result.percent, 105);
+});
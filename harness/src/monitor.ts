@@ -1,4 +1,4 @@
-import type { ToolCall, LoopDetection, LoopDetectionThresholds, ErrorTriplet, NonRetryableDetection } from './types.js';
+import type { ToolCall, LoopDetection, LoopDetectionThresholds, ErrorTriplet, NonRetryableDetection, TokenBudgetDetection } from './types.js';
 
 const DEFAULT_THRESHOLDS: LoopDetectionThresholds = {
   repeatWarn: 3, repeatKill: 5, pingPongWarn: 3, pingPongKill: 4,
@@ -139,3 +139,52 @@ export function detectNonRetryable(recentErrors: ErrorTriplet[]): NonRetryableDe
 
   return null;
 }
+
+export type MessageUsage = {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
+
+/**
+ * Tokens used so far by a streamed run, from each API message's usage in
+ * stream order. Every message's input (+ cache) already covers the whole
+ * context, so only the latest one counts; output tokens add up.
+ */
+export function countStreamTokens(usages: Iterable<MessageUsage | undefined>): number {
+  let context = 0;
+  let output = 0;
+  for (const usage of usages) {
+    if (!usage) continue;
+    context = (usage.input_tokens ?? 0)
+      + (usage.cache_read_input_tokens ?? 0)
+      + (usage.cache_creation_input_tokens ?? 0);
+    output += usage.output_tokens ?? 0;
+  }
+  return context + output;
+}
+
+/**
+ * Detects token budget pressure for a running agent.
+ * Pure function — no side effects, no I/O.
+ *
+ * usedTokens >= tokenBudget → exceeded, usedTokens >= warnPercent% of budget → warning.
+ * A budget of 0 = unlimited, a warnPercent of 0 = no warning.
+ */
+export function detectBudgetOverrun(
+  usedTokens: number,
+  tokenBudget: number,
+  warnPercent: number,
+): TokenBudgetDetection | null {
+  if (tokenBudget <= 0) return null;
+
+  const percent = Math.round((usedTokens / tokenBudget) * 10000) / 100;
+  if (usedTokens >= tokenBudget) {
+    return { usedTokens, tokenBudget, percent, severity: 'exceeded' };
+  }
+  if (warnPercent > 0 && percent >= warnPercent) {
+    return { usedTokens, tokenBudget, percent, severity: 'warning' };
+  }
+  return null;
+}
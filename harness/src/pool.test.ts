@@ -1,6 +1,6 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { AgentPool, AgentSnapshot } from './pool.js';
+import { AgentPool, AgentSnapshot, resolvePoolLimits } from './pool.js';
 
 function makeAgent(id: string, role = 'api-dev') {
   return {
@@ -146,3 +146,148 @@ test('pool works normally when no onChange is set (backward compat)', () => {
   pool.kill('a2');
   assert.strictEqual(pool.size, 0);
 });
+
+// Admission queue tests
+
+test('acquire at capacity waits and is admitted on release', async () => {
+  const pool = new AgentPool(1);
+  pool.register(makeAgent('a1'));
+
+  const positions: number[] = [];
+  let admitted = false;
+  const pending = pool.acquire(makeAgent('a2'), { onQueued: (p) => positions.push(p) }).then(() => { admitted = true; });
+
+  assert.deepStrictEqual(positions, [1]);
+  assert.strictEqual(pool.positionOf('a2'), 1);
+  assert.strictEqual(admitted, false);
+
+  pool.release('a1');
+  await pending;
+  assert.ok(admitted);
+  assert.deepStrictEqual(pool.list().map(a => a.id), ['a2']);
+  assert.strictEqual(pool.queued().length, 0);
+});
+
+test('queue admits by priority, FIFO within a priority', async () => {
+  const pool = new AgentPool(1);
+  pool.register(makeAgent('busy'));
+
+  const order: string[] = [];
+  const waits = [
+    pool.acquire(makeAgent('cron-1'), { priority: 'cron' }).then(() => order.push('cron-1')),
+    pool.acquire(makeAgent('draft-1'), { priority: 'draft' }).then(() => order.push('draft-1')),
+    pool.acquire(makeAgent('bot-1'), { priority: 'interactive' }).then(() => order.push('bot-1')),
+    pool.acquire(makeAgent('bot-2'), { priority: 'interactive' }).then(() => order.push('bot-2')),
+  ];
+
+  assert.deepStrictEqual(pool.queued().map(q => `${q.position}:${q.id}`), ['1:bot-1', '2:bot-2', '3:draft-1', '4:cron-1']);
+
+  for (const id of ['busy', 'bot-1', 'bot-2', 'draft-1']) {
+    pool.release(id);
+    await new Promise((r) => setImmediate(r));
+  }
+  await Promise.all(waits);
+  assert.deepStrictEqual(order, ['bot-1', 'bot-2', 'draft-1', 'cron-1']);
+});
+
+test('aging promotes long-waiting entries', async () => {
+  const pool = new AgentPool(1, { agingMs: 10 });
+  pool.register(makeAgent('busy'));
+
+  const cron = pool.acquire(makeAgent('cron-1'), { priority: 'cron' });
+  await new Promise((r) => setTimeout(r, 30));
+  const bot = pool.acquire(makeAgent('bot-1'), { priority: 'interactive' });
+
+  assert.strictEqual(pool.positionOf('cron-1'), 1);
+  pool.release('busy');
+  await cron;
+  pool.release('cron-1');
+  await bot;
+});
+
+test('acquire times out with the queue position in the error', async () => {
+  const pool = new AgentPool(1, { queueTimeoutMs: 60000 });
+  pool.register(makeAgent('a1'));
+
+  await assert.rejects(pool.acquire(makeAgent('a2'), { timeoutMs: 10 }), /Timed out after 0s waiting for a pool slot \(queued #1/);
+  assert.strictEqual(pool.queued().length, 0);
+});
+
+test('kill removes a queued agent and rejects its acquire', async () => {
+  const pool = new AgentPool(1);
+  pool.register(makeAgent('a1'));
+  const queued = makeAgent('a2');
+  const snapshots: number[] = [];
+  pool.setOnChange((_agents, q) => snapshots.push(q.length));
+
+  const pending = pool.acquire(queued);
+  pool.kill('a2');
+
+  await assert.rejects(pending, /cancelled while queued/);
+  assert.ok(queued.controller.signal.aborted);
+  assert.strictEqual(pool.queued().length, 0);
+  assert.deepStrictEqual(snapshots, [1, 0]);
+});
+
+test('project limit holds back only that project and reports blockedBy', async () => {
+  const pool = new AgentPool(0, { limits: { projects: { acme: 1 } } });
+  pool.register({ ...makeAgent('a1'), project: 'Acme' });
+
+  const blocked = pool.acquire({ ...makeAgent('a2'), project: 'acme' });
+  await pool.acquire({ ...makeAgent('b1'), project: 'other' });
+
+  assert.deepStrictEqual(pool.queued().map(q => [q.id, q.blockedBy]), [['a2', 'project acme (1)']]);
+  assert.deepStrictEqual(pool.list().map(a => a.id), ['a1', 'b1']);
+  pool.release('a1');
+  await blocked;
+});
+
+test('role and priority limits apply to register and acquire', async () => {
+  const pool = new AgentPool(0, { limits: { roles: { 'dotnet-dev': 1 }, priorities: { cron: 1 } } });
+  pool.register({ ...makeAgent('d1'), role: 'dotnet-dev' });
+  assert.throws(() => pool.register({ ...makeAgent('d2'), role: 'dotnet-dev' }), /Pool limit reached \(role dotnet-dev \(1\)\)/);
+
+  await pool.acquire(makeAgent('c1'), { priority: 'cron' });
+  const cron = pool.acquire(makeAgent('c2'), { priority: 'cron' });
+  assert.strictEqual(pool.queued()[0]?.blockedBy, 'cron (1)');
+  pool.release('c1');
+  await cron;
+});
+
+test('a queued entry blocked by a limit does not hold up entries behind it', async () => {
+  const pool = new AgentPool(2, { limits: { roles: { dev: 1 } } });
+  pool.register({ ...makeAgent('d1'), role: 'dev' });
+  pool.register(makeAgent('x1'));
+
+  const dev = pool.acquire({ ...makeAgent('d2'), role: 'dev' });
+  const other = pool.acquire(makeAgent('x2'), { priority: 'cron' });
+  assert.strictEqual(pool.queued()[0]?.blockedBy, 'maxConcurrent (2)');
+
+  pool.release('x1');
+  await other;
+  assert.strictEqual(pool.queued()[0]?.blockedBy, 'maxConcurrent (2)');
+  pool.release('d1');
+  await dev;
+});
+
+test('setLimits admits agents the new limits allow', async () => {
+  const pool = new AgentPool(0, { limits: { projects: { acme: 1 } } });
+  pool.register({ ...makeAgent('a1'), project: 'acme' });
+  const pending = pool.acquire({ ...makeAgent('a2'), project: 'acme' });
+
+  pool.setLimits({ projects: { acme: 2 } });
+  await pending;
+  assert.strictEqual(pool.size, 2);
+});
+
+test('resolvePoolLimits merges config limits with project maxConcurrent', () => {
+  const limits = resolvePoolLimits(
+    { maxConcurrent: 0, queueTimeoutSeconds: 600, agingSeconds: 60, projectLimits: { Acme: 3, beta: 1 }, roleLimits: { 'dotnet-dev': 1 } },
+    [
+      { name: 'acme', description: 'd', paths: [], roles: ['dev'], virtual: false, maxConcurrent: 2 },
+      { name: 'gamma', description: 'd', paths: [], roles: ['dev'], virtual: false, maxConcurrent: 4 },
+    ],
+  );
+  assert.deepStrictEqual(limits.projects, { acme: 2, beta: 1, gamma: 4 });
+  assert.deepStrictEqual(limits.roles, { 'dotnet-dev': 1 });
+});
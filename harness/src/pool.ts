@@ -1,6 +1,11 @@
+import type { Config } from './config.js';
+import type { Project } from './project.js';
+
 export interface ActiveAgent {
   id: string;
   role: string;
+  project?: string;
+  priority?: PoolPriority;   // set on admission; counts toward priorityLimits
   botId?: string;
   botName?: string;
   taskSlug?: string;
@@ -12,46 +17,196 @@ export interface ActiveAgent {
 export interface AgentSnapshot {
   id: string;
   role: string;
+  project?: string;
+  priority?: PoolPriority;
   botId?: string;
   botName?: string;
   taskSlug?: string;
   startedAt: Date;
 }
 
+/**
+ * Admission priority when the pool is at capacity. Interactive work (bot
+ * sessions, human-submitted tasks) goes first; MCP child drafts next, since
+ * their parent agent holds a slot while it waits; cron last.
+ */
+export type PoolPriority = 'interactive' | 'draft' | 'cron';
+
+const PRIORITY_RANK: Record<PoolPriority, number> = { interactive: 0, draft: 1, cron: 2 };
+
+/**
+ * Snapshot of an agent waiting for a slot. `position` is 1-based; `blockedBy`
+ * names the limit holding it back (e.g. `maxConcurrent (4)`, `project acme (2)`).
+ */
+export interface QueuedSnapshot extends AgentSnapshot {
+  priority: PoolPriority;
+  position: number;
+  enqueuedAt: Date;
+  blockedBy?: string;
+}
+
+/**
+ * Concurrency caps on top of `maxConcurrent`. Keys are project names
+ * (case-insensitive), role names, and priority classes.
+ */
+export interface PoolLimits {
+  projects?: Record<string, number>;
+  roles?: Record<string, number>;
+  priorities?: Partial<Record<PoolPriority, number>>;
+}
+
+export interface AcquireOptions {
+  priority?: PoolPriority;                 // default 'interactive'
+  timeoutMs?: number;                      // max wait; 0 = no limit. Default: pool queueTimeoutMs
+  onQueued?: (position: number) => void;   // called once if the agent has to wait
+}
+
+export interface AgentPoolOptions {
+  queueTimeoutMs?: number;   // default wait limit for acquire(); 0 = no limit
+  agingMs?: number;          // each interval waited promotes an entry one priority level; 0 = off
+  limits?: PoolLimits;
+}
+
+type QueueEntry = {
+  agent: ActiveAgent;
+  priority: PoolPriority;
+  enqueuedAt: number;
+  seq: number;
+  admit: () => void;
+  fail: (err: Error) => void;
+};
+
 export class AgentPool {
   private active = new Map<string, ActiveAgent>();
-  private onChange?: (agents: AgentSnapshot[]) => void;
+  private queue: QueueEntry[] = [];
+  private seq = 0;
+  private onChange?: (agents: AgentSnapshot[], queued: QueuedSnapshot[]) => void;
 
-  constructor(private maxConcurrent: number = 0) {} // 0 = unlimited
+  constructor(
+    private maxConcurrent: number = 0, // 0 = unlimited
+    private options: AgentPoolOptions = {},
+  ) {}
 
-  /** Register a callback fired whenever pool state changes. */
-  setOnChange(cb: (agents: AgentSnapshot[]) => void): void {
+  /** Register a callback fired whenever pool state (active or queued) changes. */
+  setOnChange(cb: (agents: AgentSnapshot[], queued: QueuedSnapshot[]) => void): void {
     this.onChange = cb;
   }
 
-  /** Register an agent as active. Throws if at capacity. */
+  /** Replace the per-project/role/priority limits (e.g. after a project reload) and admit anything they unblock. */
+  setLimits(limits: PoolLimits): void {
+    this.options.limits = limits;
+    this.drain();
+    this.notify();
+  }
+
+  /** Register an agent as active immediately. Throws if at capacity or a limit is reached — use acquire() to wait. */
   register(agent: ActiveAgent): void {
-    if (this.maxConcurrent > 0 && this.active.size >= this.maxConcurrent) {
-      throw new Error(`Pool at capacity (${this.maxConcurrent}). Cannot register agent ${agent.id}.`);
+    agent.priority ??= 'interactive';
+    const blockedBy = this.blockedBy(agent, agent.priority);
+    if (blockedBy) {
+      throw new Error(blockedBy.startsWith('maxConcurrent')
+        ? `Pool at capacity (${this.maxConcurrent}). Cannot register agent ${agent.id}.`
+        : `Pool limit reached (${blockedBy}). Cannot register agent ${agent.id}.`);
     }
     this.active.set(agent.id, agent);
-    this.onChange?.(this.snapshot());
+    this.notify();
+  }
+
+  /**
+   * Register an agent, waiting in the priority queue while the pool is at
+   * capacity or one of its limits is reached. Rejects if the wait times out
+   * or the agent's controller aborts (including kill()) before a slot frees up.
+   */
+  acquire(agent: ActiveAgent, opts: AcquireOptions = {}): Promise<void> {
+    const priority = opts.priority ?? 'interactive';
+    if (this.queue.length === 0 && !this.blockedBy(agent, priority)) {
+      agent.priority = priority;
+      this.register(agent);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timeoutMs = opts.timeoutMs ?? this.options.queueTimeoutMs ?? 0;
+      const signal = agent.controller.signal;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const remove = () => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) return false;
+        this.queue.splice(index, 1);
+        if (timer !== undefined) clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        return true;
+      };
+
+      const entry: QueueEntry = {
+        agent,
+        priority,
+        enqueuedAt: Date.now(),
+        seq: this.seq++,
+        admit: () => {
+          remove();
+          agent.priority = priority;
+          agent.startedAt = new Date();
+          this.active.set(agent.id, agent);
+          resolve();
+        },
+        fail: (err) => {
+          if (!remove()) return;
+          this.notify();
+          reject(err);
+        },
+      };
+
+      const onAbort = () => entry.fail(new Error(`Agent ${agent.id} cancelled while queued for a pool slot`));
+      if (signal.aborted) {
+        reject(new Error(`Agent ${agent.id} cancelled while queued for a pool slot`));
+        return;
+      }
+
+      this.queue.push(entry);
+      // Entries behind a blocked head may still fit (e.g. a different project)
+      this.drain();
+      if (this.active.has(agent.id)) {
+        this.notify();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          const position = this.positionOf(agent.id);
+          const blockedBy = this.blockedBy(agent, priority) ?? `maxConcurrent (${this.maxConcurrent})`;
+          entry.fail(new Error(
+            `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for a pool slot (queued #${position}, blocked by ${blockedBy}).`,
+          ));
+        }, timeoutMs);
+      }
+
+      opts.onQueued?.(this.positionOf(agent.id));
+      this.notify();
+    });
   }
 
-  /** Remove an agent from the pool. */
+  /** Remove an agent from the pool and admit the next queued agent, if any. */
   release(agentId: string): void {
     this.active.delete(agentId);
-    this.onChange?.(this.snapshot());
+    this.drain();
+    this.notify();
   }
 
-  /** Abort a running agent and remove from pool. */
+  /** Abort a running or queued agent and remove it from the pool. */
   kill(agentId: string): void {
     const agent = this.active.get(agentId);
     if (agent) {
       agent.controller.abort();
       this.active.delete(agentId);
-      this.onChange?.(this.snapshot());
+      this.drain();
+      this.notify();
+      return;
     }
+    // Queued — aborting the controller rejects its acquire() and dequeues it
+    this.queue.find(e => e.agent.id === agentId)?.agent.controller.abort();
   }
 
   /** List all active agents. */
@@ -59,18 +214,109 @@ export class AgentPool {
     return Array.from(this.active.values());
   }
 
+  /** List queued agents in admission order. */
+  queued(): QueuedSnapshot[] {
+    return this.ordered().map((entry, i) => ({
+      ...toSnapshot(entry.agent),
+      priority: entry.priority,
+      position: i + 1,
+      enqueuedAt: new Date(entry.enqueuedAt),
+      blockedBy: this.blockedBy(entry.agent, entry.priority),
+    }));
+  }
+
+  /** 1-based queue position of an agent, or 0 if it is not queued. */
+  positionOf(agentId: string): number {
+    return this.ordered().findIndex(e => e.agent.id === agentId) + 1;
+  }
+
   get size(): number {
     return this.active.size;
   }
 
-  private snapshot(): AgentSnapshot[] {
-    return Array.from(this.active.values()).map(({ id, role, botId, botName, taskSlug, startedAt }) => ({
-      id,
-      role,
-      ...(botId ? { botId } : {}),
-      ...(botName ? { botName } : {}),
-      taskSlug,
-      startedAt,
-    }));
+  /**
+   * The first limit that keeps this agent out of the pool right now, or
+   * undefined if it can be admitted. Checked broadest first.
+   */
+  private blockedBy(agent: ActiveAgent, priority: PoolPriority): string | undefined {
+    if (this.maxConcurrent > 0 && this.active.size >= this.maxConcurrent) {
+      return `maxConcurrent (${this.maxConcurrent})`;
+    }
+
+    const limits = this.options.limits ?? {};
+    const running = [...this.active.values()];
+    const project = agent.project?.toLowerCase();
+    const projectLimit = project !== undefined ? limits.projects?.[project] : undefined;
+    if (projectLimit !== undefined && running.filter(a => a.project?.toLowerCase() === project).length >= projectLimit) {
+      return `project ${agent.project} (${projectLimit})`;
+    }
+    const roleLimit = limits.roles?.[agent.role];
+    if (roleLimit !== undefined && running.filter(a => a.role === agent.role).length >= roleLimit) {
+      return `role ${agent.role} (${roleLimit})`;
+    }
+    const priorityLimit = limits.priorities?.[priority];
+    if (priorityLimit !== undefined && running.filter(a => a.priority === priority).length >= priorityLimit) {
+      return `${priority} (${priorityLimit})`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Admission order: priority rank, aged by time waited so low-priority work
+   * is not starved by a steady stream of interactive requests; FIFO within a rank.
+   */
+  private ordered(): QueueEntry[] {
+    const agingMs = this.options.agingMs ?? 0;
+    const now = Date.now();
+    const rank = (e: QueueEntry) => PRIORITY_RANK[e.priority]
+      - (agingMs > 0 ? Math.floor((now - e.enqueuedAt) / agingMs) : 0);
+    return [...this.queue].sort((a, b) => rank(a) - rank(b) || a.seq - b.seq);
+  }
+
+  /** Admit queued agents in order, skipping any held back by a per-project/role/priority limit. */
+  private drain(): void {
+    for (;;) {
+      const next = this.ordered().find(e => !this.blockedBy(e.agent, e.priority));
+      if (!next) return;
+      next.admit();
+    }
+  }
+
+  private notify(): void {
+    this.onChange?.(Array.from(this.active.values()).map(toSnapshot), this.queued());
+  }
+}
+
+function toSnapshot({ id, role, project, priority, botId, botName, taskSlug, startedAt }: ActiveAgent): AgentSnapshot {
+  return {
+    id,
+    role,
+    ...(project ? { project } : {}),
+    ...(priority ? { priority } : {}),
+    ...(botId ? { botId } : {}),
+    ...(botName ? { botName } : {}),
+    taskSlug,
+    startedAt,
+  };
+}
+
+/**
+ * Merge `[pool]` limits from config.toml with each project's `maxConcurrent`
+ * from project.toml. Where both cap a project, the lower value wins.
+ */
+export function resolvePoolLimits(pool: Config['pool'], projects: Iterable<Project>): PoolLimits {
+  const projectLimits: Record<string, number> = {};
+  for (const [name, limit] of Object.entries(pool.projectLimits ?? {})) {
+    projectLimits[name.toLowerCase()] = limit;
+  }
+  for (const project of projects) {
+    if (project.maxConcurrent === undefined) continue;
+    const key = project.name.toLowerCase();
+    projectLimits[key] = Math.min(projectLimits[key] ?? Infinity, project.maxConcurrent);
   }
+  return {
+    projects: projectLimits,
+    roles: { ...pool.roleLimits },
+    priorities: { ...pool.priorityLimits },
+  };
 }
@@ -4,7 +4,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { stringify as stringifyToml } from 'smol-toml';
-import { loadProjects, createProject, projectHasPaths, isVirtualProject, ensureVirtualProject } from './project.js';
+import { loadProjects, createProject, projectHasPaths, isVirtualProject, ensureVirtualProject, resolveProjectPath } from './project.js';
 import type { RoleDefinition } from './types.js';
 
 let tmpDir: string;
@@ -228,3 +228,119 @@ test('loadProjects loads virtual project with virtual=true', () => {
   assert.strictEqual(lobby.virtual, true);
   assert.strictEqual(lobby.name, 'lobby');
 });
+
+test('loadProjects parses isolation and worktreeCleanup', () => {
+  const projectDir = path.join(tmpDir, 'iso');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml({
+    name: 'Iso',
+    description: 'Isolated project',
+    paths: ['/repo'],
+    roles: ['api-dev'],
+    isolation: 'worktree',
+    worktreeCleanup: 'keep',
+  }));
+
+  const project = loadProjects(tmpDir, makeRoles('api-dev')).get('iso')!;
+  assert.strictEqual(project.isolation, 'worktree');
+  assert.strictEqual(project.worktreeCleanup, 'keep');
+});
+
+test('loadProjects rejects unknown isolation mode', () => {
+  const projectDir = path.join(tmpDir, 'bad-iso');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml({
+    name: 'BadIso',
+    description: 'Bad isolation',
+    paths: [],
+    roles: ['api-dev'],
+    isolation: 'container',
+  }));
+
+  assert.throws(() => loadProjects(tmpDir, makeRoles('api-dev')), /isolation/);
+});
+
+test('loadProjects parses requireApproval rules', () => {
+  const projectDir = path.join(tmpDir, 'gated');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml({
+    name: 'Gated',
+    description: 'Approval-gated project',
+    paths: [],
+    roles: ['api-dev'],
+    requireApproval: ['Bash(npm publish*)'],
+  }));
+
+  const project = loadProjects(tmpDir, makeRoles('api-dev')).get('gated')!;
+  assert.deepStrictEqual(project.requireApproval, ['Bash(npm publish*)']);
+});
+
+test('loadProjects rejects a non-positive maxConcurrent', () => {
+  const projectDir = path.join(tmpDir, 'capped');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml({
+    name: 'Capped',
+    description: 'Concurrency-capped project',
+    paths: [],
+    roles: ['api-dev'],
+    maxConcurrent: 0,
+  }));
+
+  assert.throws(() => loadProjects(tmpDir, makeRoles('api-dev')), /maxConcurrent/);
+});
+
+test('loadProjects reads a review policy and rejects reviewers outside the project roles', () => {
+  const projectDir = path.join(tmpDir, 'reviewed');
+  fs.mkdirSync(projectDir, { recursive: true });
+  const manifest = {
+    name: 'Reviewed',
+    description: 'Project with a review loop',
+    paths: [],
+    roles: ['api-dev', 'reviewer'],
+    review: { roles: ['api-dev'], reviewer: 'reviewer' },
+  };
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml(manifest));
+
+  const review = loadProjects(tmpDir, makeRoles('api-dev', 'reviewer')).get('reviewed')!.review;
+  assert.deepStrictEqual(review, { roles: ['api-dev'], reviewer: 'reviewer', maxIterations: 3 });
+
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml({ ...manifest, roles: ['api-dev'] }));
+  assert.throws(() => loadProjects(tmpDir, makeRoles('api-dev', 'reviewer')), /review role "reviewer" is not in the project's roles/);
+});
+
+test('loadProjects reads verify commands with defaults and rejects an empty list', () => {
+  const projectDir = path.join(tmpDir, 'verified');
+  fs.mkdirSync(projectDir, { recursive: true });
+  const manifest = {
+    name: 'Verified',
+    description: 'Project with verify commands',
+    paths: [],
+    roles: ['api-dev'],
+    verify: { commands: ['npm run typecheck', 'npm test'] },
+  };
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml(manifest));
+
+  const verify = loadProjects(tmpDir, makeRoles('api-dev')).get('verified')!.verify;
+  assert.deepStrictEqual(verify, { commands: ['npm run typecheck', 'npm test'], timeoutSeconds: 600, fixAttempts: 0 });
+
+  fs.writeFileSync(path.join(projectDir, 'project.toml'), stringifyToml({ ...manifest, verify: { commands: [] } }));
+  assert.throws(() => loadProjects(tmpDir, makeRoles('api-dev')), /verify\.commands/);
+});
+
+test('resolveProjectPath defaults to the first path', () => {
+  const project = { name: 'Multi', description: 'd', paths: ['/repos/api', '/repos/web'], roles: ['api-dev'], virtual: false };
+  assert.strictEqual(resolveProjectPath(project), path.resolve('/repos/api'));
+});
+
+test('resolveProjectPath selects by basename (case-insensitive) or path', () => {
+  const project = { name: 'Multi', description: 'd', paths: ['/repos/api', '/repos/Web'], roles: ['api-dev'], virtual: false };
+  assert.strictEqual(resolveProjectPath(project, 'web'), path.resolve('/repos/Web'));
+  assert.strictEqual(resolveProjectPath(project, '/repos/api'), path.resolve('/repos/api'));
+});
+
+test('resolveProjectPath throws for unknown or ambiguous repo', () => {
+  const project = { name: 'Multi', description: 'd', paths: ['/a/app', '/b/app', '/repos/web'], roles: ['api-dev'], virtual: false };
+  assert.throws(() => resolveProjectPath(project, 'mobile'), /Repo "mobile" not found in project "Multi". Available: app, app, web/);
+  assert.throws(() => resolveProjectPath(project, 'app'), /ambiguous/);
+  assert.throws(() => resolveProjectPath({ ...project, paths: [] }), /no paths configured/);
+});
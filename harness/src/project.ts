@@ -2,6 +2,10 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
 import { z } from 'zod';
+import { ApprovalRuleSchema } from './approvals.js';
+import { BashPolicySchema } from './bash-policy.js';
+import { ReviewPolicySchema } from './review.js';
+import { VerifyPolicySchema } from './verify.js';
 import type { RoleDefinition } from './types.js';
 
 // ── Schema ──────────────────────────────────────────────────────
@@ -12,6 +16,16 @@ export const ProjectManifestSchema = z.object({
   paths: z.array(z.string()),
   roles: z.array(z.string()).min(1),
   virtual: z.boolean().default(false),
+  isolation: z.enum(['none', 'worktree']).optional(),                        // default: none
+  worktreeCleanup: z.enum(['keep', 'remove', 'remove-on-success']).optional(), // default: remove-on-success
+  requireApproval: z.array(ApprovalRuleSchema).optional(),                   // tool rules held for human approval
+  allowedTools: z.array(ApprovalRuleSchema).optional(),                      // tools agents may use here; unset = all
+  disallowedTools: z.array(ApprovalRuleSchema).optional(),                   // tools removed for every role here
+  bashPolicy: BashPolicySchema.optional(),                                   // Bash commands agents may run here
+  writableDirs: z.array(z.string().min(1)).optional(),                       // extra dirs outside paths agents may write to
+  maxConcurrent: z.number().int().positive().optional(),                     // max agents on this project at once
+  review: ReviewPolicySchema.optional(),                                     // reviewer loop after implementation dispatches
+  verify: VerifyPolicySchema.optional(),                                     // check commands run after successful dispatches
 });
 
 export type Project = z.infer<typeof ProjectManifestSchema>;
@@ -80,6 +94,15 @@ export function loadProjects(
       }
     }
 
+    // Validate: review roles are available on the project
+    if (project.review) {
+      for (const roleName of [...project.review.roles, project.review.reviewer]) {
+        if (!project.roles.includes(roleName)) {
+          throw new Error(`${manifestPath}: review role "${roleName}" is not in the project's roles`);
+        }
+      }
+    }
+
     projects.set(project.name.toLowerCase(), project);
   }
 
@@ -96,6 +119,32 @@ export function isVirtualProject(project: Project): boolean {
   return project.virtual === true;
 }
 
+/**
+ * Resolve a repo selector to one of the project's paths.
+ * The selector may be a path (absolute or relative to the process cwd) or a
+ * directory basename (case-insensitive). No selector → the first path.
+ */
+export function resolveProjectPath(project: Project, repo?: string): string {
+  if (!repo) {
+    const first = project.paths[0];
+    if (!first) throw new Error(`Project "${project.name}" has no paths configured`);
+    return path.resolve(first);
+  }
+
+  const wanted = path.resolve(repo);
+  const byPath = project.paths.find(p => path.resolve(p) === wanted);
+  if (byPath) return path.resolve(byPath);
+
+  const byName = project.paths.filter(p => path.basename(p).toLowerCase() === repo.toLowerCase());
+  if (byName.length === 1) return path.resolve(byName[0]!);
+
+  const available = project.paths.map(p => path.basename(p)).join(', ');
+  if (byName.length > 1) {
+    throw new Error(`Repo "${repo}" is ambiguous in project "${project.name}" — use a full path. Available: ${available}`);
+  }
+  throw new Error(`Repo "${repo}" not found in project "${project.name}". Available: ${available || '(none)'}`);
+}
+
 /**
  * Ensure a virtual project exists on disk. Creates it if missing, returns the existing one if present.
  * Virtual projects use the instance root as their sole path and accept all provided role names.
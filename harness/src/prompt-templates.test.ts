@@ -0,0 +1,67 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  buildTemplateVars,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  assertValidPromptTemplate,
+} from './prompt-templates.js';
+
+let promptsDir: string;
+
+before(() => {
+  promptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-'));
+  fs.mkdirSync(path.join(promptsDir, 'partials'));
+  fs.writeFileSync(path.join(promptsDir, 'partials', 'style.md'), 'Keep answers short for {{project.name}}.\n');
+  fs.writeFileSync(path.join(promptsDir, 'partials', 'outer.md'), 'Outer: {{> partials/style}}');
+  fs.writeFileSync(path.join(promptsDir, 'loop-a.md'), '{{> loop-b}}');
+  fs.writeFileSync(path.join(promptsDir, 'loop-b.md'), '{{> loop-a}}');
+});
+
+after(() => {
+  fs.rmSync(promptsDir, { recursive: true, force: true });
+});
+
+const vars = buildTemplateVars({
+  project: { name: 'Acme', description: 'Billing API', paths: ['/src/api', '/src/web'] },
+  task: { slug: 'fix-invoices' },
+  role: { name: 'api-dev', permissions: ['agent-draft', 'projects-list'] },
+  now: new Date('2026-03-10T08:00:00Z'),
+});
+
+describe('renderPromptTemplate', () => {
+  test('substitutes variables, joining lists', () => {
+    const text = 'On {{ project.name }} ({{project.paths}}), task {{task.slug}} as {{role.displayName}} with {{role.permissions}} on {{date}}.';
+    assert.equal(
+      renderPromptTemplate(text, vars, promptsDir),
+      'On Acme (/src/api, /src/web), task fix-invoices as api-dev with agent-draft, projects-list on 2026-03-10.',
+    );
+  });
+
+  test('renders nested includes and leaves missing values empty', () => {
+    assert.equal(renderPromptTemplate('{{> partials/outer}}', vars, promptsDir), 'Outer: Keep answers short for Acme.');
+    assert.equal(renderPromptTemplate('Bot: [{{bot.displayName}}]', vars, promptsDir), 'Bot: []');
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  test('accepts known variables and existing includes', () => {
+    assert.deepEqual(validatePromptTemplate('{{project.name}} {{> partials/outer}}', promptsDir), []);
+  });
+
+  test('reports unknown variables, missing, escaping and circular includes', () => {
+    const errors = validatePromptTemplate('{{project.owner}} {{> nope}} {{> ../etc/passwd}} {{> loop-a}}', promptsDir);
+    assert.equal(errors.length, 4);
+    assert.match(errors[0]!, /unknown variable \{\{project\.owner\}\}/);
+    assert.match(errors[1]!, /include "nope" not found/);
+    assert.match(errors[2]!, /outside the prompts directory/);
+    assert.match(errors[3]!, /circular/);
+  });
+
+  test('assertValidPromptTemplate names the file', () => {
+    assert.throws(() => assertValidPromptTemplate('{{taks.slug}}', 'api-dev.md', promptsDir), /api-dev\.md: invalid prompt template/);
+  });
+});
@@ -0,0 +1,145 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { logger } from './logger.js';
+import { getInstancePath } from './paths.js';
+
+/**
+ * Prompt templating for the system prompt, role bodies and bot soul prompts.
+ *
+ *   {{project.name}}          variable — see TEMPLATE_VARIABLES
+ *   {{> partials/style}}      include prompts/partials/style.md
+ *
+ * Unknown variables and missing includes are load-time errors (roles, bots,
+ * prompts/system.md) and reported by `entity validate`. A known variable with
+ * no value in the current context (e.g. bot.name in a bot-less dispatch)
+ * renders empty.
+ */
+export const TEMPLATE_VARIABLES = [
+  'project.name',
+  'project.description',
+  'project.paths',
+  'task.slug',
+  'bot.name',
+  'bot.displayName',
+  'role.name',
+  'role.displayName',
+  'role.permissions',
+  'date',
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+export type TemplateVars = Partial<Record<TemplateVariable, string>>;
+
+const KNOWN_VARIABLES = new Set<string>(TEMPLATE_VARIABLES);
+const TAG_RE = /\{\{\s*(>)?\s*([^{}]*?)\s*\}\}/g;
+const MAX_INCLUDE_DEPTH = 8;
+
+/** Build template values from whatever entities the prompt is assembled for. */
+export function buildTemplateVars(ctx: {
+  project?: { name: string; description?: string; paths?: string[] };
+  task?: { slug: string };
+  bot?: { name: string; displayName?: string };
+  role?: { name: string; displayName?: string; permissions?: string[] };
+  now?: Date;
+}): TemplateVars {
+  const { project, task, bot, role } = ctx;
+  return {
+    ...(project ? {
+      'project.name': project.name,
+      'project.description': project.description ?? '',
+      'project.paths': (project.paths ?? []).join(', '),
+    } : {}),
+    ...(task ? { 'task.slug': task.slug } : {}),
+    ...(bot ? { 'bot.name': bot.name, 'bot.displayName': bot.displayName ?? bot.name } : {}),
+    ...(role ? {
+      'role.name': role.name,
+      'role.displayName': role.displayName ?? role.name,
+      'role.permissions': (role.permissions ?? []).join(', '),
+    } : {}),
+    date: (ctx.now ?? new Date()).toISOString().slice(0, 10),
+  };
+}
+
+// ── Includes ────────────────────────────────────────────────────
+
+/** Resolve an include to a file under the prompts directory (`.md` is implied). */
+function resolveInclude(target: string, promptsDir: string): { file?: string; error?: string } {
+  const withExt = path.extname(target) ? target : `${target}.md`;
+  const file = path.resolve(promptsDir, withExt);
+  const rel = path.relative(path.resolve(promptsDir), file);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) {
+    return { error: `include "${target}" is outside the prompts directory` };
+  }
+  if (!existsSync(file)) {
+    return { error: `include "${target}" not found (${file})` };
+  }
+  return { file };
+}
+
+// ── Validation ──────────────────────────────────────────────────
+
+/**
+ * Check a template's variables and includes (recursively). Returns one
+ * message per problem; empty when the template is valid.
+ */
+export function validatePromptTemplate(text: string, promptsDir?: string): string[] {
+  const errors: string[] = [];
+
+  const check = (source: string, stack: string[]): void => {
+    for (const match of source.matchAll(TAG_RE)) {
+      const [, include, name = ''] = match;
+      if (!include) {
+        if (!KNOWN_VARIABLES.has(name)) {
+          errors.push(`unknown variable {{${name}}} (known: ${TEMPLATE_VARIABLES.join(', ')})`);
+        }
+        continue;
+      }
+
+      const resolved = resolveInclude(name, promptsDir ?? getInstancePath('prompts'));
+      if (!resolved.file) {
+        errors.push(resolved.error!);
+      } else if (stack.includes(resolved.file)) {
+        errors.push(`include "${name}" is circular`);
+      } else if (stack.length >= MAX_INCLUDE_DEPTH) {
+        errors.push(`include "${name}" nests deeper than ${MAX_INCLUDE_DEPTH} levels`);
+      } else {
+        check(readFileSync(resolved.file, 'utf8'), [...stack, resolved.file]);
+      }
+    }
+  };
+
+  check(text, []);
+  return errors;
+}
+
+/** Throw with every template problem in a prompt file, formatted like frontmatter errors. */
+export function assertValidPromptTemplate(text: string, filename: string, promptsDir?: string): void {
+  const errors = validatePromptTemplate(text, promptsDir);
+  if (errors.length > 0) {
+    throw new Error(`${filename}: invalid prompt template:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+}
+
+// ── Rendering ───────────────────────────────────────────────────
+
+/**
+ * Render includes and variables. Templates are validated when loaded; an
+ * include that has since gone missing renders empty with a warning rather
+ * than failing the dispatch.
+ */
+export function renderPromptTemplate(text: string, vars: TemplateVars, promptsDir?: string): string {
+  const render = (source: string, depth: number): string =>
+    source.replace(TAG_RE, (tag, include: string | undefined, name: string) => {
+      if (!include) {
+        return KNOWN_VARIABLES.has(name) ? vars[name as TemplateVariable] ?? '' : tag;
+      }
+      const resolved = resolveInclude(name, promptsDir ?? getInstancePath('prompts'));
+      if (!resolved.file || depth >= MAX_INCLUDE_DEPTH) {
+        logger.warn({ include: name, error: resolved.error }, 'prompt include skipped');
+        return '';
+      }
+      return render(readFileSync(resolved.file, 'utf8').trimEnd(), depth + 1);
+    });
+
+  return render(text, 0);
+}
@@ -1,5 +1,6 @@
 import { readFileSync } from 'node:fs';
 import { getInstancePath } from './paths.js';
+import { assertValidPromptTemplate, buildTemplateVars, renderPromptTemplate, type TemplateVars } from './prompt-templates.js';
 import type { VirtualProjectSkill } from './comms.js';
 import type { BotDefinition, RoleDefinition } from './types.js';
 
@@ -7,22 +8,46 @@ let _systemPrompt: string | undefined;
 
 /**
  * Load and cache the harness system prompt (prompts/system.md).
- * Common rules injected into every agent dispatch.
+ * Common rules injected into every agent dispatch. Its template variables
+ * and includes are validated on first load.
  */
 export function loadSystemPrompt(): string {
   if (_systemPrompt === undefined) {
     const promptPath = getInstancePath('prompts', 'system.md');
-    _systemPrompt = readFileSync(promptPath, 'utf8');
+    const text = readFileSync(promptPath, 'utf8');
+    assertValidPromptTemplate(text, 'prompts/system.md');
+    _systemPrompt = text;
   }
   return _systemPrompt;
 }
 
+/** One named part of an assembled system prompt — shown per layer by dispatch previews. */
+export type PromptLayer = {
+  name: string;     // 'system' | 'role' | 'skill:<name>' | 'identity' | 'personality'
+  text: string;
+};
+
+/** Join prompt layers into the text sent to the agent. */
+export function joinPromptLayers(layers: PromptLayer[]): string {
+  return layers.map(l => l.text).join('\n\n');
+}
+
+/**
+ * Layers of the prompt for an agent: system prompt + role prompt, with
+ * template variables and includes rendered.
+ */
+export function promptLayers(rolePrompt: string, _permissions?: string[], vars: TemplateVars = buildTemplateVars({})): PromptLayer[] {
+  return [
+    { name: 'system', text: renderPromptTemplate(loadSystemPrompt(), vars) },
+    { name: 'role', text: renderPromptTemplate(rolePrompt, vars) },
+  ];
+}
+
 /**
  * Assemble the full prompt for an agent: system prompt + role prompt.
  */
-export function assemblePrompt(rolePrompt: string, _permissions?: string[]): string {
-  const parts = [loadSystemPrompt(), rolePrompt];
-  return parts.join('\n\n');
+export function assemblePrompt(rolePrompt: string, permissions?: string[], vars?: TemplateVars): string {
+  return joinPromptLayers(promptLayers(rolePrompt, permissions, vars));
 }
 
 /** Metadata for assembleBotPrompt — accepts full entity objects for future-proofing. */
@@ -31,10 +56,11 @@ export type BotPromptContext = {
   role: RoleDefinition;
   project: string;
   projectSkills?: VirtualProjectSkill[];
+  vars?: TemplateVars;   // extra template values (project paths, task) — bot, role and project name are filled in
 };
 
 /**
- * Assemble the full prompt for a bot session.
+ * Layers of the prompt for a bot session.
  *
  * Structure:
  *   <system prompt>
@@ -43,24 +69,36 @@ export type BotPromptContext = {
  *   ## Identity — derived from frontmatter metadata
  *   ## Personality — soul prompt body
  */
-export function assembleBotPrompt(ctx: BotPromptContext): string {
+export function botPromptLayers(ctx: BotPromptContext): PromptLayer[] {
   const { bot, role, project, projectSkills } = ctx;
-  const parts = [loadSystemPrompt(), role.prompt];
+  const vars = { ...buildTemplateVars({ bot, role, project: { name: project } }), ...ctx.vars };
+  const layers: PromptLayer[] = [
+    { name: 'system', text: renderPromptTemplate(loadSystemPrompt(), vars) },
+    { name: 'role', text: renderPromptTemplate(role.prompt, vars) },
+  ];
 
   if (projectSkills && projectSkills.length > 0) {
     for (const skill of projectSkills) {
-      parts.push(`## Skill: ${skill.name}\n\n${skill.content}`);
+      layers.push({ name: `skill:${skill.name}`, text: `## Skill: ${skill.name}\n\n${skill.content}` });
     }
   }
 
   const botDisplayName = bot.displayName ?? bot.name;
   const roleDisplayName = role.displayName ?? role.name;
 
-  parts.push(
-    `## Identity\n\nYou are **${botDisplayName}** (${roleDisplayName}).\nYou are currently working on project **${project}**.`,
-  );
+  layers.push({
+    name: 'identity',
+    text: `## Identity\n\nYou are **${botDisplayName}** (${roleDisplayName}).\nYou are currently working on project **${project}**.`,
+  });
 
-  parts.push(`## Personality\n\n${bot.soulPrompt}`);
+  layers.push({ name: 'personality', text: `## Personality\n\n${renderPromptTemplate(bot.soulPrompt, vars)}` });
+
+  return layers;
+}
 
-  return parts.join('\n\n');
+/**
+ * Assemble the full prompt for a bot session (see botPromptLayers).
+ */
+export function assembleBotPrompt(ctx: BotPromptContext): string {
+  return joinPromptLayers(botPromptLayers(ctx));
 }
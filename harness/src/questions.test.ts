@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createTask, getOpenTasks } from './task.js';
+import { markAwaitingAnswers, getPendingQuestions, clearAwaitingAnswers, buildAnswerPrompt } from './questions.js';
+
+test('awaiting_answers round-trip keeps the task open', () => {
+  const tasksDir = fs.mkdtempSync(path.join(os.tmpdir(), 'questions-test-'));
+  const task = createTask(tasksDir, { name: 'clarify', project: 'Acme' });
+
+  assert.equal(getPendingQuestions(task.taskDir), undefined);
+
+  const pending = { dispatchId: 'd1', role: 'api-dev', questions: ['Which DB?'], askedAt: '2026-02-19T10:00:00.000Z', sessionId: 's1' };
+  markAwaitingAnswers(task.taskDir, pending);
+  assert.deepEqual(getPendingQuestions(task.taskDir), pending);
+  assert.equal(getOpenTasks(tasksDir).length, 1);
+
+  clearAwaitingAnswers(task.taskDir);
+  assert.equal(getPendingQuestions(task.taskDir), undefined);
+  const manifest = JSON.parse(fs.readFileSync(path.join(task.taskDir, 'task.json'), 'utf-8'));
+  assert.equal(manifest.status, 'open');
+
+  fs.rmSync(tasksDir, { recursive: true, force: true });
+});
+
+test('buildAnswerPrompt pairs answers by position or passes free text through', () => {
+  const paired = buildAnswerPrompt(['Which DB?', 'Which port?'], ['Postgres']);
+  assert.match(paired, /1\. Which DB\?\n {3}Answer: Postgres/);
+  assert.match(paired, /2\. Which port\?\n {3}Answer: \(no answer\)/);
+
+  const free = buildAnswerPrompt(['Which DB?'], '  Postgres on 5432  ');
+  assert.match(free, /1\. Which DB\?\n\nPostgres on 5432\n/);
+});
@@ -0,0 +1,72 @@
+import { readTaskManifest, updateTaskManifest, type PendingQuestions } from './task.js';
+
+// ── Task state ──────────────────────────────────────────────────
+
+/**
+ * Park a task on the questions its last dispatch asked. The next message
+ * for the task is treated as the answers.
+ */
+export function markAwaitingAnswers(taskDir: string, pending: PendingQuestions): void {
+  updateTaskManifest(taskDir, (manifest) => {
+    manifest.status = 'awaiting_answers';
+    manifest.pendingQuestions = pending;
+  });
+}
+
+/**
+ * Return the task's unanswered questions, or undefined when it is not awaiting answers.
+ */
+export function getPendingQuestions(taskDir: string): PendingQuestions | undefined {
+  try {
+    const manifest = readTaskManifest(taskDir);
+    return manifest.status === 'awaiting_answers' ? manifest.pendingQuestions : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reopen a task once its questions have been answered.
+ */
+export function clearAwaitingAnswers(taskDir: string): void {
+  updateTaskManifest(taskDir, (manifest) => {
+    if (manifest.status !== 'awaiting_answers') return;
+    manifest.status = 'open';
+    delete manifest.pendingQuestions;
+  });
+}
+
+// ── Formatting ──────────────────────────────────────────────────
+
+/** Numbered question list posted to adapters, with a hint on how to answer. */
+export function formatQuestions(questions: readonly string[]): string {
+  const lines = ['*Agent has questions:*'];
+  questions.forEach((q, i) => lines.push(`${i + 1}. ${q}`));
+  lines.push('');
+  lines.push('_Reply to this task to answer — the agent resumes with your answers._');
+  return lines.join('\n');
+}
+
+/**
+ * Build the follow-up prompt from the agent's questions and the human's
+ * answers. A list is paired with the questions by position; free text is
+ * passed through whole.
+ */
+export function buildAnswerPrompt(questions: readonly string[], answers: string | readonly string[]): string {
+  const lines = ['You asked the following questions. Here are the answers:', ''];
+
+  if (typeof answers === 'string') {
+    questions.forEach((q, i) => lines.push(`${i + 1}. ${q}`));
+    lines.push('');
+    lines.push(answers.trim());
+  } else {
+    questions.forEach((q, i) => {
+      lines.push(`${i + 1}. ${q}`);
+      lines.push(`   Answer: ${answers[i]?.trim() || '(no answer)'}`);
+    });
+  }
+
+  lines.push('');
+  lines.push('Continue the task with these answers.');
+  return lines.join('\n');
+}
@@ -0,0 +1,261 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { ScriptedEngine, setAgentEngine, getAgentEngine, type ScriptStep } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getProjectTasksDir } from './project.js';
+import { replayDispatch } from './replay.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+const SESSION_ID = 'recorded-session';
+
+function init(): SDKMessage {
+  return { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-recorded' } as unknown as SDKMessage;
+}
+
+function toolUse(id: string, name: string, input: Record<string, unknown>): SDKMessage {
+  return {
+    type: 'assistant',
+    session_id: SESSION_ID,
+    parent_tool_use_id: null,
+    message: {
+      id: `msg-${id}`,
+      role: 'assistant',
+      content: [{ type: 'tool_use', id, name, input }],
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  } as unknown as SDKMessage;
+}
+
+function toolResult(toolUseId: string, isError: boolean, content: string): SDKMessage {
+  return {
+    type: 'user',
+    session_id: SESSION_ID,
+    parent_tool_use_id: null,
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: toolUseId, is_error: isError, content }] },
+  } as unknown as SDKMessage;
+}
+
+function success(): SDKMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    session_id: SESSION_ID,
+    result: 'done',
+    is_error: false,
+    num_turns: 1,
+    duration_ms: 5,
+    duration_api_ms: 5,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  } as unknown as SDKMessage;
+}
+
+describe('replayDispatch', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-repo-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDir, stdio: ['ignore', 'pipe', 'pipe'] });
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    fs.writeFileSync(path.join(repoDir, 'README.md'), '# repo\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(record: boolean, models: Partial<Config['models']> = {}): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('researcher', {
+      id: '01TESTROLE00000000000000000',
+      version: '1.0.0',
+      name: 'researcher',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You are a researcher.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', { name: 'demo', description: 'Replay project', paths: [repoDir], roles: ['researcher'] });
+
+    return {
+      config: {
+        models: { default: 'claude-sonnet-4-6', aliases: {}, ...models },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'claude-sdk', record },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  async function recordRun(steps: ScriptStep[], record = true) {
+    setAgentEngine(new ScriptedEngine(steps));
+    const result = await collabDispatch({ project: 'demo', role: 'researcher', prompt: 'Run the tests.' }, makeCtx(record));
+    const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+    return { result, taskDir };
+  }
+
+  test('records the raw SDK stream when engine.record is on', async () => {
+    const steps = [init(), toolUse('tu-1', 'Read', { file_path: '/repo/a.ts' }), toolResult('tu-1', false, 'x'.repeat(5000)), success()];
+    const { result, taskDir } = await recordRun(steps);
+
+    const recording = getDispatchStore().getStreamRecording(taskDir, result.dispatchId);
+    assert.ok(recording);
+    assert.equal(recording.length, steps.length);
+    // Raw — not trimmed like captured events
+    assert.deepEqual(recording[2], steps[2]);
+    assert.ok(fs.existsSync(path.join(taskDir, 'dispatches', `${result.dispatchId}.stream.jsonl`)));
+  });
+
+  test('does not record by default', async () => {
+    const { result, taskDir } = await recordRun([init(), success()], false);
+    assert.equal(getDispatchStore().getStreamRecording(taskDir, result.dispatchId), null);
+  });
+
+  test('reproduces a loop kill', async () => {
+    const steps: ScriptStep[] = [init()];
+    for (let i = 0; i < 6; i++) {
+      steps.push(toolUse(`tu-${i}`, 'Bash', { command: 'npm test' }));
+      steps.push(toolResult(`tu-${i}`, false, 'ok'));
+    }
+    steps.push(success());
+    const { result, taskDir } = await recordRun(steps);
+    assert.equal(result.status, 'aborted');
+
+    const engineBefore = getAgentEngine();
+    const replay = await replayDispatch(makeCtx(true), 'demo', taskDir, result.dispatchId);
+
+    assert.equal(replay.original.status, 'aborted');
+    assert.equal(replay.result.status, 'aborted');
+    const killed = replay.events.find(e => e.type === 'harness:loop_kill');
+    const originalKill = replay.originalEvents.find(e => e.type === 'harness:loop_kill');
+    assert.ok(killed);
+    assert.deepEqual(killed.data, originalKill?.data);
+    assert.equal(getAgentEngine(), engineBefore, 'restores the previous engine');
+  });
+
+  test('reproduces a non-retryable abort and leaves the original task untouched', async () => {
+    const steps: ScriptStep[] = [
+      init(),
+      toolUse('tu-1', 'Bash', { command: 'npm run build' }),
+      toolResult('tu-1', true, 'Error: Cannot find module "typescript"'),
+      toolUse('tu-2', 'Bash', { command: 'npm run build' }),
+      toolResult('tu-2', true, 'Error: Cannot find module "typescript"'),
+      success(),
+    ];
+    const { result, taskDir } = await recordRun(steps);
+    const dispatchesBefore = getDispatchStore().getDispatchEnvelopes(taskDir).length;
+
+    const replay = await replayDispatch(makeCtx(false), 'demo', taskDir, result.dispatchId);
+
+    assert.equal(replay.result.status, 'aborted');
+    assert.ok(replay.events.some(e => e.type === 'harness:error' && /Non-retryable/.test(String(e.data?.message))));
+    assert.equal(getDispatchStore().getDispatchEnvelopes(taskDir).length, dispatchesBefore);
+  });
+
+  test('replays once, without model fallback or git capture', async () => {
+    const rateLimited = {
+      type: 'assistant',
+      session_id: SESSION_ID,
+      parent_tool_use_id: null,
+      error: 'rate_limit',
+      message: { id: 'msg-rl', role: 'assistant', content: [], usage: { input_tokens: 10, output_tokens: 0 } },
+    } as unknown as SDKMessage;
+    const { result, taskDir } = await recordRun([init(), rateLimited, success()]);
+    assert.equal(result.status, 'completed');
+
+    const replay = await replayDispatch(
+      makeCtx(true, { fallbacks: { 'claude-sonnet-4-6': ['claude-haiku-4-5'] } }),
+      'demo', taskDir, result.dispatchId,
+    );
+
+    assert.equal(replay.result.status, 'completed');
+    assert.equal(replay.result.attempts, undefined);
+    assert.ok(!replay.events.some(e => e.type === 'harness:model_fallback'));
+    assert.ok(result.git, 'the original dispatch captured git state');
+    assert.equal(replay.result.git, undefined);
+  });
+
+  test('leaves the cost ledger alone and ignores spent caps', async () => {
+    const { result, taskDir } = await recordRun([init(), success()]);
+    const ledgerPath = path.join(homeDir, 'costs', 'ledger.jsonl');
+    const ledgerBefore = fs.readFileSync(ledgerPath, 'utf-8');
+
+    // The recorded run alone has spent this instance cap
+    const ctx = makeCtx(true);
+    ctx.config = { ...ctx.config, costs: { warnPercent: 80, instance: { daily: 0.005 } } } as Config;
+    const replay = await replayDispatch(ctx, 'demo', taskDir, result.dispatchId);
+
+    assert.equal(replay.result.status, 'completed');
+    assert.ok(!replay.events.some(e => e.type === 'harness:cost_warning'));
+    assert.equal(fs.readFileSync(ledgerPath, 'utf-8'), ledgerBefore);
+  });
+
+  test('does not hold recorded tool calls for approval', async () => {
+    const { result, taskDir } = await recordRun([init(), toolUse('tu-1', 'Bash', { command: 'git push' }), toolResult('tu-1', false, 'ok'), success()]);
+
+    const ctx = makeCtx(true);
+    ctx.config = { ...ctx.config, approvals: { timeoutSeconds: 30, onTimeout: 'deny' } } as Config;
+    ctx.projects.get('demo')!.requireApproval = ['Bash(git push*)'];
+    const startedAt = Date.now();
+    const replay = await replayDispatch(ctx, 'demo', taskDir, result.dispatchId);
+
+    assert.equal(replay.result.status, 'completed');
+    assert.ok(Date.now() - startedAt < 10_000);
+    assert.ok(!replay.events.some(e => e.type === 'harness:approval_request' || e.type === 'harness:approval_decision'));
+  });
+
+  test('rejects dispatches without a recording', async () => {
+    const { result, taskDir } = await recordRun([init(), success()], false);
+    await assert.rejects(
+      replayDispatch(makeCtx(false), 'demo', taskDir, result.dispatchId),
+      /no stream recording/,
+    );
+    await assert.rejects(
+      replayDispatch(makeCtx(false), 'demo', taskDir, '01NOSUCHDISPATCH'),
+      /not found/,
+    );
+  });
+});
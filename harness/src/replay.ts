@@ -0,0 +1,72 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { collabDispatch } from './collab-dispatch.js';
+import type { CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getAgentEngine, setAgentEngine, ScriptedEngine } from './agent-engine.js';
+import type { CapturedEvent, CollabDispatchResult, DispatchEnvelope } from './types.js';
+
+export type ReplayResult = {
+  original: DispatchEnvelope;
+  originalEvents: CapturedEvent[];
+  messageCount: number;
+  result: CollabDispatchResult;
+  events: CapturedEvent[];
+};
+
+/**
+ * Feed a recorded SDK stream (`dispatches/{id}.stream.jsonl`) back through the
+ * collabDispatch event loop, reproducing its monitor decisions (loop detection,
+ * non-retryable aborts, budget enforcement) against the current config.
+ *
+ * The replay runs in a scratch task directory as a `replay` dispatch — one
+ * attempt with no retries or model fallback, no worktree, stream recording or
+ * git capture — so the original task and the project repo are left untouched.
+ */
+export async function replayDispatch(
+  ctx: CollabDispatchContext,
+  project: string,
+  taskDir: string,
+  dispatchId: string,
+): Promise<ReplayResult> {
+  const store = getDispatchStore();
+  const original = store.getDispatchEnvelope(taskDir, dispatchId);
+  if (!original) {
+    throw new Error(`Dispatch "${dispatchId}" not found in task "${path.basename(taskDir)}"`);
+  }
+
+  const messages = store.getStreamRecording(taskDir, dispatchId);
+  if (!messages) {
+    throw new Error(`Dispatch "${dispatchId}" has no stream recording — re-run it with recording enabled (--record or [engine] record = true)`);
+  }
+
+  const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collabot-replay-'));
+  const scratchTaskDir = path.join(scratchDir, original.taskSlug);
+  fs.mkdirSync(scratchTaskDir, { recursive: true });
+
+  const previousEngine = getAgentEngine();
+  setAgentEngine(new ScriptedEngine(messages));
+
+  try {
+    const result = await collabDispatch({
+      project,
+      role: original.role,
+      prompt: `Replay of dispatch ${dispatchId}`,
+      taskSlug: original.taskSlug,
+      taskDir: scratchTaskDir,
+      replay: true,
+    }, ctx);
+
+    return {
+      original,
+      originalEvents: store.getDispatchEvents(taskDir, dispatchId),
+      messageCount: messages.length,
+      result,
+      events: store.getDispatchEvents(scratchTaskDir, result.dispatchId),
+    };
+  } finally {
+    setAgentEngine(previousEngine);
+    fs.rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
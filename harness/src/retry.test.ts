@@ -0,0 +1,292 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { resolveRetryPolicy, isRetryable, retryDelayMs, DEFAULT_RETRY_POLICY, RetryPolicyOverrideSchema } from './retry.js';
+import type { RetryPolicyOverride } from './retry.js';
+import { ScriptedEngine, setAgentEngine, type AgentEngineProvider, type AgentQueryParams, type ScriptStep } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getProjectTasksDir } from './project.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { CollabDispatchResult, RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+function makeResult(overrides?: Partial<CollabDispatchResult>): CollabDispatchResult {
+  return {
+    status: 'crashed',
+    taskSlug: 'task',
+    dispatchId: '01DISPATCH',
+    cost: 0,
+    durationMs: 0,
+    model: 'claude-sonnet-4-6',
+    ...overrides,
+  } as CollabDispatchResult;
+}
+
+// ── Policy ──────────────────────────────────────────────────────
+
+describe('resolveRetryPolicy', () => {
+  test('defaults to a single attempt', () => {
+    assert.deepEqual(resolveRetryPolicy(), DEFAULT_RETRY_POLICY);
+    assert.equal(resolveRetryPolicy(undefined, undefined).maxAttempts, 1);
+  });
+
+  test('later layers win key by key', () => {
+    const policy = resolveRetryPolicy(
+      { maxAttempts: 3, backoffMs: 1000 },
+      { backoffMs: 200, statuses: ['crashed', 'timed_out'] },
+      { maxAttempts: 2 },
+    );
+    assert.equal(policy.maxAttempts, 2);
+    assert.equal(policy.backoffMs, 200);
+    assert.deepEqual(policy.statuses, ['crashed', 'timed_out']);
+    assert.equal(policy.backoffMultiplier, DEFAULT_RETRY_POLICY.backoffMultiplier);
+  });
+
+  test('undefined keys do not clear earlier layers', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 4 }, { maxAttempts: undefined } as RetryPolicyOverride);
+    assert.equal(policy.maxAttempts, 4);
+  });
+
+  test('schema rejects unknown statuses and zero attempts', () => {
+    assert.ok(RetryPolicyOverrideSchema.safeParse({ maxAttempts: 3, statuses: ['timed_out'] }).success);
+    assert.ok(!RetryPolicyOverrideSchema.safeParse({ statuses: ['completed'] }).success);
+    assert.ok(!RetryPolicyOverrideSchema.safeParse({ maxAttempts: 0 }).success);
+  });
+});
+
+describe('isRetryable', () => {
+  const policy = resolveRetryPolicy({ maxAttempts: 3 });
+
+  test('completed dispatches are never retried', () => {
+    assert.equal(isRetryable(makeResult({ status: 'completed' }), policy), false);
+  });
+
+  test('matches on status', () => {
+    assert.equal(isRetryable(makeResult({ status: 'crashed', reason: 'error' }), policy), true);
+    assert.equal(isRetryable(makeResult({ status: 'timed_out', reason: 'timeout' }), policy), false);
+  });
+
+  test('matches on abort reason', () => {
+    assert.equal(isRetryable(makeResult({ status: 'aborted', reason: 'stall' }), policy), true);
+    assert.equal(isRetryable(makeResult({ status: 'aborted', reason: 'loop_kill' }), policy), false);
+  });
+
+  test('never retries auth failures or external aborts', () => {
+    const broad = resolveRetryPolicy({ statuses: ['crashed', 'aborted'], reasons: ['external'] });
+    assert.equal(isRetryable(makeResult({ status: 'crashed', reason: 'authentication_failed' }), broad), false);
+    assert.equal(isRetryable(makeResult({ status: 'aborted', reason: 'external' }), broad), false);
+    assert.equal(isRetryable(makeResult({ status: 'aborted', reason: 'non_retryable_error' }), broad), false);
+  });
+});
+
+describe('retryDelayMs', () => {
+  test('grows exponentially and is capped', () => {
+    const policy = resolveRetryPolicy({ backoffMs: 1000, backoffMultiplier: 3, maxBackoffMs: 5000 });
+    assert.equal(retryDelayMs(policy, 1), 1000);
+    assert.equal(retryDelayMs(policy, 2), 3000);
+    assert.equal(retryDelayMs(policy, 3), 5000);
+  });
+});
+
+// ── collabDispatch retries ──────────────────────────────────────
+
+const SESSION_ID = 'retry-session';
+
+function init(): SDKMessage {
+  return { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-scripted' } as unknown as SDKMessage;
+}
+
+function success(): SDKMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    session_id: SESSION_ID,
+    result: 'done',
+    is_error: false,
+    num_turns: 1,
+    duration_ms: 5,
+    duration_api_ms: 5,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  } as unknown as SDKMessage;
+}
+
+/** Plays a different script on each query — one per attempt. */
+class SequenceEngine implements AgentEngineProvider {
+  readonly manifest = new ScriptedEngine([]).manifest;
+  readonly calls: AgentQueryParams[] = [];
+
+  constructor(private readonly scripts: ScriptStep[][]) {}
+
+  query(params: AgentQueryParams): AsyncIterable<SDKMessage> {
+    this.calls.push(params);
+    const script = this.scripts[Math.min(this.calls.length, this.scripts.length) - 1] ?? [];
+    return new ScriptedEngine(script).query(params);
+  }
+}
+
+describe('collabDispatch — retry policy', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-repo-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(retry?: RetryPolicyOverride, roleRetry?: RetryPolicyOverride): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('researcher', {
+      id: '01TESTROLE00000000000000000',
+      version: '1.0.0',
+      name: 'researcher',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You are a researcher.',
+      modelHint: 'sonnet-latest',
+      ...(roleRetry ? { retry: roleRetry } : {}),
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', { name: 'demo', description: 'Retry project', paths: [repoDir], roles: ['researcher'] });
+
+    return {
+      config: {
+        models: { default: 'claude-sonnet-4-6', aliases: {} },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+        ...(retry ? { retry } : {}),
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  const crash: ScriptStep[] = [init(), { $error: 'socket hang up' }];
+
+  test('retries a crash and links attempts with retryOf', async () => {
+    const engine = new SequenceEngine([crash, [init(), success()]]);
+    setAgentEngine(engine);
+    const retries: Array<{ attempt: number; delayMs: number }> = [];
+
+    const result = await collabDispatch({
+      project: 'demo',
+      role: 'researcher',
+      prompt: 'Investigate.',
+      onRetry: (attempt, _max, _previous, delayMs) => retries.push({ attempt, delayMs }),
+    }, makeCtx({ maxAttempts: 3, backoffMs: 0 }));
+
+    assert.equal(result.status, 'completed');
+    assert.equal(result.attempts, 2);
+    assert.equal(engine.calls.length, 2);
+    assert.deepEqual(retries, [{ attempt: 2, delayMs: 0 }]);
+
+    const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+    const store = getDispatchStore();
+    const index = store.getDispatchEnvelopes(taskDir);
+    assert.equal(index.length, 2, 'both attempts are in the task index');
+    const [failed, retried] = index;
+    assert.equal(failed?.status, 'crashed');
+    assert.equal(failed?.retryOf, undefined);
+    assert.equal(retried?.dispatchId, result.dispatchId);
+    assert.equal(retried?.retryOf, failed?.dispatchId);
+    assert.equal(retried?.attempt, 2);
+
+    const retryEvent = store.getDispatchEvents(taskDir, failed!.dispatchId).find(e => e.type === 'harness:retry');
+    assert.ok(retryEvent);
+    assert.equal(retryEvent.data?.reason, 'error');
+    assert.equal(retryEvent.data?.maxAttempts, 3);
+  });
+
+  test('gives up after maxAttempts', async () => {
+    const engine = new SequenceEngine([crash]);
+    setAgentEngine(engine);
+
+    const result = await collabDispatch({ project: 'demo', role: 'researcher', prompt: 'Investigate.' }, makeCtx({ maxAttempts: 3, backoffMs: 0 }));
+
+    assert.equal(result.status, 'crashed');
+    assert.equal(result.attempts, 3);
+    assert.equal(engine.calls.length, 3);
+  });
+
+  test('does not retry without a policy', async () => {
+    const engine = new SequenceEngine([crash, [init(), success()]]);
+    setAgentEngine(engine);
+
+    const result = await collabDispatch({ project: 'demo', role: 'researcher', prompt: 'Investigate.' }, makeCtx());
+
+    assert.equal(result.status, 'crashed');
+    assert.equal(result.attempts, undefined);
+    assert.equal(engine.calls.length, 1);
+  });
+
+  test('role and dispatch layers override config', async () => {
+    const engine = new SequenceEngine([crash]);
+    setAgentEngine(engine);
+
+    await collabDispatch(
+      { project: 'demo', role: 'researcher', prompt: 'Investigate.' },
+      makeCtx({ maxAttempts: 5, backoffMs: 0 }, { maxAttempts: 2 }),
+    );
+    assert.equal(engine.calls.length, 2);
+
+    const dispatchEngine = new SequenceEngine([crash]);
+    setAgentEngine(dispatchEngine);
+    await collabDispatch(
+      { project: 'demo', role: 'researcher', prompt: 'Investigate.', retry: { maxAttempts: 1 } },
+      makeCtx({ maxAttempts: 5, backoffMs: 0 }),
+    );
+    assert.equal(dispatchEngine.calls.length, 1);
+  });
+
+  test('a caller abort during backoff stops retrying', async () => {
+    const engine = new SequenceEngine([crash, [init(), success()]]);
+    setAgentEngine(engine);
+    const abortController = new AbortController();
+
+    const result = await collabDispatch({
+      project: 'demo',
+      role: 'researcher',
+      prompt: 'Investigate.',
+      abortController,
+      onRetry: () => abortController.abort(),
+    }, makeCtx({ maxAttempts: 3, backoffMs: 60_000 }));
+
+    assert.equal(result.status, 'crashed');
+    assert.equal(engine.calls.length, 1);
+  });
+});
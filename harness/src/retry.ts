@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import type { CollabDispatchResult } from './types.js';
+
+// ── Schema ──────────────────────────────────────────────────
+
+export const RetryableStatusEnum = z.enum(['crashed', 'aborted', 'timed_out', 'budget_exceeded']);
+
+/**
+ * Partial retry policy — one layer of config.toml `[retry]`, role frontmatter,
+ * cron job frontmatter, or per-dispatch options. Layers merge key by key.
+ */
+export const RetryPolicyOverrideSchema = z.object({
+  maxAttempts: z.number().int().positive().optional(),        // total attempts, 1 = no retry
+  backoffMs: z.number().int().nonnegative().optional(),       // delay before the first retry
+  backoffMultiplier: z.number().min(1).optional(),            // delay growth per retry
+  maxBackoffMs: z.number().int().nonnegative().optional(),    // delay cap
+  statuses: z.array(RetryableStatusEnum).optional(),          // final statuses that trigger a retry
+  reasons: z.array(z.string().min(1)).optional(),             // abort/failure reasons that trigger a retry
+});
+
+export type RetryPolicyOverride = z.infer<typeof RetryPolicyOverrideSchema>;
+export type RetryPolicy = Required<RetryPolicyOverride>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  backoffMs: 5000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 60000,
+  statuses: ['crashed'],
+  reasons: ['stall', 'rate_limit'],
+};
+
+/**
+ * Failures that are never retried, whatever the policy says — a retry cannot
+ * fix missing credentials, and a user kill or non-retryable-error abort is a
+ * deliberate stop.
+ */
+const NEVER_RETRY = new Set(['authentication_failed', 'external', 'non_retryable_error']);
+
+// ── Policy ──────────────────────────────────────────────────
+
+/** Merge policy layers over the defaults, later layers winning. */
+export function resolveRetryPolicy(...layers: Array<RetryPolicyOverride | undefined>): RetryPolicy {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) (policy as Record<string, unknown>)[key] = value;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Whether a finished dispatch should be retried under the policy.
+ * Matches on final status or on the recorded failure reason.
+ */
+export function isRetryable(result: CollabDispatchResult, policy: RetryPolicy): boolean {
+  if (result.status === 'completed') return false;
+  if (result.reason && NEVER_RETRY.has(result.reason)) return false;
+  if ((policy.statuses as string[]).includes(result.status)) return true;
+  return result.reason !== undefined && policy.reasons.includes(result.reason);
+}
+
+/** Exponential backoff delay before retry number `retry` (1-based). */
+export function retryDelayMs(policy: RetryPolicy, retry: number): number {
+  const delay = policy.backoffMs * Math.pow(policy.backoffMultiplier, Math.max(0, retry - 1));
+  return Math.min(delay, policy.maxBackoffMs);
+}
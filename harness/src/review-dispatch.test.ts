@@ -0,0 +1,269 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { setAgentEngine, type AgentEngineProvider, type AgentQueryParams } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { reviewDispatch } from './review-dispatch.js';
+import { draftAgent } from './core.js';
+import { buildJobHandler } from './cron-bridge.js';
+import { createPoolStepDispatcher } from './workflow-run.js';
+import { createTask } from './task.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { CommunicationRegistry } from './registry.js';
+import { AgentPool } from './pool.js';
+import { getProjectTasksDir } from './project.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+import type { AgentJobDefinition } from './cron-loader.js';
+import type { WorkflowStep } from './workflows.js';
+import type { CollabDispatchOptions, RoleDefinition } from './types.js';
+
+const tmpDirs: string[] = [];
+
+after(() => {
+  for (const dir of tmpDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeTempDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }).trim();
+}
+
+function makeRepo(): string {
+  const repo = makeTempDir('review-dispatch-repo-');
+  git(repo, ['init', '-q']);
+  fs.writeFileSync(path.join(repo, 'README.md'), 'demo\n');
+  git(repo, ['add', '.']);
+  git(repo, ['commit', '-q', '-m', 'init']);
+  return repo;
+}
+
+type Call = { kind: 'implement' | 'review' | 'revise'; cwd: string; sawFeature: boolean };
+
+/**
+ * Engine playing both sides of a review: the implementer writes feature.txt
+ * (committing it with `commit`), the first review asks for docs, the revision
+ * writes docs.txt, and the second review approves.
+ */
+class ReviewingEngine implements AgentEngineProvider {
+  readonly manifest = {
+    id: 'collabot.agent-engine.reviewing',
+    name: 'Reviewing Engine',
+    version: '1.0.0',
+    description: 'Test engine for review rounds',
+    providerType: 'agent-engine' as const,
+  };
+
+  readonly calls: Call[] = [];
+  private reviews = 0;
+
+  constructor(private readonly opts: { commit?: boolean } = {}) {}
+
+  async *query(params: AgentQueryParams): AsyncGenerator<SDKMessage, void> {
+    // Reconstructed task context comes before the prompt itself
+    const prompt = String(params.prompt).split('\n\n---\n\n').pop()!;
+    const cwd = String(params.options.cwd);
+    const kind = prompt.startsWith('The reviewer did not approve') ? 'revise'
+      : prompt.startsWith('Review the work of') ? 'review'
+      : 'implement';
+    this.calls.push({ kind, cwd, sawFeature: fs.existsSync(path.join(cwd, 'feature.txt')) });
+
+    let structured: Record<string, unknown>;
+    if (kind === 'implement') {
+      fs.writeFileSync(path.join(cwd, 'feature.txt'), 'feature\n');
+      if (this.opts.commit) {
+        git(cwd, ['add', 'feature.txt']);
+        git(cwd, ['commit', '-q', '-m', 'Add feature']);
+      }
+      structured = { status: 'success', summary: 'Added the feature', changes: ['feature.txt'] };
+    } else if (kind === 'revise') {
+      fs.writeFileSync(path.join(cwd, 'docs.txt'), 'docs\n');
+      structured = { status: 'success', summary: 'Added docs', changes: ['docs.txt'] };
+    } else {
+      structured = ++this.reviews === 1
+        ? { status: 'partial', summary: 'Needs docs', issues: ['no docs'] }
+        : { status: 'success', summary: 'Approved' };
+    }
+
+    const sessionId = `review-dispatch-${this.calls.length}`;
+    yield { type: 'system', subtype: 'init', session_id: sessionId, model: 'claude-sonnet-4-6' } as unknown as SDKMessage;
+    yield {
+      type: 'result', subtype: 'success', session_id: sessionId, is_error: false,
+      result: JSON.stringify(structured),
+      num_turns: 1, duration_ms: 5, duration_api_ms: 5, total_cost_usd: 0.01,
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    } as unknown as SDKMessage;
+  }
+}
+
+function role(name: string): RoleDefinition {
+  return {
+    id: '01TESTROLE000000000000000000',
+    version: '1.0.0',
+    name,
+    description: 'Test role',
+    createdOn: '2026-01-01T00:00:00Z',
+    createdBy: 'test',
+    prompt: `You are ${name}.`,
+    modelHint: 'sonnet-latest',
+  } as RoleDefinition;
+}
+
+describe('reviewDispatch', () => {
+  let homeDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = makeTempDir('review-dispatch-home-');
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(isolation: Project['isolation'] = 'none'): { ctx: CollabDispatchContext; repo: string } {
+    const repo = makeRepo();
+    const projects = new Map<string, Project>([['demo', {
+      name: 'demo',
+      description: 'Reviewed project',
+      paths: [repo],
+      roles: ['ts-dev', 'reviewer'],
+      isolation,
+      review: { roles: ['ts-dev'], reviewer: 'reviewer', maxIterations: 3 },
+    } as Project]]);
+    const ctx: CollabDispatchContext = {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 1 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles: new Map([['ts-dev', role('ts-dev')], ['reviewer', role('reviewer')]]),
+      bots: new Map(),
+      projects,
+      projectsDir: makeTempDir('review-dispatch-projects-'),
+      pool: new AgentPool(1),
+    };
+    return { ctx, repo };
+  }
+
+  async function implementAndReview(ctx: CollabDispatchContext) {
+    const options: CollabDispatchOptions = { project: 'demo', role: 'ts-dev', prompt: 'Add a feature.' };
+    const result = await collabDispatch(options, ctx);
+    const review = await reviewDispatch(result, options, ctx, { priority: 'interactive' });
+    return { result, review };
+  }
+
+  test('runs review rounds in the reviewed worktree, so revisions build on the earlier changes', async () => {
+    const { ctx, repo } = makeCtx('worktree');
+    const engine = new ReviewingEngine();
+    setAgentEngine(engine);
+
+    const { result, review } = await implementAndReview(ctx);
+
+    assert.equal(review?.approved, true);
+    assert.deepEqual(engine.calls.map(c => c.kind), ['implement', 'review', 'revise', 'review']);
+    const worktree = engine.calls[0]!.cwd;
+    assert.ok(worktree.includes(path.join(result.taskSlug, 'worktrees')));
+    assert.deepEqual(engine.calls.map(c => c.cwd), [worktree, worktree, worktree, worktree]);
+    assert.deepEqual(engine.calls.map(c => c.sawFeature), [false, true, true, true]);
+    assert.ok(fs.existsSync(path.join(worktree, 'docs.txt')));
+    assert.ok(!fs.existsSync(path.join(repo, 'feature.txt')), 'the main checkout is untouched');
+  });
+
+  test('checks the branch out again when the reviewed worktree was cleaned up', async () => {
+    const { ctx } = makeCtx('worktree');
+    const engine = new ReviewingEngine({ commit: true });
+    setAgentEngine(engine);
+
+    const { result, review } = await implementAndReview(ctx);
+
+    assert.equal(review?.approved, true);
+    assert.ok(!fs.existsSync(engine.calls[0]!.cwd), 'clean worktree removed after the implementation');
+    assert.deepEqual(engine.calls.map(c => c.sawFeature), [false, true, true, true]);
+    const taskDir = path.join(getProjectTasksDir(ctx.projectsDir, 'demo'), result.taskSlug);
+    const branches = review!.rounds.map(r => getDispatchStore().getDispatchEnvelope(taskDir, r.reviewDispatchId)?.worktree?.branch);
+    assert.deepEqual(branches, [`collabot/${result.taskSlug}/${result.dispatchId}`, `collabot/${result.taskSlug}/${result.dispatchId}`]);
+  });
+
+  test('returns undefined for dispatches the policy does not cover', async () => {
+    const { ctx } = makeCtx();
+    const engine = new ReviewingEngine();
+    setAgentEngine(engine);
+
+    const options: CollabDispatchOptions = { project: 'demo', role: 'reviewer', prompt: 'Add a feature.' };
+    const result = await collabDispatch(options, ctx);
+    assert.equal(await reviewDispatch(result, options, ctx, { priority: 'interactive' }), undefined);
+    assert.equal(engine.calls.length, 1);
+  });
+
+  test('draft_agent dispatches and cron agent jobs are reviewed; workflow steps are not', async () => {
+    const { ctx } = makeCtx();
+    const tasksDir = getProjectTasksDir(ctx.projectsDir, 'demo');
+
+    const drafted = new ReviewingEngine();
+    setAgentEngine(drafted);
+    const task = createTask(tasksDir, { name: 'Drafted', project: 'demo' });
+    const draft = await draftAgent('ts-dev', 'Add a feature.', new CommunicationRegistry(), ctx.roles, ctx.config, {
+      project: 'demo', taskSlug: task.slug, taskDir: task.taskDir, pool: ctx.pool, projects: ctx.projects, projectsDir: ctx.projectsDir,
+    });
+    assert.deepEqual(drafted.calls.map(c => c.kind), ['implement', 'review', 'revise', 'review']);
+    assert.equal(draft.structuredResult?.summary, 'Added docs');
+
+    const cron = new ReviewingEngine();
+    setAgentEngine(cron);
+    const job: AgentJobDefinition = {
+      type: 'agent', id: '01TESTJOB0000000000000000000', name: 'nightly', slug: 'nightly',
+      schedule: '0 3 * * *', enabled: true, singleton: true, role: 'ts-dev', project: 'demo', prompt: 'Add a feature.',
+    };
+    await buildJobHandler(job, { ctx, runsDir: makeTempDir('review-dispatch-runs-'), projectsDir: ctx.projectsDir })();
+    assert.deepEqual(cron.calls.map(c => c.kind), ['implement', 'review', 'revise', 'review']);
+
+    const workflow = new ReviewingEngine();
+    setAgentEngine(workflow);
+    const step = { name: 'implement', role: 'ts-dev', prompt: 'Add a feature.' } as WorkflowStep & { prompt: string };
+    const stepTask = createTask(tasksDir, { name: 'Workflow', project: 'demo' });
+    await createPoolStepDispatcher(ctx, { priority: 'interactive' })(step, { project: 'demo', taskSlug: stepTask.slug, taskDir: stepTask.taskDir });
+    assert.deepEqual(workflow.calls.map(c => c.kind), ['implement']);
+  });
+
+  test('the pool slot of the reviewed dispatch is free before the first round', async () => {
+    const { ctx } = makeCtx();
+    setAgentEngine(new ReviewingEngine());
+    const task = createTask(getProjectTasksDir(ctx.projectsDir, 'demo'), { name: 'Pool', project: 'demo' });
+
+    // maxConcurrent 1 — a slot still held by the drafted dispatch would leave the reviewer queued forever
+    const draft = await draftAgent('ts-dev', 'Add a feature.', new CommunicationRegistry(), ctx.roles, ctx.config, {
+      project: 'demo', taskSlug: task.slug, taskDir: task.taskDir, pool: ctx.pool, projects: ctx.projects, projectsDir: ctx.projectsDir,
+    });
+    assert.equal(draft.status, 'completed');
+    assert.equal(ctx.pool.size, 0);
+  });
+});
@@ -0,0 +1,80 @@
+import path from 'node:path';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getProjectTasksDir } from './project.js';
+import { needsReview, runReviewLoop, type ReviewDispatcher, type ReviewOutcome } from './review.js';
+import type { PoolPriority } from './pool.js';
+import type { CollabDispatchOptions, CollabDispatchResult, RoleDefinition } from './types.js';
+
+/**
+ * Put a finished dispatch through its project's review policy. Returns
+ * undefined when it does not needsReview. Each review and revision is a
+ * collabDispatch on the same task with the reviewed dispatch's options and
+ * its own pool slot — release the reviewed dispatch's slot first. Rounds on a
+ * worktree dispatch run in that worktree, so the reviewer and each revision
+ * see the changes under review rather than a fresh checkout.
+ */
+export async function reviewDispatch(
+  result: CollabDispatchResult,
+  options: CollabDispatchOptions,
+  ctx: CollabDispatchContext,
+  opts: {
+    priority: PoolPriority;
+    request?: string;                // shown to the reviewer; defaults to options.prompt
+    mcpServersFor?: (role: RoleDefinition, taskDir: string) => CollabDispatchOptions['mcpServers'];
+    onDispatch?: (role: string) => Promise<void> | void;
+  },
+): Promise<ReviewOutcome | undefined> {
+  const project = ctx.projects.get(options.project.toLowerCase());
+  const policy = project?.review;
+  if (!project || !needsReview(policy, options.role, result)) return undefined;
+
+  const taskSlug = result.taskSlug;
+  const taskDir = options.taskDir ?? path.join(getProjectTasksDir(ctx.projectsDir, project.name), taskSlug);
+
+  const dispatch: ReviewDispatcher = async (role, prompt, parentDispatchId) => {
+    await opts.onDispatch?.(role);
+    const controller = new AbortController();
+    const agentId = `${role}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    await ctx.pool.acquire({
+      id: agentId,
+      role,
+      project: project.name,
+      taskSlug,
+      startedAt: new Date(),
+      controller,
+    }, { priority: opts.priority });
+    try {
+      const roundOptions: CollabDispatchOptions = {
+        ...options,
+        role,
+        prompt,
+        taskSlug,
+        taskDir,
+        parentDispatchId,
+        abortController: controller,
+      };
+      delete roundOptions.bot;
+      delete roundOptions.mcpServers;
+      delete roundOptions.resume;
+      delete roundOptions.sessionId;
+      delete roundOptions.useStructuredOutput;
+      const roleDef = ctx.roles.get(role);
+      const mcpServers = roleDef ? opts.mcpServersFor?.(roleDef, taskDir) : undefined;
+      if (mcpServers) roundOptions.mcpServers = mcpServers;
+      const worktree = getDispatchStore().getDispatchEnvelope(taskDir, parentDispatchId)?.worktree;
+      if (worktree) roundOptions.worktree = worktree;
+      return await collabDispatch(roundOptions, ctx);
+    } finally {
+      ctx.pool.release(agentId);
+    }
+  };
+
+  return runReviewLoop(policy, {
+    role: options.role,
+    request: opts.request ?? options.prompt,
+    taskDir,
+    result,
+    dispatch,
+  });
+}
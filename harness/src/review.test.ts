@@ -0,0 +1,148 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { needsReview, runReviewLoop, dispatchDiff, formatReviewOutcome, type ReviewPolicy } from './review.js';
+import { JsonFileDispatchStore } from './dispatch-store.js';
+import type { AgentResult, CollabDispatchResult } from './types.js';
+
+const tmpDirs: string[] = [];
+
+after(() => {
+  for (const dir of tmpDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-test-'));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+const policy: ReviewPolicy = { roles: ['ts-dev'], reviewer: 'reviewer', maxIterations: 2 };
+
+let nextId = 0;
+function dispatchResult(structured?: AgentResult, status: CollabDispatchResult['status'] = 'completed'): CollabDispatchResult {
+  return {
+    status,
+    structuredResult: structured,
+    taskSlug: 'review-task',
+    dispatchId: `d${++nextId}`,
+    cost: { totalUsd: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, turns: 1, tokenBudget: null, tokenBudgetPercent: null },
+    duration_ms: 1,
+    model: 'test',
+  };
+}
+
+type Call = { role: string; prompt: string; parentDispatchId: string; dispatchId: string };
+
+/** Dispatcher answering from a queue, recording each call with the dispatch ID it returned. */
+function scripted(results: Array<AgentResult | undefined>) {
+  const calls: Call[] = [];
+  const dispatch = async (role: string, prompt: string, parentDispatchId: string) => {
+    const result = dispatchResult(results.shift());
+    calls.push({ role, prompt, parentDispatchId, dispatchId: result.dispatchId });
+    return result;
+  };
+  return { calls, dispatch };
+}
+
+// ── needsReview ─────────────────────────────────────────────────
+
+test('needsReview — only completed dispatches by reviewed roles with changes and no questions', () => {
+  const changed = dispatchResult({ status: 'success', summary: 's', changes: ['a.ts'] });
+  assert.equal(needsReview(policy, 'ts-dev', changed), true);
+  assert.equal(needsReview(undefined, 'ts-dev', changed), false);
+  assert.equal(needsReview(policy, 'researcher', changed), false);
+  assert.equal(needsReview(policy, 'ts-dev', dispatchResult({ status: 'success', summary: 's' })), false);
+  assert.equal(needsReview(policy, 'ts-dev', dispatchResult({ status: 'partial', summary: 's', changes: ['a.ts'], questions: ['?'] })), false);
+  assert.equal(needsReview(policy, 'ts-dev', { ...changed, status: 'crashed' }), false);
+});
+
+// ── runReviewLoop ───────────────────────────────────────────────
+
+test('runReviewLoop loops issues back until the reviewer approves, chaining parents', async () => {
+  const first = dispatchResult({ status: 'success', summary: 'Added retries', changes: ['retry.ts'] });
+  const { calls, dispatch } = scripted([
+    { status: 'partial', summary: 'Missing tests', issues: ['no tests for backoff'] },
+    { status: 'success', summary: 'Added tests', changes: ['retry.test.ts'] },
+    { status: 'success', summary: 'Looks good' },
+  ]);
+
+  const outcome = await runReviewLoop(policy, { role: 'ts-dev', request: 'Add retries', taskDir: makeTempDir(), result: first, dispatch });
+
+  assert.equal(outcome.approved, true);
+  assert.deepEqual(calls.map(c => c.role), ['reviewer', 'ts-dev', 'reviewer']);
+  assert.equal(calls[0]!.parentDispatchId, first.dispatchId);
+  assert.equal(calls[1]!.parentDispatchId, calls[0]!.dispatchId);
+  assert.equal(calls[2]!.parentDispatchId, calls[1]!.dispatchId);
+  assert.match(calls[0]!.prompt, /## Request\nAdd retries/);
+  assert.match(calls[1]!.prompt, /- no tests for backoff/);
+  assert.match(calls[2]!.prompt, /- retry\.test\.ts/);
+  assert.equal(outcome.result.dispatchId, calls[1]!.dispatchId);
+  assert.deepEqual(outcome.rounds.map(r => r.reviewStatus), ['partial', 'success']);
+});
+
+test('runReviewLoop stops unapproved at maxIterations with the open issues', async () => {
+  const { calls, dispatch } = scripted([
+    { status: 'partial', summary: 'No', issues: ['one'] },
+    { status: 'success', summary: 'Fixed', changes: ['a.ts'] },
+    { status: 'failed', summary: 'Still no', issues: ['two'] },
+  ]);
+
+  const outcome = await runReviewLoop(policy, {
+    role: 'ts-dev', request: 'x', taskDir: makeTempDir(),
+    result: dispatchResult({ status: 'success', summary: 's', changes: ['a.ts'] }), dispatch,
+  });
+
+  assert.equal(outcome.approved, false);
+  assert.equal(calls.length, 3);
+  assert.match(outcome.reason!, /not approved after 2 review round/);
+  const text = formatReviewOutcome(outcome, 'reviewer');
+  assert.match(text, /not approved/);
+  assert.match(text, /\*Open issues:\*\n• two/);
+});
+
+test('runReviewLoop ends when the reviewer returns no structured review or the revision fails', async () => {
+  const noReview = await runReviewLoop(policy, {
+    role: 'ts-dev', request: 'x', taskDir: makeTempDir(),
+    result: dispatchResult({ status: 'success', summary: 's', changes: ['a.ts'] }),
+    dispatch: async () => dispatchResult(undefined, 'crashed'),
+  });
+  assert.equal(noReview.approved, false);
+  assert.match(noReview.reason!, /returned no review \(crashed\)/);
+
+  const { dispatch } = scripted([{ status: 'partial', summary: 'No', issues: ['one'] }, undefined]);
+  const failedRevision = await runReviewLoop(policy, {
+    role: 'ts-dev', request: 'x', taskDir: makeTempDir(),
+    result: dispatchResult({ status: 'success', summary: 's', changes: ['a.ts'] }), dispatch,
+  });
+  assert.equal(failedRevision.approved, false);
+  assert.match(failedRevision.reason!, /ts-dev revision returned no result \(completed\)/);
+  assert.ok(failedRevision.rounds[0]!.revisionDispatchId);
+});
+
+// ── dispatchDiff ────────────────────────────────────────────────
+
+test('dispatchDiff shows uncommitted changes in the dispatch cwd', () => {
+  const repo = makeTempDir();
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: ['ignore', 'pipe', 'pipe'] });
+  git('init', '-q');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'Test');
+  fs.writeFileSync(path.join(repo, 'a.txt'), 'one\n');
+  git('add', '.');
+  git('commit', '-q', '-m', 'init');
+  fs.writeFileSync(path.join(repo, 'a.txt'), 'two\n');
+
+  const taskDir = makeTempDir();
+  new JsonFileDispatchStore().createDispatch(taskDir, {
+    dispatchId: 'd-diff', taskSlug: 't', role: 'ts-dev', model: 'm', cwd: repo,
+    startedAt: '2026-03-01T09:00:00.000Z', status: 'completed',
+  });
+
+  const diff = dispatchDiff(taskDir, 'd-diff');
+  assert.match(diff, /-one\n\+two/);
+  assert.equal(dispatchDiff(taskDir, 'missing'), '');
+});
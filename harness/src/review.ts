@@ -0,0 +1,267 @@
+import fs from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { z } from 'zod';
+import { logger } from './logger.js';
+import { getDispatchStore } from './dispatch-store.js';
+import type { AgentResult, CollabDispatchResult } from './types.js';
+
+/**
+ * Review loop — a project's `[review]` policy sends an implementation
+ * dispatch's changes to a reviewer role, then loops the review issues back
+ * to the implementing role until the reviewer reports `success` or
+ * `maxIterations` review rounds have run.
+ *
+ *   [review]
+ *   roles = ["ts-dev"]        # dispatches by these roles are reviewed
+ *   reviewer = "reviewer"
+ *   maxIterations = 3
+ *
+ * The policy applies wherever a single dispatch is handed to a role: adapter
+ * tasks (handleTask), draft_agent and cron jobs, all through reviewDispatch
+ * (review-dispatch.ts). Workflow steps are not reviewed — a workflow routes
+ * its own review steps.
+ */
+
+// ── Policy ──────────────────────────────────────────────────────
+
+export const ReviewPolicySchema = z.object({
+  roles: z.array(z.string().min(1)).min(1),
+  reviewer: z.string().min(1),
+  maxIterations: z.number().int().positive().default(3),   // review rounds before giving up
+});
+
+export type ReviewPolicy = z.infer<typeof ReviewPolicySchema>;
+
+/**
+ * Whether a finished dispatch goes to review: a reviewed role completed with
+ * `changes` and no open questions (questions wait for a human first).
+ */
+export function needsReview(
+  policy: ReviewPolicy | undefined,
+  role: string,
+  result: CollabDispatchResult,
+): policy is ReviewPolicy {
+  if (!policy || role === policy.reviewer || !policy.roles.includes(role)) return false;
+  const structured = result.status === 'completed' ? result.structuredResult : undefined;
+  return (structured?.changes?.length ?? 0) > 0 && (structured?.questions?.length ?? 0) === 0;
+}
+
+// ── Diff ────────────────────────────────────────────────────────
+
+const MAX_DIFF_CHARS = 20_000;
+
+function gitDiff(cwd: string, args: string[]): string {
+  return execFileSync('git', ['diff', ...args], {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    maxBuffer: 16 * 1024 * 1024,
+  }).trim();
+}
+
+/**
+ * Diff of a dispatch's work: the patch recorded when it finished
+ * (`dispatches/{id}.diff`), else best effort from git — the worktree (or its
+ * branch, once the worktree is gone) against its base, otherwise the
+ * uncommitted changes in the dispatch's cwd. Empty when there is nothing to
+ * show or git fails.
+ */
+export function dispatchDiff(taskDir: string, dispatchId: string): string {
+  const store = getDispatchStore();
+  const envelope = store.getDispatchEnvelope(taskDir, dispatchId);
+  if (!envelope) return '';
+
+  let diff: string;
+  try {
+    const wt = envelope.worktree;
+    if (envelope.git?.after) {
+      diff = (store.getDispatchDiff(taskDir, dispatchId) ?? '').trim();
+    } else if (wt) {
+      diff = fs.existsSync(wt.path)
+        ? gitDiff(wt.path, [wt.baseRef])
+        : gitDiff(wt.repo, [wt.baseRef, wt.branch]);
+    } else {
+      diff = gitDiff(envelope.cwd, ['HEAD']);
+    }
+  } catch (err) {
+    logger.debug({ err, dispatchId }, 'review diff unavailable');
+    return '';
+  }
+
+  return diff.length > MAX_DIFF_CHARS
+    ? `${diff.slice(0, MAX_DIFF_CHARS)}\n… (diff truncated — run git diff for the rest)`
+    : diff;
+}
+
+// ── Prompts ─────────────────────────────────────────────────────
+
+function bulletList(items: readonly string[] | undefined): string[] {
+  return (items ?? []).map(item => `- ${item}`);
+}
+
+export function buildReviewPrompt(opts: {
+  request: string;
+  role: string;
+  result: AgentResult;
+  diff: string;
+  round: number;
+  maxIterations: number;
+}): string {
+  const lines = [
+    `Review the work of **${opts.role}** on this task (review round ${opts.round} of ${opts.maxIterations}).`,
+    '',
+    '## Request',
+    opts.request,
+    '',
+    '## Reported Result',
+    `Summary: ${opts.result.summary}`,
+    'Changes:',
+    ...bulletList(opts.result.changes),
+    '',
+    '## Diff',
+    opts.diff ? ['```diff', opts.diff, '```'].join('\n') : '_No diff available — inspect the repository directly._',
+    '',
+    'Report `success` when the work is ready as it is. Otherwise report `partial` and list each problem',
+    'to fix in `issues`. Report `blocked` only when the work cannot be reviewed.',
+  ];
+  return lines.join('\n');
+}
+
+export function buildRevisionPrompt(review: AgentResult, round: number): string {
+  return [
+    `The reviewer did not approve your changes (review round ${round}):`,
+    '',
+    `Summary: ${review.summary}`,
+    'Issues:',
+    ...bulletList(review.issues),
+    '',
+    'Fix these issues, then report what you changed.',
+  ].join('\n');
+}
+
+// ── Loop ────────────────────────────────────────────────────────
+
+export type ReviewRound = {
+  round: number;
+  reviewDispatchId: string;
+  reviewStatus: AgentResult['status'] | CollabDispatchResult['status'];  // dispatch status when there is no structured result
+  issues: string[];
+  revisionDispatchId?: string;      // set when the implementing role was sent back
+};
+
+export type ReviewOutcome = {
+  approved: boolean;
+  rounds: ReviewRound[];
+  result: CollabDispatchResult;      // latest result from the implementing role
+  review?: AgentResult;              // latest review
+  reason?: string;                   // why the loop ended without approval
+};
+
+/** Dispatch a role on the reviewed task, as a child of `parentDispatchId`. */
+export type ReviewDispatcher = (
+  role: string,
+  prompt: string,
+  parentDispatchId: string,
+) => Promise<CollabDispatchResult>;
+
+/**
+ * Run review rounds on a dispatch that needsReview. Each review is a child of
+ * the dispatch it reviews, and each revision a child of the review that
+ * asked for it. Never throws — a dispatch error ends the loop unapproved.
+ */
+export async function runReviewLoop(
+  policy: ReviewPolicy,
+  opts: {
+    role: string;
+    request: string;
+    taskDir: string;
+    result: CollabDispatchResult;
+    dispatch: ReviewDispatcher;
+    onRound?: (round: ReviewRound) => void;
+  },
+): Promise<ReviewOutcome> {
+  const rounds: ReviewRound[] = [];
+  let result = opts.result;
+  let review: AgentResult | undefined;
+
+  const end = (approved: boolean, reason?: string): ReviewOutcome => {
+    logger.info({ role: opts.role, reviewer: policy.reviewer, rounds: rounds.length, approved, reason }, 'review loop finished');
+    return { approved, rounds, result, ...(review ? { review } : {}), ...(reason ? { reason } : {}) };
+  };
+
+  try {
+    for (let round = 1; round <= policy.maxIterations; round++) {
+      const authored = result.structuredResult!;
+      const reviewResult = await opts.dispatch(policy.reviewer, buildReviewPrompt({
+        request: opts.request,
+        role: opts.role,
+        result: authored,
+        diff: dispatchDiff(opts.taskDir, result.dispatchId),
+        round,
+        maxIterations: policy.maxIterations,
+      }), result.dispatchId);
+
+      review = reviewResult.status === 'completed' ? reviewResult.structuredResult : undefined;
+      const entry: ReviewRound = {
+        round,
+        reviewDispatchId: reviewResult.dispatchId,
+        reviewStatus: review?.status ?? reviewResult.status,
+        issues: review?.issues ?? [],
+      };
+      rounds.push(entry);
+
+      if (!review) {
+        opts.onRound?.(entry);
+        return end(false, `${policy.reviewer} returned no review (${reviewResult.status})`);
+      }
+      if (review.status === 'success') {
+        opts.onRound?.(entry);
+        return end(true);
+      }
+      if (review.status === 'blocked') {
+        opts.onRound?.(entry);
+        return end(false, `${policy.reviewer} could not review: ${review.summary}`);
+      }
+      if (round === policy.maxIterations) {
+        opts.onRound?.(entry);
+        return end(false, `not approved after ${policy.maxIterations} review round(s)`);
+      }
+
+      const revision = await opts.dispatch(opts.role, buildRevisionPrompt(review, round), reviewResult.dispatchId);
+      entry.revisionDispatchId = revision.dispatchId;
+      opts.onRound?.(entry);
+      if (revision.status !== 'completed' || !revision.structuredResult) {
+        return end(false, `${opts.role} revision returned no result (${revision.status})`);
+      }
+      result = revision;
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return end(false, msg);
+  }
+
+  return end(false, `not approved after ${policy.maxIterations} review round(s)`);
+}
+
+// ── Formatting ──────────────────────────────────────────────────
+
+/** Review section appended to the final result posted to adapters. */
+export function formatReviewOutcome(outcome: ReviewOutcome, reviewer: string): string {
+  const lines = [outcome.approved
+    ? `*Review:* approved by ${reviewer} after ${outcome.rounds.length} round(s) \u2705`
+    : `*Review:* not approved — ${outcome.reason ?? 'unknown reason'} \u26A0`];
+
+  for (const r of outcome.rounds) {
+    const issues = r.issues.length > 0 ? ` — ${r.issues.length} issue(s)` : '';
+    lines.push(`\u2022 Round ${r.round}: ${r.reviewStatus}${issues}${r.revisionDispatchId ? ', revised' : ''}`);
+  }
+
+  if (!outcome.approved && outcome.review?.issues && outcome.review.issues.length > 0) {
+    lines.push('');
+    lines.push('*Open issues:*');
+    for (const issue of outcome.review.issues) {
+      lines.push(`\u2022 ${issue}`);
+    }
+  }
+  return lines.join('\n');
+}
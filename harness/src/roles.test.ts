@@ -1,6 +1,6 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { parseFrontmatter } from './roles.js';
+import { parseFrontmatter, RoleFrontmatterSchema } from './roles.js';
 
 // ============================================================
 // parseFrontmatter — basic parsing (unchanged, format-agnostic)
@@ -106,3 +106,90 @@ You are a .NET developer.
   assert.strictEqual(fm['updatedBy'], 'Bot Greg');
   assert.deepStrictEqual(fm['metadata'], { stack: 'dotnet', tier: 'coding' });
 });
+
+test('retry frontmatter uses kebab-case keys', () => {
+  const content = `---
+id: 01HXYZ01234567890ABCDEFGHJ
+version: 1.0.0
+name: flaky-dev
+description: Retries crashed dispatches.
+createdOn: "2026-02-24T15:00:00Z"
+createdBy: Bill Wheelock
+model-hint: sonnet-latest
+retry:
+  max-attempts: 3
+  backoff-ms: 1000
+  statuses: [crashed, timed_out]
+---
+You retry.
+`;
+  const { frontmatter } = parseFrontmatter(content, 'flaky-dev.md');
+  const result = RoleFrontmatterSchema.safeParse(frontmatter);
+  assert.ok(result.success);
+  assert.deepStrictEqual(result.data.retry, { 'max-attempts': 3, 'backoff-ms': 1000, statuses: ['crashed', 'timed_out'] });
+
+  const invalid = RoleFrontmatterSchema.safeParse({ ...(frontmatter as object), retry: { 'max-attempts': 0 } });
+  assert.ok(!invalid.success);
+});
+
+test('require-approval frontmatter accepts Tool and Tool(pattern) rules', () => {
+  const frontmatter = {
+    id: '01HXYZ01234567890ABCDEFGHJ',
+    version: '1.0.0',
+    name: 'careful-dev',
+    description: 'Asks before pushing.',
+    createdOn: '2026-02-24T15:00:00Z',
+    createdBy: 'Bill Wheelock',
+    'model-hint': 'sonnet-latest',
+    'require-approval': ['Bash(git push*)', 'Write(*.env)', 'mcp__github__*'],
+  };
+  const result = RoleFrontmatterSchema.safeParse(frontmatter);
+  assert.ok(result.success);
+  assert.deepStrictEqual(result.data['require-approval'], ['Bash(git push*)', 'Write(*.env)', 'mcp__github__*']);
+
+  const invalid = RoleFrontmatterSchema.safeParse({ ...frontmatter, 'require-approval': ['Bash(/[unclosed/)'] });
+  assert.ok(!invalid.success);
+});
+
+test('allowed-tools and disallowed-tools frontmatter accept tool rules', () => {
+  const frontmatter = {
+    id: '01HXYZ01234567890ABCDEFGHJ',
+    version: '1.0.0',
+    name: 'reviewer',
+    description: 'Reads, never writes.',
+    createdOn: '2026-02-24T15:00:00Z',
+    createdBy: 'Bill Wheelock',
+    'model-hint': 'sonnet-latest',
+    'allowed-tools': ['Read', 'Grep', 'Bash(git diff*)'],
+    'disallowed-tools': ['Write', 'Edit'],
+  };
+  const result = RoleFrontmatterSchema.safeParse(frontmatter);
+  assert.ok(result.success);
+  assert.deepStrictEqual(result.data['allowed-tools'], ['Read', 'Grep', 'Bash(git diff*)']);
+
+  const invalid = RoleFrontmatterSchema.safeParse({ ...frontmatter, 'disallowed-tools': [''] });
+  assert.ok(!invalid.success);
+});
+
+test('bash-policy frontmatter accepts command patterns', () => {
+  const frontmatter = {
+    id: '01HXYZ01234567890ABCDEFGHJ',
+    version: '1.0.0',
+    name: 'builder',
+    description: 'Builds and tests.',
+    createdOn: '2026-02-24T15:00:00Z',
+    createdBy: 'Bill Wheelock',
+    'model-hint': 'sonnet-latest',
+    'bash-policy': {
+      allow: ['npm test*', 'dotnet build*', 'git status'],
+      deny: ['git push --force*', 'curl *'],
+      'confine-to-project': true,
+    },
+  };
+  const result = RoleFrontmatterSchema.safeParse(frontmatter);
+  assert.ok(result.success);
+  assert.equal(result.data['bash-policy']?.['confine-to-project'], true);
+
+  const invalid = RoleFrontmatterSchema.safeParse({ ...frontmatter, 'bash-policy': { deny: ['/[unclosed/'] } });
+  assert.ok(!invalid.success);
+});
@@ -2,6 +2,12 @@ import { readdirSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import yaml from 'js-yaml';
 import { z } from 'zod';
+import { RetryableStatusEnum } from './retry.js';
+import { ApprovalRuleSchema } from './approvals.js';
+import { CommandPatternSchema } from './bash-policy.js';
+import { assertValidPromptTemplate } from './prompt-templates.js';
+import type { BashPolicy } from './bash-policy.js';
+import type { RetryPolicyOverride } from './retry.js';
 import type { RoleDefinition } from './types.js';
 
 // Exported enums — used by config validation and entity tooling
@@ -28,8 +34,47 @@ export const RoleFrontmatterSchema = z.object({
   // Role-specific fields (kebab-case YAML)
   'model-hint': ModelHintEnum,
   permissions: z.array(PermissionsEnum).optional(),
+  'require-approval': z.array(ApprovalRuleSchema).optional(),
+  'allowed-tools': z.array(ApprovalRuleSchema).optional(),
+  'disallowed-tools': z.array(ApprovalRuleSchema).optional(),
+  'bash-policy': z.object({
+    allow: z.array(CommandPatternSchema).optional(),
+    deny: z.array(CommandPatternSchema).optional(),
+    'confine-to-project': z.boolean().optional(),
+  }).optional(),
+  retry: z.object({
+    'max-attempts': z.number().int().positive().optional(),
+    'backoff-ms': z.number().int().nonnegative().optional(),
+    'backoff-multiplier': z.number().min(1).optional(),
+    'max-backoff-ms': z.number().int().nonnegative().optional(),
+    statuses: z.array(RetryableStatusEnum).optional(),
+    reasons: z.array(z.string().min(1)).optional(),
+  }).optional(),
 });
 
+type RoleRetryFrontmatter = NonNullable<z.infer<typeof RoleFrontmatterSchema>['retry']>;
+
+function toRetryOverride(retry: RoleRetryFrontmatter): RetryPolicyOverride {
+  return {
+    maxAttempts: retry['max-attempts'],
+    backoffMs: retry['backoff-ms'],
+    backoffMultiplier: retry['backoff-multiplier'],
+    maxBackoffMs: retry['max-backoff-ms'],
+    statuses: retry.statuses,
+    reasons: retry.reasons,
+  };
+}
+
+type RoleBashPolicyFrontmatter = NonNullable<z.infer<typeof RoleFrontmatterSchema>['bash-policy']>;
+
+function toBashPolicy(policy: RoleBashPolicyFrontmatter): BashPolicy {
+  return {
+    allow: policy.allow,
+    deny: policy.deny,
+    confineToProject: policy['confine-to-project'],
+  };
+}
+
 export function parseFrontmatter(content: string, filename: string): { frontmatter: unknown; body: string } {
   // Must start with ---
   if (!content.startsWith('---')) {
@@ -79,6 +124,7 @@ export function loadRoles(rolesDir: string): Map<string, RoleDefinition> {
         .join('\n');
       throw new Error(`${file}: invalid frontmatter:\n${issues}`);
     }
+    assertValidPromptTemplate(body, file);
 
     const fm = result.data;
     roles.set(fm.name, {
@@ -94,6 +140,11 @@ export function loadRoles(rolesDir: string): Map<string, RoleDefinition> {
       metadata: fm.metadata,
       modelHint: fm['model-hint'],   // kebab-case YAML → camelCase TS
       permissions: fm.permissions,
+      retry: fm.retry ? toRetryOverride(fm.retry) : undefined,
+      requireApproval: fm['require-approval'],
+      allowedTools: fm['allowed-tools'],
+      disallowedTools: fm['disallowed-tools'],
+      bashPolicy: fm['bash-policy'] ? toBashPolicy(fm['bash-policy']) : undefined,
       prompt: body,
     });
   }
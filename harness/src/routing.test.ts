@@ -0,0 +1,127 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { compilePattern, validatePattern, explainRoute, routeMessage, applyRoute } from './routing.js';
+import type { RoutingConfig } from './routing.js';
+import type { InboundMessage } from './comms.js';
+
+function makeMessage(overrides?: Partial<InboundMessage>): InboundMessage {
+  return {
+    id: 'msg-1',
+    content: 'Please fix the flaky login test',
+    threadId: 'thread-1',
+    source: 'slack',
+    project: 'acme',
+    ...overrides,
+  };
+}
+
+const routing: RoutingConfig = {
+  default: 'assistant',
+  rules: [
+    { match: { source: 'cli' }, role: 'ts-dev' },
+    { pattern: '*.test.*', role: 'qa-dev' },
+    { match: { content: '/\\b(flaky|crash)\\b/i', channel: 'C123*' }, role: 'triage', project: 'support', bot: 'hazel' },
+    { match: { project: 'acme' }, role: 'api-dev', cwd: '/repos/acme-api' },
+  ],
+};
+
+// ── Patterns ─────────────────────────────────────────────────
+
+describe('compilePattern', () => {
+  test('glob matches the whole value, case-insensitively', () => {
+    assert.ok(compilePattern('*deploy*').test('Please DEPLOY to staging'));
+    assert.ok(!compilePattern('deploy').test('deploy now'));
+    assert.ok(compilePattern('slack').test('Slack'));
+  });
+
+  test('glob ? matches one character and * spans newlines', () => {
+    assert.ok(compilePattern('v?.0').test('v2.0'));
+    assert.ok(!compilePattern('v?.0').test('v10.0'));
+    assert.ok(compilePattern('fix*done').test('fix\nthen\ndone'));
+  });
+
+  test('glob escapes regex metacharacters', () => {
+    assert.ok(compilePattern('a.b').test('a.b'));
+    assert.ok(!compilePattern('a.b').test('axb'));
+    assert.ok(compilePattern('(x)+').test('(x)+'));
+  });
+
+  test('/regex/flags is used as a regular expression, unanchored', () => {
+    assert.ok(compilePattern('/^fix\\b/i').test('FIX the build'));
+    assert.ok(compilePattern('/bug/').test('there is a bug here'));
+    assert.ok(!compilePattern('/bug/').test('BUG'));
+  });
+
+  test('validatePattern reports invalid regexes', () => {
+    assert.equal(validatePattern('*ok*'), undefined);
+    assert.ok(validatePattern('/([a-z/'));
+  });
+});
+
+// ── Evaluation ───────────────────────────────────────────────
+
+describe('explainRoute', () => {
+  test('first matching rule wins and sets its targets', () => {
+    const { decision, trace } = explainRoute(makeMessage({ metadata: { channel: 'C123ABC' } }), routing);
+
+    assert.deepEqual(decision, { ruleIndex: 2, role: 'triage', project: 'support', bot: 'hazel' });
+    assert.equal(trace.length, 3, 'stops evaluating after the match');
+    assert.deepEqual(trace.map(t => t.matched), [false, false, true]);
+  });
+
+  test('all conditions in a rule must match', () => {
+    // flaky content but wrong channel — falls through to the project rule
+    const decision = routeMessage(makeMessage({ metadata: { channel: 'C999' } }), routing);
+    assert.equal(decision.ruleIndex, 3);
+    assert.equal(decision.role, 'api-dev');
+    assert.equal(decision.cwd, '/repos/acme-api');
+  });
+
+  test('legacy pattern key matches content', () => {
+    const decision = routeMessage(makeMessage({ content: 'update src/auth.test.ts', project: 'other' }), routing);
+    assert.equal(decision.ruleIndex, 1);
+    assert.equal(decision.role, 'qa-dev');
+  });
+
+  test('channel falls back to channelId then threadId', () => {
+    const rules: RoutingConfig = { default: 'assistant', rules: [{ match: { channel: 'ws-*' }, role: 'ts-dev' }] };
+    assert.equal(routeMessage(makeMessage({ metadata: { channelId: 'ws-42' } }), rules).role, 'ts-dev');
+    assert.equal(routeMessage(makeMessage({ threadId: 'ws-7' }), rules).role, 'ts-dev');
+  });
+
+  test('missing field values never match', () => {
+    const rules: RoutingConfig = { default: 'assistant', rules: [{ match: { project: '*' }, role: 'ts-dev' }] };
+    const { decision, trace } = explainRoute(makeMessage({ project: undefined }), rules);
+    assert.equal(decision.role, 'assistant');
+    assert.equal(trace[0]?.checks[0]?.value, undefined);
+  });
+
+  test('falls back to routing.default when nothing matches', () => {
+    const { decision, trace } = explainRoute(makeMessage({ content: 'hello', project: 'other' }), routing);
+    assert.deepEqual(decision, { role: 'assistant' });
+    assert.equal(trace.length, routing.rules.length);
+  });
+
+  test('a rule without a role keeps the default role', () => {
+    const rules: RoutingConfig = { default: 'assistant', rules: [{ match: { source: 'slack' }, project: 'support' }] };
+    assert.deepEqual(routeMessage(makeMessage(), rules), { ruleIndex: 0, role: 'assistant', project: 'support' });
+  });
+});
+
+describe('applyRoute', () => {
+  test('sets role, replaces project, and adds cwd/bot metadata', () => {
+    const routed = applyRoute(makeMessage(), { ruleIndex: 0, role: 'triage', project: 'support', bot: 'hazel', cwd: '/repo' });
+    assert.equal(routed.role, 'triage');
+    assert.equal(routed.project, 'support');
+    assert.deepEqual(routed.metadata, { cwdOverride: '/repo', bot: 'hazel' });
+  });
+
+  test('explicit cwd and bot overrides on the message win', () => {
+    const routed = applyRoute(
+      makeMessage({ metadata: { cwdOverride: '/mine', bot: 'cedar', taskSlug: 't' } }),
+      { ruleIndex: 0, role: 'triage', bot: 'hazel', cwd: '/repo' },
+    );
+    assert.deepEqual(routed.metadata, { cwdOverride: '/mine', bot: 'cedar', taskSlug: 't' });
+    assert.equal(routed.project, 'acme');
+  });
+});
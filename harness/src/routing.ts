@@ -0,0 +1,167 @@
+import type { Config } from './config.js';
+import type { InboundMessage } from './comms.js';
+
+// ── Types ────────────────────────────────────────────────────
+
+export type RoutingConfig = Config['routing'];
+export type RoutingRule = RoutingConfig['rules'][number];
+
+export type RouteField = 'content' | 'source' | 'channel' | 'project';
+
+export const ROUTE_FIELDS: readonly RouteField[] = ['content', 'source', 'channel', 'project'];
+
+export type RouteCheck = {
+  field: RouteField;
+  pattern: string;
+  value: string | undefined;
+  matched: boolean;
+};
+
+export type RuleTrace = {
+  index: number;
+  rule: RoutingRule;
+  matched: boolean;
+  checks: RouteCheck[];
+};
+
+/** Outcome of routing — `ruleIndex` is undefined when the default role was used. */
+export type RouteDecision = {
+  ruleIndex?: number;
+  role: string;
+  project?: string;
+  bot?: string;
+  cwd?: string;
+};
+
+export type RouteExplanation = {
+  decision: RouteDecision;
+  trace: RuleTrace[];
+};
+
+// ── Patterns ─────────────────────────────────────────────────
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/s;
+
+/**
+ * Compile a routing pattern. `/.../flags` is a regular expression (unanchored);
+ * anything else is a case-insensitive glob over the whole value, where `*`
+ * matches any run of characters (including newlines) and `?` a single one.
+ * Throws on an invalid regular expression.
+ */
+export function compilePattern(pattern: string): RegExp {
+  const literal = REGEX_LITERAL.exec(pattern);
+  if (literal) {
+    return new RegExp(literal[1]!, literal[2]);
+  }
+
+  const source = pattern
+    .split('')
+    .map((ch) => {
+      if (ch === '*') return '.*';
+      if (ch === '?') return '.';
+      return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+/** Returns an error message for an invalid pattern, or undefined if it compiles. */
+export function validatePattern(pattern: string): string | undefined {
+  try {
+    compilePattern(pattern);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// ── Evaluation ───────────────────────────────────────────────
+
+function fieldValue(message: InboundMessage, field: RouteField): string | undefined {
+  switch (field) {
+    case 'content':
+      return message.content;
+    case 'source':
+      return message.source;
+    case 'channel': {
+      const channel = message.metadata?.['channel'] ?? message.metadata?.['channelId'] ?? message.threadId;
+      return typeof channel === 'string' ? channel : undefined;
+    }
+    case 'project':
+      return message.project;
+  }
+}
+
+/** Field → pattern pairs a rule checks. The legacy `pattern` key is shorthand for `match.content`. */
+export function ruleConditions(rule: RoutingRule): Array<{ field: RouteField; pattern: string }> {
+  const conditions: Array<{ field: RouteField; pattern: string }> = [];
+  if (rule.pattern !== undefined) conditions.push({ field: 'content', pattern: rule.pattern });
+  for (const field of ROUTE_FIELDS) {
+    const pattern = rule.match?.[field];
+    if (pattern !== undefined) conditions.push({ field, pattern });
+  }
+  return conditions;
+}
+
+function evaluateRule(rule: RoutingRule, index: number, message: InboundMessage): RuleTrace {
+  const checks: RouteCheck[] = ruleConditions(rule).map(({ field, pattern }) => {
+    const value = fieldValue(message, field);
+    return {
+      field,
+      pattern,
+      value,
+      matched: value !== undefined && compilePattern(pattern).test(value),
+    };
+  });
+  return { index, rule, matched: checks.every((c) => c.matched), checks };
+}
+
+/**
+ * Evaluate routing rules in order (first match wins) and report every rule's
+ * checks up to and including the match. A rule with no conditions matches
+ * everything; falls back to `routing.default` when nothing matches.
+ */
+export function explainRoute(message: InboundMessage, routing: RoutingConfig): RouteExplanation {
+  const trace: RuleTrace[] = [];
+
+  for (const [index, rule] of routing.rules.entries()) {
+    const result = evaluateRule(rule, index, message);
+    trace.push(result);
+    if (result.matched) {
+      return {
+        decision: {
+          ruleIndex: index,
+          role: rule.role ?? routing.default,
+          ...(rule.project ? { project: rule.project } : {}),
+          ...(rule.bot ? { bot: rule.bot } : {}),
+          ...(rule.cwd ? { cwd: rule.cwd } : {}),
+        },
+        trace,
+      };
+    }
+  }
+
+  return { decision: { role: routing.default }, trace };
+}
+
+export function routeMessage(message: InboundMessage, routing: RoutingConfig): RouteDecision {
+  return explainRoute(message, routing).decision;
+}
+
+/**
+ * Apply a routing decision to a message. A rule's project replaces the
+ * adapter's project context; explicit per-message cwd and bot overrides win
+ * over the rule.
+ */
+export function applyRoute(message: InboundMessage, decision: RouteDecision): InboundMessage {
+  const metadata: Record<string, unknown> = { ...message.metadata };
+  if (decision.cwd && metadata['cwdOverride'] === undefined) metadata['cwdOverride'] = decision.cwd;
+  if (decision.bot && metadata['bot'] === undefined) metadata['bot'] = decision.bot;
+
+  return {
+    ...message,
+    role: message.role ?? decision.role,
+    project: decision.project ?? message.project,
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+  };
+}
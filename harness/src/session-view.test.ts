@@ -220,6 +220,56 @@ test('renders harness:loop_kill event', () => {
   assert.ok(view.includes('[loop_kill]'));
 });
 
+test('renders harness:budget_warning and budget_exceeded events', () => {
+  const taskDir = makeTempDir();
+  store.createDispatch(taskDir, makeEnvelope());
+  store.appendEvent(taskDir, '01JSVIEW001', makeEvent({
+    type: 'harness:budget_warning',
+    timestamp: '2026-03-01T10:01:00.000Z',
+    data: { usedTokens: 8200, tokenBudget: 10000, percent: 82 },
+  }));
+  store.appendEvent(taskDir, '01JSVIEW001', makeEvent({
+    id: '01JEVT0002',
+    type: 'harness:budget_exceeded',
+    timestamp: '2026-03-01T10:01:30.000Z',
+    data: { usedTokens: 10400, tokenBudget: 10000, percent: 104 },
+  }));
+
+  const view = renderSessionView(taskDir, '01JSVIEW001')!;
+  assert.ok(view.includes('10:01:00 [budget_warning] 8.2K / 10.0K tokens used'));
+  assert.ok(view.includes('10:01:30 [budget_exceeded] Token budget exceeded (10.4K / 10.0K)'));
+});
+
+test('renders terminal status in header', () => {
+  const taskDir = makeTempDir();
+  store.createDispatch(taskDir, makeEnvelope());
+  store.updateDispatch(taskDir, '01JSVIEW001', { status: 'budget_exceeded' });
+
+  const view = renderSessionView(taskDir, '01JSVIEW001')!;
+  assert.ok(view.includes('Status: budget_exceeded'));
+});
+
+test('renders git changes under the header', () => {
+  const taskDir = makeTempDir();
+  store.createDispatch(taskDir, makeEnvelope({
+    status: 'completed',
+    git: {
+      before: { head: 'a1b2c3d4e5f6', branch: 'main', dirty: false },
+      after: { head: 'f6e5d4c3b2a1', branch: 'main', dirty: true },
+      commits: [{ sha: 'f6e5d4c3b2a1', subject: 'Add login endpoint' }],
+      files: [{ path: 'src/auth.ts', insertions: 12, deletions: 3 }],
+      insertions: 12,
+      deletions: 3,
+      diff: true,
+    },
+  }));
+
+  const view = renderSessionView(taskDir, '01JSVIEW001')!;
+  assert.ok(view.includes('Git: main@a1b2c3d → f6e5d4c | 1 commit, 1 file changed (+12 −3) | dispatches/01JSVIEW001.diff'));
+  assert.ok(view.includes('  f6e5d4c Add login endpoint'));
+  assert.ok(view.includes('  src/auth.ts (+12 −3)'));
+});
+
 test('renders harness:stall event', () => {
   const taskDir = makeTempDir();
   store.createDispatch(taskDir, makeEnvelope());
@@ -244,6 +294,25 @@ test('renders harness:abort event', () => {
   assert.ok(view.includes('[abort] Agent aborted'));
 });
 
+test('renders harness:verify events', () => {
+  const taskDir = makeTempDir();
+  store.createDispatch(taskDir, makeEnvelope());
+  store.appendEvent(taskDir, '01JSVIEW001', makeEvent({
+    type: 'harness:verify',
+    timestamp: '2026-03-01T10:02:00.000Z',
+    data: { command: 'npm test', exitCode: 1, durationMs: 4200, timedOut: false, output: 'FAIL' },
+  }));
+  store.appendEvent(taskDir, '01JSVIEW001', makeEvent({
+    type: 'harness:verify',
+    timestamp: '2026-03-01T10:03:00.000Z',
+    data: { command: 'npm test', exitCode: 0, durationMs: 3900, timedOut: false, output: 'ok', fixAttempt: 1 },
+  }));
+
+  const view = renderSessionView(taskDir, '01JSVIEW001')!;
+  assert.ok(view.includes('[verify] npm test failed (exit 1) in 4s'));
+  assert.ok(view.includes('[verify] npm test passed in 4s — after fix attempt 1'));
+});
+
 test('renders harness:error event', () => {
   const taskDir = makeTempDir();
   store.createDispatch(taskDir, makeEnvelope());
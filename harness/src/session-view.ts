@@ -1,4 +1,5 @@
 import { getDispatchStore } from './dispatch-store.js';
+import { formatGitSummary, formatGitFiles } from './git-state.js';
 import type { CapturedEvent, DispatchEnvelope } from './types.js';
 
 /**
@@ -18,6 +19,7 @@ export function renderSessionView(taskDir: string, dispatchId: string): string |
   // Header
   lines.push(`## Session: ${envelope.role} (${dispatchId})`);
   lines.push(renderHeaderLine(envelope));
+  lines.push(...renderGitLines(envelope));
   lines.push('');
 
   // Chronological event stream
@@ -38,9 +40,32 @@ function renderHeaderLine(envelope: DispatchEnvelope): string {
     parts.push(`Cost: $${envelope.cost.toFixed(2)}`);
   }
 
+  if (envelope.status !== 'running') {
+    parts.push(`Status: ${envelope.status}`);
+  }
+
   return parts.join(' | ');
 }
 
+function renderGitLines(envelope: DispatchEnvelope): string[] {
+  const state = envelope.git;
+  if (!state) return [];
+  const where = `${state.before.branch ?? 'detached'}@${state.before.head.slice(0, 7)}`;
+  const summary = formatGitSummary(state);
+  if (!state.after || !summary) {
+    return [`Git: ${where}${state.before.dirty ? ' (dirty)' : ''}`];
+  }
+
+  const lines = [`Git: ${where} → ${state.after.head.slice(0, 7)} | ${summary}${state.diff ? ` | dispatches/${envelope.dispatchId}.diff` : ''}`];
+  for (const commit of state.commits ?? []) {
+    lines.push(`  ${commit.sha.slice(0, 7)} ${commit.subject}`);
+  }
+  for (const file of formatGitFiles(state)) {
+    lines.push(`  ${file}`);
+  }
+  return lines;
+}
+
 function renderEvent(event: CapturedEvent): string {
   const time = formatTime(event.timestamp);
   const data = event.data ?? {};
@@ -97,6 +122,46 @@ function renderEvent(event: CapturedEvent): string {
     case 'harness:abort':
       return `${time} [abort] Agent aborted`;
 
+    case 'harness:budget_warning':
+      return `${time} [budget_warning] ${formatTokens(Number(data.usedTokens ?? 0))} / ${formatTokens(Number(data.tokenBudget ?? 0))} tokens used`;
+
+    case 'harness:budget_exceeded':
+      return `${time} [budget_exceeded] Token budget exceeded (${formatTokens(Number(data.usedTokens ?? 0))} / ${formatTokens(Number(data.tokenBudget ?? 0))})`;
+
+    case 'harness:retry':
+      return `${time} [retry] ${data.status ?? 'failed'}${data.reason ? ` (${data.reason})` : ''} — attempt ${data.attempt ?? '?'}/${data.maxAttempts ?? '?'} in ${Math.round(Number(data.delayMs ?? 0) / 1000)}s`;
+
+    case 'harness:model_fallback':
+      return `${time} [fallback] ${data.from ?? '?'} → ${data.to ?? '?'}${data.reason ? ` (${data.reason})` : ''}`;
+
+    case 'harness:approval_request':
+      return `${time} [approval] ${data.tool ?? '?'} ${truncate(String(data.target ?? ''), 80)} — waiting (rule ${data.rule ?? '?'})`;
+
+    case 'harness:approval_decision':
+      return `${time} [approval] ${data.tool ?? '?'} ${data.decision ?? '?'}${data.by ? ` by ${data.by}` : ''}${data.decision === 'timed_out' ? (data.allowed ? ' — allowed' : ' — denied') : ''}`;
+
+    case 'harness:cost_warning':
+      return `${time} [cost] ${data.level ?? '?'}${data.name ? ` ${data.name}` : ''} ${data.period ?? '?'} cap at ${data.percent ?? '?'}% ($${Number(data.spentUsd ?? 0).toFixed(2)} / $${Number(data.cap ?? 0).toFixed(2)})`;
+
+    case 'harness:task_budget_exhausted':
+      return `${time} [task_budget] Task budget exhausted ($${Number(data.spentUsd ?? 0).toFixed(2)}${data.budgetUsd !== undefined ? ` / $${Number(data.budgetUsd).toFixed(2)}` : ''}, ${formatTokens(Number(data.spentTokens ?? 0))} tokens)`;
+
+    case 'harness:permission_denied':
+      return `${time} [permission] ${data.tool ?? '?'} denied — role ${data.role ?? '?'} lacks ${data.permission ?? '?'}`;
+
+    case 'harness:policy_denied':
+      return `${time} [policy] ${data.tool ?? '?'} denied by ${data.source ?? '?'} policy — ${truncate(String(data.reason ?? ''), 160)}`;
+
+    case 'harness:write_denied':
+      return `${time} [fence] ${data.tool ?? '?'} write to ${data.path ?? '?'} blocked`;
+
+    case 'harness:verify': {
+      const outcome = data.exitCode === 0 ? 'passed'
+        : data.timedOut ? 'timed out'
+        : `failed (exit ${data.exitCode ?? '?'})`;
+      return `${time} [verify] ${truncate(String(data.command ?? '?'), 80)} ${outcome} in ${Math.round(Number(data.durationMs ?? 0) / 1000)}s${data.fixAttempt ? ` — after fix attempt ${data.fixAttempt}` : ''}`;
+    }
+
     case 'harness:error':
       return `${time} [error] ${truncate(String(data.message ?? data.error ?? 'Unknown error'), 200)}`;
 
@@ -0,0 +1,262 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { getCostLedger, type CostEntry } from './costs.js';
+import {
+  getTaskBudgetStatus,
+  setTaskBudget,
+  settleTaskBudget,
+  formatTaskBudgetExhausted,
+} from './task-budget.js';
+import { createTask, readTaskManifest, type TaskManifest } from './task.js';
+import { markAwaitingAnswers } from './questions.js';
+import { ScriptedEngine, setAgentEngine } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { formatDispatchPreview } from './dispatch-preview.js';
+import { AgentPool } from './pool.js';
+import { getProjectTasksDir } from './project.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+function makeEntry(overrides: Partial<CostEntry> = {}): CostEntry {
+  return {
+    at: '2026-03-10T12:00:00.000Z',
+    usd: 1,
+    project: 'demo',
+    role: 'api-dev',
+    model: 'claude-sonnet-4-6',
+    source: 'dispatch',
+    dispatchId: 'd1',
+    inputTokens: 100,
+    outputTokens: 50,
+    ...overrides,
+  };
+}
+
+let homeDir: string;
+let repoDir: string;
+let projectsDir: string;
+let prevHome: string | undefined;
+
+before(() => {
+  homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-budget-home-'));
+  fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+  fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+  repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-budget-repo-'));
+  projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-budget-projects-'));
+  prevHome = process.env.COLLABOT_HOME;
+  process.env.COLLABOT_HOME = homeDir;
+  _resetInstanceRoot();
+});
+
+after(() => {
+  if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+  else process.env.COLLABOT_HOME = prevHome;
+  _resetInstanceRoot();
+  for (const dir of [homeDir, repoDir, projectsDir]) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function makeTask(name: string, budget: { budgetUsd?: number; tokenBudget?: number } = {}) {
+  return createTask(getProjectTasksDir(projectsDir, 'demo'), { name, project: 'demo', ...budget });
+}
+
+function readStatus(taskDir: string): TaskManifest['status'] {
+  return (JSON.parse(fs.readFileSync(path.join(taskDir, 'task.json'), 'utf-8')) as TaskManifest).status;
+}
+
+// ── Budget state ────────────────────────────────────────────────
+
+describe('task budgets', () => {
+  test('sums ledger spend for the task only', () => {
+    const task = makeTask('Sums spend', { budgetUsd: 2, tokenBudget: 1000 });
+    const ledger = getCostLedger();
+    ledger.record(makeEntry({ usd: 0.5, taskSlug: task.slug }), {} as Config);
+    ledger.record(makeEntry({ usd: 0.25, taskSlug: task.slug, source: 'bot_session' }), {} as Config);
+    ledger.record(makeEntry({ usd: 5, taskSlug: 'other-task' }), {} as Config);
+
+    const status = getTaskBudgetStatus(task.taskDir);
+    assert.equal(status?.spentUsd, 0.75);
+    assert.equal(status?.remainingUsd, 1.25);
+    assert.equal(status?.spentTokens, 300);
+    assert.equal(status?.remainingTokens, 700);
+    assert.equal(status?.exhausted, false);
+  });
+
+  test('counts an entry in the stream-equivalent unit when it records one', () => {
+    const task = makeTask('Stream tokens', { tokenBudget: 1000 });
+    getCostLedger().record(makeEntry({ taskSlug: task.slug, inputTokens: 500, outputTokens: 50, tokens: 150 }), {} as Config);
+
+    assert.equal(getTaskBudgetStatus(task.taskDir)?.spentTokens, 150);
+  });
+
+  test('returns undefined for tasks without a budget', () => {
+    const task = makeTask('No budget');
+    assert.equal(getTaskBudgetStatus(task.taskDir), undefined);
+  });
+
+  test('settles to budget_exhausted and reopens when the budget is raised', () => {
+    const task = makeTask('Runs out', { tokenBudget: 150 });
+    getCostLedger().record(makeEntry({ taskSlug: task.slug }), {} as Config);
+
+    const exhausted = settleTaskBudget(task.taskDir);
+    assert.equal(exhausted?.exhausted, true);
+    assert.match(formatTaskBudgetExhausted(task.slug, exhausted!), /150 of 150 tokens/);
+    assert.equal(readStatus(task.taskDir), 'budget_exhausted');
+
+    const raised = setTaskBudget(task.taskDir, { tokenBudget: 500 });
+    assert.equal(raised?.remainingTokens, 350);
+    assert.equal(readStatus(task.taskDir), 'open');
+
+    setTaskBudget(task.taskDir, { tokenBudget: null });
+    assert.equal(getTaskBudgetStatus(task.taskDir), undefined);
+  });
+
+  test('setting a budget keeps state written by other manifest updates', () => {
+    const task = makeTask('Parked');
+    const pending = { dispatchId: 'd1', role: 'api-dev', questions: ['Which DB?'], askedAt: '2026-03-10T12:00:00.000Z' };
+    markAwaitingAnswers(task.taskDir, pending);
+
+    setTaskBudget(task.taskDir, { budgetUsd: 10 });
+    const manifest = readTaskManifest(task.taskDir);
+    assert.equal(manifest.status, 'awaiting_answers');
+    assert.deepEqual(manifest.pendingQuestions, pending);
+    assert.equal(manifest.budgetUsd, 10);
+  });
+});
+
+// ── collabDispatch ──────────────────────────────────────────────
+
+const SESSION_ID = 'task-budget-session';
+
+function success(cost: number): SDKMessage[] {
+  return [
+    { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-sonnet-4-6' },
+    {
+      type: 'result',
+      subtype: 'success',
+      session_id: SESSION_ID,
+      result: 'done',
+      is_error: false,
+      num_turns: 1,
+      duration_ms: 5,
+      duration_api_ms: 5,
+      total_cost_usd: cost,
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  ] as unknown as SDKMessage[];
+}
+
+/** One API message re-sending a 100-token context. */
+function assistant(id: string): SDKMessage {
+  return {
+    type: 'assistant',
+    session_id: SESSION_ID,
+    parent_tool_use_id: null,
+    message: {
+      id,
+      role: 'assistant',
+      content: [{ type: 'text', text: `Turn ${id}.` }],
+      usage: { input_tokens: 100, output_tokens: 10, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  } as unknown as SDKMessage;
+}
+
+describe('collabDispatch — task budgets', () => {
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(): CollabDispatchContext {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('api-dev', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'api-dev',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You write APIs.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', { name: 'demo', description: 'Budget project', paths: [repoDir], roles: ['api-dev'] });
+
+    return {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 3 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+  }
+
+  test('caps each dispatch at the remaining budget and refuses once it is spent', async () => {
+    const ctx = makeCtx();
+    const task = makeTask('Dispatch budget', { budgetUsd: 1 });
+
+    const engine = new ScriptedEngine(success(0.6));
+    setAgentEngine(engine);
+    const first = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Build it.', taskSlug: task.slug }, ctx);
+    assert.equal(first.status, 'completed');
+    assert.equal(engine.calls[0]?.options.maxBudgetUsd, 1);
+
+    const second = new ScriptedEngine(success(0.5));
+    setAgentEngine(second);
+    await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Build more.', taskSlug: task.slug }, ctx);
+    assert.ok(Math.abs((second.calls[0]?.options.maxBudgetUsd ?? 0) - 0.4) < 1e-9);
+    assert.equal(readStatus(task.taskDir), 'budget_exhausted');
+
+    const third = new ScriptedEngine(success(0.1));
+    setAgentEngine(third);
+    const refused = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'And more.', taskSlug: task.slug }, ctx);
+    assert.equal(refused.status, 'budget_exceeded');
+    assert.equal(refused.reason, 'task_budget');
+    assert.match(refused.result ?? '', /has used its budget/);
+    assert.equal(third.calls.length, 0);
+  });
+
+  test('spends tokens on the task the way the in-stream budget counts them', async () => {
+    const task = makeTask('Token units', { tokenBudget: 1000 });
+    const [init, result] = success(0.1);
+    // Three turns re-sending a 100-token context: 100 + 3 × 10 output
+    setAgentEngine(new ScriptedEngine([init!, assistant('m1'), assistant('m2'), assistant('m3'), result!]));
+    const dispatched = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Count.', taskSlug: task.slug }, makeCtx());
+
+    const entry = getCostLedger().list().find(e => e.dispatchId === dispatched.dispatchId);
+    assert.equal(entry?.tokens, 130);
+    assert.equal(getTaskBudgetStatus(task.taskDir)?.spentTokens, 130);
+  });
+
+  test('a dry run on an exhausted task previews the refusal and leaves task.json untouched', async () => {
+    const task = makeTask('Dry run budget', { budgetUsd: 1 });
+    getCostLedger().record(makeEntry({ usd: 2, taskSlug: task.slug }), {} as Config);
+    const manifestPath = path.join(task.taskDir, 'task.json');
+    const before = fs.readFileSync(manifestPath);
+
+    const engine = new ScriptedEngine(success(0.1));
+    setAgentEngine(engine);
+    const result = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Preview.', taskSlug: task.slug, dryRun: true }, makeCtx());
+
+    assert.equal(result.reason, 'dry_run');
+    assert.equal(result.preview?.budgets.task?.exhausted, true);
+    assert.match(formatDispatchPreview(result.preview!).join('\n'), /Task budget: .* exhausted, the dispatch would be refused/);
+    assert.equal(engine.calls.length, 0);
+    assert.ok(fs.readFileSync(manifestPath).equals(before));
+  });
+});
@@ -0,0 +1,112 @@
+import { getCostLedger } from './costs.js';
+import { readTaskManifest, updateTaskManifest, type TaskManifest } from './task.js';
+
+/** Cumulative limits across every dispatch and bot turn on a task. */
+export type TaskBudget = {
+  budgetUsd?: number;
+  tokenBudget?: number;
+};
+
+export type TaskBudgetStatus = TaskBudget & {
+  spentUsd: number;
+  spentTokens: number;
+  remainingUsd?: number;     // set when budgetUsd is
+  remainingTokens?: number;  // set when tokenBudget is
+  exhausted: boolean;
+};
+
+// ── Task state ──────────────────────────────────────────────────
+
+/**
+ * Spend against a task's budget, summed from the cost ledger. Returns
+ * undefined when the task has no budget (or cannot be read).
+ */
+export function getTaskBudgetStatus(taskDir: string): TaskBudgetStatus | undefined {
+  let manifest: TaskManifest;
+  try {
+    manifest = readTaskManifest(taskDir);
+  } catch {
+    return undefined;
+  }
+  if (manifest.budgetUsd === undefined && manifest.tokenBudget === undefined) return undefined;
+
+  let spentUsd = 0;
+  let spentTokens = 0;
+  for (const entry of getCostLedger().list()) {
+    if (entry.taskSlug !== manifest.slug || entry.project.toLowerCase() !== manifest.project.toLowerCase()) continue;
+    spentUsd += entry.usd;
+    // Same unit as the in-stream tokenBudget, so a capped dispatch and the task agree
+    spentTokens += entry.tokens ?? entry.inputTokens + entry.outputTokens;
+  }
+
+  const remainingUsd = manifest.budgetUsd !== undefined ? Math.max(0, manifest.budgetUsd - spentUsd) : undefined;
+  const remainingTokens = manifest.tokenBudget !== undefined ? Math.max(0, manifest.tokenBudget - spentTokens) : undefined;
+  return {
+    ...(manifest.budgetUsd !== undefined ? { budgetUsd: manifest.budgetUsd, remainingUsd } : {}),
+    ...(manifest.tokenBudget !== undefined ? { tokenBudget: manifest.tokenBudget, remainingTokens } : {}),
+    spentUsd,
+    spentTokens,
+    exhausted: remainingUsd === 0 || remainingTokens === 0,
+  };
+}
+
+/**
+ * Set or clear (null) a task's budget. A `budget_exhausted` task is reopened
+ * when the new budget leaves room to spend.
+ */
+export function setTaskBudget(
+  taskDir: string,
+  budget: { budgetUsd?: number | null; tokenBudget?: number | null },
+): TaskBudgetStatus | undefined {
+  updateTaskManifest(taskDir, (manifest) => {
+    if (budget.budgetUsd !== undefined) {
+      if (budget.budgetUsd === null) delete manifest.budgetUsd;
+      else manifest.budgetUsd = budget.budgetUsd;
+    }
+    if (budget.tokenBudget !== undefined) {
+      if (budget.tokenBudget === null) delete manifest.tokenBudget;
+      else manifest.tokenBudget = budget.tokenBudget;
+    }
+  });
+
+  const status = getTaskBudgetStatus(taskDir);
+  if (!status?.exhausted) {
+    updateTaskManifest(taskDir, (manifest) => {
+      if (manifest.status === 'budget_exhausted') manifest.status = 'open';
+    });
+  }
+  return status;
+}
+
+/** Move a task to `budget_exhausted`. Closed tasks stay closed. */
+export function markBudgetExhausted(taskDir: string): void {
+  updateTaskManifest(taskDir, (manifest) => {
+    if (manifest.status === 'closed' || manifest.status === 'budget_exhausted') return;
+    manifest.status = 'budget_exhausted';
+  });
+}
+
+/**
+ * Re-check a budgeted task after it has spent. Moves it to `budget_exhausted`
+ * and returns the status when the budget ran out, otherwise undefined.
+ */
+export function settleTaskBudget(taskDir: string): TaskBudgetStatus | undefined {
+  const status = getTaskBudgetStatus(taskDir);
+  if (!status?.exhausted) return undefined;
+  markBudgetExhausted(taskDir);
+  return status;
+}
+
+// ── Formatting ──────────────────────────────────────────────────
+
+export function formatTaskBudget(status: TaskBudgetStatus): string {
+  const parts: string[] = [];
+  if (status.budgetUsd !== undefined) parts.push(`$${status.spentUsd.toFixed(2)} of $${status.budgetUsd.toFixed(2)}`);
+  if (status.tokenBudget !== undefined) parts.push(`${status.spentTokens} of ${status.tokenBudget} tokens`);
+  return parts.join(', ');
+}
+
+/** Error shown when a dispatch or bot turn is refused on an exhausted task. */
+export function formatTaskBudgetExhausted(taskSlug: string, status: TaskBudgetStatus): string {
+  return `Task "${taskSlug}" has used its budget (${formatTaskBudget(status)}). Raise the task budget to continue.`;
+}
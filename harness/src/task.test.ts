@@ -3,7 +3,7 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { createTask, findTaskByThread, getTask, listTasks, closeTask, getOpenTasks, generateSlug, deduplicateSlug, nextJournalFile } from './task.js';
+import { createTask, findTaskByThread, getTask, listTasks, closeTask, getOpenTasks, generateSlug, deduplicateSlug, nextJournalFile, readTaskManifest, updateTaskManifest } from './task.js';
 import type { TaskManifest } from './task.js';
 
 function makeTempDir(): string {
@@ -102,6 +102,48 @@ test('listTasks returns empty for non-existent dir', () => {
   assert.strictEqual(tasks.length, 0);
 });
 
+// ── updateTaskManifest ──────────────────────────────────────────
+
+test('updateTaskManifest re-reads the manifest, so earlier updates are kept', () => {
+  const tasksDir = makeTempDir();
+  const task = createTask(tasksDir, { name: 'Shared', project: 'acme' });
+  updateTaskManifest(task.taskDir, (m) => { m.budgetUsd = 5; });
+  const updated = updateTaskManifest(task.taskDir, (m) => { m.status = 'budget_exhausted'; });
+
+  assert.strictEqual(updated.budgetUsd, 5);
+  assert.deepStrictEqual(readManifest(task.taskDir), updated);
+  assert.deepStrictEqual(readTaskManifest(task.taskDir), updated);
+  assert.deepStrictEqual(fs.readdirSync(task.taskDir).sort(), ['task.json']);
+});
+
+test('updateTaskManifest releases the lock when the update throws', () => {
+  const tasksDir = makeTempDir();
+  const task = createTask(tasksDir, { name: 'Throws', project: 'acme' });
+  assert.throws(() => updateTaskManifest(task.taskDir, () => { throw new Error('boom'); }), /boom/);
+
+  assert.ok(!fs.existsSync(path.join(task.taskDir, 'task.json.lock')));
+  assert.strictEqual(readManifest(task.taskDir).status, 'open');
+});
+
+test('updateTaskManifest takes over a stale lock', () => {
+  const tasksDir = makeTempDir();
+  const task = createTask(tasksDir, { name: 'Stale', project: 'acme' });
+  const lockPath = path.join(task.taskDir, 'task.json.lock');
+  fs.writeFileSync(lockPath, '');
+  const old = new Date(Date.now() - 60_000);
+  fs.utimesSync(lockPath, old, old);
+
+  updateTaskManifest(task.taskDir, (m) => { m.status = 'closed'; });
+  assert.strictEqual(readManifest(task.taskDir).status, 'closed');
+  assert.ok(!fs.existsSync(lockPath));
+});
+
+test('readTaskManifest and updateTaskManifest throw for a missing task', () => {
+  const taskDir = path.join(makeTempDir(), 'missing');
+  assert.throws(() => readTaskManifest(taskDir), /Task not found/);
+  assert.throws(() => updateTaskManifest(taskDir, () => {}), /Task not found/);
+});
+
 // ── closeTask ───────────────────────────────────────────────────
 
 test('closeTask sets status to closed', () => {
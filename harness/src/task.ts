@@ -13,10 +13,24 @@ export type TaskManifest = {
   name: string;
   project: string;
   description?: string;
-  status: 'open' | 'closed';
+  status: 'open' | 'closed' | 'awaiting_answers' | 'budget_exhausted';
   created: string;
   threadTs?: string;     // optional — only set when created from a thread
   dispatches: DispatchIndexEntry[];
+  pendingQuestions?: PendingQuestions;  // set while status is 'awaiting_answers'
+  budgetUsd?: number;    // cumulative USD cap across all dispatches and bot turns
+  tokenBudget?: number;  // cumulative token cap across all dispatches and bot turns
+  workflow?: import('./workflow-run.js').WorkflowRun;  // latest workflow run on this task
+};
+
+/** Questions a dispatch ended with, held on the task until a human answers. */
+export type PendingQuestions = {
+  dispatchId: string;
+  role: string;
+  questions: string[];
+  askedAt: string;       // ISO timestamp
+  sessionId?: string;    // SDK session to resume with the answers
+  channelId?: string;    // adapter channel the questions were posted to
 };
 
 // Common words to strip from slug generation
@@ -94,6 +108,8 @@ export function createTask(tasksDir: string, opts: {
   project: string;
   description?: string;
   threadId?: string;
+  budgetUsd?: number;
+  tokenBudget?: number;
 }): CreateTaskResult {
   const gen = generateSlug(opts.name);
   const { slug, deduplicated } = deduplicateSlug(tasksDir, gen.slug);
@@ -109,6 +125,8 @@ export function createTask(tasksDir: string, opts: {
     created: new Date().toISOString(),
     threadTs: opts.threadId,
     dispatches: [],
+    ...(opts.budgetUsd !== undefined ? { budgetUsd: opts.budgetUsd } : {}),
+    ...(opts.tokenBudget !== undefined ? { tokenBudget: opts.tokenBudget } : {}),
   };
   fs.writeFileSync(path.join(taskDir, 'task.json'), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
 
@@ -169,16 +187,81 @@ export function getTask(tasksDir: string, slug: string): TaskContext {
   };
 }
 
+// ── Manifest updates ────────────────────────────────────────────
+
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10_000;    // a lock this old was left by a writer that died
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/** Run `fn` holding `task.json.lock` — an exclusive-create lock file shared with other processes. */
+function withManifestLock<T>(taskDir: string, fn: () => T): T {
+  const lockPath = path.join(taskDir, 'task.json.lock');
+  let fd: number | undefined;
+  while (fd === undefined) {
+    try {
+      fd = fs.openSync(lockPath, 'wx');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) fs.rmSync(lockPath, { force: true });
+      } catch { /* released meanwhile */ }
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    fs.closeSync(fd);
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function assertTaskExists(taskDir: string): void {
+  if (!fs.existsSync(path.join(taskDir, 'task.json'))) {
+    throw new Error(`Task not found at ${taskDir}`);
+  }
+}
+
+/** Read a task's manifest. Throws when the task does not exist. */
+export function readTaskManifest(taskDir: string): TaskManifest {
+  const manifestPath = path.join(taskDir, 'task.json');
+  assertTaskExists(taskDir);
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as TaskManifest;
+}
+
+/**
+ * Change a task's manifest in place. The read, `update` and write happen under
+ * the manifest lock, so concurrent writers (the dispatch index, questions,
+ * budgets, workflow runs — in this process or another) never overwrite each
+ * other's fields; the write goes through a rename, so readers never see a
+ * partial file. `update` must be synchronous. Returns the updated manifest.
+ */
+export function updateTaskManifest(taskDir: string, update: (manifest: TaskManifest) => void): TaskManifest {
+  assertTaskExists(taskDir);
+  return withManifestLock(taskDir, () => {
+    const manifest = readTaskManifest(taskDir);
+    update(manifest);
+    const manifestPath = path.join(taskDir, 'task.json');
+    const tmpPath = `${manifestPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    fs.renameSync(tmpPath, manifestPath);
+    return manifest;
+  });
+}
+
 /**
  * List all tasks in a tasks directory.
  */
-export function listTasks(tasksDir: string): Array<{ slug: string; name: string; status: string; created: string; description?: string; dispatchCount: number }> {
+export function listTasks(tasksDir: string): Array<{ slug: string; name: string; status: string; created: string; description?: string; dispatchCount: number; budgetUsd?: number; tokenBudget?: number }> {
   if (!fs.existsSync(tasksDir)) return [];
 
   const entries = fs.readdirSync(tasksDir, { withFileTypes: true })
     .filter((d) => d.isDirectory());
 
-  const tasks: Array<{ slug: string; name: string; status: string; created: string; description?: string; dispatchCount: number }> = [];
+  const tasks: Array<{ slug: string; name: string; status: string; created: string; description?: string; dispatchCount: number; budgetUsd?: number; tokenBudget?: number }> = [];
 
   for (const entry of entries) {
     const manifestPath = path.join(tasksDir, entry.name, 'task.json');
@@ -192,6 +275,8 @@ export function listTasks(tasksDir: string): Array<{ slug: string; name: string;
         created: manifest.created,
         description: manifest.description,
         dispatchCount: manifest.dispatches.length,
+        ...(manifest.budgetUsd !== undefined ? { budgetUsd: manifest.budgetUsd } : {}),
+        ...(manifest.tokenBudget !== undefined ? { tokenBudget: manifest.tokenBudget } : {}),
       });
     } catch {
       // Skip corrupt manifests
@@ -206,17 +291,16 @@ export function listTasks(tasksDir: string): Array<{ slug: string; name: string;
  */
 export function closeTask(tasksDir: string, slug: string): void {
   const taskDir = path.join(tasksDir, slug);
-  const manifestPath = path.join(taskDir, 'task.json');
-  if (!fs.existsSync(manifestPath)) {
+  if (!fs.existsSync(path.join(taskDir, 'task.json'))) {
     throw new Error(`Task "${slug}" not found at ${taskDir}`);
   }
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as TaskManifest;
-  manifest.status = 'closed';
-  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  updateTaskManifest(taskDir, (manifest) => {
+    manifest.status = 'closed';
+  });
 }
 
 /**
- * Get all open tasks in a tasks directory.
+ * Get all tasks that are not closed (open, awaiting answers, or out of budget) in a tasks directory.
  */
 export function getOpenTasks(tasksDir: string): Array<{ slug: string; taskDir: string }> {
   if (!fs.existsSync(tasksDir)) return [];
@@ -231,7 +315,7 @@ export function getOpenTasks(tasksDir: string): Array<{ slug: string; taskDir: s
     if (!fs.existsSync(manifestPath)) continue;
     try {
       const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as TaskManifest;
-      if (manifest.status === 'open') {
+      if (manifest.status !== 'closed') {
         results.push({ slug: manifest.slug, taskDir: path.join(tasksDir, entry.name) });
       }
     } catch {
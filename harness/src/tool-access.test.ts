@@ -0,0 +1,150 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { mergeToolAccess, toolAccessOptions, formatToolAccess } from './tool-access.js';
+import { ScriptedEngine, setAgentEngine } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { RoleDefinition } from './types.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+
+// ── Merging ─────────────────────────────────────────────────────
+
+describe('mergeToolAccess', () => {
+  test('combines deny lists and leaves tools unrestricted without an allow list', () => {
+    const access = mergeToolAccess({ disallowedTools: ['Bash'] }, undefined, { disallowedTools: ['Write', 'Bash'] });
+    assert.deepEqual(access, { disallowedTools: ['Bash', 'Write'] });
+  });
+
+  test('a tool must pass every allow list; the narrower rule wins', () => {
+    const access = mergeToolAccess(
+      { allowedTools: ['Read', 'Grep', 'Bash'] },
+      { allowedTools: ['Read', 'Bash(git *)', 'Edit'] },
+    );
+    assert.deepEqual(access.allowedTools, ['Read', 'Bash(git *)']);
+  });
+
+  test('deny lists remove tools from the allow list', () => {
+    const access = mergeToolAccess({ allowedTools: ['Read', 'Edit', 'Write(*.md)'] }, { disallowedTools: ['Write'] });
+    assert.deepEqual(access.allowedTools, ['Read', 'Edit']);
+  });
+});
+
+describe('toolAccessOptions', () => {
+  test('narrows the built-in tool set to the allow list', () => {
+    const options = toolAccessOptions({ allowedTools: ['Read', 'Bash(git *)', 'mcp__harness__list_tasks'], disallowedTools: ['Edit'] });
+    assert.deepEqual(options.tools, ['Read', 'Bash']);
+    assert.deepEqual(options.allowedTools, ['Read', 'Bash(git *)', 'mcp__harness__list_tasks']);
+    assert.deepEqual(options.disallowedTools, ['Edit']);
+  });
+
+  test('passes nothing when no lists are set', () => {
+    assert.deepEqual(toolAccessOptions({}), {});
+    assert.deepEqual(formatToolAccess({}), ['Allowed tools:    all', 'Disallowed tools: (none)']);
+  });
+});
+
+// ── collabDispatch ──────────────────────────────────────────────
+
+const SESSION_ID = 'tool-access-session';
+
+function success(): SDKMessage[] {
+  return [
+    { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-sonnet-4-6' },
+    {
+      type: 'result',
+      subtype: 'success',
+      session_id: SESSION_ID,
+      result: 'done',
+      is_error: false,
+      num_turns: 1,
+      duration_ms: 5,
+      duration_api_ms: 5,
+      total_cost_usd: 0.01,
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  ] as unknown as SDKMessage[];
+}
+
+describe('collabDispatch — tool lists', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-access-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-access-repo-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-access-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  test('applies role and project lists to the SDK query', async () => {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('reviewer', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'reviewer',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You review code.',
+      modelHint: 'sonnet-latest',
+      allowedTools: ['Read', 'Grep', 'Bash'],
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', {
+      name: 'demo', description: 'Tools project', paths: [repoDir], roles: ['reviewer'],
+      disallowedTools: ['Bash'],
+    } as Project);
+
+    const ctx: CollabDispatchContext = {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+
+    const engine = new ScriptedEngine(success());
+    setAgentEngine(engine);
+    const result = await collabDispatch({ project: 'demo', role: 'reviewer', prompt: 'Review it.' }, ctx);
+
+    assert.equal(result.status, 'completed');
+    const options = engine.calls[0]?.options;
+    assert.deepEqual(options?.allowedTools, ['Read', 'Grep']);
+    assert.deepEqual(options?.tools, ['Read', 'Grep']);
+    assert.deepEqual(options?.disallowedTools, ['Bash']);
+  });
+});
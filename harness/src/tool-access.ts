@@ -0,0 +1,74 @@
+/**
+ * Tool allow/deny lists from role frontmatter (`allowed-tools`,
+ * `disallowed-tools`), project.toml (`allowedTools`, `disallowedTools`) and
+ * virtual project meta. Entries are tool names or `Tool(pattern)` rules.
+ */
+export type ToolAccess = {
+  allowedTools?: string[];      // unset = every tool
+  disallowedTools?: string[];
+};
+
+/** `Bash(git *)` → `Bash` */
+function toolName(entry: string): string {
+  const paren = entry.indexOf('(');
+  return paren === -1 ? entry : entry.slice(0, paren);
+}
+
+/** Whether an allow list admits an entry — by the same rule or by its bare tool name. */
+function permits(list: readonly string[], entry: string): boolean {
+  return list.includes(entry) || list.includes(toolName(entry));
+}
+
+/**
+ * Merge tool lists from every source. A tool must pass each allow list that
+ * is set (the narrower rule wins, so `Bash(git *)` survives against `Bash`);
+ * deny lists are combined and remove matching tools from the allow list.
+ */
+export function mergeToolAccess(...sources: Array<ToolAccess | undefined>): ToolAccess {
+  let allowed: string[] | undefined;
+  const disallowed = new Set<string>();
+
+  for (const source of sources) {
+    for (const entry of source?.disallowedTools ?? []) disallowed.add(entry);
+    const list = source?.allowedTools;
+    if (!list) continue;
+    allowed = allowed === undefined
+      ? [...list]
+      : [...allowed.filter(e => permits(list, e)), ...list.filter(e => permits(allowed!, e))];
+  }
+
+  if (allowed !== undefined) {
+    allowed = [...new Set(allowed)].filter(e => !disallowed.has(e) && !disallowed.has(toolName(e)));
+  }
+  return {
+    ...(allowed !== undefined ? { allowedTools: allowed } : {}),
+    ...(disallowed.size > 0 ? { disallowedTools: [...disallowed] } : {}),
+  };
+}
+
+/**
+ * SDK query options for a tool set. `allowedTools` only auto-approves in the
+ * SDK, so an allow list also narrows the built-in base set via `tools`.
+ */
+export function toolAccessOptions(access: ToolAccess): {
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  tools?: string[];
+} {
+  const builtIn = access.allowedTools
+    ?.filter(e => !e.startsWith('mcp__'))
+    .map(toolName);
+  return {
+    ...(access.allowedTools ? { allowedTools: access.allowedTools, tools: [...new Set(builtIn)] } : {}),
+    ...(access.disallowedTools && access.disallowedTools.length > 0 ? { disallowedTools: access.disallowedTools } : {}),
+  };
+}
+
+/** Two-line summary for `collabot dispatch --dry-run`. */
+export function formatToolAccess(access: ToolAccess): string[] {
+  const allowed = access.allowedTools === undefined
+    ? 'all'
+    : access.allowedTools.length > 0 ? access.allowedTools.join(', ') : '(none)';
+  const disallowed = access.disallowedTools?.length ? access.disallowedTools.join(', ') : '(none)';
+  return [`Allowed tools:    ${allowed}`, `Disallowed tools: ${disallowed}`];
+}
@@ -43,6 +43,11 @@ export type RoleDefinition = {
   // Role-specific fields
   modelHint: string;             // 'opus-latest' | 'sonnet-latest' | 'haiku-latest'
   permissions?: string[];        // 'agent-draft' | 'projects-list' | 'projects-create'
+  retry?: import('./retry.js').RetryPolicyOverride; // overrides config [retry] for this role
+  requireApproval?: string[];    // tool rules (e.g. 'Bash(git push*)') held for human approval
+  allowedTools?: string[];       // tools the role may use; unset = all
+  disallowedTools?: string[];    // tools removed from the role
+  bashPolicy?: import('./bash-policy.js').BashPolicy; // Bash commands the role may run
   // Body
   prompt: string;
 };
@@ -104,6 +109,13 @@ export type NonRetryableDetection = {
   count: number;
 };
 
+export type TokenBudgetDetection = {
+  usedTokens: number;
+  tokenBudget: number;
+  percent: number;   // usedTokens as a percentage of tokenBudget
+  severity: 'warning' | 'exceeded';
+};
+
 /** An event emitted from the SDK event stream during agent execution. */
 export type AgentEvent = {
   type: 'chat' | 'tool_use' | 'thinking';
@@ -153,6 +165,18 @@ export type EventType =
   | 'harness:abort'
   | 'harness:error'
   | 'harness:timeout'
+  | 'harness:budget_warning'
+  | 'harness:budget_exceeded'
+  | 'harness:retry'
+  | 'harness:model_fallback'
+  | 'harness:approval_request'
+  | 'harness:approval_decision'
+  | 'harness:cost_warning'
+  | 'harness:task_budget_exhausted'
+  | 'harness:permission_denied'
+  | 'harness:policy_denied'
+  | 'harness:write_denied'
+  | 'harness:verify'
   // Interaction
   | 'user:message'
   // System observations
@@ -168,6 +192,37 @@ export type CapturedEvent = {
   data?: Record<string, unknown>;
 };
 
+export type DispatchWorktree = {
+  repo: string;                        // repository the worktree was cut from
+  path: string;                        // worktree directory (under the task dir)
+  branch: string;
+  baseRef: string;                     // commit the branch was created from
+};
+
+export type GitSnapshot = {
+  head: string;                        // commit SHA
+  branch: string | null;               // null when HEAD is detached
+  dirty: boolean;                      // uncommitted or untracked changes
+};
+
+export type GitFileChange = {
+  path: string;
+  insertions: number;                  // 0 for binary files
+  deletions: number;
+};
+
+/** What a dispatch changed in its cwd, from git — see git-state.ts. */
+export type DispatchGitState = {
+  before: GitSnapshot;
+  baseline?: string;                   // stash commit of a dirty starting tree — files are diffed against it
+  after?: GitSnapshot;                 // set when the dispatch ends
+  commits?: Array<{ sha: string; subject: string }>; // made during the dispatch, oldest first
+  files?: GitFileChange[];             // changed since the start (baseline or before.head) — committed, uncommitted or new
+  insertions?: number;
+  deletions?: number;
+  diff?: boolean;                      // full patch saved as dispatches/{dispatchId}.diff
+};
+
 export type DispatchEnvelope = {
   dispatchId: string;                  // ULID
   taskSlug: string;
@@ -176,12 +231,17 @@ export type DispatchEnvelope = {
   cwd: string;
   startedAt: string;                   // RFC 3339
   completedAt?: string;                // RFC 3339 — null while running
-  status: 'running' | 'completed' | 'aborted' | 'timed_out' | 'crashed';
+  status: 'running' | 'completed' | 'aborted' | 'timed_out' | 'budget_exceeded' | 'crashed';
   cost?: number;
   usage?: UsageMetrics;
   structuredResult?: AgentResult;
   parentDispatchId?: string;           // null for top-level
   botId?: string;                      // set by bot sessions, absent for autonomous/CLI dispatch
+  worktree?: DispatchWorktree;         // set when the dispatch ran in an isolated git worktree
+  retryOf?: string;                    // first attempt's dispatchId — set on automatic retries
+  attempt?: number;                    // 2, 3, ... — set on automatic retries
+  fallbackFrom?: string;               // model that failed before this dispatch switched to `model`
+  git?: DispatchGitState;              // set when cwd is a git repository
 };
 
 export type DispatchFile = DispatchEnvelope & {
@@ -195,6 +255,8 @@ export type DispatchIndexEntry = {
   cost?: number;
   startedAt: string;
   parentDispatchId?: string;
+  retryOf?: string;
+  attempt?: number;
 };
 
 // ── Unified Dispatch (collabDispatch) ─────────────────────────
@@ -214,6 +276,17 @@ export type CollabDispatchOptions = {
   maxBudgetUsd?: number;
   timeoutMs?: number;
 
+  // Repo selection — basename or path from project.paths (default: first path).
+  // The project's other repos are readable via additionalDirectories.
+  repo?: string;
+
+  // Isolation (falls back to project.toml `isolation`)
+  isolation?: 'none' | 'worktree';
+  worktree?: DispatchWorktree;   // continue in an earlier dispatch's worktree (review rounds) instead of cutting a new one
+
+  // Model (hint or ID) — overrides the role's model-hint; its [models.fallbacks] chain still applies
+  model?: string;
+
   // Dispatch control
   mcpServers?: Record<string, import('@anthropic-ai/claude-agent-sdk').McpServerConfig>;
   abortController?: AbortController;
@@ -228,11 +301,32 @@ export type CollabDispatchOptions = {
   onEvent?: (event: AgentEvent) => void;
   onLoopWarning?: (pattern: string, count: number) => void;
   onCompaction?: (event: { trigger: string; preTokens: number }) => void;
+  onBudgetWarning?: (usedTokens: number, tokenBudget: number) => void;
 
   // Options
   useStructuredOutput?: boolean;      // default true for non-interactive
   loopDetectionThresholds?: LoopDetectionThresholds;
   parentDispatchId?: string;
+  recordStream?: boolean;             // record raw SDK messages (falls back to config engine.record)
+  dryRun?: boolean;                   // resolve everything, return it as `preview`, call no model
+  replay?: boolean;                   // replaying a recorded stream — one attempt, nothing written outside the task dir
+
+  // Retry (layers over config [retry] and role retry)
+  retry?: import('./retry.js').RetryPolicyOverride;
+  onRetry?: (attempt: number, maxAttempts: number, previous: CollabDispatchResult, delayMs: number) => void;
+  retryOf?: string;                   // set internally on retry attempts
+  attempt?: number;                   // set internally on retry attempts
+
+  // Model fallback (chain from [models.fallbacks])
+  onModelFallback?: (from: string, to: string, previous: CollabDispatchResult) => void;
+  fallbackOn?: readonly string[];     // set internally — abort on these signals when a fallback model remains
+  fallbackFrom?: string;              // set internally on fallback dispatches
+
+  // Tool approval (rules from role require-approval + project requireApproval)
+  onApprovalRequest?: (request: import('./approvals.js').ApprovalRequest) => void;
+
+  // Spending caps ([costs]) — fired when this dispatch pushes a cap past warnPercent or 100%
+  onCostWarning?: (warning: import('./costs.js').CapStatus) => void;
 
   // Bot prompt context (when bot is resolved externally, e.g., BSM)
   botDefinition?: BotDefinition;
@@ -251,11 +345,16 @@ export type CollabDispatchCost = {
 };
 
 export type CollabDispatchResult = {
-  status: 'completed' | 'aborted' | 'timed_out' | 'crashed';
+  status: 'completed' | 'aborted' | 'timed_out' | 'budget_exceeded' | 'crashed';
+  reason?: string;        // abort/failure reason: stall, timeout, rate_limit, error_loop, error_max_turns, ...
   result?: string;
   structuredResult?: AgentResult;
   taskSlug: string;
   dispatchId: string;
+  sessionId?: string;     // SDK session ID — set on completion, used to resume with answers
+  attempts?: number;      // total attempts when the retry policy kicked in
+  preview?: import('./dispatch-preview.js').DispatchPreview; // set on dry runs
+  git?: DispatchGitState; // what the dispatch changed — copied from its envelope
   cost: CollabDispatchCost;
   duration_ms: number;
   model: string;
@@ -0,0 +1,244 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { runVerify, buildVerifyFixPrompt, applyVerifyFailure, type VerifyPolicy } from './verify.js';
+import { ScriptedEngine, setAgentEngine, type AgentQueryParams } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { Project } from './project.js';
+import type { Config } from './config.js';
+import type { RoleDefinition } from './types.js';
+
+const tmpDirs: string[] = [];
+
+after(() => {
+  for (const dir of tmpDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeTempDir(prefix = 'verify-test-'): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function policy(commands: string[], overrides: Partial<VerifyPolicy> = {}): VerifyPolicy {
+  return { commands, timeoutSeconds: 60, fixAttempts: 0, ...overrides };
+}
+
+// Exits 0 once the agent has written `fixed` into the cwd
+const CHECK_FIXED = 'node -e "const ok = require(\'fs\').existsSync(\'fixed\'); console.log(ok ? \'ok\' : \'1 test failed\'); process.exit(ok ? 0 : 1)"';
+
+// ── runVerify ───────────────────────────────────────────────────
+
+test('runVerify runs commands in the cwd and stops at the first failure', async () => {
+  const cwd = makeTempDir();
+  fs.writeFileSync(path.join(cwd, 'marker.txt'), 'here');
+  const seen: string[] = [];
+
+  const outcome = await runVerify(policy([
+    'node -e "console.log(require(\'fs\').readFileSync(\'marker.txt\', \'utf-8\'))"',
+    'node -e "console.error(\'boom\'); process.exit(3)"',
+    'node -e "console.log(\'never\')"',
+  ]), cwd, { onResult: r => seen.push(r.command) });
+
+  assert.equal(outcome.passed, false);
+  assert.equal(outcome.results.length, 2);
+  assert.equal(seen.length, 2);
+  assert.equal(outcome.results[0]!.exitCode, 0);
+  assert.equal(outcome.results[0]!.output, 'here');
+  assert.equal(outcome.results[1]!.exitCode, 3);
+  assert.equal(outcome.results[1]!.output, 'boom');
+  assert.equal(outcome.results[1]!.timedOut, false);
+});
+
+test('runVerify kills a command at timeoutSeconds', async () => {
+  const outcome = await runVerify(policy(['node -e "setTimeout(() => {}, 10000)"'], { timeoutSeconds: 1 }), makeTempDir());
+
+  assert.equal(outcome.passed, false);
+  assert.equal(outcome.results[0]!.exitCode, null);
+  assert.equal(outcome.results[0]!.timedOut, true);
+});
+
+test('runVerify kills the whole process tree at timeoutSeconds, even when a grandchild holds the pipes', async () => {
+  const grandchild = `require('child_process').spawn(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], { stdio: 'inherit' }); setTimeout(() => {}, 10000)`;
+  const outcome = await runVerify(policy([`node -e "${grandchild}"`], { timeoutSeconds: 1 }), makeTempDir());
+
+  assert.equal(outcome.results[0]!.timedOut, true);
+  assert.ok(outcome.results[0]!.durationMs < 5000);
+});
+
+test('runVerify finishes when the command exits, leaving no background process holding its output', async () => {
+  const background = `require('child_process').spawn(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], { stdio: 'inherit' }).unref(); console.log('done')`;
+  const outcome = await runVerify(policy([`node -e "${background}"`]), makeTempDir());
+
+  assert.equal(outcome.passed, true);
+  assert.equal(outcome.results[0]!.output, 'done');
+  assert.ok(outcome.results[0]!.durationMs < 5000);
+});
+
+// ── Results ─────────────────────────────────────────────────────
+
+test('applyVerifyFailure downgrades success to partial and lists the failures; the fix prompt carries the output', () => {
+  const outcome = {
+    passed: false,
+    results: [
+      { command: 'npm run build', exitCode: 0, durationMs: 900, output: 'built', timedOut: false },
+      { command: 'npm test', exitCode: 1, durationMs: 2100, output: 'FAIL retry.test.ts', timedOut: false },
+    ],
+  };
+
+  const downgraded = applyVerifyFailure({ status: 'success', summary: 'Added retries', issues: ['flaky'] }, outcome);
+  assert.equal(downgraded.status, 'partial');
+  assert.deepEqual(downgraded.issues, ['flaky', 'Verification failed: `npm test` exited with code 1']);
+  assert.equal(applyVerifyFailure({ status: 'blocked', summary: 's' }, outcome).status, 'blocked');
+
+  const prompt = buildVerifyFixPrompt(outcome, 1, 2);
+  assert.match(prompt, /fix attempt 1 of 2/);
+  assert.match(prompt, /`npm test` exited with code 1:\n```\nFAIL retry\.test\.ts\n```/);
+  assert.doesNotMatch(prompt, /npm run build/);
+});
+
+// ── collabDispatch ──────────────────────────────────────────────
+
+/** Scripted engine that writes `fixed` into the cwd when asked to fix a verification failure. */
+class FixingEngine extends ScriptedEngine {
+  override async *query(params: AgentQueryParams): AsyncGenerator<SDKMessage, void> {
+    if (String(params.prompt).startsWith('Verification failed')) {
+      fs.writeFileSync(path.join(String(params.options?.cwd), 'fixed'), '');
+    }
+    yield* super.query(params);
+  }
+}
+
+function sessionSteps(): SDKMessage[] {
+  return [
+    { type: 'system', subtype: 'init', session_id: 'verify-session', model: 'claude-sonnet-4-6' },
+    {
+      type: 'result', subtype: 'success', session_id: 'verify-session', is_error: false,
+      result: JSON.stringify({ status: 'success', summary: 'Done', changes: ['src/a.ts'] }),
+      num_turns: 2, duration_ms: 5, duration_api_ms: 5, total_cost_usd: 0.01,
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  ] as unknown as SDKMessage[];
+}
+
+describe('collabDispatch — verify', () => {
+  let homeDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = makeTempDir('verify-home-');
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    projectsDir = makeTempDir('verify-projects-');
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  function makeCtx(verify: VerifyPolicy): { ctx: CollabDispatchContext; repo: string } {
+    const repo = makeTempDir('verify-repo-');
+    const roles = new Map<string, RoleDefinition>([['api-dev', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'api-dev',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You write APIs.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition]]);
+    const projects = new Map<string, Project>([['demo', {
+      name: 'demo', description: 'Verified project', paths: [repo], roles: ['api-dev'], verify,
+    } as Project]]);
+    const ctx: CollabDispatchContext = {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+    return { ctx, repo };
+  }
+
+  test('records harness:verify events and downgrades the result when a check fails', async () => {
+    const { ctx } = makeCtx(policy([CHECK_FIXED]));
+    const engine = new FixingEngine(sessionSteps());
+    setAgentEngine(engine);
+
+    const result = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Add a feature.' }, ctx);
+
+    assert.equal(result.status, 'completed');
+    assert.equal(engine.calls.length, 1);
+    assert.equal(result.structuredResult?.status, 'partial');
+    assert.match(result.structuredResult?.issues?.[0] ?? '', /exited with code 1/);
+
+    const taskDir = path.join(projectsDir, 'demo', 'tasks', result.taskSlug);
+    const verifyEvents = getDispatchStore().getDispatchEvents(taskDir, result.dispatchId)
+      .filter(e => e.type === 'harness:verify');
+    assert.equal(verifyEvents.length, 1);
+    assert.equal(verifyEvents[0]!.data?.exitCode, 1);
+    assert.equal(verifyEvents[0]!.data?.output, '1 test failed');
+    assert.equal(typeof verifyEvents[0]!.data?.durationMs, 'number');
+  });
+
+  test('re-prompts the same session with the failure output until the checks pass', async () => {
+    const { ctx, repo } = makeCtx(policy([CHECK_FIXED], { fixAttempts: 2 }));
+    const engine = new FixingEngine(sessionSteps());
+    setAgentEngine(engine);
+
+    const result = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Add a feature.' }, ctx);
+
+    assert.equal(result.status, 'completed');
+    assert.equal(result.structuredResult?.status, 'success');
+    assert.ok(fs.existsSync(path.join(repo, 'fixed')));
+    assert.equal(engine.calls.length, 2);
+    assert.equal(engine.calls[1]!.options.resume, 'verify-session');
+    assert.match(String(engine.calls[1]!.prompt), /```\n1 test failed\n```/);
+    assert.equal(result.cost.turns, 4);
+    assert.equal(result.cost.totalUsd, 0.02);
+
+    const taskDir = path.join(projectsDir, 'demo', 'tasks', result.taskSlug);
+    const verifyEvents = getDispatchStore().getDispatchEvents(taskDir, result.dispatchId)
+      .filter(e => e.type === 'harness:verify');
+    assert.deepEqual(verifyEvents.map(e => [e.data?.exitCode, e.data?.fixAttempt]), [[1, undefined], [0, 1]]);
+  });
+
+  test('does not verify replays', async () => {
+    const { ctx } = makeCtx(policy([CHECK_FIXED], { fixAttempts: 2 }));
+    const engine = new FixingEngine(sessionSteps());
+    setAgentEngine(engine);
+
+    const result = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Replay.', replay: true }, ctx);
+
+    assert.equal(result.status, 'completed');
+    assert.equal(result.structuredResult?.status, 'success');
+    assert.equal(engine.calls.length, 1);
+    const taskDir = path.join(projectsDir, 'demo', 'tasks', result.taskSlug);
+    assert.ok(!getDispatchStore().getDispatchEvents(taskDir, result.dispatchId).some(e => e.type === 'harness:verify'));
+  });
+});
@@ -0,0 +1,165 @@
+import { spawn } from 'node:child_process';
+import { z } from 'zod';
+import { logger } from './logger.js';
+import type { AgentResult } from './types.js';
+
+/**
+ * Verification gate — a project's `[verify]` commands run in the dispatch
+ * cwd after every successful dispatch. A failing command downgrades the
+ * structured result to `partial`; with `fixAttempts`, the same session is
+ * first re-prompted with the failure output to fix it.
+ *
+ *   [verify]
+ *   commands = ["npm run typecheck", "npm test"]
+ *   timeoutSeconds = 600      # per command
+ *   fixAttempts = 1           # re-prompts of the same session on failure
+ */
+
+// ── Policy ──────────────────────────────────────────────────────
+
+export const VerifyPolicySchema = z.object({
+  commands: z.array(z.string().min(1)).min(1),
+  timeoutSeconds: z.number().int().positive().default(600),
+  fixAttempts: z.number().int().nonnegative().default(0),
+});
+
+export type VerifyPolicy = z.infer<typeof VerifyPolicySchema>;
+
+// ── Run ─────────────────────────────────────────────────────────
+
+const MAX_OUTPUT_CHARS = 8_000;
+const EXIT_OUTPUT_GRACE_MS = 200;    // wait for output still in the pipes after the shell exits
+
+export type VerifyCommandResult = {
+  command: string;
+  exitCode: number | null;      // null when killed (timeout, abort) or the shell failed to start
+  durationMs: number;
+  output: string;               // stdout then stderr, tail-truncated
+  timedOut: boolean;
+};
+
+export type VerifyOutcome = {
+  passed: boolean;
+  results: VerifyCommandResult[];   // commands run, in order — stops at the first failure
+};
+
+/** Keep the end of the output — test runners and compilers report failures last. */
+function tail(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > MAX_OUTPUT_CHARS
+    ? `… (output truncated)\n${trimmed.slice(-MAX_OUTPUT_CHARS)}`
+    : trimmed;
+}
+
+function runCommand(command: string, cwd: string, timeoutMs: number, signal?: AbortSignal): Promise<VerifyCommandResult> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    // Own process group, so a timeout or abort also stops what the shell started (npm → node → ...)
+    const child = spawn(command, { cwd, shell: true, detached: process.platform !== 'win32', stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let killed = false;
+    let exitCode: number | null = null;
+    let settled = false;
+
+    const killGroup = () => {
+      try {
+        if (child.pid !== undefined && process.platform !== 'win32') process.kill(-child.pid, 'SIGKILL');
+        else child.kill('SIGKILL');
+      } catch { /* already gone */ }
+    };
+    const kill = () => {
+      killed = true;
+      killGroup();
+    };
+    const timer = setTimeout(kill, timeoutMs);
+    signal?.addEventListener('abort', kill, { once: true });
+    if (signal?.aborted) kill();
+
+    // Keep a bounded tail — tail() trims to MAX_OUTPUT_CHARS and marks the cut
+    child.stdout.on('data', (chunk: Buffer) => { stdout = (stdout + chunk.toString()).slice(-MAX_OUTPUT_CHARS * 2); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr = (stderr + chunk.toString()).slice(-MAX_OUTPUT_CHARS * 2); });
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', kill);
+      killGroup();    // leftover background processes would hold the pipes open
+      child.stdout.destroy();
+      child.stderr.destroy();
+      resolve({
+        command,
+        exitCode: killed ? null : exitCode,
+        durationMs: Date.now() - startedAt,
+        output: tail([stdout, stderr].filter(s => s.trim()).join('\n')),
+        timedOut: killed && !signal?.aborted,
+      });
+    };
+
+    // Resolve on exit, not close — processes left behind may keep the pipes
+    // open. `close` usually follows within moments with the last output.
+    child.on('exit', (code) => {
+      exitCode = code;
+      setTimeout(finish, EXIT_OUTPUT_GRACE_MS).unref();
+    });
+    child.on('close', finish);
+    child.on('error', finish);     // the shell failed to start
+  });
+}
+
+/**
+ * Run the policy's commands one at a time in `cwd`, calling `onResult` after
+ * each. Stops at the first failing command. Never throws.
+ */
+export async function runVerify(
+  policy: VerifyPolicy,
+  cwd: string,
+  opts: { signal?: AbortSignal; onResult?: (result: VerifyCommandResult) => void } = {},
+): Promise<VerifyOutcome> {
+  const results: VerifyCommandResult[] = [];
+  for (const command of policy.commands) {
+    if (opts.signal?.aborted) break;
+    const result = await runCommand(command, cwd, policy.timeoutSeconds * 1000, opts.signal);
+    results.push(result);
+    logger.info({ command, cwd, exitCode: result.exitCode, durationMs: result.durationMs, timedOut: result.timedOut }, 'verify command finished');
+    opts.onResult?.(result);
+    if (result.exitCode !== 0) return { passed: false, results };
+  }
+  return { passed: results.length === policy.commands.length, results };
+}
+
+// ── Results ─────────────────────────────────────────────────────
+
+/** One-line description of a command's failure, e.g. `` `npm test` exited with code 1 ``. */
+export function describeFailure(result: VerifyCommandResult): string {
+  if (result.timedOut) return `\`${result.command}\` timed out after ${Math.round(result.durationMs / 1000)}s`;
+  if (result.exitCode === null) return `\`${result.command}\` did not finish`;
+  return `\`${result.command}\` exited with code ${result.exitCode}`;
+}
+
+function failures(outcome: VerifyOutcome): VerifyCommandResult[] {
+  return outcome.results.filter(r => r.exitCode !== 0);
+}
+
+export function buildVerifyFixPrompt(outcome: VerifyOutcome, attempt: number, fixAttempts: number): string {
+  const lines = [`Verification failed after your changes (fix attempt ${attempt} of ${fixAttempts}).`];
+  for (const result of failures(outcome)) {
+    lines.push('', `${describeFailure(result)}:`, '```', result.output || '(no output)', '```');
+  }
+  lines.push('', 'Fix the failure so the command passes, then report what you changed.');
+  return lines.join('\n');
+}
+
+/**
+ * A structured result after failed verification: `success` becomes `partial`
+ * and each failure is added to `issues`. Other statuses are kept.
+ */
+export function applyVerifyFailure(result: AgentResult, outcome: VerifyOutcome): AgentResult {
+  const issues = failures(outcome).map(r => `Verification failed: ${describeFailure(r)}`);
+  return {
+    ...result,
+    status: result.status === 'success' ? 'partial' : result.status,
+    issues: [...(result.issues ?? []), ...issues],
+  };
+}
@@ -0,0 +1,163 @@
+import { test, describe, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { parseWorkflow } from './workflows.js';
+import { beginWorkflowRun, runWorkflow, getWorkflowRun, formatWorkflowRun, type WorkflowRun, type WorkflowStepDispatcher } from './workflow-run.js';
+import type { AgentResult, CollabDispatchResult } from './types.js';
+
+const tempDirs: string[] = [];
+
+after(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function makeProjectsDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-run-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const def = parseWorkflow([
+  '---',
+  'name: implement-review',
+  'maxSteps: 6',
+  'steps:',
+  '  - name: implement',
+  '    role: ts-dev',
+  '    prompt: "{{input}}"',
+  '  - name: review',
+  '    role: reviewer',
+  '    prompt: "Review {{steps.implement.summary}}"',
+  '    on:',
+  '      success: end',
+  '      partial: fix',
+  '  - name: fix',
+  '    role: ts-dev',
+  '    prompt: "Fix:\\n{{previous.issues}}"',
+  '    on:',
+  '      success: review',
+  '---',
+].join('\n'), 'implement-review.md');
+
+function dispatchResult(structured: AgentResult | undefined, status: CollabDispatchResult['status'] = 'completed'): CollabDispatchResult {
+  return {
+    status,
+    structuredResult: structured,
+    taskSlug: 'ignored',
+    dispatchId: `d-${Math.random().toString(36).slice(2, 8)}`,
+    cost: {
+      totalUsd: 0.01, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0,
+      turns: 1, tokenBudget: null, tokenBudgetPercent: null,
+    },
+    duration_ms: 1,
+    model: 'test',
+  };
+}
+
+/** Dispatcher that answers each step from a queue of results, recording the prompts it was given. */
+function scripted(results: Array<AgentResult | undefined>): { dispatch: WorkflowStepDispatcher; prompts: string[] } {
+  const prompts: string[] = [];
+  const dispatch: WorkflowStepDispatcher = async (step) => {
+    prompts.push(`${step.name}: ${step.prompt}`);
+    return dispatchResult(results.shift());
+  };
+  return { dispatch, prompts };
+}
+
+describe('runWorkflow', () => {
+  test('loops review and fix until the review passes, recording each step', async () => {
+    const task = beginWorkflowRun(def, { project: 'Lobby', projectsDir: makeProjectsDir(), input: 'Add retries' });
+    const { dispatch, prompts } = scripted([
+      { status: 'success', summary: 'Added retries' },
+      { status: 'partial', summary: 'Needs tests', issues: ['no tests'] },
+      { status: 'success', summary: 'Added tests' },
+      { status: 'success', summary: 'Looks good' },
+    ]);
+    const progress: WorkflowRun[] = [];
+
+    const run = await runWorkflow(def, task, dispatch, r => progress.push(r));
+
+    assert.equal(run.status, 'completed');
+    assert.deepEqual(run.steps.map(s => `${s.step}→${s.next}`), ['implement→review', 'review→fix', 'fix→review', 'review→end']);
+    assert.deepEqual(prompts, [
+      'implement: Add retries',
+      'review: Review Added retries',
+      'fix: Fix:\n- no tests',
+      'review: Review Added retries',
+    ]);
+    assert.ok(progress.some(r => r.currentStep === 'fix'));
+
+    const saved = getWorkflowRun(task.taskDir)!;
+    assert.equal(saved.status, 'completed');
+    assert.equal(saved.steps.length, 4);
+    assert.equal(saved.currentStep, undefined);
+    assert.match(formatWorkflowRun(saved)[0]!, /^Workflow implement-review: completed/);
+  });
+
+  test('stops as failed when a step fails or has no structured result', async () => {
+    const task = beginWorkflowRun(def, { project: 'lobby', projectsDir: makeProjectsDir(), input: 'x' });
+    const { dispatch } = scripted([undefined]);
+
+    const run = await runWorkflow(def, task, dispatch);
+
+    assert.equal(run.status, 'failed');
+    assert.equal(run.steps[0]!.outcome, 'failed');
+    assert.match(run.error!, /step "implement" ended failed/);
+  });
+
+  test('caps review/fix loops at maxSteps', async () => {
+    const task = beginWorkflowRun(def, { project: 'lobby', projectsDir: makeProjectsDir(), input: 'x' });
+    const dispatch: WorkflowStepDispatcher = async (step) =>
+      dispatchResult({ status: step.name === 'review' ? 'partial' : 'success', summary: 'again' });
+
+    const run = await runWorkflow(def, task, dispatch);
+
+    assert.equal(run.status, 'failed');
+    assert.equal(run.steps.length, 6);
+    assert.match(run.error!, /maxSteps/);
+  });
+
+  test('ends as failed when the dispatcher throws', async () => {
+    const task = beginWorkflowRun(def, { project: 'lobby', projectsDir: makeProjectsDir(), input: 'x' });
+
+    const run = await runWorkflow(def, task, async () => { throw new Error('pool closed'); });
+
+    assert.equal(run.status, 'failed');
+    assert.match(run.error!, /could not be dispatched: pool closed/);
+  });
+});
+
+describe('beginWorkflowRun', () => {
+  test('refuses a task already running a workflow, and resumes an existing task after', async () => {
+    const projectsDir = makeProjectsDir();
+    const task = beginWorkflowRun(def, { project: 'lobby', projectsDir, input: 'x' });
+
+    assert.throws(
+      () => beginWorkflowRun(def, { project: 'lobby', projectsDir, input: 'y', taskSlug: task.taskSlug }),
+      /already running workflow "implement-review"/,
+    );
+
+    await runWorkflow(def, task, scripted([{ status: 'blocked', summary: 'stuck' }]).dispatch);
+    const again = beginWorkflowRun(def, { project: 'lobby', projectsDir, input: 'y', taskSlug: task.taskSlug });
+    assert.equal(again.taskDir, task.taskDir);
+    assert.equal(getWorkflowRun(task.taskDir)!.input, 'y');
+  });
+
+  test('force replaces a run left running by a crash', () => {
+    const projectsDir = makeProjectsDir();
+    const task = beginWorkflowRun(def, { project: 'lobby', projectsDir, input: 'x' });
+
+    assert.throws(
+      () => beginWorkflowRun(def, { project: 'lobby', projectsDir, input: 'y', taskSlug: task.taskSlug }),
+      /start again with force/,
+    );
+    beginWorkflowRun(def, { project: 'lobby', projectsDir, input: 'y', taskSlug: task.taskSlug, force: true });
+    const run = getWorkflowRun(task.taskDir)!;
+    assert.equal(run.status, 'running');
+    assert.equal(run.input, 'y');
+  });
+});
@@ -0,0 +1,256 @@
+import { logger } from './logger.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { createTask, getTask, readTaskManifest, updateTaskManifest } from './task.js';
+import { getProjectTasksDir } from './project.js';
+import { nextStep, renderStepPrompt, type StepResult, type WorkflowDefinition, type WorkflowStep } from './workflows.js';
+import type { PoolPriority } from './pool.js';
+import type { CollabDispatchOptions, CollabDispatchResult, RoleDefinition } from './types.js';
+
+// ── Progress (task manifest) ────────────────────────────────
+
+/** One step dispatch within a workflow run. */
+export type WorkflowStepRun = {
+  step: string;
+  role: string;
+  dispatchId: string;
+  dispatchStatus: CollabDispatchResult['status'];
+  outcome: StepResult['status'];    // structured result status; 'failed' when there is none
+  summary?: string;
+  costUsd: number;
+  startedAt: string;                // RFC 3339
+  completedAt: string;
+  next: string;                     // step that ran after it, or 'end' / 'stop'
+};
+
+/** A workflow run, kept on the task manifest as `workflow` (the latest run). */
+export type WorkflowRun = {
+  name: string;
+  status: 'running' | 'completed' | 'failed';
+  input: string;
+  startedAt: string;
+  completedAt?: string;
+  currentStep?: string;             // set while a step is dispatched
+  steps: WorkflowStepRun[];
+  error?: string;
+};
+
+function writeRun(taskDir: string, run: WorkflowRun): void {
+  updateTaskManifest(taskDir, (manifest) => {
+    manifest.workflow = run;
+  });
+}
+
+/** The task's latest workflow run, or undefined when no workflow has run on it. */
+export function getWorkflowRun(taskDir: string): WorkflowRun | undefined {
+  try {
+    return readTaskManifest(taskDir).workflow;
+  } catch {
+    return undefined;
+  }
+}
+
+// ── Running ─────────────────────────────────────────────────
+
+export type WorkflowTask = {
+  project: string;
+  taskSlug: string;
+  taskDir: string;
+};
+
+/** Dispatch one step's role on the workflow's task. */
+export type WorkflowStepDispatcher = (
+  step: WorkflowStep & { prompt: string },   // prompt already rendered
+  task: WorkflowTask,
+) => Promise<CollabDispatchResult>;
+
+/**
+ * Resolve the task a workflow runs on — an existing one, or a new task named
+ * after the workflow — and record the run as started. Throws when the task
+ * is missing or already running a workflow. A run only ends by finishing, so
+ * one cut short by a crash or restart stays `running`; `force` replaces it.
+ */
+export function beginWorkflowRun(
+  def: WorkflowDefinition,
+  opts: { project: string; projectsDir: string; input: string; taskSlug?: string; force?: boolean },
+): WorkflowTask {
+  const tasksDir = getProjectTasksDir(opts.projectsDir, opts.project);
+  const task = opts.taskSlug
+    ? getTask(tasksDir, opts.taskSlug)
+    : createTask(tasksDir, {
+      name: `${def.name} ${opts.input}`.slice(0, 80),
+      project: opts.project,
+      description: (opts.input || def.description || def.name).slice(0, 200),
+    });
+
+  updateTaskManifest(task.taskDir, (manifest) => {
+    const current = manifest.workflow;
+    if (current?.status === 'running') {
+      if (!opts.force) {
+        throw new Error(`Task "${task.slug}" is already running workflow "${current.name}" (step ${current.currentStep ?? '?'}) — if that run was cut short by a restart, start again with force`);
+      }
+      logger.warn({ workflow: current.name, taskSlug: task.slug, step: current.currentStep }, 'replacing workflow run left running');
+    }
+    manifest.workflow = {
+      name: def.name,
+      status: 'running',
+      input: opts.input,
+      startedAt: new Date().toISOString(),
+      steps: [],
+    };
+  });
+  return { project: opts.project, taskSlug: task.slug, taskDir: task.taskDir };
+}
+
+function toStepResult(result: CollabDispatchResult): StepResult {
+  const structured = result.status === 'completed' ? result.structuredResult : undefined;
+  return { status: structured?.status ?? 'failed', structured, raw: result.result };
+}
+
+/**
+ * Run a workflow started with beginWorkflowRun. Steps run one at a time on
+ * the task; each step's outcome picks the next (see nextStep). Progress is
+ * written to the task manifest after every step and passed to onProgress.
+ * Never throws — a failed dispatch call ends the run as failed.
+ */
+export async function runWorkflow(
+  def: WorkflowDefinition,
+  task: WorkflowTask,
+  dispatch: WorkflowStepDispatcher,
+  onProgress?: (run: WorkflowRun) => void,
+): Promise<WorkflowRun> {
+  const run = getWorkflowRun(task.taskDir)!;
+  const results = new Map<string, StepResult>();
+  let previous: StepResult | undefined;
+  let step: WorkflowStep | undefined = def.steps[0];
+
+  const save = () => {
+    try {
+      writeRun(task.taskDir, run);
+    } catch (err) {
+      logger.warn({ err, taskSlug: task.taskSlug }, 'failed to record workflow progress');
+    }
+    onProgress?.({ ...run, steps: [...run.steps] });
+  };
+  const finish = (status: 'completed' | 'failed', error?: string) => {
+    run.status = status;
+    run.completedAt = new Date().toISOString();
+    delete run.currentStep;
+    if (error) run.error = error;
+    save();
+    logger.info({ workflow: def.name, taskSlug: task.taskSlug, status, steps: run.steps.length, error }, 'workflow finished');
+    return run;
+  };
+
+  logger.info({ workflow: def.name, project: task.project, taskSlug: task.taskSlug }, 'workflow starting');
+
+  while (step) {
+    if (run.steps.length >= def.maxSteps) {
+      return finish('failed', `stopped after ${def.maxSteps} steps (maxSteps) — next step was "${step.name}"`);
+    }
+
+    const prompt = renderStepPrompt(step.prompt, {
+      input: run.input,
+      project: task.project,
+      taskSlug: task.taskSlug,
+      steps: results,
+      previous,
+    });
+    run.currentStep = step.name;
+    save();
+
+    const startedAt = new Date().toISOString();
+    let result: CollabDispatchResult;
+    try {
+      result = await dispatch({ ...step, prompt }, task);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return finish('failed', `step "${step.name}" could not be dispatched: ${msg}`);
+    }
+
+    const stepResult = toStepResult(result);
+    results.set(step.name, stepResult);
+    previous = stepResult;
+    const summary = stepResult.structured?.summary ?? result.result;
+
+    const route = nextStep(def, step, stepResult.status);
+    run.steps.push({
+      step: step.name,
+      role: step.role,
+      dispatchId: result.dispatchId,
+      dispatchStatus: result.status,
+      outcome: stepResult.status,
+      ...(summary ? { summary } : {}),
+      costUsd: result.cost.totalUsd,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      next: 'done' in route ? route.done : route.step.name,
+    });
+
+    if ('done' in route) {
+      return route.done === 'end'
+        ? finish('completed')
+        : finish('failed', `step "${step.name}" ended ${stepResult.status}${result.status !== 'completed' ? ` (dispatch ${result.status})` : ''}`);
+    }
+    step = route.step;
+  }
+
+  return finish('completed');
+}
+
+// ── Dispatchers ─────────────────────────────────────────────
+
+/**
+ * Step dispatcher that takes a pool slot per step and calls collabDispatch.
+ * `mcpServersFor` picks each role's MCP servers (the CLI and WS pass
+ * selectMcpServersForRole); cron passes its job's constraints in `base`.
+ */
+export function createPoolStepDispatcher(
+  ctx: CollabDispatchContext,
+  opts: {
+    priority: PoolPriority;
+    mcpServersFor?: (role: RoleDefinition, task: WorkflowTask) => CollabDispatchOptions['mcpServers'];
+    base?: Partial<CollabDispatchOptions>;
+  },
+): WorkflowStepDispatcher {
+  return async (step, task) => {
+    const role = ctx.roles.get(step.role);
+    const controller = new AbortController();
+    const agentId = `workflow-${step.name}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    await ctx.pool.acquire({
+      id: agentId,
+      role: step.role,
+      project: task.project,
+      taskSlug: task.taskSlug,
+      startedAt: new Date(),
+      controller,
+    }, { priority: opts.priority });
+
+    try {
+      const mcpServers = role ? opts.mcpServersFor?.(role, task) : undefined;
+      return await collabDispatch({
+        ...opts.base,
+        project: task.project,
+        role: step.role,
+        prompt: step.prompt,
+        taskSlug: task.taskSlug,
+        taskDir: task.taskDir,
+        ...(step.repo ? { repo: step.repo } : {}),
+        ...(step.model ? { model: step.model } : {}),
+        ...(mcpServers ? { mcpServers } : {}),
+        abortController: controller,
+      }, ctx);
+    } finally {
+      ctx.pool.release(agentId);
+    }
+  };
+}
+
+/** One line per step for CLI output and MCP/WS summaries. */
+export function formatWorkflowRun(run: WorkflowRun): string[] {
+  return [
+    `Workflow ${run.name}: ${run.status}${run.error ? ` — ${run.error}` : ''}`,
+    ...run.steps.map((s, i) =>
+      `  ${i + 1}. ${s.step} (${s.role}) ${s.outcome} → ${s.next}  $${s.costUsd.toFixed(4)}${s.summary ? `  ${s.summary.split('\n')[0]!.slice(0, 100)}` : ''}`),
+    ...(run.currentStep ? [`  … ${run.currentStep} running`] : []),
+  ];
+}
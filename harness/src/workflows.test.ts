@@ -0,0 +1,152 @@
+import { test, describe, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { parseWorkflow, loadWorkflow, loadWorkflows, nextStep, renderStepPrompt, type StepResult } from './workflows.js';
+
+const tempDirs: string[] = [];
+
+after(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function workflowFile(frontmatter: string[], body = ''): string {
+  return ['---', ...frontmatter, '---', '', body].join('\n');
+}
+
+const REVIEW_LOOP = workflowFile([
+  'name: implement-review',
+  'description: Implement, then review until approved',
+  'steps:',
+  '  - name: implement',
+  '    role: ts-dev',
+  '    prompt: "{{input}}"',
+  '  - name: review',
+  '    role: reviewer',
+  '    prompt: "Review:\\n{{previous.changes}}"',
+  '    on:',
+  '      success: end',
+  '      partial: fix',
+  '  - name: fix',
+  '    role: ts-dev',
+  '    prompt: "Fix:\\n{{steps.review.issues}}"',
+  '    on:',
+  '      success: review',
+], 'Notes for humans.');
+
+describe('parseWorkflow', () => {
+  test('parses steps, routing and defaults', () => {
+    const def = parseWorkflow(REVIEW_LOOP, '/x/implement-review.md');
+
+    assert.equal(def.name, 'implement-review');
+    assert.equal(def.maxSteps, 20);
+    assert.equal(def.steps.length, 3);
+    assert.deepEqual(def.steps[1]!.on, { success: 'end', partial: 'fix' });
+    assert.equal(def.notes, 'Notes for humans.');
+  });
+
+  test('reports unknown targets, duplicate steps and bad template tags together', () => {
+    const content = workflowFile([
+      'name: broken',
+      'steps:',
+      '  - name: a',
+      '    role: ts-dev',
+      '    prompt: "{{steps.missing.summary}} {{previous.colour}}"',
+      '    on:',
+      '      failed: nowhere',
+      '  - name: a',
+      '    role: ts-dev',
+      '    prompt: "{{task.name}}"',
+    ]);
+
+    assert.throws(() => parseWorkflow(content, 'broken.md'), (err: Error) => {
+      assert.match(err.message, /^broken\.md: invalid workflow:/);
+      assert.match(err.message, /duplicate step "a"/);
+      assert.match(err.message, /unknown step "nowhere"/);
+      assert.match(err.message, /unknown step "missing"/);
+      assert.match(err.message, /unknown field in \{\{previous\.colour\}\}/);
+      assert.match(err.message, /unknown variable \{\{task\.name\}\}/);
+      return true;
+    });
+  });
+
+  test('rejects reserved step names and empty steps', () => {
+    const reserved = workflowFile(['name: r', 'steps:', '  - name: end', '    role: ts-dev', '    prompt: go']);
+    assert.throws(() => parseWorkflow(reserved, 'r.md'), /"end" is reserved/);
+
+    const empty = workflowFile(['name: e', 'steps: []']);
+    assert.throws(() => parseWorkflow(empty, 'e.md'), /invalid workflow frontmatter/);
+  });
+});
+
+describe('loadWorkflows', () => {
+  test('skips invalid files; loadWorkflow checks the name matches the file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflows-test-'));
+    tempDirs.push(dir);
+    fs.writeFileSync(path.join(dir, 'implement-review.md'), REVIEW_LOOP);
+    fs.writeFileSync(path.join(dir, 'broken.md'), workflowFile(['name: broken']));
+    fs.writeFileSync(path.join(dir, 'renamed.md'), REVIEW_LOOP);
+
+    assert.deepEqual(loadWorkflows(dir).map(w => w.name), ['implement-review', 'implement-review']);
+    assert.equal(loadWorkflow('implement-review', dir).steps.length, 3);
+    assert.throws(() => loadWorkflow('renamed', dir), /does not match its file name/);
+    assert.throws(() => loadWorkflow('absent', dir), /not found/);
+  });
+});
+
+describe('nextStep', () => {
+  const def = parseWorkflow(REVIEW_LOOP, 'implement-review.md');
+  const [implement, review, fix] = def.steps as [typeof def.steps[0], typeof def.steps[0], typeof def.steps[0]];
+
+  test('success and partial continue to the next step by default', () => {
+    assert.deepEqual(nextStep(def, implement, 'success'), { step: review });
+    assert.deepEqual(nextStep(def, implement, 'partial'), { step: review });
+  });
+
+  test('failed and blocked stop the run by default', () => {
+    assert.deepEqual(nextStep(def, implement, 'failed'), { done: 'stop' });
+    assert.deepEqual(nextStep(def, review, 'blocked'), { done: 'stop' });
+  });
+
+  test('follows on routes, including loops back', () => {
+    assert.deepEqual(nextStep(def, review, 'success'), { done: 'end' });
+    assert.deepEqual(nextStep(def, review, 'partial'), { step: fix });
+    assert.deepEqual(nextStep(def, fix, 'success'), { step: review });
+  });
+
+  test('next after the last step ends the run', () => {
+    assert.deepEqual(nextStep(def, fix, 'partial'), { done: 'end' });
+  });
+});
+
+describe('renderStepPrompt', () => {
+  test('fills input, task vars and step results; unrun steps render empty', () => {
+    const review: StepResult = {
+      status: 'partial',
+      structured: { status: 'partial', summary: 'Two problems', issues: ['no tests', 'typo in README'] },
+    };
+    const text = renderStepPrompt(
+      '{{input}} in {{project.name}}/{{task.slug}}\n{{previous.status}}: {{previous.summary}}\n{{steps.review.issues}}\n[{{steps.fix.summary}}]',
+      {
+        input: 'Add retries',
+        project: 'lobby',
+        taskSlug: 'add-retries',
+        steps: new Map([['review', review]]),
+        previous: review,
+      },
+    );
+
+    assert.equal(text, 'Add retries in lobby/add-retries\npartial: Two problems\n- no tests\n- typo in README\n[]');
+  });
+
+  test('result is the raw text of a step without structured output', () => {
+    const raw: StepResult = { status: 'failed', raw: 'Plain answer' };
+    const text = renderStepPrompt('{{previous.result}} / {{previous.summary}}', {
+      input: '', project: 'p', taskSlug: 't', steps: new Map(), previous: raw,
+    });
+    assert.equal(text, 'Plain answer / Plain answer');
+  });
+});
@@ -0,0 +1,238 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { logger } from './logger.js';
+import { EntityNameSchema, parseFrontmatter } from './roles.js';
+import { getInstancePath } from './paths.js';
+import { AgentResultSchema } from './types.js';
+import type { AgentResult } from './types.js';
+
+/**
+ * Workflows — declarative multi-step runs over roles, defined in
+ * `workflows/<name>.md`. Each step dispatches a role on the workflow's task;
+ * its structured result status picks the next step.
+ *
+ * Step prompts are templates:
+ *   {{input}}                     the text the workflow was started with
+ *   {{steps.<name>.<field>}}      latest result of a step that has run
+ *   {{previous.<field>}}          result of the step that ran just before
+ *   {{project.name}} {{task.slug}}
+ * Fields: status, summary, changes, issues, questions, result (raw text).
+ */
+
+// ── Frontmatter Schema ──────────────────────────────────────
+
+export type StepOutcome = AgentResult['status'];
+
+/** Where a step goes next: another step's name, `next`, `end` (done) or `stop` (failed). */
+const StepTargetSchema = z.string().min(1);
+
+const WorkflowStepSchema = z.object({
+  name: EntityNameSchema,
+  role: z.string().min(1),
+  prompt: z.string().min(1),
+  repo: z.string().min(1).optional(),     // repo within the project (default: first path)
+  model: z.string().min(1).optional(),    // overrides the role's model-hint
+  on: z.partialRecord(AgentResultSchema.shape.status, StepTargetSchema).optional(),
+});
+
+const WorkflowFrontmatterSchema = z.object({
+  name: EntityNameSchema,
+  description: z.string().max(1024).optional(),
+  project: z.string().min(1).optional(),  // default project when none is given at run time
+  maxSteps: z.number().int().positive().default(20), // step dispatches per run — bounds review/fix loops
+  steps: z.array(WorkflowStepSchema).min(1),
+});
+
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+
+export type WorkflowDefinition = {
+  name: string;
+  description?: string;
+  project?: string;
+  maxSteps: number;
+  steps: WorkflowStep[];
+  notes: string;                          // markdown body — for humans, never sent to agents
+  file: string;                           // absolute path to the .md file
+};
+
+// ── Step Routing ────────────────────────────────────────────
+
+/** Unrouted outcomes: success and partial continue to the next step; failed and blocked stop the run. */
+const DEFAULT_TARGETS: Record<StepOutcome, string> = {
+  success: 'next',
+  partial: 'next',
+  failed: 'stop',
+  blocked: 'stop',
+};
+
+const RESERVED_TARGETS = new Set(['next', 'end', 'stop']);
+
+/**
+ * Resolve where a workflow goes after a step. Returns the next step, or
+ * `end` / `stop` when the run is over.
+ */
+export function nextStep(
+  def: WorkflowDefinition,
+  step: WorkflowStep,
+  outcome: StepOutcome,
+): { step: WorkflowStep } | { done: 'end' | 'stop' } {
+  const target = step.on?.[outcome] ?? DEFAULT_TARGETS[outcome];
+  if (target === 'end' || target === 'stop') return { done: target };
+  if (target === 'next') {
+    const following = def.steps[def.steps.indexOf(step) + 1];
+    return following ? { step: following } : { done: 'end' };
+  }
+  return { step: def.steps.find(s => s.name === target)! };
+}
+
+// ── Prompt Templates ────────────────────────────────────────
+
+const RESULT_FIELDS = ['status', 'summary', 'changes', 'issues', 'questions', 'result'] as const;
+type ResultField = typeof RESULT_FIELDS[number];
+
+const TAG_RE = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/** What a finished step contributes to later prompts. */
+export type StepResult = {
+  status: StepOutcome;
+  structured?: AgentResult;
+  raw?: string;
+};
+
+export type StepPromptVars = {
+  input: string;
+  project: string;
+  taskSlug: string;
+  steps: ReadonlyMap<string, StepResult>;   // latest result per step name
+  previous?: StepResult;
+};
+
+function checkTag(tag: string, stepNames: ReadonlySet<string>): string | undefined {
+  if (tag === 'input' || tag === 'project.name' || tag === 'task.slug') return undefined;
+  const parts = tag.split('.');
+  const [scope] = parts;
+  const field = parts[parts.length - 1] ?? '';
+  if (scope === 'previous' && parts.length === 2) {
+    return (RESULT_FIELDS as readonly string[]).includes(field) ? undefined : `unknown field in {{${tag}}} (fields: ${RESULT_FIELDS.join(', ')})`;
+  }
+  if (scope === 'steps' && parts.length === 3) {
+    if (!stepNames.has(parts[1]!)) return `{{${tag}}} refers to unknown step "${parts[1]}"`;
+    return (RESULT_FIELDS as readonly string[]).includes(field) ? undefined : `unknown field in {{${tag}}} (fields: ${RESULT_FIELDS.join(', ')})`;
+  }
+  return `unknown variable {{${tag}}}`;
+}
+
+function resultField(result: StepResult | undefined, field: ResultField): string {
+  if (!result) return '';
+  if (field === 'status') return result.status;
+  if (field === 'result') return result.raw ?? result.structured?.summary ?? '';
+  if (field === 'summary') return result.structured?.summary ?? result.raw ?? '';
+  return (result.structured?.[field] ?? []).map(item => `- ${item}`).join('\n');
+}
+
+/** Fill a step prompt. Steps that have not run yet render empty. */
+export function renderStepPrompt(prompt: string, vars: StepPromptVars): string {
+  return prompt.replace(TAG_RE, (_tag, name: string) => {
+    if (name === 'input') return vars.input;
+    if (name === 'project.name') return vars.project;
+    if (name === 'task.slug') return vars.taskSlug;
+    const parts = name.split('.');
+    const field = parts[parts.length - 1] as ResultField;
+    return parts[0] === 'previous'
+      ? resultField(vars.previous, field)
+      : resultField(vars.steps.get(parts[1] ?? ''), field);
+  });
+}
+
+// ── Loader ──────────────────────────────────────────────────
+
+function workflowIssues(fm: z.infer<typeof WorkflowFrontmatterSchema>): string[] {
+  const issues: string[] = [];
+  const names = new Set<string>();
+  for (const [i, step] of fm.steps.entries()) {
+    if (names.has(step.name)) issues.push(`steps.${i}.name: duplicate step "${step.name}"`);
+    if (RESERVED_TARGETS.has(step.name)) issues.push(`steps.${i}.name: "${step.name}" is reserved`);
+    names.add(step.name);
+  }
+  for (const [i, step] of fm.steps.entries()) {
+    for (const [outcome, target] of Object.entries(step.on ?? {})) {
+      if (!RESERVED_TARGETS.has(target) && !names.has(target)) {
+        issues.push(`steps.${i}.on.${outcome}: unknown step "${target}" (or next, end, stop)`);
+      }
+    }
+    for (const match of step.prompt.matchAll(TAG_RE)) {
+      const error = checkTag(match[1] ?? '', names);
+      if (error) issues.push(`steps.${i}.prompt: ${error}`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Parse one workflow file. Throws with every frontmatter, routing and
+ * template problem, formatted like the role and cron loaders.
+ */
+export function parseWorkflow(content: string, file: string): WorkflowDefinition {
+  const filename = path.basename(file);
+  const { frontmatter, body } = parseFrontmatter(content, filename);
+
+  const result = WorkflowFrontmatterSchema.safeParse(frontmatter);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(i => `  - ${i.path.join('.')}: ${i.message}`)
+      .join('\n');
+    throw new Error(`${filename}: invalid workflow frontmatter:\n${issues}`);
+  }
+
+  const fm = result.data;
+  const issues = workflowIssues(fm);
+  if (issues.length > 0) {
+    throw new Error(`${filename}: invalid workflow:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+  }
+
+  return {
+    name: fm.name,
+    description: fm.description,
+    project: fm.project,
+    maxSteps: fm.maxSteps,
+    steps: fm.steps,
+    notes: body.trim(),
+    file,
+  };
+}
+
+/**
+ * Load every workflow in the instance `workflows/` directory. Invalid files
+ * are logged and skipped; a missing directory means no workflows.
+ */
+export function loadWorkflows(workflowsDir: string = getInstancePath('workflows')): WorkflowDefinition[] {
+  if (!fs.existsSync(workflowsDir)) return [];
+
+  const workflows: WorkflowDefinition[] = [];
+  for (const file of fs.readdirSync(workflowsDir).filter(f => f.endsWith('.md')).sort()) {
+    try {
+      workflows.push(parseWorkflow(fs.readFileSync(path.join(workflowsDir, file), 'utf-8'), path.join(workflowsDir, file)));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.error({ file, error: msg }, 'failed to load workflow — skipping');
+    }
+  }
+  return workflows;
+}
+
+/**
+ * Load one workflow by name (`workflows/<name>.md`). Throws when it is
+ * missing or invalid.
+ */
+export function loadWorkflow(name: string, workflowsDir: string = getInstancePath('workflows')): WorkflowDefinition {
+  const file = path.join(workflowsDir, `${name}.md`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Workflow "${name}" not found (expected ${file})`);
+  }
+  const def = parseWorkflow(fs.readFileSync(file, 'utf-8'), file);
+  if (def.name !== name) {
+    throw new Error(`${name}.md: workflow name "${def.name}" does not match its file name`);
+  }
+  return def;
+}
@@ -0,0 +1,163 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import {
+  createDispatchWorktree,
+  cleanupDispatchWorktree,
+  listDispatchWorktrees,
+  pruneDispatchWorktrees,
+} from './worktree.js';
+import { getDispatchStore } from './dispatch-store.js';
+import type { Project } from './project.js';
+import type { DispatchWorktree, DispatchEnvelope } from './types.js';
+
+let tmpDir: string;
+let repo: string;
+let projectsDir: string;
+let taskDir: string;
+let projects: Map<string, Project>;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+function branchExists(branch: string): boolean {
+  return git(repo, 'branch', '--list', branch) !== '';
+}
+
+function recordDispatch(dispatchId: string, status: DispatchEnvelope['status'], worktree: DispatchWorktree): void {
+  getDispatchStore().createDispatch(taskDir, {
+    dispatchId,
+    taskSlug: 'my-task',
+    role: 'ts-dev',
+    model: 'claude-sonnet-4-6',
+    cwd: worktree.path,
+    startedAt: new Date().toISOString(),
+    status,
+    worktree,
+  });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-test-'));
+  repo = path.join(tmpDir, 'repo');
+  fs.mkdirSync(repo);
+  git(repo, 'init', '-q');
+  git(repo, 'config', 'user.email', 'test@example.com');
+  git(repo, 'config', 'user.name', 'Test');
+  fs.writeFileSync(path.join(repo, 'README.md'), '# repo\n');
+  git(repo, 'add', '.');
+  git(repo, 'commit', '-q', '-m', 'init');
+
+  projectsDir = path.join(tmpDir, '.projects');
+  taskDir = path.join(projectsDir, 'acme', 'tasks', 'my-task');
+  fs.mkdirSync(taskDir, { recursive: true });
+  fs.writeFileSync(path.join(taskDir, 'task.json'), JSON.stringify({
+    slug: 'my-task', name: 'My task', project: 'Acme', status: 'open',
+    created: '2026-03-01T09:00:00.000Z', dispatches: [],
+  }));
+
+  projects = new Map([['acme', {
+    name: 'Acme', description: 'Test', paths: [repo], roles: ['ts-dev'], virtual: false,
+  }]]);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('createDispatchWorktree creates a branch and worktree under the task dir', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0001');
+
+  assert.strictEqual(wt.path, path.join(taskDir, 'worktrees', '01JWT0001'));
+  assert.strictEqual(wt.branch, 'collabot/my-task/01JWT0001');
+  assert.strictEqual(wt.baseRef, git(repo, 'rev-parse', 'HEAD'));
+  assert.ok(fs.existsSync(path.join(wt.path, 'README.md')));
+  assert.ok(branchExists(wt.branch));
+});
+
+test('createDispatchWorktree throws for a non-git directory', () => {
+  const plain = path.join(tmpDir, 'plain');
+  fs.mkdirSync(plain);
+  assert.throws(() => createDispatchWorktree(plain, taskDir, 'my-task', '01JWT0002'), /not a git repository/);
+});
+
+test('cleanup: remove-on-success removes clean worktree and empty branch', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0003');
+
+  assert.strictEqual(cleanupDispatchWorktree(wt, 'remove-on-success', 'completed'), 'removed');
+  assert.ok(!fs.existsSync(wt.path));
+  assert.ok(!branchExists(wt.branch));
+});
+
+test('cleanup: remove-on-success keeps worktree for failed dispatch', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0004');
+
+  assert.strictEqual(cleanupDispatchWorktree(wt, 'remove-on-success', 'crashed'), 'kept');
+  assert.ok(fs.existsSync(wt.path));
+});
+
+test('cleanup: keep policy never removes', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0005');
+
+  assert.strictEqual(cleanupDispatchWorktree(wt, 'keep', 'completed'), 'kept');
+  assert.ok(fs.existsSync(wt.path));
+});
+
+test('cleanup: dirty worktree is kept even with remove policy', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0006');
+  fs.writeFileSync(path.join(wt.path, 'scratch.txt'), 'uncommitted');
+
+  assert.strictEqual(cleanupDispatchWorktree(wt, 'remove', 'completed'), 'kept');
+  assert.ok(fs.existsSync(wt.path));
+});
+
+test('cleanup: branch with commits survives worktree removal', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0007');
+  fs.writeFileSync(path.join(wt.path, 'feature.txt'), 'work');
+  git(wt.path, 'add', '.');
+  git(wt.path, 'commit', '-q', '-m', 'agent work');
+
+  assert.strictEqual(cleanupDispatchWorktree(wt, 'remove', 'completed'), 'removed');
+  assert.ok(!fs.existsSync(wt.path));
+  assert.ok(branchExists(wt.branch));
+});
+
+test('listDispatchWorktrees reports worktrees with dispatch status', () => {
+  const wt = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0008');
+  recordDispatch('01JWT0008', 'running', wt);
+
+  const list = listDispatchWorktrees(projects, projectsDir);
+  assert.strictEqual(list.length, 1);
+  assert.strictEqual(list[0]!.project, 'Acme');
+  assert.strictEqual(list[0]!.taskSlug, 'my-task');
+  assert.strictEqual(list[0]!.dispatchId, '01JWT0008');
+  assert.strictEqual(list[0]!.branch, wt.branch);
+  assert.strictEqual(list[0]!.dispatchStatus, 'running');
+  assert.strictEqual(list[0]!.exists, true);
+
+  assert.strictEqual(listDispatchWorktrees(projects, projectsDir, 'other').length, 0);
+});
+
+test('pruneDispatchWorktrees removes finished dispatches and skips running or dirty ones', () => {
+  const running = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0009');
+  recordDispatch('01JWT0009', 'running', running);
+  const finished = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0010');
+  recordDispatch('01JWT0010', 'aborted', finished);
+  const dirty = createDispatchWorktree(repo, taskDir, 'my-task', '01JWT0011');
+  recordDispatch('01JWT0011', 'crashed', dirty);
+  fs.writeFileSync(path.join(dirty.path, 'scratch.txt'), 'uncommitted');
+
+  const result = pruneDispatchWorktrees(projects, projectsDir);
+  assert.deepStrictEqual(result.removed.map(w => w.dispatchId), ['01JWT0010']);
+  assert.deepStrictEqual(result.skipped.map(s => s.worktree.dispatchId).sort(), ['01JWT0009', '01JWT0011']);
+  assert.ok(!fs.existsSync(finished.path));
+  assert.ok(!branchExists(finished.branch));
+
+  const forced = pruneDispatchWorktrees(projects, projectsDir, { force: true });
+  assert.deepStrictEqual(forced.removed.map(w => w.dispatchId), ['01JWT0011']);
+  assert.ok(fs.existsSync(running.path));
+});
@@ -0,0 +1,267 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { logger } from './logger.js';
+import { getDispatchStore } from './dispatch-store.js';
+import { getProjectTasksDir, isVirtualProject } from './project.js';
+import type { Project } from './project.js';
+import type { DispatchEnvelope, DispatchWorktree } from './types.js';
+
+// ── Types ────────────────────────────────────────────────────
+
+export type WorktreeIsolation = 'none' | 'worktree';
+export type WorktreeCleanupPolicy = 'keep' | 'remove' | 'remove-on-success';
+
+export const DEFAULT_WORKTREE_CLEANUP: WorktreeCleanupPolicy = 'remove-on-success';
+
+export type WorktreeInfo = {
+  project: string;
+  repo: string;
+  taskSlug: string;
+  dispatchId: string;
+  path: string;
+  branch: string | null;
+  dispatchStatus: DispatchEnvelope['status'] | 'unknown';
+  exists: boolean;
+};
+
+export type PruneResult = {
+  removed: WorktreeInfo[];
+  skipped: Array<{ worktree: WorktreeInfo; reason: string }>;
+};
+
+// ── Git helpers ──────────────────────────────────────────────
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }).trim();
+}
+
+function isDirty(worktreePath: string): boolean {
+  return git(worktreePath, ['status', '--porcelain']) !== '';
+}
+
+function branchHasCommits(repo: string, baseRef: string, branch: string): boolean {
+  try {
+    return git(repo, ['rev-list', '--count', `${baseRef}..${branch}`]) !== '0';
+  } catch {
+    return true; // can't tell — keep the branch
+  }
+}
+
+function normalize(p: string): string {
+  const resolved = path.resolve(p);
+  try {
+    return fs.realpathSync(resolved);
+  } catch {
+    return resolved;
+  }
+}
+
+// ── Lifecycle ────────────────────────────────────────────────
+
+/**
+ * Create an isolated worktree for a dispatch at `taskDir/worktrees/<dispatchId>`,
+ * on a new branch `collabot/<taskSlug>/<dispatchId>` cut from the repo's current HEAD.
+ * Throws if the repo is not a git repository or the worktree can't be created.
+ */
+export function createDispatchWorktree(
+  repo: string,
+  taskDir: string,
+  taskSlug: string,
+  dispatchId: string,
+): DispatchWorktree {
+  let baseRef: string;
+  try {
+    baseRef = git(repo, ['rev-parse', 'HEAD']);
+  } catch {
+    throw new Error(`"${repo}" is not a git repository with at least one commit`);
+  }
+
+  const worktreePath = path.join(taskDir, 'worktrees', dispatchId);
+  const branch = `collabot/${taskSlug}/${dispatchId}`;
+  fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+
+  try {
+    git(repo, ['worktree', 'add', '-b', branch, worktreePath, baseRef]);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`git worktree add failed: ${msg}`);
+  }
+
+  logger.info({ repo, worktreePath, branch }, 'dispatch worktree created');
+  return { repo, path: worktreePath, branch, baseRef };
+}
+
+/**
+ * Continue in an earlier dispatch's worktree: the worktree itself while it
+ * exists, otherwise its branch checked out again at
+ * `taskDir/worktrees/<dispatchId>` (cleanup removes a clean worktree but keeps
+ * a branch with commits). Throws when neither is left.
+ */
+export function reuseDispatchWorktree(
+  earlier: DispatchWorktree,
+  taskDir: string,
+  dispatchId: string,
+): DispatchWorktree {
+  if (fs.existsSync(earlier.path)) return earlier;
+
+  const worktreePath = path.join(taskDir, 'worktrees', dispatchId);
+  fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+  try {
+    git(earlier.repo, ['worktree', 'prune']);
+    git(earlier.repo, ['worktree', 'add', worktreePath, earlier.branch]);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`git worktree add ${earlier.branch} failed: ${msg}`);
+  }
+
+  logger.info({ repo: earlier.repo, worktreePath, branch: earlier.branch }, 'dispatch worktree restored from branch');
+  return { ...earlier, path: worktreePath };
+}
+
+/**
+ * Apply the cleanup policy to a dispatch worktree once the dispatch is finished.
+ * Dirty worktrees are always kept so uncommitted agent work is never discarded.
+ * The branch is deleted only when it carries no commits beyond its base.
+ */
+export function cleanupDispatchWorktree(
+  worktree: DispatchWorktree,
+  policy: WorktreeCleanupPolicy,
+  status: DispatchEnvelope['status'],
+): 'removed' | 'kept' {
+  if (policy === 'keep') return 'kept';
+  if (policy === 'remove-on-success' && status !== 'completed') return 'kept';
+
+  try {
+    if (fs.existsSync(worktree.path) && isDirty(worktree.path)) {
+      logger.warn({ worktree: worktree.path }, 'dispatch worktree has uncommitted changes — keeping');
+      return 'kept';
+    }
+    removeWorktree(worktree.repo, worktree.path, worktree.branch, worktree.baseRef, false);
+    return 'removed';
+  } catch (err) {
+    logger.warn({ err, worktree: worktree.path }, 'dispatch worktree cleanup failed');
+    return 'kept';
+  }
+}
+
+function removeWorktree(repo: string, worktreePath: string, branch: string | null, baseRef: string | undefined, force: boolean): void {
+  if (fs.existsSync(worktreePath)) {
+    git(repo, ['worktree', 'remove', ...(force ? ['--force'] : []), worktreePath]);
+  }
+  git(repo, ['worktree', 'prune']);
+  if (branch && baseRef && !branchHasCommits(repo, baseRef, branch)) {
+    git(repo, ['branch', '-D', branch]);
+  }
+  logger.info({ repo, worktreePath, branch }, 'dispatch worktree removed');
+}
+
+// ── Inventory ────────────────────────────────────────────────
+
+type PorcelainEntry = { path: string; branch: string | null };
+
+function parseWorktreeList(output: string): PorcelainEntry[] {
+  const entries: PorcelainEntry[] = [];
+  let current: PorcelainEntry | undefined;
+  for (const line of output.split('\n')) {
+    if (line.startsWith('worktree ')) {
+      current = { path: line.slice('worktree '.length), branch: null };
+      entries.push(current);
+    } else if (line.startsWith('branch ') && current) {
+      current.branch = line.slice('branch '.length).replace(/^refs\/heads\//, '');
+    }
+  }
+  return entries;
+}
+
+/**
+ * List dispatch worktrees across project repos. Only worktrees living under a
+ * project's task directories (`<task>/worktrees/<dispatchId>`) are reported.
+ */
+export function listDispatchWorktrees(
+  projects: Map<string, Project>,
+  projectsDir: string,
+  projectName?: string,
+): WorktreeInfo[] {
+  const store = getDispatchStore();
+  const results: WorktreeInfo[] = [];
+
+  for (const project of projects.values()) {
+    if (isVirtualProject(project)) continue;
+    if (projectName && project.name.toLowerCase() !== projectName.toLowerCase()) continue;
+
+    const tasksDir = normalize(getProjectTasksDir(projectsDir, project.name));
+
+    for (const repo of project.paths) {
+      let output: string;
+      try {
+        output = git(repo, ['worktree', 'list', '--porcelain']);
+      } catch {
+        continue; // not a git repo (or missing) — nothing to list
+      }
+
+      for (const entry of parseWorktreeList(output)) {
+        const rel = path.relative(tasksDir, normalize(entry.path));
+        const parts = rel.split(path.sep);
+        if (parts.length !== 3 || parts[1] !== 'worktrees' || rel.startsWith('..')) continue;
+
+        const taskSlug = parts[0]!;
+        const dispatchId = parts[2]!;
+        const envelope = store.getDispatchEnvelope(path.join(tasksDir, taskSlug), dispatchId);
+
+        results.push({
+          project: project.name,
+          repo,
+          taskSlug,
+          dispatchId,
+          path: entry.path,
+          branch: entry.branch,
+          dispatchStatus: envelope?.status ?? 'unknown',
+          exists: fs.existsSync(entry.path),
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Remove dispatch worktrees whose dispatch is no longer running.
+ * Dirty worktrees are skipped unless `force` is set.
+ */
+export function pruneDispatchWorktrees(
+  projects: Map<string, Project>,
+  projectsDir: string,
+  options?: { project?: string; force?: boolean },
+): PruneResult {
+  const store = getDispatchStore();
+  const result: PruneResult = { removed: [], skipped: [] };
+
+  for (const wt of listDispatchWorktrees(projects, projectsDir, options?.project)) {
+    if (wt.dispatchStatus === 'running') {
+      result.skipped.push({ worktree: wt, reason: 'dispatch still running' });
+      continue;
+    }
+
+    try {
+      if (wt.exists && !options?.force && isDirty(wt.path)) {
+        result.skipped.push({ worktree: wt, reason: 'uncommitted changes (use force to remove)' });
+        continue;
+      }
+      const taskDir = path.join(getProjectTasksDir(projectsDir, wt.project), wt.taskSlug);
+      const baseRef = store.getDispatchEnvelope(taskDir, wt.dispatchId)?.worktree?.baseRef;
+      removeWorktree(wt.repo, wt.path, wt.branch, baseRef, options?.force === true);
+      result.removed.push(wt);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      result.skipped.push({ worktree: wt, reason: msg });
+    }
+  }
+
+  return result;
+}
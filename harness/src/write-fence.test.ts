@@ -0,0 +1,183 @@
+import { test, describe, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { HookCallbackMatcher, HookInput, SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { findBashWriteTargets, findWriteTargets, createWriteFenceHook } from './write-fence.js';
+import { ScriptedEngine, setAgentEngine } from './agent-engine.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { AgentPool } from './pool.js';
+import { _resetInstanceRoot } from './paths.js';
+import type { EventType, RoleDefinition } from './types.js';
+import { getProjectTasksDir, type Project } from './project.js';
+import type { Config } from './config.js';
+
+function toolInput(cwd: string, toolName: string, input: Record<string, unknown>): HookInput {
+  return {
+    hook_event_name: 'PreToolUse',
+    session_id: 's1',
+    transcript_path: '',
+    cwd,
+    tool_name: toolName,
+    tool_input: input,
+    tool_use_id: 't1',
+  } as HookInput;
+}
+
+async function decision(matcher: HookCallbackMatcher, input: HookInput): Promise<string | undefined> {
+  const output = await matcher.hooks[0]!(input, 't1', { signal: new AbortController().signal });
+  return (output as { hookSpecificOutput?: { permissionDecision?: string } }).hookSpecificOutput?.permissionDecision;
+}
+
+// ── Detection ───────────────────────────────────────────────────
+
+describe('findWriteTargets', () => {
+  test('reads the target path of file tools', () => {
+    assert.deepEqual(findWriteTargets('Write', { file_path: '/repo/a.ts', content: '' }), ['/repo/a.ts']);
+    assert.deepEqual(findWriteTargets('NotebookEdit', { notebook_path: 'nb.ipynb' }), ['nb.ipynb']);
+    assert.deepEqual(findWriteTargets('Read', { file_path: '/etc/passwd' }), []);
+  });
+
+  test('finds Bash redirect and tee targets', () => {
+    assert.deepEqual(
+      findBashWriteTargets('npm test > out.log 2>&1 && echo hi >> "/tmp/a b.txt"; ls | tee -a ~/list.txt'),
+      ['out.log', '/tmp/a b.txt', '~/list.txt'],
+    );
+    assert.deepEqual(findBashWriteTargets('echo oops >&2'), []);
+  });
+
+  test('moves relative Bash targets after a cd', () => {
+    assert.deepEqual(findBashWriteTargets('cd /etc && echo x > hosts'), ['/etc/hosts']);
+    assert.deepEqual(
+      findBashWriteTargets('cd src && npm test > out.log; cd "../docs" && ls | tee index.txt /tmp/abs.txt'),
+      ['src/out.log', 'docs/index.txt', '/tmp/abs.txt'],
+    );
+    assert.deepEqual(findBashWriteTargets('cd && echo x > .bashrc'), ['~/.bashrc']);
+    assert.deepEqual(findBashWriteTargets('cd /etc; cd - && echo x > a.txt'), ['a.txt']);
+  });
+});
+
+describe('createWriteFenceHook', () => {
+  test('blocks writes outside the roots and emits harness:write_denied', async () => {
+    const repo = path.join(os.tmpdir(), 'write-fence-repo');
+    const events: Array<{ type: EventType; data: Record<string, unknown> }> = [];
+    const fence = createWriteFenceHook({ roots: [repo], cwd: repo, emitEvent: (type, data) => events.push({ type, data }) });
+
+    assert.equal(await decision(fence, toolInput(repo, 'Edit', { file_path: 'src/a.ts' })), undefined);
+    assert.equal(await decision(fence, toolInput(repo, 'Bash', { command: 'npm test > /dev/null' })), undefined);
+    assert.equal(await decision(fence, toolInput(repo, 'Write', { file_path: '../other/a.ts' })), 'deny');
+    assert.equal(await decision(fence, toolInput(repo, 'Bash', { command: 'echo x > /etc/hosts' })), 'deny');
+    assert.equal(await decision(fence, toolInput(repo, 'Bash', { command: 'cd /etc && echo x > hosts' })), 'deny');
+    assert.equal(await decision(fence, toolInput(repo, 'Bash', { command: 'cd src && echo x > a.ts' })), undefined);
+
+    assert.equal(events.length, 3);
+    assert.equal(events[0]?.type, 'harness:write_denied');
+    assert.equal(events[1]?.data.path, '/etc/hosts');
+    assert.equal(events[2]?.data.path, '/etc/hosts');
+  });
+});
+
+// ── collabDispatch ──────────────────────────────────────────────
+
+const SESSION_ID = 'write-fence-session';
+
+function success(): SDKMessage[] {
+  return [
+    { type: 'system', subtype: 'init', session_id: SESSION_ID, model: 'claude-sonnet-4-6' },
+    {
+      type: 'result',
+      subtype: 'success',
+      session_id: SESSION_ID,
+      result: 'done',
+      is_error: false,
+      num_turns: 1,
+      duration_ms: 5,
+      duration_api_ms: 5,
+      total_cost_usd: 0.01,
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    },
+  ] as unknown as SDKMessage[];
+}
+
+describe('collabDispatch — write fence', () => {
+  let homeDir: string;
+  let repoDir: string;
+  let extraDir: string;
+  let projectsDir: string;
+  let prevHome: string | undefined;
+
+  before(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'write-fence-home-'));
+    fs.mkdirSync(path.join(homeDir, 'prompts'), { recursive: true });
+    fs.writeFileSync(path.join(homeDir, 'prompts', 'system.md'), 'System prompt.');
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'write-fence-repo-'));
+    extraDir = fs.mkdtempSync(path.join(os.tmpdir(), 'write-fence-extra-'));
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'write-fence-projects-'));
+    prevHome = process.env.COLLABOT_HOME;
+    process.env.COLLABOT_HOME = homeDir;
+    _resetInstanceRoot();
+  });
+
+  after(() => {
+    if (prevHome === undefined) delete process.env.COLLABOT_HOME;
+    else process.env.COLLABOT_HOME = prevHome;
+    _resetInstanceRoot();
+    for (const dir of [homeDir, repoDir, extraDir, projectsDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => setAgentEngine(undefined));
+
+  test('fences writes to the project paths, task dir and writableDirs', async () => {
+    const roles = new Map<string, RoleDefinition>();
+    roles.set('api-dev', {
+      id: '01TESTROLE000000000000000000',
+      version: '1.0.0',
+      name: 'api-dev',
+      description: 'Test role',
+      createdOn: '2026-01-01T00:00:00Z',
+      createdBy: 'test',
+      prompt: 'You write APIs.',
+      modelHint: 'sonnet-latest',
+    } as RoleDefinition);
+
+    const projects = new Map<string, Project>();
+    projects.set('demo', {
+      name: 'demo', description: 'Fenced project', paths: [repoDir], roles: ['api-dev'],
+      writableDirs: [extraDir],
+    } as Project);
+
+    const ctx: CollabDispatchContext = {
+      config: {
+        models: { default: 'sonnet-latest', aliases: { 'sonnet-latest': 'claude-sonnet-4-6' } },
+        defaults: { stallTimeoutSeconds: 300, dispatchTimeoutMs: 0, tokenBudget: 0, tokenBudgetWarnPercent: 80, maxBudgetUsd: 0 },
+        agent: { maxTurns: 0, maxBudgetUsd: 0 },
+        logging: { level: 'error' },
+        pool: { maxConcurrent: 0 },
+        mcp: { streamTimeout: 600000 },
+        cron: { enabled: false, jobsDirectory: 'cron', maxConsecutiveFailures: 5 },
+        engine: { provider: 'scripted', record: false },
+      } as Config,
+      roles,
+      bots: new Map(),
+      projects,
+      projectsDir,
+      pool: new AgentPool(),
+    };
+
+    const engine = new ScriptedEngine(success());
+    setAgentEngine(engine);
+    const result = await collabDispatch({ project: 'demo', role: 'api-dev', prompt: 'Build it.' }, ctx);
+    assert.equal(result.status, 'completed');
+
+    const fence = engine.calls[0]?.options.hooks?.PreToolUse?.find(m => m.matcher?.includes('Write'));
+    assert.ok(fence);
+    const taskDir = path.join(getProjectTasksDir(projectsDir, 'demo'), result.taskSlug);
+    assert.equal(await decision(fence, toolInput(repoDir, 'Write', { file_path: path.join(repoDir, 'a.ts') })), undefined);
+    assert.equal(await decision(fence, toolInput(repoDir, 'Write', { file_path: path.join(taskDir, 'notes.md') })), undefined);
+    assert.equal(await decision(fence, toolInput(repoDir, 'Bash', { command: `echo x > ${path.join(extraDir, 'x')}` })), undefined);
+    assert.equal(await decision(fence, toolInput(repoDir, 'Edit', { file_path: path.join(homeDir, 'config.toml') })), 'deny');
+  });
+});
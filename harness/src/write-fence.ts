@@ -0,0 +1,113 @@
+import path from 'node:path';
+import type { HookCallback, HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+import { ALWAYS_ALLOWED_PATHS, isWithinRoots, resolveShellPath, splitCommand } from './bash-policy.js';
+import type { EventType } from './types.js';
+
+/** File-writing tools and the input field holding their target path. */
+const WRITE_TOOL_PATH_FIELDS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+// ── Detection ───────────────────────────────────────────────────
+
+function unquote(token: string): string {
+  return token.replace(/^["']|["']$/g, '');
+}
+
+function isAnchored(target: string): boolean {
+  return path.isAbsolute(target) || target === '~' || target.startsWith('~/');
+}
+
+/**
+ * Paths a Bash command writes through output redirects (`>`, `>>`, `&>`,
+ * `2>`) or `tee`. Only what can be read off the command line is found —
+ * writes made by the programs themselves are not. A `cd` (or `pushd`) earlier
+ * in the line moves the relative targets after it: `cd /etc && echo x > hosts`
+ * writes `/etc/hosts`. A `cd` to a variable or command substitution cannot
+ * be followed.
+ */
+export function findBashWriteTargets(command: string): string[] {
+  const targets: string[] = [];
+  let dir: string | undefined;        // where `cd` moved to, relative to the starting cwd
+  let previousDir: string | undefined;
+  const inDir = (target: string) => dir === undefined || isAnchored(target) ? target : path.join(dir, target);
+
+  for (const segment of splitCommand(command)) {
+    const cd = segment.match(/^(?:cd|pushd)(?:\s+(.*))?$/);
+    if (cd) {
+      const arg = (cd[1]?.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).find(token => !/^-[LPe@]+$/.test(token));
+      const next = arg === undefined ? '~' : arg === '-' ? previousDir ?? '.' : inDir(unquote(arg));
+      previousDir = dir ?? '.';
+      dir = next;
+      continue;
+    }
+    // `>&2` duplicates a descriptor and writes nothing
+    for (const match of segment.matchAll(/(?:\d|&)?>>?(?!&)\s*("[^"]*"|'[^']*'|[^\s;&|<>]+)/g)) {
+      if (match[1]) targets.push(inDir(unquote(match[1])));
+    }
+    const tee = segment.match(/^tee\s+(.*)$/);
+    if (tee?.[1]) {
+      for (const token of tee[1].match(/"[^"]*"|'[^']*'|\S+/g) ?? []) {
+        if (token.startsWith('-')) continue;
+        if (/^\d?>/.test(token)) break;
+        targets.push(inDir(unquote(token)));
+      }
+    }
+  }
+  return targets;
+}
+
+/** The path a tool call writes, or paths for Bash; empty when the call writes nothing we can see. */
+export function findWriteTargets(toolName: string, toolInput: unknown): string[] {
+  const input = (toolInput ?? {}) as Record<string, unknown>;
+  if (toolName === 'Bash') {
+    return typeof input['command'] === 'string' ? findBashWriteTargets(input['command']) : [];
+  }
+  const field = WRITE_TOOL_PATH_FIELDS[toolName];
+  const target = field ? input[field] : undefined;
+  return typeof target === 'string' && target.length > 0 ? [target] : [];
+}
+
+// ── Hook ────────────────────────────────────────────────────────
+
+export type WriteFenceOptions = {
+  roots: readonly string[];       // project paths, task dir, worktree, project writableDirs
+  cwd: string;
+  emitEvent: (type: EventType, data: Record<string, unknown>) => void;
+};
+
+/** The first target outside the fence, or undefined. */
+export function findFencedWrite(targets: readonly string[], cwd: string, roots: readonly string[]): string | undefined {
+  return targets.find(target =>
+    !ALWAYS_ALLOWED_PATHS.has(target) && !isWithinRoots(resolveShellPath(target, cwd), roots));
+}
+
+/**
+ * Build the SDK `PreToolUse` hook that keeps Write/Edit/NotebookEdit calls
+ * and Bash redirects inside the fence. Blocked writes are captured as
+ * `harness:write_denied` events and returned to the agent as tool errors.
+ */
+export function createWriteFenceHook(opts: WriteFenceOptions): HookCallbackMatcher {
+  const hook: HookCallback = async (input) => {
+    if (input.hook_event_name !== 'PreToolUse') return {};
+    const cwd = input.cwd || opts.cwd;
+    const target = findFencedWrite(findWriteTargets(input.tool_name, input.tool_input), cwd, opts.roots);
+    if (!target) return {};
+
+    const resolved = resolveShellPath(target, cwd);
+    opts.emitEvent('harness:write_denied', { tool: input.tool_name, path: resolved });
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason:
+          `Write blocked: ${resolved} is outside this dispatch's writable paths (${opts.roots.join(', ')}).`,
+      },
+    };
+  };
+
+  return { matcher: [...Object.keys(WRITE_TOOL_PATH_FIELDS), 'Bash'].join('|'), hooks: [hook] };
+}
@@ -9,6 +9,7 @@ import { registerWsMethods, resolveBot, type WsMethodDeps } from './ws-methods.j
 import { BotSessionManager } from './bot-session.js';
 import { BotPlacementStore, placeBots } from './bot-placement.js';
 import { CommunicationRegistry } from './registry.js';
+import { getApprovalBroker } from './approvals.js';
 import type { WsAdapter } from './adapters/ws.js';
 import type { InboundMessage } from './comms.js';
 import type { Config } from './config.js';
@@ -64,8 +65,8 @@ function makeBots(): Map<string, BotDefinition> {
   return new Map();
 }
 
-function makeMockDeps(overrides?: { projectsDir?: string; roles?: Map<string, RoleDefinition> }): MockDeps {
-  const pool = new AgentPool();
+function makeMockDeps(overrides?: { projectsDir?: string; roles?: Map<string, RoleDefinition>; pool?: AgentPool }): MockDeps {
+  const pool = overrides?.pool ?? new AgentPool();
   const methods = new Map<string, (params: unknown) => unknown>();
   const projectsDir = overrides?.projectsDir ?? os.tmpdir();
 
@@ -210,6 +211,30 @@ test('submit_prompt — validates project exists', () => {
   );
 });
 
+test('submit_prompt — forwards repo and isolation in metadata', () => {
+  const { methods, getHandleTaskState } = makeMockDeps();
+  call(methods, 'submit_prompt', { content: 'fix the api', project: 'Acme', repo: 'backend-api', isolation: 'worktree' });
+
+  const { lastMessage } = getHandleTaskState();
+  assert.strictEqual(lastMessage?.metadata?.['repo'], 'backend-api');
+  assert.strictEqual(lastMessage?.metadata?.['isolation'], 'worktree');
+});
+
+test('submit_prompt — rejects unknown repo', () => {
+  const { methods, getHandleTaskState } = makeMockDeps();
+
+  assert.throws(
+    () => call(methods, 'submit_prompt', { content: 'hello', project: 'Acme', repo: 'web-portal' }),
+    (err: unknown) => {
+      assert.ok(err instanceof JSONRPCErrorException);
+      assert.strictEqual(err.code, -32602);
+      assert.match(err.message, /not found in project "Acme"/);
+      return true;
+    },
+  );
+  assert.strictEqual(getHandleTaskState().called, false);
+});
+
 // ─── create_task ────────────────────────────────────────────────────────────
 
 test('create_task — creates task in project', () => {
@@ -224,6 +249,45 @@ test('create_task — creates task in project', () => {
   assert.ok(typeof result['taskDir'] === 'string');
 });
 
+test('create_task — stores budget and rejects invalid values', () => {
+  const projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ws-create-task-'));
+  fs.mkdirSync(path.join(projectsDir, 'acme'), { recursive: true });
+
+  const { methods } = makeMockDeps({ projectsDir });
+  const result = call(methods, 'create_task', { project: 'Acme', name: 'Budgeted', budgetUsd: 5, tokenBudget: 100000 }) as Record<string, unknown>;
+  const manifest = JSON.parse(fs.readFileSync(path.join(result['taskDir'] as string, 'task.json'), 'utf-8'));
+  assert.equal(manifest.budgetUsd, 5);
+  assert.equal(manifest.tokenBudget, 100000);
+
+  assert.throws(
+    () => call(methods, 'create_task', { project: 'Acme', name: 'Bad', budgetUsd: -1 }),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
+  );
+  assert.throws(
+    () => call(methods, 'create_task', { project: 'Acme', name: 'Bad', tokenBudget: 1.5 }),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
+  );
+});
+
+// ─── preview_dispatch ───────────────────────────────────────────────────────
+
+test('preview_dispatch — validates params before previewing', async () => {
+  const { methods } = makeMockDeps();
+
+  await assert.rejects(
+    Promise.resolve(call(methods, 'preview_dispatch', { project: 'Acme', prompt: 'Hi' })),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
+  );
+  await assert.rejects(
+    Promise.resolve(call(methods, 'preview_dispatch', { project: 'Acme', role: 'nope', prompt: 'Hi' })),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.message.includes('not found'),
+  );
+  await assert.rejects(
+    Promise.resolve(call(methods, 'preview_dispatch', { project: 'Acme', role: 'api-dev', prompt: 'Hi', isolation: 'vm' })),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
+  );
+});
+
 test('create_task — validates project required', () => {
   const { methods } = makeMockDeps();
 
@@ -299,6 +363,36 @@ test('list_agents — returns safe JSON (no controller field)', () => {
   }
 });
 
+test('list_agents — includes queued agents with their position', async () => {
+  const { methods, pool } = makeMockDeps({ pool: new AgentPool(1) });
+  pool.register({ id: 'agent-1', role: 'api-dev', taskSlug: 'task-1', startedAt: new Date(), controller: new AbortController() });
+  const controller = new AbortController();
+  const waiting = pool.acquire({ id: 'agent-2', role: 'api-dev', taskSlug: 'task-2', startedAt: new Date(), controller }, { priority: 'cron' });
+
+  const result = call(methods, 'list_agents', {}) as { queued: Record<string, unknown>[] };
+  assert.strictEqual(result.queued.length, 1);
+  assert.strictEqual(result.queued[0]!['id'], 'agent-2');
+  assert.strictEqual(result.queued[0]!['position'], 1);
+  assert.strictEqual(result.queued[0]!['priority'], 'cron');
+
+  controller.abort();
+  await assert.rejects(waiting);
+});
+
+test('list_agents — queued agents report the limit blocking them', async () => {
+  const { methods, pool } = makeMockDeps({ pool: new AgentPool(0, { limits: { projects: { acme: 1 } } }) });
+  pool.register({ id: 'agent-1', role: 'api-dev', project: 'acme', startedAt: new Date(), controller: new AbortController() });
+  const controller = new AbortController();
+  const waiting = pool.acquire({ id: 'agent-2', role: 'api-dev', project: 'acme', startedAt: new Date(), controller });
+
+  const result = call(methods, 'list_agents', {}) as { agents: Record<string, unknown>[]; queued: Record<string, unknown>[] };
+  assert.strictEqual(result.agents[0]!['project'], 'acme');
+  assert.strictEqual(result.queued[0]!['blockedBy'], 'project acme (1)');
+
+  controller.abort();
+  await assert.rejects(waiting);
+});
+
 // ─── list_tasks ──────────────────────────────────────────────────────────────
 
 test('list_tasks — requires project param', () => {
@@ -736,3 +830,67 @@ test('set_filter_level — rejects invalid level', () => {
     (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
   );
 });
+
+// ─── Approvals ──────────────────────────────────────────────────────────────
+
+test('list_approvals / resolve_approval — answers a pending request', async () => {
+  const { methods } = makeMockDeps();
+  const { request, outcome } = getApprovalBroker().open({
+    role: 'api-dev', tool: 'Bash', target: 'git push', rule: 'Bash(git push*)', timeoutMs: 60000,
+  });
+
+  const listed = call(methods, 'list_approvals') as { approvals: Array<Record<string, unknown>> };
+  assert.ok(listed.approvals.some(a => a['approvalId'] === request.approvalId));
+
+  const result = call(methods, 'resolve_approval', { approvalId: request.approvalId, approve: false, reason: 'not today' }) as Record<string, unknown>;
+  assert.strictEqual(result['decision'], 'denied');
+  assert.deepStrictEqual(await outcome, { decision: 'denied', by: 'ws', reason: 'not today' });
+});
+
+test('resolve_approval — rejects bad params and unknown IDs', () => {
+  const { methods } = makeMockDeps();
+  assert.throws(
+    () => call(methods, 'resolve_approval', { approvalId: 'x' }),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
+  );
+  assert.throws(
+    () => call(methods, 'resolve_approval', { approvalId: 'missing', approve: true }),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32009,
+  );
+});
+
+// ─── answer_questions ───────────────────────────────────────────────────────
+
+test('answer_questions — forwards answers to the asking role on the task', () => {
+  const projectsDir = makeTempProjectDir('Acme', 'clarify', {
+    slug: 'clarify', name: 'Clarify', project: 'Acme', status: 'awaiting_answers', created: '2026-02-19T10:00:00.000Z', dispatches: [],
+    pendingQuestions: { dispatchId: 'd1', role: 'api-dev', questions: ['Which DB?', 'Which port?'], askedAt: '2026-02-19T10:05:00.000Z', channelId: 'ws-chan' },
+  });
+  const { methods, getHandleTaskState } = makeMockDeps({ projectsDir });
+
+  const result = call(methods, 'answer_questions', { project: 'Acme', taskSlug: 'clarify', answers: ['Postgres', '5432'] }) as Record<string, unknown>;
+  assert.strictEqual(result['threadId'], 'ws-chan');
+  assert.strictEqual(result['questions'], 2);
+
+  const { lastMessage } = getHandleTaskState();
+  assert.strictEqual(lastMessage?.role, 'api-dev');
+  assert.deepStrictEqual(lastMessage?.metadata, { taskSlug: 'clarify', answers: ['Postgres', '5432'] });
+  fs.rmSync(projectsDir, { recursive: true, force: true });
+});
+
+test('answer_questions — rejects tasks that are not awaiting answers', () => {
+  const projectsDir = makeTempProjectDir('Acme', 'done', {
+    slug: 'done', name: 'Done', project: 'Acme', status: 'open', created: '2026-02-19T10:00:00.000Z', dispatches: [],
+  });
+  const { methods } = makeMockDeps({ projectsDir });
+
+  assert.throws(
+    () => call(methods, 'answer_questions', { project: 'Acme', taskSlug: 'done', answers: 'Postgres' }),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32010,
+  );
+  assert.throws(
+    () => call(methods, 'answer_questions', { project: 'Acme', taskSlug: 'done', answers: 42 }),
+    (err: unknown) => err instanceof JSONRPCErrorException && err.code === -32602,
+  );
+  fs.rmSync(projectsDir, { recursive: true, force: true });
+});
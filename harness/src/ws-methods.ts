@@ -4,7 +4,7 @@ import { JSONRPCErrorException } from 'json-rpc-2.0';
 import type { WsAdapter } from './adapters/ws.js';
 import type { InboundMessage } from './comms.js';
 import type { CommunicationRegistry } from './registry.js';
-import type { AgentPool } from './pool.js';
+import { resolvePoolLimits, type AgentPool } from './pool.js';
 import type { Config } from './config.js';
 import type { RoleDefinition, CollabDispatchResult, Project } from './types.js';
 import type { McpServers } from './mcp.js';
@@ -12,13 +12,23 @@ import { selectMcpServersForRole } from './mcp.js';
 import type { BotSessionManager } from './bot-session.js';
 import type { BotPlacementStore } from './bot-placement.js';
 import type { BotDefinition } from './types.js';
-import { getProject, getProjectTasksDir, createProject, loadProjects, isVirtualProject } from './project.js';
+import { getProject, getProjectTasksDir, createProject, loadProjects, isVirtualProject, resolveProjectPath } from './project.js';
 import { buildTaskContext } from './context.js';
 import { listTasks, createTask, closeTask, getTask } from './task.js';
 import { logger } from './logger.js';
 import { resolveModelId } from './config.js';
-import { scaffoldEntity, validateEntityFrontmatter } from './entity-tools.js';
+import { scaffoldEntity, validateEntityFrontmatter, validateEntityTemplate } from './entity-tools.js';
+import { listDispatchWorktrees, pruneDispatchWorktrees } from './worktree.js';
 import type { EntityType } from './entity-tools.js';
+import { getApprovalBroker } from './approvals.js';
+import { getPendingQuestions } from './questions.js';
+import { setTaskBudget } from './task-budget.js';
+import { mergeToolAccess } from './tool-access.js';
+import { collabDispatch, type CollabDispatchContext } from './collab-dispatch.js';
+import { loadCronJob } from './cron-loader.js';
+import { previewCronJob } from './cron-bridge.js';
+import { loadWorkflow, loadWorkflows } from './workflows.js';
+import { beginWorkflowRun, runWorkflow, createPoolStepDispatcher, getWorkflowRun } from './workflow-run.js';
 
 /**
  * Resolve a bot by slug or display name (case-insensitive).
@@ -88,6 +98,8 @@ const WS_ERROR_NO_ACTIVE_SESSION = -32005;
 const WS_ERROR_PROJECT_NOT_FOUND = -32006;
 const WS_ERROR_BOT_AMBIGUOUS = -32007;
 const WS_ERROR_INVALID_MODEL = -32008;
+const WS_ERROR_APPROVAL_NOT_FOUND = -32009;
+const WS_ERROR_NOT_AWAITING_ANSWERS = -32010;
 
 export type WsMethodDeps = {
   wsAdapter: WsAdapter;
@@ -101,6 +113,7 @@ export type WsMethodDeps = {
     mcpServers: McpServers | undefined,
     projects: Map<string, Project>,
     projectsDir: string,
+    bots?: Map<string, BotDefinition>,
   ) => Promise<CollabDispatchResult>;
   roles: Map<string, RoleDefinition>;
   config: Config;
@@ -121,6 +134,10 @@ function resolveProject(deps: WsMethodDeps, projectName: string): Project {
   }
 }
 
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
 /**
  * Compute context window usage percentage.
  * The SDK aggregates token counts across all API calls within a turn.
@@ -199,6 +216,8 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     for (const [key, project] of reloaded) {
       deps.projects.set(key, project);
     }
+    // project.toml maxConcurrent may have changed
+    deps.pool.setLimits(resolvePoolLimits(deps.config.pool, deps.projects.values()));
     const projectList = [...deps.projects.values()].map((p) => ({
       name: p.name,
       description: p.description,
@@ -216,6 +235,8 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     const role = p['role'] as string | undefined;
     const projectName = p['project'] as string | undefined;
     const taskSlug = p['taskSlug'] as string | undefined;
+    const isolation = p['isolation'] as string | undefined;
+    const repo = p['repo'] as string | undefined;
 
     if (typeof content !== 'string' || content.trim() === '') {
       throw new JSONRPCErrorException('content is required and must be a non-empty string', -32602);
@@ -259,6 +280,10 @@ export function registerWsMethods(deps: WsMethodDeps): void {
           responseSink: async () => {},
           registry: deps.registry,
           mcpServers: draftMcpServers,
+          ...mergeToolAccess(draftProject, deps.placementStore?.get(resolvedBotName)),
+          bashPolicy: draftProject?.bashPolicy,
+          requireApproval: draftProject?.requireApproval,
+          projectPaths: draftProject?.paths,
         })
           .then(() => {
             const updated = deps.botSessionManager.getSession(resolvedBotName);
@@ -315,6 +340,10 @@ export function registerWsMethods(deps: WsMethodDeps): void {
         responseSink: async () => {}, // TUI uses registry broadcast
         registry: deps.registry,
         mcpServers: mcpServersForRole,
+        ...mergeToolAccess(sessionProject, deps.placementStore?.get(resolvedBotName)),
+        bashPolicy: sessionProject?.bashPolicy,
+        requireApproval: sessionProject?.requireApproval,
+        projectPaths: sessionProject?.paths,
         onCompaction: (event) => {
           deps.wsAdapter.broadcastNotification('context_compacted', {
             sessionId: session.sessionId, botName: resolvedBotName, ...event,
@@ -364,6 +393,18 @@ export function registerWsMethods(deps: WsMethodDeps): void {
       throw new JSONRPCErrorException(`Role "${role}" not found`, WS_ERROR_ROLE_NOT_FOUND);
     }
 
+    if (isolation !== undefined && isolation !== 'none' && isolation !== 'worktree') {
+      throw new JSONRPCErrorException('isolation must be "none" or "worktree"', -32602);
+    }
+
+    if (repo !== undefined) {
+      try {
+        resolveProjectPath(project, repo);
+      } catch (err) {
+        throw new JSONRPCErrorException(err instanceof Error ? err.message : String(err), -32602);
+      }
+    }
+
     const threadId = `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     const message: InboundMessage = {
       id: threadId,
@@ -372,10 +413,10 @@ export function registerWsMethods(deps: WsMethodDeps): void {
       source: 'ws',
       project: project.name,
       role,
-      metadata: { taskSlug },
+      metadata: { taskSlug, ...(repo ? { repo } : {}), ...(isolation ? { isolation } : {}) },
     };
 
-    deps.handleTask(message, deps.registry, deps.roles, deps.config, deps.pool, deps.mcpServers, deps.projects, deps.projectsDir)
+    deps.handleTask(message, deps.registry, deps.roles, deps.config, deps.pool, deps.mcpServers, deps.projects, deps.projectsDir, deps.bots)
       .catch((err: unknown) => {
         logger.error({ err }, 'ws submit_prompt: handleTask error');
       });
@@ -383,12 +424,207 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     return { threadId, taskSlug: taskSlug ?? null };
   });
 
+  // preview_dispatch — dry-run a dispatch (or a cron job's dispatch) without calling the model
+  deps.wsAdapter.addMethod('preview_dispatch', async (params: unknown) => {
+    const p = (params ?? {}) as Record<string, unknown>;
+    const cronJob = p['cronJob'];
+    const ctx: CollabDispatchContext = {
+      config: deps.config,
+      roles: deps.roles,
+      bots: deps.bots ?? new Map(),
+      projects: deps.projects,
+      projectsDir: deps.projectsDir,
+      pool: deps.pool,
+    };
+
+    let result: CollabDispatchResult;
+    if (cronJob !== undefined) {
+      if (typeof cronJob !== 'string') {
+        throw new JSONRPCErrorException('cronJob must be a string', -32602);
+      }
+      try {
+        result = await previewCronJob(loadCronJob(deps.config, cronJob), ctx);
+      } catch (err) {
+        throw new JSONRPCErrorException(err instanceof Error ? err.message : String(err), -32602);
+      }
+    } else {
+      const projectName = p['project'];
+      const role = p['role'];
+      const prompt = p['prompt'];
+      const taskSlug = p['taskSlug'];
+      const bot = p['bot'];
+      const repo = p['repo'];
+      const model = p['model'];
+      const isolation = p['isolation'];
+
+      if (typeof projectName !== 'string') {
+        throw new JSONRPCErrorException('project is required (or cronJob)', -32602);
+      }
+      if (typeof role !== 'string') {
+        throw new JSONRPCErrorException('role is required', -32602);
+      }
+      if (typeof prompt !== 'string' || prompt.trim() === '') {
+        throw new JSONRPCErrorException('prompt is required', -32602);
+      }
+      for (const [name, value] of Object.entries({ taskSlug, bot, repo, model })) {
+        if (value !== undefined && typeof value !== 'string') {
+          throw new JSONRPCErrorException(`${name} must be a string`, -32602);
+        }
+      }
+      if (isolation !== undefined && isolation !== 'none' && isolation !== 'worktree') {
+        throw new JSONRPCErrorException('isolation must be "none" or "worktree"', -32602);
+      }
+
+      const project = resolveProject(deps, projectName);
+      const roleDef = deps.roles.get(role);
+      if (!roleDef) {
+        throw new JSONRPCErrorException(`Role "${role}" not found`, WS_ERROR_ROLE_NOT_FOUND);
+      }
+      const tasksDir = getProjectTasksDir(deps.projectsDir, project.name);
+      let taskDir: string | undefined;
+      if (typeof taskSlug === 'string') {
+        try {
+          taskDir = getTask(tasksDir, taskSlug).taskDir;
+        } catch {
+          throw new JSONRPCErrorException(`Task "${taskSlug}" not found in project "${project.name}"`, WS_ERROR_TASK_NOT_FOUND);
+        }
+      }
+
+      // MCP servers are only listed in the preview — never connected
+      const mcpServers = deps.mcpServers
+        ? selectMcpServersForRole(roleDef, deps.mcpServers, {
+            taskSlug: typeof taskSlug === 'string' ? taskSlug : '', taskDir: taskDir ?? tasksDir, parentProject: project.name,
+          })
+        : undefined;
+
+      result = await collabDispatch({
+        project: project.name,
+        role,
+        prompt,
+        ...(taskDir ? { taskSlug: taskSlug as string, taskDir } : {}),
+        ...(typeof bot === 'string' ? { bot } : {}),
+        ...(typeof repo === 'string' ? { repo } : {}),
+        ...(typeof model === 'string' ? { model } : {}),
+        ...(isolation ? { isolation } : {}),
+        ...(mcpServers ? { mcpServers } : {}),
+        dryRun: true,
+      }, ctx);
+    }
+
+    if (!result.preview) {
+      // The dispatch would be refused — report why
+      throw new JSONRPCErrorException(result.result ?? `Dispatch would end ${result.status}`, -32602);
+    }
+    return { preview: result.preview };
+  });
+
+  // list_workflows — workflow definitions in the instance workflows/ directory
+  deps.wsAdapter.addMethod('list_workflows', (_params: unknown) => {
+    const workflows = loadWorkflows().map((wf) => ({
+      name: wf.name,
+      description: wf.description ?? null,
+      project: wf.project ?? null,
+      steps: wf.steps.map((s) => ({ name: s.name, role: s.role })),
+    }));
+    return { workflows };
+  });
+
+  // run_workflow — start a workflow on a new or existing task; progress arrives as workflow_status notifications
+  deps.wsAdapter.addMethod('run_workflow', (params: unknown) => {
+    const p = (params ?? {}) as Record<string, unknown>;
+    const name = p['workflow'];
+    const input = p['input'] ?? '';
+    const projectName = p['project'];
+    const taskSlug = p['taskSlug'];
+    const force = p['force'];
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new JSONRPCErrorException('workflow is required', -32602);
+    }
+    if (force !== undefined && typeof force !== 'boolean') {
+      throw new JSONRPCErrorException('force must be a boolean', -32602);
+    }
+    if (typeof input !== 'string') {
+      throw new JSONRPCErrorException('input must be a string', -32602);
+    }
+    for (const [field, value] of Object.entries({ project: projectName, taskSlug })) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new JSONRPCErrorException(`${field} must be a string`, -32602);
+      }
+    }
+
+    let def;
+    try {
+      def = loadWorkflow(name);
+    } catch (err) {
+      throw new JSONRPCErrorException(err instanceof Error ? err.message : String(err), -32602);
+    }
+    const resolvedName = (projectName as string | undefined) ?? def.project;
+    if (!resolvedName) {
+      throw new JSONRPCErrorException(`project is required — workflow "${def.name}" has no default project`, -32602);
+    }
+    const project = resolveProject(deps, resolvedName);
+
+    if (typeof taskSlug === 'string' && !fs.existsSync(path.join(getProjectTasksDir(deps.projectsDir, project.name), taskSlug, 'task.json'))) {
+      throw new JSONRPCErrorException(`Task "${taskSlug}" not found`, WS_ERROR_TASK_NOT_FOUND);
+    }
+    let task;
+    try {
+      task = beginWorkflowRun(def, { project: project.name, projectsDir: deps.projectsDir, input, taskSlug: taskSlug as string | undefined, force });
+    } catch (err) {
+      // Already running a workflow
+      throw new JSONRPCErrorException(err instanceof Error ? err.message : String(err), -32602);
+    }
+
+    const dispatchStep = createPoolStepDispatcher({
+      config: deps.config,
+      roles: deps.roles,
+      bots: deps.bots ?? new Map(),
+      projects: deps.projects,
+      projectsDir: deps.projectsDir,
+      pool: deps.pool,
+    }, {
+      priority: 'interactive',
+      mcpServersFor: deps.mcpServers
+        ? (role, t) => selectMcpServersForRole(role, deps.mcpServers!, { taskSlug: t.taskSlug, taskDir: t.taskDir, parentProject: t.project })
+        : undefined,
+    });
+
+    void runWorkflow(def, task, dispatchStep, (run) => {
+      deps.wsAdapter.broadcastNotification('workflow_status', { project: task.project, taskSlug: task.taskSlug, run });
+    });
+
+    return { workflow: def.name, project: task.project, taskSlug: task.taskSlug };
+  });
+
+  // get_workflow_status — a task's latest workflow run
+  deps.wsAdapter.addMethod('get_workflow_status', (params: unknown) => {
+    const p = (params ?? {}) as Record<string, unknown>;
+    const projectName = p['project'];
+    const slug = p['taskSlug'];
+    if (typeof projectName !== 'string') {
+      throw new JSONRPCErrorException('project is required', -32602);
+    }
+    if (typeof slug !== 'string') {
+      throw new JSONRPCErrorException('taskSlug is required', -32602);
+    }
+
+    const project = resolveProject(deps, projectName);
+    const taskDir = path.join(getProjectTasksDir(deps.projectsDir, project.name), slug);
+    if (!fs.existsSync(path.join(taskDir, 'task.json'))) {
+      throw new JSONRPCErrorException(`Task "${slug}" not found`, WS_ERROR_TASK_NOT_FOUND);
+    }
+    return { run: getWorkflowRun(taskDir) ?? null };
+  });
+
   // create_task — create a task in a project
   deps.wsAdapter.addMethod('create_task', (params: unknown) => {
     const p = params as Record<string, unknown>;
     const projectName = p['project'] as string | undefined;
     const name = p['name'] as string | undefined;
     const description = p['description'] as string | undefined;
+    const budgetUsd = p['budgetUsd'];
+    const tokenBudget = p['tokenBudget'];
 
     if (typeof projectName !== 'string') {
       throw new JSONRPCErrorException('project is required', -32602);
@@ -396,17 +632,60 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     if (typeof name !== 'string' || name.trim() === '') {
       throw new JSONRPCErrorException('name is required and must be a non-empty string', -32602);
     }
+    if (budgetUsd !== undefined && !isPositiveNumber(budgetUsd)) {
+      throw new JSONRPCErrorException('budgetUsd must be a positive number', -32602);
+    }
+    if (tokenBudget !== undefined && !(isPositiveNumber(tokenBudget) && Number.isInteger(tokenBudget))) {
+      throw new JSONRPCErrorException('tokenBudget must be a positive integer', -32602);
+    }
 
     const project = resolveProject(deps, projectName);
     if (isVirtualProject(project)) {
       throw new JSONRPCErrorException(`Cannot create tasks in virtual project "${project.name}"`, -32602);
     }
     const tasksDir = getProjectTasksDir(deps.projectsDir, project.name);
-    const task = createTask(tasksDir, { name, project: project.name, description });
+    const task = createTask(tasksDir, { name, project: project.name, description, budgetUsd, tokenBudget });
 
     return { slug: task.slug, taskDir: task.taskDir, slugModified: task.slugModified };
   });
 
+  // set_task_budget — set or clear (null) a task's cumulative budget
+  deps.wsAdapter.addMethod('set_task_budget', (params: unknown) => {
+    const p = params as Record<string, unknown>;
+    const projectName = p['project'] as string | undefined;
+    const slug = p['slug'] as string | undefined;
+    const budgetUsd = p['budgetUsd'];
+    const tokenBudget = p['tokenBudget'];
+
+    if (typeof projectName !== 'string') {
+      throw new JSONRPCErrorException('project is required', -32602);
+    }
+    if (typeof slug !== 'string') {
+      throw new JSONRPCErrorException('slug is required', -32602);
+    }
+    if (budgetUsd === undefined && tokenBudget === undefined) {
+      throw new JSONRPCErrorException('budgetUsd or tokenBudget is required', -32602);
+    }
+    if (budgetUsd !== undefined && budgetUsd !== null && !isPositiveNumber(budgetUsd)) {
+      throw new JSONRPCErrorException('budgetUsd must be a positive number or null', -32602);
+    }
+    if (tokenBudget !== undefined && tokenBudget !== null && !(isPositiveNumber(tokenBudget) && Number.isInteger(tokenBudget))) {
+      throw new JSONRPCErrorException('tokenBudget must be a positive integer or null', -32602);
+    }
+
+    const project = resolveProject(deps, projectName);
+    const tasksDir = getProjectTasksDir(deps.projectsDir, project.name);
+    let taskDir: string;
+    try {
+      taskDir = getTask(tasksDir, slug).taskDir;
+    } catch {
+      throw new JSONRPCErrorException(`Task "${slug}" not found in project "${project.name}"`, -32602);
+    }
+
+    const status = setTaskBudget(taskDir, { budgetUsd, tokenBudget });
+    return { slug, budget: status ?? null };
+  });
+
   // close_task — close a task in a project
   deps.wsAdapter.addMethod('close_task', (params: unknown) => {
     const p = params as Record<string, unknown>;
@@ -432,6 +711,56 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     return { success: true };
   });
 
+  // answer_questions — answer a task parked on agent questions; resumes the asking session
+  deps.wsAdapter.addMethod('answer_questions', (params: unknown) => {
+    const p = params as Record<string, unknown>;
+    const projectName = p['project'] as string | undefined;
+    const slug = p['taskSlug'] as string | undefined;
+    const answers = p['answers'];
+
+    if (typeof projectName !== 'string') {
+      throw new JSONRPCErrorException('project is required', -32602);
+    }
+    if (typeof slug !== 'string') {
+      throw new JSONRPCErrorException('taskSlug is required', -32602);
+    }
+    const isList = Array.isArray(answers) && answers.every(a => typeof a === 'string');
+    if (!isList && (typeof answers !== 'string' || answers.trim() === '')) {
+      throw new JSONRPCErrorException('answers must be a non-empty string or an array of strings', -32602);
+    }
+
+    const project = resolveProject(deps, projectName);
+    const tasksDir = getProjectTasksDir(deps.projectsDir, project.name);
+    let taskDir: string;
+    try {
+      taskDir = getTask(tasksDir, slug).taskDir;
+    } catch {
+      throw new JSONRPCErrorException(`Task "${slug}" not found`, WS_ERROR_TASK_NOT_FOUND);
+    }
+    const pending = getPendingQuestions(taskDir);
+    if (!pending) {
+      throw new JSONRPCErrorException(`Task "${slug}" is not awaiting answers`, WS_ERROR_NOT_AWAITING_ANSWERS);
+    }
+
+    const threadId = pending.channelId ?? `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const message: InboundMessage = {
+      id: `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      content: isList ? (answers as string[]).join('\n') : answers as string,
+      threadId,
+      source: 'ws',
+      project: project.name,
+      role: pending.role,
+      metadata: { taskSlug: slug, ...(isList ? { answers } : {}) },
+    };
+
+    deps.handleTask(message, deps.registry, deps.roles, deps.config, deps.pool, deps.mcpServers, deps.projects, deps.projectsDir, deps.bots)
+      .catch((err: unknown) => {
+        logger.error({ err }, 'ws answer_questions: handleTask error');
+      });
+
+    return { threadId, taskSlug: slug, questions: pending.questions.length };
+  });
+
   // draft — start a conversational session with a bot
   deps.wsAdapter.addMethod('draft', (params: unknown) => {
     const p = params as Record<string, unknown>;
@@ -652,17 +981,30 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     return { success: true, message: 'Agent killed' };
   });
 
-  // list_agents — strip AbortController before returning
+  // list_agents — strip AbortController before returning; queued agents carry their position and blocking limit
   deps.wsAdapter.addMethod('list_agents', (_params: unknown) => {
     const agents = deps.pool.list().map(a => ({
       id: a.id,
       role: a.role,
+      project: a.project ?? null,
       botId: a.botId ?? null,
       botName: a.botName ?? null,
       taskSlug: a.taskSlug,
       startedAt: a.startedAt.toISOString(),
     }));
-    return { agents };
+    const queued = deps.pool.queued().map(q => ({
+      id: q.id,
+      role: q.role,
+      project: q.project ?? null,
+      botId: q.botId ?? null,
+      botName: q.botName ?? null,
+      taskSlug: q.taskSlug,
+      priority: q.priority,
+      position: q.position,
+      enqueuedAt: q.enqueuedAt.toISOString(),
+      blockedBy: q.blockedBy ?? null,
+    }));
+    return { agents, queued };
   });
 
   // list_tasks — read task directories from a project
@@ -701,10 +1043,32 @@ export function registerWsMethods(deps: WsMethodDeps): void {
       throw new JSONRPCErrorException(`Task "${slug}" not found`, WS_ERROR_TASK_NOT_FOUND);
     }
 
-    const context = buildTaskContext(taskDir);
+    const context = buildTaskContext(taskDir, { tokenBudget: deps.config.context?.tokenBudget });
     return { context };
   });
 
+  // list_worktrees — dispatch worktrees across project repos
+  deps.wsAdapter.addMethod('list_worktrees', (params: unknown) => {
+    const p = (params ?? {}) as Record<string, unknown>;
+    const projectName = p['project'] as string | undefined;
+
+    if (projectName !== undefined) resolveProject(deps, projectName);
+
+    const worktrees = listDispatchWorktrees(deps.projects, deps.projectsDir, projectName);
+    return { worktrees };
+  });
+
+  // prune_worktrees — remove worktrees whose dispatch is no longer running
+  deps.wsAdapter.addMethod('prune_worktrees', (params: unknown) => {
+    const p = (params ?? {}) as Record<string, unknown>;
+    const projectName = p['project'] as string | undefined;
+    const force = p['force'] === true;
+
+    if (projectName !== undefined) resolveProject(deps, projectName);
+
+    return pruneDispatchWorktrees(deps.projects, deps.projectsDir, { project: projectName, force });
+  });
+
   // entity_scaffold — generate a new entity file from template
   deps.wsAdapter.addMethod('entity_scaffold', (params: unknown) => {
     const p = params as Record<string, unknown>;
@@ -731,7 +1095,7 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     }
   });
 
-  // entity_validate — validate entity frontmatter against schema
+  // entity_validate — validate entity frontmatter against schema and the body's prompt template
   deps.wsAdapter.addMethod('entity_validate', (params: unknown) => {
     const p = params as Record<string, unknown>;
     const content = p['content'] as string | undefined;
@@ -742,7 +1106,9 @@ export function registerWsMethods(deps: WsMethodDeps): void {
     }
 
     const result = validateEntityFrontmatter(content, type as EntityType);
-    return result;
+    const templateResult = validateEntityTemplate(content);
+    if (templateResult.valid) return result;
+    return { valid: false, errors: [...(result.errors ?? []), ...(templateResult.errors ?? [])] };
   });
 
   // ── Bot Management Methods ────────────────────────────────────
@@ -929,4 +1295,36 @@ export function registerWsMethods(deps: WsMethodDeps): void {
 
     return { botName, filterLevel: level };
   });
+
+  // ── Approvals ───────────────────────────────────────────────
+
+  // list_approvals — tool calls currently waiting on a human
+  deps.wsAdapter.addMethod('list_approvals', (_params: unknown) => {
+    return { approvals: getApprovalBroker().list() };
+  });
+
+  // resolve_approval — approve or deny a pending tool call
+  deps.wsAdapter.addMethod('resolve_approval', (params: unknown) => {
+    const p = params as Record<string, unknown>;
+    const approvalId = p['approvalId'];
+    const approve = p['approve'];
+    const reason = p['reason'];
+
+    if (typeof approvalId !== 'string') {
+      throw new JSONRPCErrorException('approvalId must be a string', -32602);
+    }
+    if (typeof approve !== 'boolean') {
+      throw new JSONRPCErrorException('approve must be a boolean', -32602);
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new JSONRPCErrorException('reason must be a string', -32602);
+    }
+
+    const request = getApprovalBroker().resolve(approvalId, approve, 'ws', reason);
+    if (!request) {
+      throw new JSONRPCErrorException(`Approval "${approvalId}" not found or already answered`, WS_ERROR_APPROVAL_NOT_FOUND);
+    }
+
+    return { approvalId, decision: approve ? 'approved' : 'denied', tool: request.tool, target: request.target };
+  });
 }